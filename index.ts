@@ -1,117 +1,568 @@
-import { CopilotClient, defineTool } from "@github/copilot-sdk";
-import * as readline from "readline";
-import { getWorkItem } from "./utils/azure-devops.js";
-
-function parseAzureDevOpsUrl(url: string) {
-  // Format: https://dev.azure.com/{org}/{project}/_workitems/edit/{id}
-  const match = url.match(
-    /dev\.azure\.com\/([^/]+)\/([^/]+)\/_workitems\/edit\/(\d+)/,
-  );
-  if (!match) {
-    throw new Error(`Invalid Azure DevOps URL: ${url}`);
-  }
-  return {
-    organization: match[1],
-    project: decodeURIComponent(match[2]),
-    workItemId: parseInt(match[3], 10),
-  };
-}
+import "dotenv/config";
+import { execSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline/promises";
+import { parseArgs, type ParseArgsOptionsConfig } from "util";
+import {
+  fetchTicket,
+  generatePlan,
+  refinePlan,
+  implementTicket,
+  fixFailingTask,
+  type ImplementationProgress,
+} from "./server/services/copilot.js";
+import {
+  performReview,
+  DEFAULT_REVIEW_CATEGORIES,
+  type ReviewProgress,
+} from "./server/services/review-copilot.js";
+import type { StructuredReview } from "./server/services/review-findings.js";
+import { parseFrontMatter } from "./server/services/instructions.js";
+import { selectMcpServers, type SessionMcpServers } from "./server/services/mcp-servers.js";
+import {
+  formatPlanMarkdown,
+  parsePlanMarkdown,
+  upgradePlan,
+  type TicketPlan,
+} from "./server/services/plan.js";
+import { runPostTasks, type PostTask, type PostTaskResult } from "./server/services/post-tasks.js";
+import { formatPullRequestDescription } from "./server/services/ticket-context.js";
+import {
+  cloneAndBranch,
+  cleanupWorkspace,
+  commitAndPush,
+  useLocalFolder,
+  type CloneResult,
+  type PullRequestResult,
+} from "./utils/azure-devops-git.js";
+import { cloneForReview, cleanupReviewWorkspace } from "./utils/azure-devops-pr.js";
+import { findHostingProvider, getHostingProvider } from "./utils/git-hosting.js";
+import type { WorkItem } from "./utils/azure-devops.js";
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  plan <ticket-url>                      Fetch a ticket and write an implementation plan
+  implement --repo <url|path> --plan <file>
+                                         Implement a plan, run checks, push and open a PR
+  review <pr-url>                        Review a pull request
+
+Options:
+  --json                   Print the result as JSON
+  --model <name>           Copilot model to use
+  --yes, -y                Answer yes to every question; never prompt
+  --help, -h               Show this help
+
+plan:
+  --repo <url|path>        Explore this repository while planning
+  --feedback <text>        Refine the plan with this feedback (repeatable)
+  --out <file>             Write the plan to a file instead of stdout
 
-const getWeather = defineTool("get_weather", {
-  description: "Get the current weather for a city",
-  parameters: {
-    type: "object",
-    properties: {
-      city: { type: "string", description: "The city name" },
-    },
-    required: ["city"],
+implement:
+  --repo <url|path>        Repository URL to clone, or a local git checkout
+  --plan <file>            Plan written by "plan" (markdown, or JSON from --json)
+  --ticket <url>           The ticket, if the plan file does not name it
+  --post-task <command>    Check to run after implementing, e.g. "npm test" (repeatable)
+  --fix-until-green        Let Copilot fix failing checks, then run them again
+  --max-fix-attempts <n>   Fix attempts per check (default: 3)
+  --target-branch <name>   Branch the PR targets (default: the repository's default)
+  --draft                  Open the PR as a draft
+  --no-pr                  Commit and push, but do not open a PR
+
+review:
+  --category <id>          Review category (repeatable; default: ${DEFAULT_REVIEW_CATEGORIES
+    .filter((category) => category.defaultEnabled)
+    .map((category) => category.id)
+    .join(", ")})
+  --focus <text>           Extra focus area (repeatable)
+`;
+
+// Upper bound for fix-until-green, as in the web UI
+const MAX_FIX_ATTEMPTS = 10;
+
+const COMMON_OPTIONS = {
+  json: { type: "boolean" },
+  model: { type: "string" },
+  yes: { type: "boolean", short: "y" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+const COMMAND_OPTIONS = {
+  plan: {
+    repo: { type: "string" },
+    feedback: { type: "string", multiple: true },
+    out: { type: "string" },
   },
-  handler: async ({ city }) => {
-    const conditions = ["sunny", "cloudy", "rainy", "partly cloudy"];
-    const temp = Math.floor(Math.random() * 30) + 50;
-    const condition = conditions[Math.floor(Math.random() * conditions.length)];
-    return { city, temperature: `${temp}°F`, condition };
+  implement: {
+    repo: { type: "string" },
+    plan: { type: "string" },
+    ticket: { type: "string" },
+    "post-task": { type: "string", multiple: true },
+    "fix-until-green": { type: "boolean" },
+    "max-fix-attempts": { type: "string" },
+    "target-branch": { type: "string" },
+    draft: { type: "boolean" },
+    "no-pr": { type: "boolean" },
   },
-});
-
-const getTicket = defineTool("get_ticket", {
-  description:
-    "Fetch details of an Azure DevOps work item/ticket from its URL. Returns the title, description, state, and other metadata.",
-  parameters: {
-    type: "object",
-
-    properties: {
-      url: {
-        type: "string",
-        description:
-          "The full Azure DevOps work item URL (e.g., https://dev.azure.com/org/project/_workitems/edit/123)",
-      },
-    },
-    required: ["url"],
+  review: {
+    category: { type: "string", multiple: true },
+    focus: { type: "string", multiple: true },
   },
-  handler: async ({ url }) => {
-    const pat = process.env.ADO_PAT;
-    if (!pat) {
-      return { error: "ADO_PAT environment variable is not set" };
+} as const;
+
+type Command = keyof typeof COMMAND_OPTIONS;
+
+class UsageError extends Error {}
+
+// Progress goes to stderr so that stdout carries only the result
+function log(message: string): void {
+  process.stderr.write(`${message}\n`);
+}
+
+function printResult(json: boolean, data: unknown, text: string): void {
+  process.stdout.write(json ? `${JSON.stringify(data, null, 2)}\n` : text.endsWith("\n") ? text : `${text}\n`);
+}
+
+/**
+ * Ask a yes/no question. --yes answers yes; without a terminal to ask on,
+ * the answer is no.
+ */
+async function confirm(question: string, yes: boolean | undefined): Promise<boolean> {
+  if (yes) {
+    return true;
+  }
+  if (!process.stdin.isTTY) {
+    log(`${question} No (not a terminal; pass --yes to agree)`);
+    return false;
+  }
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return /^y(es)?$/i.test((await rl.question(`${question} [y/N] `)).trim());
+  } finally {
+    rl.close();
+  }
+}
+
+async function ask(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return (await rl.question(question)).trim();
+  } finally {
+    rl.close();
+  }
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+function reportMcpServers({ servers }: SessionMcpServers): void {
+  for (const server of servers.filter((candidate) => candidate.enabled)) {
+    log(`MCP server: ${server.name} (${server.reason})`);
+  }
+}
+
+function printImplementationProgress(progress: ImplementationProgress): void {
+  switch (progress.type) {
+    case "message":
+      process.stderr.write(progress.content);
+      break;
+    case "tool_end":
+      // The tool's whole output; too much for a terminal
+      break;
+    case "post_task":
+      log(progress.stream ? `  ${progress.content}` : progress.content);
+      break;
+    default:
+      log(`\n${progress.content}`);
+  }
+}
+
+function printReviewProgress(progress: ReviewProgress): void {
+  switch (progress.type) {
+    case "message":
+      process.stderr.write(progress.content);
+      break;
+    case "tool_end":
+    case "complete":
+      break;
+    default:
+      log(progress.content);
+  }
+}
+
+/**
+ * The plan file names the ticket in its front matter, so `implement` needs
+ * nothing but the file.
+ */
+function formatPlanFile(ticket: WorkItem, plan: TicketPlan): string {
+  return `---\nticket: ${ticket.url}\n---\n# [#${ticket.id}] ${ticket.title}\n\n${formatPlanMarkdown(plan)}`;
+}
+
+// A plan file as written by `plan`, or the JSON `plan --json` prints
+function readPlanFile(file: string): { plan: TicketPlan; ticketUrl: string | null } {
+  const text = fs.readFileSync(file, "utf-8");
+  if (text.trimStart().startsWith("{")) {
+    const parsed = JSON.parse(text) as { plan?: unknown; ticket?: { url?: string } };
+    const plan = upgradePlan(parsed.plan ?? parsed);
+    if (!plan) {
+      throw new UsageError(`No plan in ${file}`);
     }
+    return { plan, ticketUrl: parsed.ticket?.url ?? null };
+  }
+  const { attributes, body } = parseFrontMatter(text);
+  return {
+    plan: parsePlanMarkdown(body),
+    ticketUrl: typeof attributes.ticket === "string" ? attributes.ticket : null,
+  };
+}
 
-    const { organization, project, workItemId } = parseAzureDevOpsUrl(url);
+// Files changed in the workspace, new ones included
+function changedFiles(localPath: string): string[] {
+  return execSync("git status --porcelain", { cwd: localPath, encoding: "utf-8" })
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => line.slice(3));
+}
+
+async function planCommand(
+  [ticketUrl]: string[],
+  options: { json?: boolean; model?: string; yes?: boolean; repo?: string; feedback?: string[]; out?: string },
+  signal: AbortSignal
+): Promise<number> {
+  if (!ticketUrl) {
+    throw new UsageError("plan needs a ticket URL");
+  }
+
+  log(`Fetching ${ticketUrl}...`);
+  const ticket = await fetchTicket(ticketUrl);
+  log(`#${ticket.id} ${ticket.title} (${ticket.type}, ${ticket.state})`);
 
-    const workItem = await getWorkItem(
-      { organization, project, pat },
-      workItemId,
+  // A cloned repository is only needed while the model explores it
+  let clone: CloneResult | null = null;
+  let workingDirectory: string | undefined;
+  if (options.repo && isUrl(options.repo)) {
+    clone = await cloneAndBranch(getHostingProvider(options.repo), options.repo, ticket.id, ticket.title);
+    workingDirectory = clone.localPath;
+  } else if (options.repo) {
+    workingDirectory = path.resolve(options.repo);
+  }
+
+  try {
+    const { mcpServers, ...selection } = selectMcpServers({
+      ticket,
+      repoUrl: options.repo && isUrl(options.repo) ? options.repo : null,
+    });
+    reportMcpServers({ mcpServers, ...selection });
+
+    log("Generating plan...");
+    let plan = await generatePlan(
+      ticket,
+      workingDirectory,
+      (message) => log(message),
+      options.model,
+      signal,
+      (applied) => applied.length > 0 && log(`Instructions: ${applied.map((instruction) => instruction.name).join(", ")}`),
+      mcpServers
     );
 
-    return {
-      id: workItem.id,
-      title: workItem.title,
-      type: workItem.type,
-      state: workItem.state,
-      assignedTo: workItem.assignedTo ?? "Unassigned",
-      description: workItem.description,
-      url: workItem.url,
+    const refine = async (feedback: string) => {
+      log("Refining plan...");
+      plan = await refinePlan(ticket, plan, feedback, workingDirectory, undefined, mcpServers);
     };
+    for (const feedback of options.feedback ?? []) {
+      await refine(feedback);
+    }
+
+    // Interactive: show the plan and refine it until the user accepts it
+    if (!options.yes && process.stdin.isTTY) {
+      for (;;) {
+        log(`\n${formatPlanMarkdown(plan)}`);
+        const feedback = await ask("Feedback to refine the plan (empty to accept): ");
+        if (!feedback) {
+          break;
+        }
+        await refine(feedback);
+      }
+    }
+
+    const document = formatPlanFile(ticket, plan);
+    if (options.out) {
+      fs.writeFileSync(options.out, document);
+      log(`Plan written to ${options.out}`);
+    }
+    if (options.json || !options.out) {
+      printResult(!!options.json, { ticket: { id: ticket.id, title: ticket.title, url: ticket.url }, plan }, document);
+    }
+    return 0;
+  } finally {
+    if (clone) {
+      cleanupWorkspace(clone.localPath);
+    }
+  }
+}
+
+async function implementCommand(
+  _positionals: string[],
+  options: {
+    json?: boolean;
+    model?: string;
+    yes?: boolean;
+    repo?: string;
+    plan?: string;
+    ticket?: string;
+    "post-task"?: string[];
+    "fix-until-green"?: boolean;
+    "max-fix-attempts"?: string;
+    "target-branch"?: string;
+    draft?: boolean;
+    "no-pr"?: boolean;
   },
-});
-
-const client = new CopilotClient();
-const session = await client.createSession({
-  model: "gpt-4.1",
-  systemMessage: {
-    content:
-      "You are a helpful assistant. You can fetch weather for cities and fetch Azure DevOps tickets. When given a ticket URL, use the get_ticket tool to fetch it, then provide a clear summary of what the ticket is asking for.",
-  },
-  streaming: true,
-  tools: [getWeather, getTicket],
-});
-
-session.on("assistant.message_delta", (event) => {
-  process.stdout.write(event.data.deltaContent);
-});
-
-const rl = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout,
-});
-
-console.log("🤖  Assistant (type 'exit' to quit)");
-console.log(
-  "Try: 'What's the weather in Paris?' or paste an Azure DevOps ticket URL\n",
-);
-
-const prompt = () => {
-  rl.question("You: ", async (input) => {
-    if (input.toLowerCase() === "exit") {
-      await client.stop();
-      rl.close();
-      return;
+  signal: AbortSignal
+): Promise<number> {
+  if (!options.repo || !options.plan) {
+    throw new UsageError("implement needs --repo and --plan");
+  }
+
+  const { plan, ticketUrl: plannedTicketUrl } = readPlanFile(options.plan);
+  const ticketUrl = options.ticket ?? plannedTicketUrl;
+  if (!ticketUrl) {
+    throw new UsageError(`${options.plan} does not name its ticket; pass --ticket`);
+  }
+  if (!plan.steps.some((step) => step.enabled)) {
+    throw new UsageError(`${options.plan} has no steps`);
+  }
+
+  const maxFixAttempts = Number(options["max-fix-attempts"] ?? 3);
+  if (!Number.isInteger(maxFixAttempts) || maxFixAttempts < 1) {
+    throw new UsageError("--max-fix-attempts must be a positive whole number");
+  }
+
+  log(`Fetching ${ticketUrl}...`);
+  const ticket = await fetchTicket(ticketUrl);
+
+  let repo: CloneResult;
+  let repoUrl: string | null;
+  if (isUrl(options.repo)) {
+    repo = await cloneAndBranch(getHostingProvider(options.repo), options.repo, ticket.id, ticket.title);
+    repoUrl = options.repo;
+  } else {
+    const local = await useLocalFolder(path.resolve(options.repo), ticket.id, ticket.title);
+    repo = { localPath: local.localPath, branchName: local.branchName };
+    repoUrl = local.remoteUrl;
+  }
+  log(`Working in: ${repo.localPath}\nBranch: ${repo.branchName}`);
+
+  const selection = selectMcpServers({ ticket, repoUrl });
+  reportMcpServers(selection);
+  const { mcpServers } = selection;
+  const model = options.model || "claude-sonnet-4.5";
+
+  const onProgress = (progress: ImplementationProgress) => printImplementationProgress(progress);
+
+  await implementTicket(ticket, plan, onProgress, repo.localPath, model, signal, { mcpServers });
+
+  const postTasks: PostTask[] = (options["post-task"] ?? []).map((command, index) => ({
+    id: `task-${index + 1}`,
+    name: command,
+    command,
+  }));
+  let postTaskResults: PostTaskResult[] = [];
+  if (postTasks.length > 0) {
+    postTaskResults = await runPostTasks(postTasks, {
+      cwd: repo.localPath,
+      signal,
+      onProgress,
+      ...(options["fix-until-green"] && {
+        maxFixAttempts: Math.min(maxFixAttempts, MAX_FIX_ATTEMPTS),
+        fix: (task: PostTask, output: string) =>
+          fixFailingTask(ticket, task.name, task.command, output, onProgress, repo.localPath, model, signal, mcpServers),
+      }),
+    });
+  }
+
+  const failing = postTaskResults.filter((result) => result.status !== "passed");
+  const files = changedFiles(repo.localPath);
+  const result = {
+    ticket: { id: ticket.id, title: ticket.title, url: ticket.url },
+    localPath: repo.localPath,
+    branchName: repo.branchName,
+    changedFiles: files,
+    postTasks: postTaskResults,
+    pushed: false,
+    pullRequest: null as PullRequestResult | null,
+  };
+  const summary = () => [
+    `${files.length} file(s) changed in ${repo.localPath} on ${repo.branchName}`,
+    ...files.map((file) => `  ${file}`),
+    ...postTaskResults.map((task) => `${task.status === "passed" ? "✓" : "✗"} ${task.name}: ${task.status}`),
+    ...(result.pullRequest ? [`Pull request: ${result.pullRequest.url}`] : []),
+  ].join("\n");
+
+  // Failing checks are never pushed; the workspace is left for a look
+  if (failing.length > 0 || files.length === 0) {
+    log(failing.length > 0
+      ? `\nStill failing: ${failing.map((task) => task.name).join(", ")}. Nothing was committed.`
+      : "\nNo changes to commit.");
+    printResult(!!options.json, result, summary());
+    return failing.length > 0 ? 1 : 0;
+  }
+
+  log(`\n${summary()}`);
+  if (await confirm(`Commit and push to ${repo.branchName}?`, options.yes)) {
+    await commitAndPush(isUrl(options.repo) ? getHostingProvider(options.repo) : null, repo.localPath, repo.branchName, `Implement ticket #${ticket.id}: ${ticket.title}`);
+    result.pushed = true;
+
+    const hosting = repoUrl ? findHostingProvider(repoUrl) : null;
+    if (!options["no-pr"] && repoUrl && !hosting) {
+      log(`Not opening a pull request: ${repoUrl} is not an Azure DevOps or GitHub repository.`);
+    } else if (!options["no-pr"] && repoUrl && hosting && await confirm("Open a pull request?", options.yes)) {
+      result.pullRequest = await hosting.createPullRequest(repoUrl, {
+        sourceBranch: repo.branchName,
+        targetBranch: options["target-branch"]?.trim() || await hosting.getDefaultBranch(repoUrl),
+        title: `[#${ticket.id}] ${ticket.title}`,
+        description: formatPullRequestDescription(ticket, plan),
+        isDraft: !!options.draft,
+      });
     }
+  }
+
+  printResult(!!options.json, result, summary());
+  return 0;
+}
+
+async function reviewCommand(
+  [prUrl]: string[],
+  options: { json?: boolean; model?: string; category?: string[]; focus?: string[] },
+  signal: AbortSignal
+): Promise<number> {
+  if (!prUrl) {
+    throw new UsageError("review needs a pull request URL");
+  }
+
+  const knownCategories = DEFAULT_REVIEW_CATEGORIES.map((category) => category.id);
+  const categories = options.category ?? DEFAULT_REVIEW_CATEGORIES
+    .filter((category) => category.defaultEnabled)
+    .map((category) => category.id);
+  const unknown = categories.filter((category) => !knownCategories.includes(category));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown review category: ${unknown.join(", ")}. Known: ${knownCategories.join(", ")}`);
+  }
 
-    process.stdout.write("Assistant: ");
-    await session.sendAndWait({ prompt: input });
-    console.log("\n");
-    prompt();
+  const hosting = getHostingProvider(prUrl);
+  log(`Fetching ${prUrl}...`);
+  const pr = await hosting.getPullRequest(prUrl);
+  log(`#${pr.prId} ${pr.title} (${pr.sourceBranch} → ${pr.targetBranch})`);
+
+  const { localPath, diff } = await cloneForReview(hosting, pr.repositoryUrl, pr.sourceBranch, pr.targetBranch);
+  try {
+    if (!diff.trim()) {
+      throw new Error("The pull request has no changes to review.");
+    }
+
+    const selection = selectMcpServers({ repoUrl: pr.repositoryUrl, text: pr.description, urls: [pr.url] });
+    reportMcpServers(selection);
+
+    let markdown = null as string | null;
+    let review = null as StructuredReview | null;
+    let reviewError = null as string | null;
+    await performReview(
+      pr,
+      diff,
+      categories,
+      options.focus ?? [],
+      (progress) => {
+        if (progress.type === "complete") {
+          markdown = progress.content;
+          review = progress.review ?? null;
+        } else if (progress.type === "error") {
+          reviewError = progress.content;
+        }
+        printReviewProgress(progress);
+      },
+      localPath,
+      options.model || "claude-sonnet-4.5",
+      signal,
+      undefined,
+      selection.mcpServers
+    );
+
+    if (markdown === null) {
+      throw new Error(reviewError ?? "The review did not finish.");
+    }
+    printResult(!!options.json, { pr, review, markdown }, markdown);
+    return 0;
+  } finally {
+    cleanupReviewWorkspace(localPath);
+  }
+}
+
+// A command's own options on top of the common ones, typed for that command
+function parseCommandArgs<T extends ParseArgsOptionsConfig>(commandOptions: T, args: string[]) {
+  try {
+    return parseArgs({
+      args,
+      options: { ...COMMON_OPTIONS, ...commandOptions },
+      allowPositionals: true,
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Ctrl+C stops the model; a second one stops at once
+function cancelOnInterrupt(): AbortSignal {
+  const controller = new AbortController();
+  process.once("SIGINT", () => {
+    log("\nCancelling... (Ctrl+C again to quit)");
+    controller.abort();
+    process.once("SIGINT", () => process.exit(130));
   });
-};
+  return controller.signal;
+}
 
-prompt();
+function printUsage(): number {
+  process.stdout.write(USAGE);
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  if (!command || command === "--help" || command === "-h" || command === "help") {
+    process.stdout.write(USAGE);
+    return command ? 0 : 2;
+  }
+  if (!(command in COMMAND_OPTIONS)) {
+    throw new UsageError(`Unknown command: ${command}`);
+  }
+
+  switch (command as Command) {
+    case "plan": {
+      const { positionals, values } = parseCommandArgs(COMMAND_OPTIONS.plan, rest);
+      return values.help ? printUsage() : planCommand(positionals, values, cancelOnInterrupt());
+    }
+    case "implement": {
+      const { positionals, values } = parseCommandArgs(COMMAND_OPTIONS.implement, rest);
+      return values.help ? printUsage() : implementCommand(positionals, values, cancelOnInterrupt());
+    }
+    case "review": {
+      const { positionals, values } = parseCommandArgs(COMMAND_OPTIONS.review, rest);
+      return values.help ? printUsage() : reviewCommand(positionals, values, cancelOnInterrupt());
+    }
+  }
+}
+
+// The services report progress with console.log; keep stdout for the result
+console.log = console.error;
+
+try {
+  process.exit(await main(process.argv.slice(2)));
+} catch (error) {
+  log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  if (error instanceof UsageError) {
+    log("Run with --help for usage.");
+    process.exit(2);
+  }
+  process.exit(1);
+}
@@ -3,20 +3,53 @@ import express from "express";
 import cors from "cors";
 import { ticketRouter } from "./routes/ticket.js";
 import { reviewRouter } from "./routes/review.js";
+import { batchRouter } from "./routes/batch.js";
+import { jobsRouter } from "./routes/jobs.js";
+import { webhooksRouter } from "./routes/webhooks.js";
+import { authRouter, requireUser } from "./routes/auth.js";
+import { fakeIdpRouter, fakeIdpEnabled } from "./routes/fake-idp.js";
+import { checkAuthConfig, authEnabled, uiOrigin } from "./services/auth.js";
+import { restoreSessions } from "./services/sessions.js";
+import { restoreBatches } from "./services/batch.js";
+import { restoreJobs } from "./services/jobs.js";
+import { closeStore } from "./services/store.js";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-app.use(cors());
-app.use(express.json());
+checkAuthConfig();
 
-app.use("/api/ticket", ticketRouter);
-app.use("/api/review", reviewRouter);
+// Only the UI may call the API from a browser, with its session cookie
+app.use(cors({ origin: uiOrigin(), credentials: true }));
+app.use(express.json());
 
 app.get("/api/health", (_, res) => {
   res.json({ status: "ok" });
 });
 
+app.use("/api/auth", authRouter);
+// Service hooks authenticate with their own secret
+app.use("/api/webhooks", webhooksRouter);
+if (fakeIdpEnabled()) {
+  app.use("/fake-idp", fakeIdpRouter);
+  console.warn("Fake identity provider enabled at /fake-idp: anyone can sign in as anyone");
+}
+
+app.use("/api", requireUser);
+app.use("/api/ticket", ticketRouter);
+app.use("/api/review", reviewRouter);
+app.use("/api/batch", batchRouter);
+app.use("/api/jobs", jobsRouter);
+
+if (!authEnabled()) {
+  console.warn("Sign-in is off (OIDC_ISSUER is not set): anyone who can reach the server can use it with ADO_PAT");
+}
+
+const restored = restoreSessions();
+console.log(`Restored ${restored.ticket} ticket session(s) and ${restored.review} review session(s)`);
+console.log(`Restored ${restoreBatches()} batch(es)`);
+console.log(`Restored ${restoreJobs()} job(s)`);
+
 const server = app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
 });
@@ -28,5 +61,8 @@ server.on('close', () => {
 
 process.on('SIGINT', () => {
   console.log('\nShutting down...');
-  server.close(() => process.exit(0));
+  server.close(() => {
+    closeStore();
+    process.exit(0);
+  });
 });
@@ -0,0 +1,172 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import {
+  authEnabled,
+  uiOrigin,
+  beginLogin,
+  completeLogin,
+  createAuthSession,
+  userForSession,
+  endAuthSession,
+  isChangeableBy,
+  setAdoToken,
+  adoTokenOf,
+  type User,
+} from "../services/auth.js";
+import { runWithAdoPat } from "../../utils/ado-credentials.js";
+
+const SESSION_COOKIE = "ti_session";
+// Ties the identity provider's answer to the browser that asked, against login CSRF
+const LOGIN_COOKIE = "ti_login";
+
+export const authRouter = Router();
+
+function cookieOf(req: Request, name: string): string | null {
+  for (const part of (req.get("Cookie") ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return null;
+}
+
+function cookieOptions(maxAge?: number) {
+  return { httpOnly: true, sameSite: "lax" as const, secure: uiOrigin().startsWith("https:"), path: "/", maxAge };
+}
+
+function signedInUser(req: Request): User | null {
+  const token = cookieOf(req, SESSION_COOKIE);
+  return token ? userForSession(token) : null;
+}
+
+// What the UI shows of a user; never the token itself
+function describeUser(user: User) {
+  return { id: user.id, name: user.name, email: user.email, hasAdoToken: !!adoTokenOf(user) };
+}
+
+function userOf(res: Response): User {
+  return res.locals.user as User;
+}
+
+// The signed-in user, or null without sign-in
+export function currentUser(res: Response): User | null {
+  return (res.locals.user as User | undefined) ?? null;
+}
+
+/**
+ * Let a request on a session, job or batch go on if it only reads, or if the
+ * user may change it; otherwise answer 403. Returns whether it may go on.
+ */
+export function allowChange(req: Request, res: Response, ownerId: string | null): boolean {
+  if (req.method === "GET" || isChangeableBy(ownerId, currentUser(res))) {
+    return true;
+  }
+  res.status(403).json({ error: "Started by a service hook or before sign-in: it can be viewed, not changed" });
+  return false;
+}
+
+/**
+ * Let only signed-in users through, and run the rest of the request (and
+ * the jobs it starts) with their Azure DevOps token. Without sign-in
+ * configured, everyone is let through and ADO_PAT is used.
+ */
+export function requireUser(req: Request, res: Response, next: NextFunction): void {
+  if (!authEnabled()) {
+    next();
+    return;
+  }
+
+  const user = signedInUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in first" });
+    return;
+  }
+  res.locals.user = user;
+  runWithAdoPat(adoTokenOf(user), next);
+}
+
+// Whether sign-in is on, and who is signed in
+authRouter.get("/me", (req: Request, res: Response) => {
+  if (!authEnabled()) {
+    res.json({ enabled: false, user: null });
+    return;
+  }
+  const user = signedInUser(req);
+  res.json({ enabled: true, user: user ? describeUser(user) : null });
+});
+
+// Send the browser to the identity provider; ?returnTo= is the UI path to come back to
+authRouter.get("/login", async (req: Request, res: Response) => {
+  if (!authEnabled()) {
+    res.status(404).json({ error: "Sign-in is not configured" });
+    return;
+  }
+
+  // Only paths within the UI, so the callback cannot be used to redirect elsewhere
+  const returnTo = typeof req.query.returnTo === "string" && /^\/(?!\/)/.test(req.query.returnTo) ? req.query.returnTo : "/";
+  try {
+    const { url, state } = await beginLogin(returnTo);
+    res.cookie(LOGIN_COOKIE, state, cookieOptions(10 * 60 * 1000));
+    res.redirect(url);
+  } catch (error) {
+    res.status(502).json({ error: error instanceof Error ? error.message : "The identity provider is unavailable" });
+  }
+});
+
+authRouter.get("/callback", async (req: Request, res: Response) => {
+  const { code, state, error, error_description } = req.query as Record<string, string | undefined>;
+  res.clearCookie(LOGIN_COOKIE, cookieOptions());
+
+  const fail = (message: string) => res.redirect(`${uiOrigin()}/?loginError=${encodeURIComponent(message)}`);
+  if (error) {
+    fail(error_description || error);
+    return;
+  }
+  if (!code || !state || state !== cookieOf(req, LOGIN_COOKIE)) {
+    fail("Sign-in did not start in this browser; sign in again");
+    return;
+  }
+
+  try {
+    const { user, returnTo } = await completeLogin(code, state);
+    const { token, maxAge } = createAuthSession(user);
+    res.cookie(SESSION_COOKIE, token, cookieOptions(maxAge));
+    res.redirect(`${uiOrigin()}${returnTo}`);
+  } catch (loginError) {
+    fail(loginError instanceof Error ? loginError.message : "Sign-in failed");
+  }
+});
+
+authRouter.post("/logout", (req: Request, res: Response) => {
+  const token = cookieOf(req, SESSION_COOKIE);
+  if (token) {
+    endAuthSession(token);
+  }
+  res.clearCookie(SESSION_COOKIE, cookieOptions());
+  res.json({ success: true });
+});
+
+/**
+ * Store the signed-in user's Azure DevOps personal access token. PRs,
+ * comments and work item changes they make are then in their name.
+ */
+authRouter.put("/ado-token", requireUser, (req: Request, res: Response) => {
+  const { token } = req.body as { token?: string };
+  if (!authEnabled()) {
+    res.status(404).json({ error: "Sign-in is not configured; the server uses ADO_PAT" });
+    return;
+  }
+  if (typeof token !== "string" || !token.trim()) {
+    res.status(400).json({ error: "token is required" });
+    return;
+  }
+  res.json({ user: describeUser(setAdoToken(userOf(res), token.trim())) });
+});
+
+authRouter.delete("/ado-token", requireUser, (_req: Request, res: Response) => {
+  if (!authEnabled()) {
+    res.status(404).json({ error: "Sign-in is not configured; the server uses ADO_PAT" });
+    return;
+  }
+  res.json({ user: describeUser(setAdoToken(userOf(res), null)) });
+});
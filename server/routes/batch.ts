@@ -0,0 +1,200 @@
+import { Router, type Request, type Response } from "express";
+import {
+  createBatch,
+  getBatch,
+  listBatches,
+  approveBatchItem,
+  retryBatchItem,
+  cancelBatch,
+  deleteBatch,
+  MAX_BATCH_ITEMS,
+  type Batch,
+  type BatchItem,
+  type BatchOptions,
+} from "../services/batch.js";
+import type { PostTask } from "../services/post-tasks.js";
+import { parseProjectUrl, queryWorkItems, type WorkItemQuery } from "../../utils/azure-devops.js";
+import { findHostingProvider } from "../../utils/git-hosting.js";
+import { getAdoPat } from "../../utils/ado-credentials.js";
+import { isVisibleTo } from "../services/auth.js";
+import { postTasksRefusal } from "../services/server-access.js";
+import { allowChange, currentUser } from "./auth.js";
+
+// Upper bound for fix-until-green, whatever the client asks for
+const MAX_FIX_ATTEMPTS = 10;
+
+const QUERY_KINDS: WorkItemQuery["kind"][] = ["wiql", "saved", "iteration"];
+
+export const batchRouter = Router();
+
+// Every route below that has a :batchId segment works on that batch; someone else's is not found
+batchRouter.param("batchId", (req, res, next, batchId: string) => {
+  const batch = getBatch(batchId);
+  if (!batch || !isVisibleTo(batch.ownerId, currentUser(res))) {
+    res.status(404).json({ error: `Batch not found: ${batchId}` });
+    return;
+  }
+  if (!allowChange(req, res, batch.ownerId)) {
+    return;
+  }
+  res.locals.batch = batch;
+  next();
+});
+
+batchRouter.param("workItemId", (_req, res, next, workItemId: string) => {
+  const batch = res.locals.batch as Batch;
+  const item = batch.items.find((candidate) => String(candidate.workItemId) === workItemId);
+  if (!item) {
+    res.status(404).json({ error: `Work item ${workItemId} is not in this batch` });
+    return;
+  }
+  res.locals.item = item;
+  next();
+});
+
+function batchOf(res: Response): Batch {
+  return res.locals.batch as Batch;
+}
+
+function itemOf(res: Response): BatchItem {
+  return res.locals.item as BatchItem;
+}
+
+// List batches, newest first, with how many items are in each status
+batchRouter.get("/", (_req: Request, res: Response) => {
+  res.json({ batches: listBatches(currentUser(res)) });
+});
+
+// Run a query and start planning every work item it matches
+batchRouter.post("/", async (req: Request, res: Response) => {
+  const {
+    projectUrl,
+    query,
+    repoUrl,
+    model,
+    autoApprove = false,
+    postTasks = [],
+    fixUntilGreen = false,
+    maxFixAttempts = 3,
+    targetBranch,
+    isDraft = false,
+  } = req.body as {
+    /** https://dev.azure.com/{org}/{project} */
+    projectUrl?: string;
+    query?: WorkItemQuery;
+    /** The repository every work item is implemented in */
+    repoUrl?: string;
+    model?: string;
+    autoApprove?: boolean;
+    postTasks?: PostTask[];
+    fixUntilGreen?: boolean;
+    maxFixAttempts?: number;
+    targetBranch?: string;
+    isDraft?: boolean;
+  };
+
+  if (!projectUrl || !repoUrl) {
+    res.status(400).json({ error: "projectUrl and repoUrl are required" });
+    return;
+  }
+  if (!query || !QUERY_KINDS.includes(query.kind) || !query.value?.trim()) {
+    res.status(400).json({ error: `query needs a kind (${QUERY_KINDS.join(", ")}) and a value` });
+    return;
+  }
+  if (!findHostingProvider(repoUrl)) {
+    res.status(400).json({ error: "Batches need an Azure DevOps or GitHub repository to open PRs in" });
+    return;
+  }
+  const refusal = postTasksRefusal(postTasks);
+  if (refusal) {
+    res.status(403).json({ error: refusal });
+    return;
+  }
+
+  let pat: string;
+  try {
+    pat = getAdoPat();
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : "No Azure DevOps token" });
+    return;
+  }
+
+  let project: { organization: string; project: string };
+  try {
+    project = parseProjectUrl(projectUrl);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : "Invalid project URL" });
+    return;
+  }
+
+  try {
+    const workItems = await queryWorkItems({ ...project, pat }, query, MAX_BATCH_ITEMS);
+    if (workItems.length === 0) {
+      res.status(400).json({ error: "The query matched no work items" });
+      return;
+    }
+
+    const options: BatchOptions = {
+      model: model || "claude-sonnet-4.5",
+      autoApprove,
+      postTasks,
+      fixUntilGreen,
+      maxFixAttempts: Math.min(Math.max(1, maxFixAttempts), MAX_FIX_ATTEMPTS),
+      targetBranch: targetBranch?.trim() || undefined,
+      isDraft,
+    };
+    const batch = createBatch(projectUrl, query, repoUrl, options, workItems, currentUser(res)?.id ?? null);
+    res.status(201).json({ batch, maxItems: MAX_BATCH_ITEMS });
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to start the batch",
+    });
+  }
+});
+
+batchRouter.get("/:batchId", (_req: Request, res: Response) => {
+  res.json({ batch: batchOf(res) });
+});
+
+// Cancel the batch and close its ticket sessions
+batchRouter.delete("/:batchId", (_req: Request, res: Response) => {
+  deleteBatch(batchOf(res));
+  res.json({ success: true });
+});
+
+// Stop every item that has not opened its PR yet
+batchRouter.post("/:batchId/cancel", (_req: Request, res: Response) => {
+  const batch = batchOf(res);
+  cancelBatch(batch);
+  res.json({ batch });
+});
+
+// Implement every item whose plan is waiting for approval
+batchRouter.post("/:batchId/approve", (_req: Request, res: Response) => {
+  const batch = batchOf(res);
+  for (const item of batch.items.filter((candidate) => candidate.status === "awaiting_approval")) {
+    approveBatchItem(batch, item);
+  }
+  res.json({ batch });
+});
+
+batchRouter.post("/:batchId/items/:workItemId/approve", (_req: Request, res: Response) => {
+  const batch = batchOf(res);
+  const error = approveBatchItem(batch, itemOf(res));
+  if (error) {
+    res.status(409).json({ error });
+    return;
+  }
+  res.json({ batch });
+});
+
+// Plan a failed or cancelled item again from scratch
+batchRouter.post("/:batchId/items/:workItemId/retry", (_req: Request, res: Response) => {
+  const batch = batchOf(res);
+  const error = retryBatchItem(batch, itemOf(res));
+  if (error) {
+    res.status(409).json({ error });
+    return;
+  }
+  res.json({ batch });
+});
@@ -0,0 +1,165 @@
+import express, { Router, type Request, type Response } from "express";
+import { createHash, createSign, generateKeyPairSync, randomBytes, type KeyObject } from "crypto";
+import { escapeHtml } from "../../utils/markdown.js";
+
+/**
+ * A stand-in OpenID Connect provider for development and tests, so sign-in
+ * works without an Entra ID tenant. It signs in whoever asks, as whoever
+ * they say they are: never turn it on where others can reach the server.
+ *
+ * Set OIDC_FAKE_IDP=true and OIDC_ISSUER=http://localhost:3001/fake-idp
+ * (the server's own address). The sign-in page asks for a name and email;
+ * with ?login_hint=<email> it signs in straight away, for scripted tests.
+ */
+export function fakeIdpEnabled(): boolean {
+  return process.env.OIDC_FAKE_IDP === "true" && process.env.NODE_ENV !== "production";
+}
+
+// Authorization codes live just long enough to be exchanged
+const CODE_TTL_MS = 60 * 1000;
+const KEY_ID = "fake-idp";
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+  name: string;
+  email: string;
+  expiresAt: number;
+}
+
+// A new key every start; sign-ins in progress across a restart fail
+let keyPair: { privateKey: KeyObject; publicKey: KeyObject } | null = null;
+const codes = new Map<string, IssuedCode>();
+
+export const fakeIdpRouter = Router();
+fakeIdpRouter.use(express.urlencoded({ extended: false }));
+
+function issuer(): string {
+  return (process.env.OIDC_ISSUER ?? "").replace(/\/$/, "");
+}
+
+function keys() {
+  keyPair ??= generateKeyPairSync("rsa", { modulusLength: 2048 });
+  return keyPair;
+}
+
+function base64url(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const unsigned = `${base64url({ alg: "RS256", typ: "JWT", kid: KEY_ID })}.${base64url(claims)}`;
+  return `${unsigned}.${createSign("RSA-SHA256").update(unsigned).sign(keys().privateKey).toString("base64url")}`;
+}
+
+// Send the browser back to the application with a code for this user
+function issueCode(res: Response, params: Record<string, string>, name: string, email: string): void {
+  const code = randomBytes(16).toString("base64url");
+  codes.set(code, {
+    clientId: params.client_id,
+    redirectUri: params.redirect_uri,
+    nonce: params.nonce ?? "",
+    codeChallenge: params.code_challenge ?? "",
+    name,
+    email,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const url = new URL(params.redirect_uri);
+  url.searchParams.set("code", code);
+  if (params.state) {
+    url.searchParams.set("state", params.state);
+  }
+  res.redirect(url.toString());
+}
+
+fakeIdpRouter.get("/.well-known/openid-configuration", (_req: Request, res: Response) => {
+  res.json({
+    issuer: issuer(),
+    authorization_endpoint: `${issuer()}/authorize`,
+    token_endpoint: `${issuer()}/token`,
+    jwks_uri: `${issuer()}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    code_challenge_methods_supported: ["S256"],
+  });
+});
+
+fakeIdpRouter.get("/jwks", (_req: Request, res: Response) => {
+  res.json({ keys: [{ ...keys().publicKey.export({ format: "jwk" }), kid: KEY_ID, alg: "RS256", use: "sig" }] });
+});
+
+// The sign-in page: pick who to be
+fakeIdpRouter.get("/authorize", (req: Request, res: Response) => {
+  const params = req.query as Record<string, string>;
+  if (!params.client_id || !params.redirect_uri) {
+    res.status(400).send("client_id and redirect_uri are required");
+    return;
+  }
+  if (params.login_hint) {
+    issueCode(res, params, params.login_hint.split("@")[0], params.login_hint);
+    return;
+  }
+
+  const hidden = Object.entries(params)
+    .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(String(value))}">`)
+    .join("\n");
+  res.type("html").send(`<!doctype html>
+<title>Fake identity provider</title>
+<form method="post" style="font-family: sans-serif; max-width: 20rem; margin: 4rem auto; display: grid; gap: 0.5rem">
+  <h1>Sign in</h1>
+  <p>Development only: any name and email are accepted.</p>
+  ${hidden}
+  <label>Name <input name="name" value="Dev User" required></label>
+  <label>Email <input name="email" type="email" value="dev@example.com" required></label>
+  <button type="submit">Sign in</button>
+</form>`);
+});
+
+fakeIdpRouter.post("/authorize", (req: Request, res: Response) => {
+  const { name, email, ...params } = req.body as Record<string, string>;
+  if (!params.client_id || !params.redirect_uri || !email) {
+    res.status(400).send("client_id, redirect_uri and email are required");
+    return;
+  }
+  issueCode(res, params, name || email, email);
+});
+
+fakeIdpRouter.post("/token", (req: Request, res: Response) => {
+  const { grant_type, code, client_id, redirect_uri, code_verifier } = req.body as Record<string, string>;
+  const issued = code ? codes.get(code) : undefined;
+  codes.delete(code);
+
+  const challenge = createHash("sha256").update(code_verifier ?? "").digest("base64url");
+  if (
+    grant_type !== "authorization_code" ||
+    !issued ||
+    issued.expiresAt < Date.now() ||
+    issued.clientId !== client_id ||
+    issued.redirectUri !== redirect_uri ||
+    (issued.codeChallenge && issued.codeChallenge !== challenge)
+  ) {
+    res.status(400).json({ error: "invalid_grant" });
+    return;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  res.json({
+    token_type: "Bearer",
+    expires_in: 3600,
+    access_token: randomBytes(16).toString("base64url"),
+    id_token: signIdToken({
+      iss: issuer(),
+      sub: createHash("sha256").update(issued.email.toLowerCase()).digest("hex"),
+      aud: client_id,
+      iat: now,
+      exp: now + 3600,
+      nonce: issued.nonce,
+      name: issued.name,
+      email: issued.email,
+    }),
+  });
+});
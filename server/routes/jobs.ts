@@ -0,0 +1,74 @@
+import { Router, type Request, type Response } from "express";
+import { getJob, listJobs, followJob, cancelJob, type Job } from "../services/jobs.js";
+import { isVisibleTo } from "../services/auth.js";
+import { allowChange, currentUser } from "./auth.js";
+
+// A comment line now and then keeps proxies from closing a quiet stream
+const KEEP_ALIVE_MS = 15000;
+
+export const jobsRouter = Router();
+
+// Someone else's job is answered as if it did not exist
+jobsRouter.param("jobId", (req, res, next, jobId: string) => {
+  const job = getJob(jobId);
+  if (!job || !isVisibleTo(job.ownerId, currentUser(res))) {
+    res.status(404).json({ error: `Job not found: ${jobId}` });
+    return;
+  }
+  if (!allowChange(req, res, job.ownerId)) {
+    return;
+  }
+  res.locals.job = job;
+  next();
+});
+
+function jobOf(res: Response): Job {
+  return res.locals.job as Job;
+}
+
+// List jobs, newest first; ?sessionId= limits them to one session
+jobsRouter.get("/", (req: Request, res: Response) => {
+  const sessionId = typeof req.query.sessionId === "string" ? req.query.sessionId : undefined;
+  res.json({ jobs: listJobs(currentUser(res), sessionId) });
+});
+
+jobsRouter.get("/:jobId", (_req: Request, res: Response) => {
+  res.json({ job: jobOf(res) });
+});
+
+/**
+ * Stream the job's events (SSE). Events carry their number as the SSE id, so
+ * a client that reconnects with Last-Event-ID (or ?lastEventId=) gets only
+ * what it missed. A final "end" event carries the finished job.
+ */
+jobsRouter.get("/:jobId/events", (req: Request, res: Response) => {
+  const job = jobOf(res);
+  const lastEventId = parseInt(req.get("Last-Event-ID") ?? String(req.query.lastEventId ?? ""), 10) || 0;
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+
+  const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), KEEP_ALIVE_MS);
+  const unfollow = followJob(job, lastEventId, {
+    event: (event) => {
+      res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    },
+    end: (finished) => {
+      clearInterval(keepAlive);
+      res.write(`event: end\ndata: ${JSON.stringify({ job: finished })}\n\n`);
+      res.end();
+    },
+  });
+
+  // The job keeps running when the client goes away
+  res.on("close", () => {
+    clearInterval(keepAlive);
+    unfollow();
+  });
+});
+
+jobsRouter.post("/:jobId/cancel", (_req: Request, res: Response) => {
+  const job = jobOf(res);
+  res.json({ cancelled: cancelJob(job), job });
+});
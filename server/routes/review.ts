@@ -1,49 +1,110 @@
 import { Router, type Request, type Response } from "express";
+import { existsSync, readFileSync } from "fs";
+import { resolve, sep } from "path";
 import {
-  getPullRequest,
   cloneForReview,
   cleanupReviewWorkspace,
   getAssignedPullRequests,
-  postReviewComment,
   applyFixAndPush,
-  type PRInfo,
+  locateSnippet,
+  refreshReviewClone,
+  getHeadCommit,
+  diffSinceCommit,
+  type ReviewFindingComment,
 } from "../../utils/azure-devops-pr.js";
+import { getHostingProvider } from "../../utils/git-hosting.js";
 import {
   performReview,
   discussReview,
   DEFAULT_REVIEW_CATEGORIES,
-  type DiscussionMessage,
 } from "../services/review-copilot.js";
+import {
+  createReviewSession,
+  getReviewSession,
+  listReviewSessions,
+  closeReviewSession,
+  touchReviewSession,
+  saveReviewSession,
+  type ReviewSession,
+} from "../services/sessions.js";
+import { cancelOperation, isCancellation } from "../services/cancellation.js";
+import { startJob } from "../services/jobs.js";
+import { isVisibleTo } from "../services/auth.js";
+import { allowChange, currentUser } from "./auth.js";
+import { formatFindingMarkdown, type ReviewFinding } from "../services/review-findings.js";
+import { getLastReview, saveLastReview } from "../services/store.js";
+import { selectMcpServers, setMcpServerOverride } from "../services/mcp-servers.js";
 
 export const reviewRouter = Router();
 
-// In-memory state for the review session
-let currentPR: PRInfo | null = null;
-let currentDiff: string | null = null;
-let currentRepoPath: string | null = null;
-let currentCategories: string[] = DEFAULT_REVIEW_CATEGORIES
-  .filter((c) => c.defaultEnabled)
-  .map((c) => c.id);
-let reviewDiscussionHistory: DiscussionMessage[] = [];
-
-// Fetch PR metadata
-reviewRouter.post("/fetch-pr", async (req: Request, res: Response) => {
-  const { url } = req.body;
-
-  if (!url) {
-    res.status(400).json({ error: "URL is required" });
+function getDefaultCategories(): string[] {
+  return DEFAULT_REVIEW_CATEGORIES
+    .filter((c) => c.defaultEnabled)
+    .map((c) => c.id);
+}
+
+// Every route below that has a :sessionId segment works on that review's state
+reviewRouter.param("sessionId", (req, res, next, sessionId: string) => {
+  const session = getReviewSession(sessionId);
+  // Someone else's session is answered as if it did not exist
+  if (!session || !isVisibleTo(session.ownerId, currentUser(res))) {
+    res.status(404).json({ error: `Review session not found: ${sessionId}` });
+    return;
+  }
+  if (!allowChange(req, res, session.ownerId)) {
     return;
   }
+  touchReviewSession(session);
+  res.locals.session = session;
+  // Persist whatever the request changed once it is done, unless it closed the session
+  res.on("close", () => saveOpenSession(session));
+  next();
+});
 
-  try {
-    currentPR = await getPullRequest(url);
-    res.json(currentPR);
-  } catch (error) {
-    res.status(500).json({
-      error:
-        error instanceof Error ? error.message : "Failed to fetch PR",
-    });
+function sessionOf(res: Response): ReviewSession {
+  return res.locals.session as ReviewSession;
+}
+
+// Requests and jobs outlive the session; a session closed meanwhile must not be saved again
+function saveOpenSession(session: ReviewSession): void {
+  if (getReviewSession(session.id) === session) {
+    saveReviewSession(session);
   }
+}
+
+// The registry's MCP servers as they apply to this session's pull request
+function sessionMcpServers(session: ReviewSession) {
+  return selectMcpServers(
+    {
+      repoUrl: session.pr?.repositoryUrl,
+      text: session.pr?.description,
+      urls: session.pr ? [session.pr.url] : [],
+    },
+    session.mcpServerOverrides
+  );
+}
+
+// List open review sessions, most recently active first
+reviewRouter.get("/sessions", (_req: Request, res: Response) => {
+  res.json({
+    sessions: listReviewSessions(currentUser(res)).map((session) => ({
+      id: session.id,
+      pr: session.pr,
+      isCloned: !!session.diff,
+      updatedAt: session.updatedAt,
+    })),
+  });
+});
+
+// Start a new review session
+reviewRouter.post("/sessions", (_req: Request, res: Response) => {
+  const session = createReviewSession(getDefaultCategories(), currentUser(res)?.id ?? null);
+  res.status(201).json({ id: session.id });
+});
+
+// Get default review categories
+reviewRouter.get("/categories", (_req: Request, res: Response) => {
+  res.json({ categories: DEFAULT_REVIEW_CATEGORIES });
 });
 
 // Get PRs assigned to the authenticated user as a reviewer
@@ -61,8 +122,49 @@ reviewRouter.get("/my-reviews", async (_req: Request, res: Response) => {
   }
 });
 
+// Full state of a review session
+reviewRouter.get("/:sessionId", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  res.json({
+    id: session.id,
+    pr: session.pr,
+    isCloned: !!session.diff,
+    categories: session.categories,
+    discussionHistory: session.discussionHistory,
+  });
+});
+
+// Close a review session and delete its clone
+reviewRouter.delete("/:sessionId", (req: Request, res: Response) => {
+  closeReviewSession(req.params.sessionId as string);
+  res.json({ success: true });
+});
+
+// Fetch PR metadata
+reviewRouter.post("/:sessionId/fetch-pr", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const { url } = req.body;
+
+  if (!url) {
+    res.status(400).json({ error: "URL is required" });
+    return;
+  }
+
+  try {
+    session.pr = await getHostingProvider(url).getPullRequest(url);
+    res.json(session.pr);
+  } catch (error) {
+    res.status(500).json({
+      error:
+        error instanceof Error ? error.message : "Failed to fetch PR",
+    });
+  }
+});
+
+
 // Select a PR from the assigned list (avoids redundant API call)
-reviewRouter.post("/select-pr", async (req: Request, res: Response) => {
+reviewRouter.post("/:sessionId/select-pr", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
   const { pr } = req.body;
 
   if (!pr) {
@@ -71,7 +173,7 @@ reviewRouter.post("/select-pr", async (req: Request, res: Response) => {
   }
 
   try {
-    currentPR = {
+    session.pr = {
       prId: pr.prId,
       title: pr.title,
       description: pr.description,
@@ -83,7 +185,7 @@ reviewRouter.post("/select-pr", async (req: Request, res: Response) => {
       repositoryUrl: pr.repositoryUrl,
       url: pr.url,
     };
-    res.json(currentPR);
+    res.json(session.pr);
   } catch (error) {
     res.status(500).json({
       error:
@@ -93,26 +195,42 @@ reviewRouter.post("/select-pr", async (req: Request, res: Response) => {
 });
 
 // Clone repo and compute diff
-reviewRouter.post("/clone-for-review", async (req: Request, res: Response) => {
-  if (!currentPR) {
+reviewRouter.post("/:sessionId/clone-for-review", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  if (!session.pr) {
     res.status(400).json({ error: "No PR fetched. Call /fetch-pr first." });
     return;
   }
 
   try {
-    // Clean up previous clone if exists
-    if (currentRepoPath) {
-      cleanupReviewWorkspace(currentRepoPath);
+    // Re-reviewing the same PR: update the clone rather than cloning again
+    let result: { localPath: string; diff: string } | null = null;
+    if (session.repoPath && existsSync(session.repoPath)) {
+      try {
+        result = {
+          localPath: session.repoPath,
+          diff: refreshReviewClone(
+            getHostingProvider(session.pr.url),
+            session.repoPath,
+            session.pr.sourceBranch,
+            session.pr.targetBranch
+          ),
+        };
+      } catch (error) {
+        console.warn("Could not update the review clone, cloning again:", error);
+        cleanupReviewWorkspace(session.repoPath);
+      }
     }
 
-    const result = await cloneForReview(
-      currentPR.repositoryUrl,
-      currentPR.sourceBranch,
-      currentPR.targetBranch
+    result ??= await cloneForReview(
+      getHostingProvider(session.pr.url),
+      session.pr.repositoryUrl,
+      session.pr.sourceBranch,
+      session.pr.targetBranch
     );
 
-    currentRepoPath = result.localPath;
-    currentDiff = result.diff;
+    session.repoPath = result.localPath;
+    session.diff = result.diff;
 
     res.json({
       localPath: result.localPath,
@@ -132,68 +250,178 @@ reviewRouter.post("/clone-for-review", async (req: Request, res: Response) => {
   }
 });
 
-// Start the review (SSE streaming)
-reviewRouter.post("/start", async (req: Request, res: Response) => {
-  const { categories, customFocusAreas = [], model } = req.body;
+// When this PR was last reviewed, and whether it has changed since
+reviewRouter.get("/:sessionId/last-review", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  if (!session.pr) {
+    res.status(400).json({ error: "No PR selected." });
+    return;
+  }
+
+  const lastReview = getLastReview(session.pr.url);
+  const currentCommit = session.repoPath ? getHeadCommit(session.repoPath) : null;
+
+  res.json({
+    lastReview: lastReview && {
+      iterationId: lastReview.iterationId,
+      commitSha: lastReview.commitSha,
+      reviewedAt: lastReview.reviewedAt,
+    },
+    currentCommit,
+    hasNewChanges: !!lastReview && !!currentCommit && lastReview.commitSha !== currentCommit,
+  });
+});
 
-  if (!currentPR || !currentDiff) {
+// Start the review as a job; follow it at /api/jobs/:jobId/events
+reviewRouter.post("/:sessionId/start", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const { categories, customFocusAreas = [], model, mode = "full" } = req.body as {
+    categories?: string[];
+    customFocusAreas?: string[];
+    model?: string;
+    /** "incremental" reviews only the changes since the last review of this PR */
+    mode?: "full" | "incremental";
+  };
+
+  if (!session.pr || !session.diff || !session.repoPath) {
     res.status(400).json({
       error: "No PR or diff available. Call /fetch-pr and /clone-for-review first.",
     });
     return;
   }
 
+  const pr = session.pr;
+  const repoPath = session.repoPath;
+  const lastReview = mode === "incremental" ? getLastReview(pr.url) : null;
+  if (mode === "incremental" && !lastReview) {
+    res.status(400).json({ error: "This PR has not been reviewed before. Run a full review." });
+    return;
+  }
+
+  let diff = session.diff;
+  if (lastReview) {
+    try {
+      diff = diffSinceCommit(getHostingProvider(pr.url), repoPath, lastReview.commitSha);
+    } catch (error) {
+      res.status(409).json({ error: error instanceof Error ? error.message : "Failed to diff since the last review" });
+      return;
+    }
+    if (!diff.trim()) {
+      res.status(400).json({ error: "Nothing has changed since the last review." });
+      return;
+    }
+  }
+
   // Update categories if provided
   if (categories) {
-    currentCategories = categories;
+    session.categories = categories;
   }
 
   const selectedModel = model || "claude-sonnet-4.5";
 
-  // Set up SSE
-  res.setHeader("Content-Type", "text/event-stream");
-  res.setHeader("Cache-Control", "no-cache");
-  res.setHeader("Connection", "keep-alive");
+  const job = startJob("review", session.id, session.ownerId, async ({ emit, signal }) => {
+    try {
+      emit({ type: "message", content: `Starting review with model: ${selectedModel}\n` });
+
+      if (lastReview) {
+        emit({
+          type: "message",
+          content: `Reviewing changes since ${lastReview.commitSha.slice(0, 8)}${lastReview.iterationId ? ` (iteration ${lastReview.iterationId})` : ""}, reviewed ${lastReview.reviewedAt}\n`,
+        });
+      }
+
+      // Clear discussion history for new review
+      session.discussionHistory = [];
+
+      // Pin down what is being reviewed before the model starts, in case of new pushes meanwhile
+      const commitSha = getHeadCommit(repoPath);
+      const iterationId = await getHostingProvider(pr.url).getLatestIteration(pr).catch(() => null);
+
+      let review: string | null = null;
+      await performReview(
+        pr,
+        diff,
+        session.categories,
+        customFocusAreas,
+        (progress) => {
+          if (progress.type === "complete") {
+            review = progress.content;
+          }
+          emit(progress);
+        },
+        repoPath,
+        selectedModel,
+        signal,
+        lastReview ?? undefined,
+        sessionMcpServers(session).mcpServers
+      );
+
+      if (review) {
+        saveLastReview({ prUrl: pr.url, iterationId, commitSha, review, reviewedAt: new Date().toISOString() });
+      }
+    } catch (error) {
+      if (isCancellation(error)) {
+        emit({ type: "cancelled", content: "Review cancelled" });
+      } else {
+        emit({ type: "error", content: error instanceof Error ? error.message : "Unknown error" });
+      }
+    } finally {
+      saveOpenSession(session);
+    }
+  });
+  res.status(202).json({ job });
+});
 
+// MCP servers from the registry, and whether this review's Copilot sessions get them
+reviewRouter.get("/:sessionId/mcp-servers", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
   try {
-    res.write(
-      `data: ${JSON.stringify({
-        type: "message",
-        content: `Starting review with model: ${selectedModel}\n`,
-      })}\n\n`
-    );
+    res.json({ servers: sessionMcpServers(session).servers });
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to load MCP servers",
+    });
+  }
+});
 
-    // Clear discussion history for new review
-    reviewDiscussionHistory = [];
-
-    await performReview(
-      currentPR,
-      currentDiff,
-      currentCategories,
-      customFocusAreas,
-      (progress) => {
-        res.write(`data: ${JSON.stringify(progress)}\n\n`);
-      },
-      currentRepoPath || undefined,
-      selectedModel
-    );
+// Turn one MCP server on or off for this review
+reviewRouter.put("/:sessionId/mcp-servers/:serverId", (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const { enabled } = req.body as { enabled?: boolean };
+
+  if (typeof enabled !== "boolean") {
+    res.status(400).json({ error: "enabled must be true or false" });
+    return;
+  }
+
+  try {
+    const status = sessionMcpServers(session).servers.find((server) => server.id === req.params.serverId);
+    if (!status) {
+      res.status(404).json({ error: `Unknown MCP server: ${req.params.serverId}` });
+      return;
+    }
+    session.mcpServerOverrides = setMcpServerOverride(session.mcpServerOverrides, status, enabled);
+    res.json({ servers: sessionMcpServers(session).servers });
   } catch (error) {
-    res.write(
-      `data: ${JSON.stringify({
-        type: "error",
-        content: error instanceof Error ? error.message : "Unknown error",
-      })}\n\n`
-    );
-  } finally {
-    res.end();
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to update MCP servers",
+    });
   }
 });
 
+// Stop a running review
+reviewRouter.post("/:sessionId/cancel", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const cancelled = cancelOperation(session.id);
+  res.json({ cancelled: cancelled !== null });
+});
+
 // Discuss review findings
-reviewRouter.post("/discuss", async (req: Request, res: Response) => {
+reviewRouter.post("/:sessionId/discuss", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
   const { question } = req.body;
 
-  if (!currentPR || !currentDiff) {
+  if (!session.pr || !session.diff) {
     res.status(400).json({ error: "No review context available." });
     return;
   }
@@ -205,22 +433,23 @@ reviewRouter.post("/discuss", async (req: Request, res: Response) => {
 
   try {
     const response = await discussReview(
-      currentPR,
-      currentDiff,
+      session.pr,
+      session.diff,
       question,
-      reviewDiscussionHistory,
-      currentRepoPath || undefined
+      session.discussionHistory,
+      session.repoPath || undefined,
+      sessionMcpServers(session).mcpServers
     );
 
-    reviewDiscussionHistory.push({ role: "user", content: question });
-    reviewDiscussionHistory.push({ role: "assistant", content: response });
+    session.discussionHistory.push({ role: "user", content: question });
+    session.discussionHistory.push({ role: "assistant", content: response });
 
     // Keep history manageable
-    if (reviewDiscussionHistory.length > 20) {
-      reviewDiscussionHistory = reviewDiscussionHistory.slice(-20);
+    if (session.discussionHistory.length > 20) {
+      session.discussionHistory = session.discussionHistory.slice(-20);
     }
 
-    res.json({ response, history: reviewDiscussionHistory });
+    res.json({ response, history: session.discussionHistory });
   } catch (error) {
     res.status(500).json({
       error:
@@ -232,24 +461,22 @@ reviewRouter.post("/discuss", async (req: Request, res: Response) => {
 });
 
 // Get discussion history
-reviewRouter.get("/discussion-history", (_req: Request, res: Response) => {
-  res.json({ history: reviewDiscussionHistory });
+reviewRouter.get("/:sessionId/discussion-history", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  res.json({ history: session.discussionHistory });
 });
 
 // Clear discussion history
-reviewRouter.post("/clear-discussion", (_req: Request, res: Response) => {
-  reviewDiscussionHistory = [];
+reviewRouter.post("/:sessionId/clear-discussion", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  session.discussionHistory = [];
   res.json({ success: true });
 });
 
-// Get default review categories
-reviewRouter.get("/categories", (_req: Request, res: Response) => {
-  res.json({ categories: DEFAULT_REVIEW_CATEGORIES });
-});
-
 // Post review as a comment on the PR
-reviewRouter.post("/post-comment", async (req: Request, res: Response) => {
-  if (!currentPR) {
+reviewRouter.post("/:sessionId/post-comment", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  if (!session.pr) {
     res.status(400).json({ error: "No PR selected. Cannot post comment." });
     return;
   }
@@ -261,7 +488,7 @@ reviewRouter.post("/post-comment", async (req: Request, res: Response) => {
   }
 
   try {
-    const result = await postReviewComment(currentPR, content);
+    const result = await getHostingProvider(session.pr.url).postReviewComment(session.pr, content);
     res.json({ success: true, threadId: result.threadId });
   } catch (error) {
     res.status(500).json({
@@ -273,14 +500,95 @@ reviewRouter.post("/post-comment", async (req: Request, res: Response) => {
   }
 });
 
+// Read a file of the cloned PR branch, or null if there is no clone or no such file
+function readReviewFile(repoPath: string | null, filePath: string): string | null {
+  if (!repoPath) {
+    return null;
+  }
+  const fullPath = resolve(repoPath, filePath.replace(/^\/+/, ""));
+  if (!fullPath.startsWith(resolve(repoPath) + sep) || !existsSync(fullPath)) {
+    return null;
+  }
+  return readFileSync(fullPath, "utf-8");
+}
+
+/**
+ * Anchor a finding to exact lines by finding its original code in the
+ * cloned file. Only then is the fix posted as a suggestion: applied to
+ * lines the reviewer got slightly wrong, it would replace the wrong code.
+ */
+function toFindingComment(finding: ReviewFinding, repoPath: string | null): ReviewFindingComment {
+  const reported: ReviewFindingComment = {
+    content: formatFindingMarkdown(finding),
+    filePath: finding.file,
+    startLine: finding.startLine,
+    endLine: finding.endLine,
+    suggestion: null,
+  };
+
+  if (!finding.file || !finding.originalCode) {
+    return reported;
+  }
+
+  const fileText = readReviewFile(repoPath, finding.file);
+  const location = fileText !== null ? locateSnippet(fileText, finding.originalCode, finding.startLine) : null;
+  if (!location) {
+    return reported;
+  }
+
+  return {
+    ...reported,
+    ...location,
+    ...(finding.suggestedReplacement !== null && {
+      // The suggestion block shows the change, so the diff is left out
+      content: formatFindingMarkdown(finding, { includeChange: false }),
+      suggestion: finding.suggestedReplacement,
+    }),
+  };
+}
+
+// Post each selected finding as its own thread, anchored to the lines it is about
+reviewRouter.post("/:sessionId/post-findings", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  if (!session.pr) {
+    res.status(400).json({ error: "No PR selected. Cannot post findings." });
+    return;
+  }
+
+  // As sent in the review's "complete" event
+  const { findings } = req.body as { findings?: ReviewFinding[] };
+  if (!Array.isArray(findings) || findings.length === 0) {
+    res.status(400).json({ error: "findings are required" });
+    return;
+  }
+
+  try {
+    const comments = findings.map((finding) => toFindingComment(finding, session.repoPath));
+    const posted = await getHostingProvider(session.pr.url).postReviewFindings(session.pr, comments);
+    res.json({
+      success: true,
+      threadIds: posted.map((result) => result.threadId),
+      anchored: posted.filter((result) => result.anchored).length,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to post review findings",
+    });
+  }
+});
+
 // Apply a fix directly to the PR branch
-reviewRouter.post("/apply-fix", async (req: Request, res: Response) => {
-  if (!currentPR) {
+reviewRouter.post("/:sessionId/apply-fix", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  if (!session.pr) {
     res.status(400).json({ error: "No PR selected." });
     return;
   }
 
-  if (!currentRepoPath) {
+  if (!session.repoPath) {
     res.status(400).json({ error: "No cloned repo available. Clone the repo first." });
     return;
   }
@@ -296,12 +604,13 @@ reviewRouter.post("/apply-fix", async (req: Request, res: Response) => {
 
   try {
     const result = await applyFixAndPush(
-      currentRepoPath,
+      getHostingProvider(session.pr.url),
+      session.repoPath,
       filePath,
       oldContent,
       newContent,
       commitMessage,
-      currentPR.sourceBranch
+      session.pr.sourceBranch
     );
     res.json({ success: true, commitId: result.commitId });
   } catch (error) {
@@ -313,20 +622,3 @@ reviewRouter.post("/apply-fix", async (req: Request, res: Response) => {
     });
   }
 });
-
-// Reset all state
-reviewRouter.post("/reset", (_req: Request, res: Response) => {
-  if (currentRepoPath) {
-    cleanupReviewWorkspace(currentRepoPath);
-  }
-
-  currentPR = null;
-  currentDiff = null;
-  currentRepoPath = null;
-  currentCategories = DEFAULT_REVIEW_CATEGORIES
-    .filter((c) => c.defaultEnabled)
-    .map((c) => c.id);
-  reviewDiscussionHistory = [];
-
-  res.json({ success: true });
-});
@@ -7,45 +7,259 @@ import {
   discussPlan,
   discussImplementation,
   implementTicket,
-  type TicketPlan,
-  type DiscussionMessage,
+  refineImplementation,
+  fixFailingTask,
+  type ImplementationProgress,
 } from "../services/copilot.js";
-import type { WorkItem } from "../../utils/azure-devops.js";
+import { formatPlan, normalizePlanSteps } from "../services/plan.js";
+import { parseFrontMatter } from "../services/instructions.js";
+import { formatPullRequestDescription } from "../services/ticket-context.js";
+import { selectMcpServers, setMcpServerOverride } from "../services/mcp-servers.js";
 import {
   cloneAndBranch,
   commitAndPush,
   cleanupWorkspace,
-  createPullRequest,
   getDiff,
   useLocalFolder,
-  isAzureDevOpsUrl,
+  snapshotWorkingTree,
+  restoreWorkingTreeSnapshot,
+  createCheckpoint,
+  diffCheckpoints,
+  isCheckpointOnHead,
+} from "../../utils/azure-devops-git.js";
+import {
+  getInstructionSources,
   listSharedInstructions,
+  fetchInstructionFileContent,
+  readWorkspaceInstruction,
+  diffInstructionContent,
   copyInstructionsToWorkspace,
   cleanupTemporaryInstructions,
-  type CloneResult,
-  type SharedInstructionFile,
+  type InstructionToCopy,
+} from "../../utils/instruction-sources.js";
+import { findHostingProvider, getHostingProvider } from "../../utils/git-hosting.js";
+import {
+  writeBackToWorkItem,
+  type WorkItem,
+  type WorkItemArtifactLink,
+  type WorkItemWriteBack,
+  type WriteBackResult,
+} from "../../utils/azure-devops.js";
+import { escapeHtml, markdownToHtml } from "../../utils/markdown.js";
+import type {
+  MergeStrategy,
+  PullRequestResult,
+  PullRequestReviewer,
 } from "../../utils/azure-devops-git.js";
+import {
+  createTicketSession,
+  getTicketSession,
+  listTicketSessions,
+  closeTicketSession,
+  summarizeTicketSession,
+  touchTicketSession,
+  saveTicketSession,
+  type TicketSession,
+  type Checkpoint,
+} from "../services/sessions.js";
+import {
+  cancelOperation,
+  isCancellation,
+  waitForResume,
+  resumeOperation,
+  runningOperation,
+} from "../services/cancellation.js";
+import { runPostTasks, type PostTask } from "../services/post-tasks.js";
+import { startJob } from "../services/jobs.js";
+import { authEnabled, isVisibleTo } from "../services/auth.js";
+import { localFolderRefusal, postTasksRefusal } from "../services/server-access.js";
+import { allowChange, currentUser } from "./auth.js";
+
+// Upper bound for fix-until-green, whatever the client asks for
+const MAX_FIX_ATTEMPTS = 10;
+
+const MERGE_STRATEGIES: MergeStrategy[] = ["squash", "noFastForward", "rebase", "rebaseMerge"];
 
-interface PostTask {
-  id: string;
-  name: string;
-  command: string;
+export const ticketRouter = Router();
+
+// Every route below that has a :sessionId segment works on that session's state
+ticketRouter.param("sessionId", (req, res, next, sessionId: string) => {
+  const session = getTicketSession(sessionId);
+  // Someone else's session is answered as if it did not exist
+  if (!session || !isVisibleTo(session.ownerId, currentUser(res))) {
+    res.status(404).json({ error: `Session not found: ${sessionId}` });
+    return;
+  }
+  if (!allowChange(req, res, session.ownerId)) {
+    return;
+  }
+  touchTicketSession(session);
+  res.locals.session = session;
+  // Persist whatever the request changed once it is done, unless it closed the session
+  res.on("close", () => saveOpenSession(session));
+  next();
+});
+
+function sessionOf(res: Response): TicketSession {
+  return res.locals.session as TicketSession;
 }
 
-export const ticketRouter = Router();
+// Requests and jobs outlive the session; a session closed meanwhile must not be saved again
+function saveOpenSession(session: TicketSession): void {
+  if (getTicketSession(session.id) === session) {
+    saveTicketSession(session);
+  }
+}
+
+// The registry's MCP servers as they apply to this session's ticket and repository
+function sessionMcpServers(session: TicketSession, ticket = session.ticket) {
+  return selectMcpServers({ ticket, repoUrl: session.repoUrl }, session.mcpServerOverrides);
+}
+
+function trySnapshot(workingDirectory: string): string | null {
+  try {
+    return snapshotWorkingTree(workingDirectory);
+  } catch (error) {
+    console.warn(`Could not snapshot ${workingDirectory}:`, error);
+    return null;
+  }
+}
+
+// Undo whatever a cancelled run changed; returns a line for the progress log
+function restoreAfterCancel(workingDirectory: string, snapshot: string): string {
+  try {
+    restoreWorkingTreeSnapshot(workingDirectory, snapshot);
+    return "The workspace was restored to its state before the run.";
+  } catch (error) {
+    return error instanceof Error ? error.message : "The workspace could not be restored.";
+  }
+}
+
+// Record the workspace as a checkpoint the user can diff against or roll back to
+function recordCheckpoint(session: TicketSession, label: string, stepId?: string): Checkpoint | null {
+  if (!session.repo) {
+    return null;
+  }
+
+  const id = `cp-${session.checkpoints.length + 1}`;
+  try {
+    const sha = createCheckpoint(session.repo.localPath, session.id, id);
+    const checkpoint: Checkpoint = { id, sha, label, stepId, createdAt: new Date().toISOString() };
+    session.checkpoints.push(checkpoint);
+    return checkpoint;
+  } catch (error) {
+    console.warn(`Could not record checkpoint "${label}":`, error);
+    return null;
+  }
+}
+
+// Write-back is best effort: report what failed instead of failing the request
+async function applyWriteBack(ticket: WorkItem, writeBack: WorkItemWriteBack): Promise<WriteBackResult[]> {
+  try {
+    return await writeBackToWorkItem(ticket, writeBack);
+  } catch (error) {
+    return [{
+      action: writeBack.state ? "state" : writeBack.comment ? "comment" : "links",
+      ok: false,
+      message: error instanceof Error ? error.message : "Unknown error",
+    }];
+  }
+}
+
+// The work item comment posted with a new pull request: a link to it and the plan
+function pullRequestComment(pr: PullRequestResult, plan: TicketSession["plan"]): string {
+  const steps = (plan?.steps ?? [])
+    .filter((step) => step.enabled)
+    .map((step) => `<li>${escapeHtml(step.title)}</li>`)
+    .join("");
+
+  return [
+    `<p>Pull request created: <a href="${escapeHtml(pr.url)}">#${pr.id} ${escapeHtml(pr.title)}</a></p>`,
+    ...(plan ? [`<p><strong>Plan</strong></p>`, markdownToHtml(plan.summary)] : []),
+    ...(steps ? [`<ol>${steps}</ol>`] : []),
+  ].join("\n");
+}
+
+// List open sessions, most recently active first
+ticketRouter.get("/sessions", (_req: Request, res: Response) => {
+  res.json({ sessions: listTicketSessions(currentUser(res)) });
+});
+
+// Start a new, empty session
+ticketRouter.post("/sessions", (_req: Request, res: Response) => {
+  const session = createTicketSession(currentUser(res)?.id ?? null);
+  res.status(201).json(summarizeTicketSession(session));
+});
+
+// Opens a folder picker on the server machine: only for a server without sign-in, run by its user
+ticketRouter.get("/browse-folder", async (_req: Request, res: Response) => {
+  if (authEnabled()) {
+    res.status(403).json({ error: "The folder picker is off while sign-in is on; enter a folder under LOCAL_FOLDERS_ROOT" });
+    return;
+  }
+
+  try {
+    const platform = process.platform;
+    let command: string;
+
+    if (platform === "darwin") {
+      // macOS: Use osascript to show native folder picker
+      command = `osascript -e 'POSIX path of (choose folder with prompt "Select repository folder")'`;
+    } else if (platform === "linux") {
+      // Linux: Try zenity first, fall back to kdialog
+      command = `zenity --file-selection --directory 2>/dev/null || kdialog --getexistingdirectory ~`;
+    } else if (platform === "win32") {
+      // Windows: Use PowerShell
+      command = `powershell -Command "Add-Type -AssemblyName System.Windows.Forms; $folderBrowser = New-Object System.Windows.Forms.FolderBrowserDialog; $folderBrowser.Description = 'Select repository folder'; $result = $folderBrowser.ShowDialog(); if ($result -eq 'OK') { $folderBrowser.SelectedPath }"`;
+    } else {
+      res.status(400).json({ error: "Unsupported platform" });
+      return;
+    }
+
+    const result = execSync(command, { encoding: "utf-8", timeout: 60000 }).trim();
+
+    if (result) {
+      res.json({ path: result });
+    } else {
+      res.status(400).json({ error: "No folder selected" });
+    }
+  } catch (error) {
+    // User cancelled the dialog
+    res.status(400).json({ error: "Folder selection cancelled" });
+  }
+});
 
-// Store ticket, plan, and repo info in memory for the session
-let currentTicket: WorkItem | null = null;
-let currentPlan: TicketPlan | null = null;
-let currentRepo: CloneResult | null = null;
-let currentRepoUrl: string | null = null;
-let sourceType: "remote" | "local" = "remote";
-let canCreatePr: boolean = false;
-let temporaryInstructionFiles: string[] = [];
-let discussionHistory: DiscussionMessage[] = [];
-let implementationDiscussionHistory: DiscussionMessage[] = [];
-
-ticketRouter.post("/fetch", async (req: Request, res: Response) => {
+// Full state of a session, used by the UI when switching between sessions
+ticketRouter.get("/:sessionId", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  res.json({
+    ...summarizeTicketSession(session),
+    ticket: session.ticket,
+    plan: session.plan,
+    planInstructions: session.planInstructions,
+    repoInfo: session.repo
+      ? {
+          localPath: session.repo.localPath,
+          branchName: session.repo.branchName,
+          sourceType: session.sourceType,
+          canCreatePr: session.canCreatePr,
+          remoteUrl: session.repoUrl,
+        }
+      : null,
+    discussionHistory: session.discussionHistory,
+    implementationDiscussionHistory: session.implementationDiscussionHistory,
+    postTaskResults: session.postTaskResults,
+  });
+});
+
+// Close a session and clean up its workspace
+ticketRouter.delete("/:sessionId", (req: Request, res: Response) => {
+  closeTicketSession(req.params.sessionId as string);
+  res.json({ success: true });
+});
+
+ticketRouter.post("/:sessionId/fetch", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
   const { url } = req.body;
 
   if (!url) {
@@ -54,8 +268,8 @@ ticketRouter.post("/fetch", async (req: Request, res: Response) => {
   }
 
   try {
-    currentTicket = await fetchTicket(url);
-    res.json(currentTicket);
+    session.ticket = await fetchTicket(url);
+    res.json(session.ticket);
   } catch (error) {
     res.status(500).json({
       error: error instanceof Error ? error.message : "Failed to fetch ticket",
@@ -63,56 +277,65 @@ ticketRouter.post("/fetch", async (req: Request, res: Response) => {
   }
 });
 
-ticketRouter.post("/plan", async (req: Request, res: Response) => {
+ticketRouter.post("/:sessionId/plan", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
   const { stream, model, figmaUrl } = req.body;
   const selectedModel = model || "gpt-4.1";
 
-  if (!currentTicket) {
+  if (!session.ticket) {
     res.status(400).json({ error: "No ticket fetched. Call /fetch first." });
     return;
   }
 
-  const workingDirectory = currentRepo?.localPath;
+  const workingDirectory = session.repo?.localPath;
 
   // Use figmaUrl from request if provided, otherwise use ticket's figmaUrl
   const ticketWithFigma = {
-    ...currentTicket,
-    figmaUrl: figmaUrl || currentTicket.figmaUrl,
+    ...session.ticket,
+    figmaUrl: figmaUrl || session.ticket.figmaUrl,
   };
 
-  // If streaming is requested, use SSE
+  // If streaming is requested, run as a job the client follows over SSE
   if (stream) {
-    res.setHeader("Content-Type", "text/event-stream");
-    res.setHeader("Cache-Control", "no-cache");
-    res.setHeader("Connection", "keep-alive");
-
-    try {
-      res.write(`data: ${JSON.stringify({ type: "progress", content: `Using model: ${selectedModel}` })}\n\n`);
-
-      currentPlan = await generatePlan(ticketWithFigma, workingDirectory, (progress) => {
-        res.write(`data: ${JSON.stringify({ type: "progress", content: progress })}\n\n`);
-      }, selectedModel);
-
-      // Clear discussion history when new plan is generated
-      discussionHistory = [];
-
-      res.write(`data: ${JSON.stringify({ type: "complete", ticket: currentTicket, plan: currentPlan })}\n\n`);
-    } catch (error) {
-      res.write(`data: ${JSON.stringify({ type: "error", content: error instanceof Error ? error.message : "Failed to generate plan" })}\n\n`);
-    } finally {
-      res.end();
-    }
+    const job = startJob("plan", session.id, session.ownerId, async ({ emit, signal }) => {
+      try {
+        emit({ type: "progress", content: `Using model: ${selectedModel}` });
+
+        session.plan = await generatePlan(ticketWithFigma, workingDirectory, (progress) => {
+          emit({ type: "progress", content: progress });
+        }, selectedModel, signal, (applied) => {
+          session.planInstructions = applied;
+        }, sessionMcpServers(session, ticketWithFigma).mcpServers);
+
+        // Clear discussion history when new plan is generated
+        session.discussionHistory = [];
+
+        emit({ type: "complete", ticket: session.ticket, plan: session.plan, instructions: session.planInstructions });
+      } catch (error) {
+        if (isCancellation(error)) {
+          emit({ type: "cancelled", content: "Plan generation cancelled" });
+        } else {
+          emit({ type: "error", content: error instanceof Error ? error.message : "Failed to generate plan" });
+        }
+      } finally {
+        saveOpenSession(session);
+      }
+    });
+    res.status(202).json({ job });
     return;
   }
 
   // Non-streaming fallback
   try {
-    currentPlan = await generatePlan(ticketWithFigma, workingDirectory, undefined, selectedModel);
+    session.plan = await generatePlan(ticketWithFigma, workingDirectory, undefined, selectedModel, undefined, (applied) => {
+      session.planInstructions = applied;
+    }, sessionMcpServers(session, ticketWithFigma).mcpServers);
     // Clear discussion history when new plan is generated
-    discussionHistory = [];
+    session.discussionHistory = [];
     res.json({
-      ticket: currentTicket,
-      plan: currentPlan,
+      ticket: session.ticket,
+      plan: session.plan,
+      instructions: session.planInstructions,
     });
   } catch (error) {
     res.status(500).json({
@@ -121,10 +344,11 @@ ticketRouter.post("/plan", async (req: Request, res: Response) => {
   }
 });
 
-ticketRouter.post("/clone", async (req: Request, res: Response) => {
+ticketRouter.post("/:sessionId/clone", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
   const { repoUrl } = req.body;
 
-  if (!currentTicket) {
+  if (!session.ticket) {
     res.status(400).json({ error: "No ticket fetched. Call /fetch first." });
     return;
   }
@@ -136,24 +360,27 @@ ticketRouter.post("/clone", async (req: Request, res: Response) => {
 
   try {
     // Clean up previous clone if exists
-    if (currentRepo) {
-      cleanupWorkspace(currentRepo.localPath);
+    if (session.repo && session.sourceType === "remote") {
+      cleanupWorkspace(session.repo.localPath);
     }
 
-    currentRepoUrl = repoUrl;
-    sourceType = "remote";
-    canCreatePr = isAzureDevOpsUrl(repoUrl);
-    currentRepo = await cloneAndBranch(
+    const hosting = getHostingProvider(repoUrl);
+    session.repoUrl = repoUrl;
+    session.sourceType = "remote";
+    session.canCreatePr = true;
+    session.repo = await cloneAndBranch(
+      hosting,
       repoUrl,
-      currentTicket.id,
-      currentTicket.title
+      session.ticket.id,
+      session.ticket.title
     );
 
     res.json({
-      localPath: currentRepo.localPath,
-      branchName: currentRepo.branchName,
-      sourceType,
-      canCreatePr,
+      localPath: session.repo.localPath,
+      branchName: session.repo.branchName,
+      sourceType: session.sourceType,
+      canCreatePr: session.canCreatePr,
+      remoteUrl: session.repoUrl,
     });
   } catch (error) {
     res.status(500).json({
@@ -162,115 +389,170 @@ ticketRouter.post("/clone", async (req: Request, res: Response) => {
   }
 });
 
-ticketRouter.post("/implement", async (req: Request, res: Response) => {
-  const { model, postTasks = [] } = req.body as { model?: string; postTasks?: PostTask[] };
+ticketRouter.post("/:sessionId/implement", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const {
+    model,
+    postTasks = [],
+    fixUntilGreen = false,
+    maxFixAttempts = 3,
+    pauseBetweenSteps = false,
+  } = req.body as {
+    model?: string;
+    postTasks?: PostTask[];
+    fixUntilGreen?: boolean;
+    maxFixAttempts?: number;
+    pauseBetweenSteps?: boolean;
+  };
 
-  if (!currentTicket || !currentPlan) {
+  if (!session.ticket || !session.plan) {
     res.status(400).json({ error: "No ticket or plan. Call /fetch and /plan first." });
     return;
   }
 
-  // Set up SSE for streaming progress
-  res.setHeader("Content-Type", "text/event-stream");
-  res.setHeader("Cache-Control", "no-cache");
-  res.setHeader("Connection", "keep-alive");
+  if (!session.plan.steps.some((step) => step.enabled)) {
+    res.status(400).json({ error: "Every step of the plan is disabled. Enable at least one step." });
+    return;
+  }
+
+  const refusal = postTasksRefusal(postTasks);
+  if (refusal) {
+    res.status(403).json({ error: refusal });
+    return;
+  }
 
   // Use cloned repo path if available, otherwise current directory
-  const workingDirectory = currentRepo?.localPath;
+  const workingDirectory = session.repo?.localPath;
   const selectedModel = model || "claude-sonnet-4.5";
+  const { ticket, plan } = session;
+
+  const job = startJob("implement", session.id, session.ownerId, async ({ emit, signal }) => {
+    const sendProgress = (progress: ImplementationProgress) => emit(progress);
+    const sendCheckpoint = (label: string, stepId?: string) => {
+      const checkpoint = recordCheckpoint(session, label, stepId);
+      if (checkpoint) {
+        sendProgress({ type: "checkpoint", checkpointId: checkpoint.id, content: `Checkpoint: ${label}` });
+      }
+      return checkpoint;
+    };
 
-  try {
-    res.write(`data: ${JSON.stringify({
-      type: "message",
-      content: `Using model: ${selectedModel}\n`,
-    })}\n\n`);
+    // The workspace as it is now, so a cancelled run can be undone
+    const snapshot = sendCheckpoint("Before implementation")?.sha ?? null;
+    session.postTaskResults = [];
 
-    if (workingDirectory) {
-      res.write(`data: ${JSON.stringify({
-        type: "message",
-        content: `Working in: ${workingDirectory}\nBranch: ${currentRepo?.branchName}\n\n`,
-      })}\n\n`);
-    }
-
-    await implementTicket(
-      currentTicket,
-      currentPlan.implementationPlan,
-      (progress) => {
-        res.write(`data: ${JSON.stringify(progress)}\n\n`);
-      },
-      workingDirectory,
-      selectedModel
-    );
+    try {
+      emit({ type: "message", content: `Using model: ${selectedModel}\n` });
 
-    // Run post-implementation tasks
-    if (postTasks.length > 0 && workingDirectory) {
-      res.write(`data: ${JSON.stringify({
-        type: "message",
-        content: "\n--- Running Post-Implementation Tasks ---\n",
-      })}\n\n`);
-
-      for (const task of postTasks) {
-        res.write(`data: ${JSON.stringify({
-          type: "post_task",
-          content: `Running: ${task.name} (${task.command})`,
-        })}\n\n`);
-
-        try {
-          const output = execSync(task.command, {
-            cwd: workingDirectory,
-            encoding: "utf-8",
-            timeout: 300000, // 5 minute timeout
-            stdio: ["pipe", "pipe", "pipe"],
-          });
+      if (workingDirectory) {
+        emit({
+          type: "message",
+          content: `Working in: ${workingDirectory}\nBranch: ${session.repo?.branchName}\n\n`,
+        });
+      }
 
-          // Send trimmed output (limit to last 50 lines to avoid flooding)
-          const lines = output.trim().split("\n");
-          const displayLines = lines.length > 50 ? lines.slice(-50) : lines;
-          if (displayLines.length > 0 && displayLines[0]) {
-            res.write(`data: ${JSON.stringify({
-              type: "message",
-              content: displayLines.join("\n") + "\n",
-            })}\n\n`);
-          }
-
-          res.write(`data: ${JSON.stringify({
+      const { mcpServers } = sessionMcpServers(session);
+      await implementTicket(
+        ticket,
+        plan,
+        sendProgress,
+        workingDirectory,
+        selectedModel,
+        signal,
+        {
+          mcpServers,
+          afterStep: (step, index, total) =>
+            sendCheckpoint(`After step ${index + 1}/${total}: ${step.title}`, step.id),
+          // Wait for POST /continue before each step after the first
+          ...(pauseBetweenSteps && {
+            beforeStep: async (step, index, total) => {
+              sendProgress({
+                type: "step_paused",
+                stepId: step.id,
+                content: `Paused before step ${index + 1}/${total}: ${step.title}. Review the changes so far, then continue.`,
+              });
+              await waitForResume(session.id, signal);
+            },
+          }),
+        }
+      );
+
+      // Run post-implementation tasks
+      if (postTasks.length > 0 && workingDirectory) {
+        emit({ type: "message", content: "\n--- Running Post-Implementation Tasks ---\n" });
+
+        session.postTaskResults = await runPostTasks(postTasks, {
+          cwd: workingDirectory,
+          signal,
+          onProgress: sendProgress,
+          // Fix-until-green: hand the failure output back to Copilot, then re-run
+          ...(fixUntilGreen && {
+            maxFixAttempts: Math.min(Math.max(1, maxFixAttempts), MAX_FIX_ATTEMPTS),
+            fix: (task: PostTask, output: string) =>
+              fixFailingTask(
+                ticket,
+                task.name,
+                task.command,
+                output,
+                sendProgress,
+                workingDirectory,
+                selectedModel,
+                signal,
+                mcpServers
+              ),
+          }),
+        });
+
+        const failedTasks = session.postTaskResults.filter((result) => result.status !== "passed");
+        if (failedTasks.length > 0) {
+          sendProgress({
             type: "post_task",
-            content: `✓ ${task.name} completed successfully`,
-          })}\n\n`);
-        } catch (taskError) {
-          const errorMessage = taskError instanceof Error ? taskError.message : "Unknown error";
-          res.write(`data: ${JSON.stringify({
-            type: "error",
-            content: `✗ ${task.name} failed: ${errorMessage}`,
-          })}\n\n`);
-          // Continue with other tasks even if one fails
+            content: `Still failing: ${failedTasks.map((result) => result.name).join(", ")}`,
+          });
         }
+
+        emit({ type: "message", content: "--- Post-Implementation Tasks Complete ---\n\n" });
       }
 
-      res.write(`data: ${JSON.stringify({
-        type: "message",
-        content: "--- Post-Implementation Tasks Complete ---\n\n",
-      })}\n\n`);
+      // Don't auto-commit - let user review diff first
+      emit({ type: "complete", content: "Implementation complete! Review the changes below." });
+    } catch (error) {
+      if (isCancellation(error)) {
+        const content = workingDirectory && snapshot
+          ? `Implementation cancelled. ${restoreAfterCancel(workingDirectory, snapshot)}`
+          : "Implementation cancelled.";
+        emit({ type: "cancelled", content });
+      } else {
+        emit({ type: "error", content: error instanceof Error ? error.message : "Unknown error" });
+      }
+    } finally {
+      saveOpenSession(session);
     }
+  });
+  res.status(202).json({ job });
+});
 
-    // Don't auto-commit - let user review diff first
-    res.write(`data: ${JSON.stringify({ type: "complete", content: "Implementation complete! Review the changes below." })}\n\n`);
-  } catch (error) {
-    res.write(
-      `data: ${JSON.stringify({
-        type: "error",
-        content: error instanceof Error ? error.message : "Unknown error",
-      })}\n\n`
-    );
-  } finally {
-    res.end();
+// Run the next plan step of an implementation that is paused between steps
+ticketRouter.post("/:sessionId/continue", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  if (!resumeOperation(session.id)) {
+    res.status(409).json({ error: "No implementation is waiting to continue" });
+    return;
   }
+  res.json({ resumed: true });
 });
 
-ticketRouter.post("/refine", async (req: Request, res: Response) => {
+// Stop the plan generation, implementation or refinement running for this session
+ticketRouter.post("/:sessionId/cancel", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const cancelled = cancelOperation(session.id);
+  res.json({ cancelled: cancelled !== null, operation: cancelled });
+});
+
+ticketRouter.post("/:sessionId/refine", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
   const { feedback } = req.body;
 
-  if (!currentTicket || !currentPlan) {
+  if (!session.ticket || !session.plan) {
     res.status(400).json({ error: "No ticket or plan. Call /fetch and /plan first." });
     return;
   }
@@ -282,17 +564,20 @@ ticketRouter.post("/refine", async (req: Request, res: Response) => {
 
   try {
     // Pass working directory if available to load custom instructions
-    const workingDirectory = currentRepo?.localPath;
-    const refinedPlan = await refinePlan(
-      currentTicket,
-      currentPlan.implementationPlan,
+    const workingDirectory = session.repo?.localPath;
+    session.plan = await refinePlan(
+      session.ticket,
+      session.plan,
       feedback,
-      workingDirectory
+      workingDirectory,
+      (applied) => {
+        session.planInstructions = applied;
+      },
+      sessionMcpServers(session).mcpServers
     );
-    currentPlan = { ...currentPlan, implementationPlan: refinedPlan };
     // Clear discussion history when plan is refined
-    discussionHistory = [];
-    res.json({ plan: currentPlan });
+    session.discussionHistory = [];
+    res.json({ plan: session.plan, instructions: session.planInstructions });
   } catch (error) {
     res.status(500).json({
       error: error instanceof Error ? error.message : "Failed to refine plan",
@@ -300,10 +585,11 @@ ticketRouter.post("/refine", async (req: Request, res: Response) => {
   }
 });
 
-ticketRouter.post("/discuss", async (req: Request, res: Response) => {
+ticketRouter.post("/:sessionId/discuss", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
   const { question } = req.body;
 
-  if (!currentTicket || !currentPlan) {
+  if (!session.ticket || !session.plan) {
     res.status(400).json({ error: "No ticket or plan. Call /fetch and /plan first." });
     return;
   }
@@ -314,25 +600,27 @@ ticketRouter.post("/discuss", async (req: Request, res: Response) => {
   }
 
   try {
-    const workingDirectory = currentRepo?.localPath;
+    const workingDirectory = session.repo?.localPath;
     const response = await discussPlan(
-      currentTicket,
-      currentPlan.implementationPlan,
+      session.ticket,
+      session.plan,
       question,
-      discussionHistory,
-      workingDirectory
+      session.discussionHistory,
+      workingDirectory,
+      undefined,
+      sessionMcpServers(session).mcpServers
     );
 
     // Add to conversation history
-    discussionHistory.push({ role: "user", content: question });
-    discussionHistory.push({ role: "assistant", content: response });
+    session.discussionHistory.push({ role: "user", content: question });
+    session.discussionHistory.push({ role: "assistant", content: response });
 
     // Keep history manageable (last 10 exchanges)
-    if (discussionHistory.length > 20) {
-      discussionHistory = discussionHistory.slice(-20);
+    if (session.discussionHistory.length > 20) {
+      session.discussionHistory = session.discussionHistory.slice(-20);
     }
 
-    res.json({ response, history: discussionHistory });
+    res.json({ response, history: session.discussionHistory });
   } catch (error) {
     res.status(500).json({
       error: error instanceof Error ? error.message : "Failed to discuss plan",
@@ -340,19 +628,22 @@ ticketRouter.post("/discuss", async (req: Request, res: Response) => {
   }
 });
 
-ticketRouter.get("/discussion-history", (_req: Request, res: Response) => {
-  res.json({ history: discussionHistory });
+ticketRouter.get("/:sessionId/discussion-history", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  res.json({ history: session.discussionHistory });
 });
 
-ticketRouter.post("/clear-discussion", (_req: Request, res: Response) => {
-  discussionHistory = [];
+ticketRouter.post("/:sessionId/clear-discussion", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  session.discussionHistory = [];
   res.json({ success: true });
 });
 
-ticketRouter.post("/discuss-implementation", async (req: Request, res: Response) => {
+ticketRouter.post("/:sessionId/discuss-implementation", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
   const { question, diff } = req.body;
 
-  if (!currentTicket || !currentPlan) {
+  if (!session.ticket || !session.plan) {
     res.status(400).json({ error: "No ticket or plan available." });
     return;
   }
@@ -363,26 +654,27 @@ ticketRouter.post("/discuss-implementation", async (req: Request, res: Response)
   }
 
   try {
-    const workingDirectory = currentRepo?.localPath;
+    const workingDirectory = session.repo?.localPath;
     const response = await discussImplementation(
-      currentTicket,
-      currentPlan.implementationPlan,
+      session.ticket,
+      formatPlan(session.plan),
       diff || "(No diff provided)",
       question,
-      implementationDiscussionHistory,
-      workingDirectory
+      session.implementationDiscussionHistory,
+      workingDirectory,
+      sessionMcpServers(session).mcpServers
     );
 
     // Add to conversation history
-    implementationDiscussionHistory.push({ role: "user", content: question });
-    implementationDiscussionHistory.push({ role: "assistant", content: response });
+    session.implementationDiscussionHistory.push({ role: "user", content: question });
+    session.implementationDiscussionHistory.push({ role: "assistant", content: response });
 
     // Keep history manageable (last 10 exchanges)
-    if (implementationDiscussionHistory.length > 20) {
-      implementationDiscussionHistory = implementationDiscussionHistory.slice(-20);
+    if (session.implementationDiscussionHistory.length > 20) {
+      session.implementationDiscussionHistory = session.implementationDiscussionHistory.slice(-20);
     }
 
-    res.json({ response, history: implementationDiscussionHistory });
+    res.json({ response, history: session.implementationDiscussionHistory });
   } catch (error) {
     res.status(500).json({
       error: error instanceof Error ? error.message : "Failed to discuss implementation",
@@ -390,38 +682,49 @@ ticketRouter.post("/discuss-implementation", async (req: Request, res: Response)
   }
 });
 
-ticketRouter.get("/implementation-discussion-history", (_req: Request, res: Response) => {
-  res.json({ history: implementationDiscussionHistory });
+ticketRouter.get("/:sessionId/implementation-discussion-history", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  res.json({ history: session.implementationDiscussionHistory });
 });
 
-ticketRouter.post("/clear-implementation-discussion", (_req: Request, res: Response) => {
-  implementationDiscussionHistory = [];
+ticketRouter.post("/:sessionId/clear-implementation-discussion", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  session.implementationDiscussionHistory = [];
   res.json({ success: true });
 });
 
-ticketRouter.post("/update-plan", async (req: Request, res: Response) => {
-  const { implementationPlan } = req.body;
+ticketRouter.post("/:sessionId/update-plan", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const { steps } = req.body;
 
-  if (!currentPlan) {
+  if (!session.plan) {
     res.status(400).json({ error: "No plan exists." });
     return;
   }
 
-  currentPlan = { ...currentPlan, implementationPlan };
-  res.json({ plan: currentPlan });
+  if (!Array.isArray(steps)) {
+    res.status(400).json({ error: "steps must be an array" });
+    return;
+  }
+
+  // Steps arrive edited, reordered or disabled from the plan review screen
+  session.plan = { ...session.plan, steps: normalizePlanSteps(steps) };
+  res.json({ plan: session.plan });
 });
 
-ticketRouter.get("/current", (_req: Request, res: Response) => {
+ticketRouter.get("/:sessionId/current", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
   res.json({
-    ticket: currentTicket,
-    plan: currentPlan,
+    ticket: session.ticket,
+    plan: session.plan,
   });
 });
 
-ticketRouter.post("/use-local", async (req: Request, res: Response) => {
+ticketRouter.post("/:sessionId/use-local", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
   const { localPath } = req.body;
 
-  if (!currentTicket) {
+  if (!session.ticket) {
     res.status(400).json({ error: "No ticket fetched. Call /fetch first." });
     return;
   }
@@ -431,28 +734,34 @@ ticketRouter.post("/use-local", async (req: Request, res: Response) => {
     return;
   }
 
+  const refusal = localFolderRefusal(localPath);
+  if (refusal) {
+    res.status(403).json({ error: refusal });
+    return;
+  }
+
   try {
     // Clean up previous clone if exists
-    if (currentRepo && sourceType === "remote") {
-      cleanupWorkspace(currentRepo.localPath);
+    if (session.repo && session.sourceType === "remote") {
+      cleanupWorkspace(session.repo.localPath);
     }
 
     const result = await useLocalFolder(
       localPath,
-      currentTicket.id,
-      currentTicket.title
+      session.ticket.id,
+      session.ticket.title
     );
 
-    currentRepo = { localPath: result.localPath, branchName: result.branchName };
-    currentRepoUrl = result.remoteUrl;
-    sourceType = "local";
-    canCreatePr = result.isAzureDevOps;
+    session.repo = { localPath: result.localPath, branchName: result.branchName };
+    session.repoUrl = result.remoteUrl;
+    session.sourceType = "local";
+    session.canCreatePr = !!(result.remoteUrl && findHostingProvider(result.remoteUrl));
 
     res.json({
       localPath: result.localPath,
       branchName: result.branchName,
-      sourceType,
-      canCreatePr,
+      sourceType: session.sourceType,
+      canCreatePr: session.canCreatePr,
       remoteUrl: result.remoteUrl,
     });
   } catch (error) {
@@ -462,14 +771,23 @@ ticketRouter.post("/use-local", async (req: Request, res: Response) => {
   }
 });
 
-ticketRouter.get("/diff", async (_req: Request, res: Response) => {
-  if (!currentRepo) {
+// ?checkpoint=<id> diffs the workspace against that checkpoint instead of HEAD
+ticketRouter.get("/:sessionId/diff", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  if (!session.repo) {
     res.status(400).json({ error: "No repository set up. Clone or use local folder first." });
     return;
   }
 
+  const checkpointId = req.query.checkpoint as string | undefined;
+  const checkpoint = session.checkpoints.find((c) => c.id === checkpointId);
+  if (checkpointId && !checkpoint) {
+    res.status(404).json({ error: `Checkpoint not found: ${checkpointId}` });
+    return;
+  }
+
   try {
-    const diff = getDiff(currentRepo.localPath);
+    const diff = getDiff(session.repo.localPath, checkpoint?.sha);
     res.json({ diff });
   } catch (error) {
     res.status(500).json({
@@ -478,36 +796,169 @@ ticketRouter.get("/diff", async (_req: Request, res: Response) => {
   }
 });
 
-ticketRouter.post("/create-pr", async (req: Request, res: Response) => {
-  if (!currentTicket || !currentPlan) {
+ticketRouter.get("/:sessionId/checkpoints", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  res.json({ checkpoints: session.checkpoints });
+});
+
+// What changed between two checkpoints: ?from=<id>, by default the one before
+ticketRouter.get("/:sessionId/checkpoints/:checkpointId/diff", (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  if (!session.repo) {
+    res.status(400).json({ error: "No repository set up." });
+    return;
+  }
+
+  const index = session.checkpoints.findIndex((c) => c.id === req.params.checkpointId);
+  if (index === -1) {
+    res.status(404).json({ error: `Checkpoint not found: ${req.params.checkpointId}` });
+    return;
+  }
+  const checkpoint = session.checkpoints[index];
+
+  const fromId = req.query.from as string | undefined;
+  const from = fromId ? session.checkpoints.find((c) => c.id === fromId) : session.checkpoints[index - 1];
+  if (fromId && !from) {
+    res.status(404).json({ error: `Checkpoint not found: ${fromId}` });
+    return;
+  }
+
+  try {
+    // The first checkpoint is compared with the commit it was taken on
+    const diff = diffCheckpoints(session.repo.localPath, from?.sha ?? `${checkpoint.sha}^`, checkpoint.sha);
+    res.json({ diff });
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to get diff",
+    });
+  }
+});
+
+// Put the workspace back to a checkpoint. Only uncommitted work can be rolled back.
+ticketRouter.post("/:sessionId/checkpoints/:checkpointId/rollback", (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  if (!session.repo) {
+    res.status(400).json({ error: "No repository set up." });
+    return;
+  }
+
+  const checkpoint = session.checkpoints.find((c) => c.id === req.params.checkpointId);
+  if (!checkpoint) {
+    res.status(404).json({ error: `Checkpoint not found: ${req.params.checkpointId}` });
+    return;
+  }
+
+  const running = runningOperation(session.id);
+  if (running) {
+    res.status(409).json({ error: `Cannot roll back while ${running} is running. Stop it first.` });
+    return;
+  }
+
+  if (!isCheckpointOnHead(session.repo.localPath, checkpoint.sha)) {
+    res.status(409).json({ error: "Changes have been committed since this checkpoint, so it can no longer be rolled back to." });
+    return;
+  }
+
+  // So the rollback itself can be undone
+  recordCheckpoint(session, `Before rolling back to "${checkpoint.label}"`);
+
+  try {
+    restoreWorkingTreeSnapshot(session.repo.localPath, checkpoint.sha);
+    res.json({ checkpoint, checkpoints: session.checkpoints });
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to roll back",
+    });
+  }
+});
+
+ticketRouter.post("/:sessionId/create-pr", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const {
+    targetBranch,
+    isDraft = false,
+    reviewers = [],
+    labels = [],
+    linkWorkItem = false,
+    autoComplete,
+    writeBack,
+  } = req.body as {
+    /** Defaults to the repository's default branch */
+    targetBranch?: string;
+    isDraft?: boolean;
+    reviewers?: PullRequestReviewer[];
+    labels?: string[];
+    /** Add the ticket to the PR's workItemRefs (Azure DevOps tickets and repositories) */
+    linkWorkItem?: boolean;
+    autoComplete?: { mergeStrategy: MergeStrategy; deleteSourceBranch?: boolean };
+    /** What to write back to the Azure DevOps work item once the PR exists */
+    writeBack?: { state?: string; comment?: boolean; links?: boolean };
+  };
+
+  if (autoComplete && !MERGE_STRATEGIES.includes(autoComplete.mergeStrategy)) {
+    res.status(400).json({ error: `mergeStrategy must be one of: ${MERGE_STRATEGIES.join(", ")}` });
+    return;
+  }
+
+  if (!session.ticket || !session.plan) {
     res.status(400).json({ error: "No ticket or plan. Call /fetch and /plan first." });
     return;
   }
 
-  if (!currentRepo || !currentRepoUrl) {
+  if (!session.repo || !session.repoUrl) {
     res.status(400).json({ error: "No repository set up." });
     return;
   }
 
-  if (!canCreatePr) {
-    res.status(400).json({ error: "PR creation not supported for this remote. Only Azure DevOps repositories are supported." });
+  const hosting = findHostingProvider(session.repoUrl);
+  if (!session.canCreatePr || !hosting) {
+    res.status(400).json({ error: "PR creation not supported for this remote. Only Azure DevOps and GitHub repositories are supported." });
     return;
   }
 
   try {
-    const prDescription = `## Ticket\n[#${currentTicket.id}: ${currentTicket.title}](${currentTicket.url})\n\n## Implementation\nThis PR implements the changes for ticket #${currentTicket.id}.\n\n## Plan\n${currentPlan.implementationPlan}`;
+    const prDescription = formatPullRequestDescription(session.ticket, session.plan);
+
+    const workItemIds = linkWorkItem && session.ticket.source === "azure-devops" && hosting.id === "azure-devops"
+      ? [session.ticket.id]
+      : [];
+
+    const pr = await hosting.createPullRequest(session.repoUrl, {
+      sourceBranch: session.repo.branchName,
+      targetBranch: targetBranch?.trim() || await hosting.getDefaultBranch(session.repoUrl),
+      title: `[#${session.ticket.id}] ${session.ticket.title}`,
+      description: prDescription,
+      isDraft,
+      reviewers: reviewers.filter((reviewer) => reviewer.name?.trim()),
+      labels: labels.map((label) => label.trim()).filter(Boolean),
+      workItemIds,
+      autoComplete,
+    });
 
-    const pr = await createPullRequest(
-      currentRepoUrl,
-      currentRepo.branchName,
-      `[#${currentTicket.id}] ${currentTicket.title}`,
-      prDescription
-    );
+    let writeBackResults: WriteBackResult[] = [];
+    if (writeBack && session.ticket.source === "azure-devops") {
+      // workItemRefs already linked the PR itself; adding it again would fail as a duplicate
+      const links: WorkItemArtifactLink[] = pr.artifactUrls
+        ? [
+            ...(workItemIds.length === 0
+              ? [{ kind: "artifact" as const, url: pr.artifactUrls.pullRequest, name: "Pull Request" }]
+              : []),
+            { kind: "artifact", url: pr.artifactUrls.branch, name: "Branch" },
+          ]
+        : [{ kind: "hyperlink", url: pr.url, name: "Pull Request" }];
+
+      writeBackResults = await applyWriteBack(session.ticket, {
+        state: writeBack.state,
+        comment: writeBack.comment ? pullRequestComment(pr, session.plan) : undefined,
+        links: writeBack.links ? links : [],
+      });
+    }
 
     res.json({
       id: pr.id,
       url: pr.url,
       title: pr.title,
+      writeBack: writeBackResults,
     });
   } catch (error) {
     res.status(500).json({
@@ -516,70 +967,87 @@ ticketRouter.post("/create-pr", async (req: Request, res: Response) => {
   }
 });
 
-ticketRouter.get("/repo-info", (_req: Request, res: Response) => {
-  res.json({
-    hasRepo: !!currentRepo,
-    sourceType,
-    canCreatePr,
-    branchName: currentRepo?.branchName || null,
-    localPath: currentRepo?.localPath || null,
-  });
-});
+// The branch a new PR targets unless the user picks another
+ticketRouter.get("/:sessionId/default-branch", async (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const hosting = session.repoUrl ? findHostingProvider(session.repoUrl) : null;
+  if (!session.repoUrl || !hosting) {
+    res.status(400).json({ error: "No Azure DevOps or GitHub repository set up." });
+    return;
+  }
 
-ticketRouter.get("/browse-folder", async (_req: Request, res: Response) => {
   try {
-    const platform = process.platform;
-    let command: string;
+    res.json({ branch: await hosting.getDefaultBranch(session.repoUrl) });
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to get the default branch",
+    });
+  }
+});
 
-    if (platform === "darwin") {
-      // macOS: Use osascript to show native folder picker
-      command = `osascript -e 'POSIX path of (choose folder with prompt "Select repository folder")'`;
-    } else if (platform === "linux") {
-      // Linux: Try zenity first, fall back to kdialog
-      command = `zenity --file-selection --directory 2>/dev/null || kdialog --getexistingdirectory ~`;
-    } else if (platform === "win32") {
-      // Windows: Use PowerShell
-      command = `powershell -Command "Add-Type -AssemblyName System.Windows.Forms; $folderBrowser = New-Object System.Windows.Forms.FolderBrowserDialog; $folderBrowser.Description = 'Select repository folder'; $result = $folderBrowser.ShowDialog(); if ($result -eq 'OK') { $folderBrowser.SelectedPath }"`;
-    } else {
-      res.status(400).json({ error: "Unsupported platform" });
-      return;
-    }
+// Move the Azure DevOps work item to another state, e.g. "Active" as implementation starts
+ticketRouter.post("/:sessionId/work-item-state", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const { state } = req.body as { state?: string };
+  if (!session.ticket) {
+    res.status(400).json({ error: "No ticket. Call /fetch first." });
+    return;
+  }
 
-    const result = execSync(command, { encoding: "utf-8", timeout: 60000 }).trim();
+  if (!state?.trim()) {
+    res.status(400).json({ error: "state is required" });
+    return;
+  }
 
-    if (result) {
-      res.json({ path: result });
-    } else {
-      res.status(400).json({ error: "No folder selected" });
-    }
-  } catch (error) {
-    // User cancelled the dialog
-    res.status(400).json({ error: "Folder selection cancelled" });
+  if (session.ticket.source !== "azure-devops") {
+    res.status(400).json({ error: "Write-back is only supported for Azure DevOps work items" });
+    return;
+  }
+
+  const [result] = await applyWriteBack(session.ticket, { state: state.trim() });
+  if (!result.ok) {
+    res.status(502).json({ error: result.message });
+    return;
   }
+  res.json(result);
 });
 
-ticketRouter.post("/commit-push", async (req: Request, res: Response) => {
-  if (!currentTicket) {
+ticketRouter.get("/:sessionId/repo-info", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  res.json({
+    hasRepo: !!session.repo,
+    sourceType: session.sourceType,
+    canCreatePr: session.canCreatePr,
+    branchName: session.repo?.branchName || null,
+    localPath: session.repo?.localPath || null,
+  });
+});
+
+ticketRouter.post("/:sessionId/commit-push", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  if (!session.ticket) {
     res.status(400).json({ error: "No ticket. Call /fetch first." });
     return;
   }
 
-  if (!currentRepo) {
+  if (!session.repo) {
     res.status(400).json({ error: "No repository set up." });
     return;
   }
 
   try {
     await commitAndPush(
-      currentRepo.localPath,
-      currentRepo.branchName,
-      `Implement ticket #${currentTicket.id}: ${currentTicket.title}`
+      // The user's own folder pushes with its own git credentials
+      session.sourceType === "remote" && session.repoUrl ? getHostingProvider(session.repoUrl) : null,
+      session.repo.localPath,
+      session.repo.branchName,
+      `Implement ticket #${session.ticket.id}: ${session.ticket.title}`
     );
 
     res.json({
       success: true,
-      branchName: currentRepo.branchName,
-      message: `Changes committed and pushed to branch: ${currentRepo.branchName}`,
+      branchName: session.repo.branchName,
+      message: `Changes committed and pushed to branch: ${session.repo.branchName}`,
     });
   } catch (error) {
     res.status(500).json({
@@ -588,15 +1056,16 @@ ticketRouter.post("/commit-push", async (req: Request, res: Response) => {
   }
 });
 
-ticketRouter.post("/refine-code", async (req: Request, res: Response) => {
+ticketRouter.post("/:sessionId/refine-code", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
   const { feedback, model } = req.body;
 
-  if (!currentTicket || !currentPlan) {
+  if (!session.ticket || !session.plan) {
     res.status(400).json({ error: "No ticket or plan. Call /fetch and /plan first." });
     return;
   }
 
-  if (!currentRepo) {
+  if (!session.repo) {
     res.status(400).json({ error: "No repository set up." });
     return;
   }
@@ -606,79 +1075,147 @@ ticketRouter.post("/refine-code", async (req: Request, res: Response) => {
     return;
   }
 
-  // Set up SSE for streaming progress
-  res.setHeader("Content-Type", "text/event-stream");
-  res.setHeader("Cache-Control", "no-cache");
-  res.setHeader("Connection", "keep-alive");
-
   const selectedModel = model || "claude-sonnet-4.5";
+  const { ticket, plan, repo } = session;
+
+  const job = startJob("refine-code", session.id, session.ownerId, async ({ emit, signal }) => {
+    const snapshot = trySnapshot(repo.localPath);
+
+    try {
+      emit({
+        type: "message",
+        content: `Refining code based on feedback...\nUsing model: ${selectedModel}\n\n`,
+      });
+
+      await refineImplementation(
+        ticket,
+        plan,
+        feedback,
+        emit,
+        repo.localPath,
+        selectedModel,
+        signal,
+        sessionMcpServers(session).mcpServers
+      );
+
+      const checkpoint = recordCheckpoint(session, `After changes: ${feedback.slice(0, 60)}`);
+      if (checkpoint) {
+        emit({ type: "checkpoint", checkpointId: checkpoint.id, content: `Checkpoint: ${checkpoint.label}` });
+      }
+
+      emit({ type: "complete", content: "Refinement complete! Review the updated changes." });
+    } catch (error) {
+      if (isCancellation(error)) {
+        const content = snapshot
+          ? `Refinement cancelled. ${restoreAfterCancel(repo.localPath, snapshot)}`
+          : "Refinement cancelled.";
+        emit({ type: "cancelled", content });
+      } else {
+        emit({ type: "error", content: error instanceof Error ? error.message : "Unknown error" });
+      }
+    } finally {
+      saveOpenSession(session);
+    }
+  });
+  res.status(202).json({ job });
+});
 
+// MCP servers from the registry, and whether this session's Copilot sessions get them
+ticketRouter.get("/:sessionId/mcp-servers", (_req: Request, res: Response) => {
+  const session = sessionOf(res);
   try {
-    res.write(`data: ${JSON.stringify({
-      type: "message",
-      content: `Refining code based on feedback...\nUsing model: ${selectedModel}\n\n`,
-    })}\n\n`);
-
-    // Create a refinement prompt that includes the feedback
-    const refinementPlan = `
-Previous implementation context:
-${currentPlan.implementationPlan}
-
-User feedback for refinement:
-${feedback}
-
-Please make the requested changes to the code based on the feedback above.
-`;
-
-    await implementTicket(
-      currentTicket,
-      refinementPlan,
-      (progress) => {
-        res.write(`data: ${JSON.stringify(progress)}\n\n`);
-      },
-      currentRepo.localPath,
-      selectedModel
-    );
+    res.json({ servers: sessionMcpServers(session).servers });
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to load MCP servers",
+    });
+  }
+});
+
+// Turn one MCP server on or off for this session
+ticketRouter.put("/:sessionId/mcp-servers/:serverId", (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const { enabled } = req.body as { enabled?: boolean };
 
-    res.write(`data: ${JSON.stringify({ type: "complete", content: "Refinement complete! Review the updated changes." })}\n\n`);
+  if (typeof enabled !== "boolean") {
+    res.status(400).json({ error: "enabled must be true or false" });
+    return;
+  }
+
+  try {
+    const status = sessionMcpServers(session).servers.find((server) => server.id === req.params.serverId);
+    if (!status) {
+      res.status(404).json({ error: `Unknown MCP server: ${req.params.serverId}` });
+      return;
+    }
+    session.mcpServerOverrides = setMcpServerOverride(session.mcpServerOverrides, status, enabled);
+    res.json({ servers: sessionMcpServers(session).servers });
   } catch (error) {
-    res.write(
-      `data: ${JSON.stringify({
-        type: "error",
-        content: error instanceof Error ? error.message : "Unknown error",
-      })}\n\n`
-    );
-  } finally {
-    res.end();
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to update MCP servers",
+    });
   }
 });
 
 // List available shared instructions
-ticketRouter.get("/shared-instructions", async (_req: Request, res: Response) => {
-  if (!process.env.SHARED_INSTRUCTIONS_REPO) {
-    res.status(400).json({
-      error: "SHARED_INSTRUCTIONS_REPO environment variable is not set",
-      notConfigured: true,
+ticketRouter.get("/:sessionId/shared-instructions", async (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  try {
+    if (getInstructionSources().length === 0) {
+      res.status(400).json({
+        error: "No instruction sources configured (instruction-sources.json or SHARED_INSTRUCTIONS_REPO)",
+        notConfigured: true,
+      });
+      return;
+    }
+
+    const workspacePath = session.repo?.localPath;
+    const { instructions, sources } = await listSharedInstructions(workspacePath);
+    res.json({ instructions, sources });
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to list shared instructions",
     });
+  }
+});
+
+// Preview a shared instruction file, against the workspace's copy if the name is taken
+ticketRouter.get("/:sessionId/shared-instructions/preview", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const { sourceId, path } = req.query as { sourceId?: string; path?: string };
+
+  if (!sourceId || !path) {
+    res.status(400).json({ error: "sourceId and path are required" });
     return;
   }
 
   try {
-    const workspacePath = currentRepo?.localPath;
-    const instructions = await listSharedInstructions(workspacePath);
-    res.json({ instructions });
+    const content = await fetchInstructionFileContent(sourceId, path);
+    const { attributes, body } = parseFrontMatter(content);
+    const workspaceContent = session.repo
+      ? readWorkspaceInstruction(session.repo.localPath, path)
+      : null;
+
+    res.json({
+      content,
+      attributes,
+      body,
+      workspaceContent,
+      diff: workspaceContent === null ? null : diffInstructionContent(workspaceContent, content),
+    });
   } catch (error) {
     res.status(500).json({
-      error: error instanceof Error ? error.message : "Failed to list shared instructions",
+      error: error instanceof Error ? error.message : "Failed to load instruction file",
     });
   }
 });
 
 // Copy selected instruction files to workspace
-ticketRouter.post("/copy-instructions", async (req: Request, res: Response) => {
-  const { files } = req.body as { files: SharedInstructionFile[] };
+ticketRouter.post("/:sessionId/copy-instructions", async (req: Request, res: Response) => {
+  const session = sessionOf(res);
+  const { files } = req.body as { files: InstructionToCopy[] };
 
-  if (!currentRepo) {
+  if (!session.repo) {
     res.status(400).json({ error: "No repository set up. Clone or use local folder first." });
     return;
   }
@@ -689,12 +1226,21 @@ ticketRouter.post("/copy-instructions", async (req: Request, res: Response) => {
   }
 
   try {
-    const result = await copyInstructionsToWorkspace(currentRepo.localPath, files);
-
-    // Track copied files for cleanup
-    temporaryInstructionFiles = [...temporaryInstructionFiles, ...result.copied];
-
-    res.json(result);
+    const result = await copyInstructionsToWorkspace(session.repo.localPath, files);
+
+    // Track copied files for cleanup. A file replaced twice keeps its first
+    // original, and replacing one we copied ourselves leaves nothing to restore.
+    const tracked = new Set([
+      ...session.temporaryInstructionFiles,
+      ...session.replacedInstructionFiles.map((file) => file.filename),
+    ]);
+    session.temporaryInstructionFiles = [...session.temporaryInstructionFiles, ...result.copied];
+    session.replacedInstructionFiles = [
+      ...session.replacedInstructionFiles,
+      ...result.replaced.filter((file) => !tracked.has(file.filename)),
+    ];
+
+    res.json({ ...result, replaced: result.replaced.map((file) => file.filename) });
   } catch (error) {
     res.status(500).json({
       error: error instanceof Error ? error.message : "Failed to copy instructions",
@@ -703,17 +1249,26 @@ ticketRouter.post("/copy-instructions", async (req: Request, res: Response) => {
 });
 
 // Remove temporary instruction files
-ticketRouter.post("/cleanup-instructions", async (_req: Request, res: Response) => {
-  if (!currentRepo) {
+ticketRouter.post("/:sessionId/cleanup-instructions", async (_req: Request, res: Response) => {
+  const session = sessionOf(res);
+  if (!session.repo) {
     // No repo means nothing to clean up
     res.json({ success: true, cleaned: [] });
     return;
   }
 
   try {
-    cleanupTemporaryInstructions(currentRepo.localPath, temporaryInstructionFiles);
-    const cleaned = [...temporaryInstructionFiles];
-    temporaryInstructionFiles = [];
+    cleanupTemporaryInstructions(
+      session.repo.localPath,
+      session.temporaryInstructionFiles,
+      session.replacedInstructionFiles
+    );
+    const cleaned = [
+      ...session.temporaryInstructionFiles,
+      ...session.replacedInstructionFiles.map((file) => file.filename),
+    ];
+    session.temporaryInstructionFiles = [];
+    session.replacedInstructionFiles = [];
 
     res.json({ success: true, cleaned });
   } catch (error) {
@@ -0,0 +1,98 @@
+import { Router, type Request, type Response } from "express";
+import { createHash, timingSafeEqual } from "crypto";
+import {
+  loadWebhookRules,
+  webhookSubject,
+  matchWebhookRules,
+  triggerWebhookRules,
+  type WebhookPayload,
+} from "../services/webhooks.js";
+import {
+  claimWebhookEvent,
+  releaseWebhookEvent,
+  saveWebhookEvent,
+  pruneWebhookEvents,
+} from "../services/store.js";
+
+// Deliveries are remembered this long; Azure DevOps retries within minutes
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const webhooksRouter = Router();
+
+/**
+ * The secret the service hook sent: the X-Webhook-Secret header (an
+ * "HTTP headers" entry of the subscription) or the password of its basic
+ * authentication.
+ */
+function secretOf(req: Request): string | null {
+  const header = req.get("X-Webhook-Secret");
+  if (header) {
+    return header;
+  }
+  const authorization = req.get("Authorization");
+  if (authorization?.startsWith("Basic ")) {
+    const credentials = Buffer.from(authorization.slice(6), "base64").toString("utf-8");
+    return credentials.slice(credentials.indexOf(":") + 1);
+  }
+  return null;
+}
+
+// Compare digests, so the comparison takes as long whatever the secret's length
+function secretMatches(received: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(received), digest(expected));
+}
+
+/**
+ * Azure DevOps service hook receiver. Every delivery is handled once, by its
+ * event id; the jobs it starts are returned and can be followed under
+ * /api/jobs.
+ */
+webhooksRouter.post("/azure-devops", (req: Request, res: Response) => {
+  const expected = process.env.WEBHOOK_SECRET;
+  if (!expected) {
+    res.status(503).json({ error: "Webhooks are disabled: WEBHOOK_SECRET is not set" });
+    return;
+  }
+  const received = secretOf(req);
+  if (!received || !secretMatches(received, expected)) {
+    res.status(401).json({ error: "Invalid webhook secret" });
+    return;
+  }
+
+  const payload = req.body as WebhookPayload;
+  if (typeof payload?.id !== "string" || typeof payload.eventType !== "string") {
+    res.status(400).json({ error: "Not a service hook event: id and eventType are required" });
+    return;
+  }
+
+  let rules;
+  try {
+    rules = loadWebhookRules();
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : "Invalid webhook rules" });
+    return;
+  }
+
+  const receivedAt = new Date().toISOString();
+  pruneWebhookEvents(new Date(Date.now() - DELIVERY_RETENTION_MS).toISOString());
+  if (!claimWebhookEvent(payload.id, { receivedAt })) {
+    res.json({ eventId: payload.id, duplicate: true, triggered: [] });
+    return;
+  }
+
+  const subject = webhookSubject(payload);
+  let triggered;
+  try {
+    triggered = subject ? triggerWebhookRules(payload, subject, matchWebhookRules(rules, payload.eventType, subject)) : [];
+  } catch (error) {
+    // Not handled after all: Azure DevOps retries failed deliveries
+    releaseWebhookEvent(payload.id);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Failed to start the jobs" });
+    return;
+  }
+  const delivery = { receivedAt, eventType: payload.eventType, url: subject?.url ?? null, triggered };
+  saveWebhookEvent(payload.id, delivery);
+
+  res.status(triggered.length > 0 ? 202 : 200).json({ eventId: payload.id, triggered });
+});
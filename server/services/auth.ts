@@ -0,0 +1,335 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPublicKey,
+  randomBytes,
+  verify,
+} from "crypto";
+import {
+  saveUserRecord,
+  loadUserRecord,
+  saveAuthSession,
+  loadAuthSession,
+  deleteAuthSession,
+  pruneAuthSessions,
+} from "./store.js";
+
+// How long a sign-in lasts before the user has to sign in again
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+// How long the identity provider may take to send the user back
+const LOGIN_TTL_MS = 10 * 60 * 1000;
+// Clock difference tolerated when checking an ID token's expiry
+const CLOCK_SKEW_S = 60;
+
+/**
+ * Someone who signed in with the identity provider. Their Azure DevOps
+ * token is what their requests, and the jobs they start, work with.
+ */
+export interface User {
+  /** The identity provider's issuer and subject, which together never change */
+  id: string;
+  name: string;
+  email: string | null;
+  /** The user's Azure DevOps token, encrypted with TOKEN_ENCRYPTION_KEY */
+  adoToken: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// A sign-in sent to the identity provider, by its state parameter
+interface PendingLogin {
+  codeVerifier: string;
+  nonce: string;
+  returnTo: string;
+  expiresAt: number;
+}
+
+interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  name?: string;
+  email?: string;
+  preferred_username?: string;
+}
+
+/**
+ * Sign-in is on when an OpenID Connect issuer is configured (OIDC_ISSUER,
+ * e.g. https://login.microsoftonline.com/<tenant>/v2.0 for Entra ID).
+ * Without it, the server has no users and works with ADO_PAT.
+ */
+export function authEnabled(): boolean {
+  return !!process.env.OIDC_ISSUER;
+}
+
+// Where the UI is served from: the only origin allowed to call the API
+export function uiOrigin(): string {
+  return (process.env.UI_ORIGIN || "http://localhost:5173").replace(/\/$/, "");
+}
+
+// The identity provider sends the user back through the UI's /api proxy, so the cookie is the UI's
+function redirectUri(): string {
+  return `${uiOrigin()}/api/auth/callback`;
+}
+
+function encryptionKey(): Buffer {
+  const key = Buffer.from(process.env.TOKEN_ENCRYPTION_KEY ?? "", "base64");
+  if (key.length !== 32) {
+    throw new Error("TOKEN_ENCRYPTION_KEY must be 32 bytes, base64-encoded (openssl rand -base64 32)");
+  }
+  return key;
+}
+
+// Fail at startup rather than at the first sign-in
+export function checkAuthConfig(): void {
+  if (!authEnabled()) {
+    return;
+  }
+  if (!process.env.OIDC_CLIENT_ID) {
+    throw new Error("OIDC_CLIENT_ID must be set when OIDC_ISSUER is");
+  }
+  encryptionKey();
+}
+
+function encryptSecret(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".");
+}
+
+function decryptSecret(value: string): string {
+  const [iv, tag, encrypted] = value.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf-8");
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+let metadata: Promise<ProviderMetadata> | null = null;
+let signingKeys = new Map<string, JsonWebKey>();
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status}: ${await response.text()}`);
+  }
+  return (await response.json()) as T;
+}
+
+// The provider's endpoints, from its discovery document
+function providerMetadata(): Promise<ProviderMetadata> {
+  if (!metadata) {
+    const issuer = process.env.OIDC_ISSUER!.replace(/\/$/, "");
+    metadata = fetchJson<ProviderMetadata>(`${issuer}/.well-known/openid-configuration`).catch((error) => {
+      // Try again at the next sign-in
+      metadata = null;
+      throw error;
+    });
+  }
+  return metadata;
+}
+
+// A key the provider signs ID tokens with; the keys are fetched again when it starts using a new one
+async function signingKey(kid: string): Promise<JsonWebKey> {
+  if (!signingKeys.has(kid)) {
+    const { jwks_uri } = await providerMetadata();
+    const { keys } = await fetchJson<{ keys: (JsonWebKey & { kid?: string })[] }>(jwks_uri);
+    signingKeys = new Map(keys.filter((key) => key.kid).map((key) => [key.kid!, key]));
+  }
+  const key = signingKeys.get(kid);
+  if (!key) {
+    throw new Error(`The identity provider has no signing key ${kid}`);
+  }
+  return key;
+}
+
+async function verifyIdToken(idToken: string, nonce: string): Promise<IdTokenClaims> {
+  const [header, payload, signature] = idToken.split(".");
+  if (!header || !payload || !signature) {
+    throw new Error("Malformed ID token");
+  }
+
+  const { alg, kid } = JSON.parse(Buffer.from(header, "base64url").toString("utf-8")) as { alg?: string; kid?: string };
+  if (alg !== "RS256" || !kid) {
+    throw new Error(`Unsupported ID token signature: ${alg}`);
+  }
+  const key = createPublicKey({ key: await signingKey(kid), format: "jwk" });
+  if (!verify("RSA-SHA256", Buffer.from(`${header}.${payload}`), key, Buffer.from(signature, "base64url"))) {
+    throw new Error("Invalid ID token signature");
+  }
+
+  const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8")) as IdTokenClaims;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== (await providerMetadata()).issuer) {
+    throw new Error(`ID token from another issuer: ${claims.iss}`);
+  }
+  if (!audiences.includes(process.env.OIDC_CLIENT_ID!)) {
+    throw new Error("ID token issued for another application");
+  }
+  if (claims.exp + CLOCK_SKEW_S < Date.now() / 1000) {
+    throw new Error("ID token expired");
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error("ID token does not belong to this sign-in");
+  }
+  return claims;
+}
+
+const pendingLogins = new Map<string, PendingLogin>();
+
+/**
+ * Start signing in: the URL to send the browser to, and the state the
+ * callback must come back with. Uses the authorization code flow with PKCE.
+ */
+export async function beginLogin(returnTo: string): Promise<{ url: string; state: string }> {
+  const now = Date.now();
+  for (const [state, login] of pendingLogins) {
+    if (login.expiresAt < now) {
+      pendingLogins.delete(state);
+    }
+  }
+
+  const state = randomBytes(16).toString("base64url");
+  const login: PendingLogin = {
+    codeVerifier: randomBytes(32).toString("base64url"),
+    nonce: randomBytes(16).toString("base64url"),
+    returnTo,
+    expiresAt: now + LOGIN_TTL_MS,
+  };
+  pendingLogins.set(state, login);
+
+  const url = new URL((await providerMetadata()).authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: process.env.OIDC_CLIENT_ID!,
+    redirect_uri: redirectUri(),
+    scope: "openid profile email",
+    state,
+    nonce: login.nonce,
+    code_challenge: createHash("sha256").update(login.codeVerifier).digest("base64url"),
+    code_challenge_method: "S256",
+  }).toString();
+  return { url: url.toString(), state };
+}
+
+/**
+ * Finish signing in with the code the identity provider sent back: verify
+ * the ID token and save the user. Returns the user and where to send them.
+ */
+export async function completeLogin(code: string, state: string): Promise<{ user: User; returnTo: string }> {
+  const login = pendingLogins.get(state);
+  pendingLogins.delete(state);
+  if (!login || login.expiresAt < Date.now()) {
+    throw new Error("Sign-in expired; sign in again");
+  }
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri(),
+    client_id: process.env.OIDC_CLIENT_ID!,
+    code_verifier: login.codeVerifier,
+  });
+  if (process.env.OIDC_CLIENT_SECRET) {
+    body.set("client_secret", process.env.OIDC_CLIENT_SECRET);
+  }
+  const { id_token } = await fetchJson<{ id_token?: string }>((await providerMetadata()).token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body,
+  });
+  if (!id_token) {
+    throw new Error("The identity provider returned no ID token");
+  }
+  const claims = await verifyIdToken(id_token, login.nonce);
+
+  const id = `${claims.iss}|${claims.sub}`;
+  const now = new Date().toISOString();
+  const user: User = {
+    adoToken: null,
+    createdAt: now,
+    ...loadUserRecord<User>(id),
+    id,
+    name: claims.name ?? claims.preferred_username ?? claims.email ?? claims.sub,
+    email: claims.email ?? claims.preferred_username ?? null,
+    updatedAt: now,
+  };
+  saveUserRecord(id, user);
+  return { user, returnTo: login.returnTo };
+}
+
+/**
+ * Sign a user in: the returned token goes in their session cookie. Only its
+ * hash is stored, so the database alone cannot be used to sign in.
+ */
+export function createAuthSession(user: User): { token: string; maxAge: number } {
+  const now = Date.now();
+  pruneAuthSessions(new Date(now).toISOString());
+
+  const token = randomBytes(32).toString("base64url");
+  saveAuthSession(sha256(token), user.id, new Date(now + SESSION_TTL_MS).toISOString());
+  return { token, maxAge: SESSION_TTL_MS };
+}
+
+export function userForSession(token: string): User | null {
+  const userId = loadAuthSession(sha256(token), new Date().toISOString());
+  return userId ? loadUserRecord<User>(userId) : null;
+}
+
+export function endAuthSession(token: string): void {
+  deleteAuthSession(sha256(token));
+}
+
+// Store the user's Azure DevOps token (null: remove it)
+export function setAdoToken(user: User, token: string | null): User {
+  const updated: User = {
+    ...user,
+    adoToken: token ? encryptSecret(token) : null,
+    updatedAt: new Date().toISOString(),
+  };
+  saveUserRecord(updated.id, updated);
+  return updated;
+}
+
+/**
+ * Whether a session, job or batch is the user's to see. Without sign-in (no
+ * user) everything is; those without an owner, started by service hooks or
+ * before sign-in was turned on, are everyone's to see.
+ */
+export function isVisibleTo(ownerId: string | null | undefined, user: User | null): boolean {
+  return !user || !ownerId || ownerId === user.id;
+}
+
+/**
+ * Whether the user may change it: continue, cancel or delete it. Those
+ * without an owner run with ADO_PAT, so signed-in users may only look at them.
+ */
+export function isChangeableBy(ownerId: string | null | undefined, user: User | null): boolean {
+  return !user || (!!ownerId && ownerId === user.id);
+}
+
+export function adoTokenOf(user: User): string | null {
+  if (!user.adoToken) {
+    return null;
+  }
+  try {
+    return decryptSecret(user.adoToken);
+  } catch {
+    // Encrypted with an earlier TOKEN_ENCRYPTION_KEY: the user has to add it again
+    return null;
+  }
+}
@@ -0,0 +1,488 @@
+import { randomUUID } from "crypto";
+import { execSync } from "child_process";
+import { fetchTicket, generatePlan, implementTicket, fixFailingTask, type ImplementationProgress } from "./copilot.js";
+import {
+  OperationCancelledError,
+  beginOperation,
+  endOperation,
+  cancelOperation,
+  isCancellation,
+} from "./cancellation.js";
+import { isVisibleTo, type User } from "./auth.js";
+import { selectMcpServers } from "./mcp-servers.js";
+import { runPostTasks, type PostTask } from "./post-tasks.js";
+import { formatPullRequestDescription } from "./ticket-context.js";
+import {
+  createTicketSession,
+  getTicketSession,
+  saveTicketSession,
+  closeTicketSession,
+  type TicketSession,
+} from "./sessions.js";
+import { saveSessionRecord, loadSessionRecords, deleteSessionRecord } from "./store.js";
+import { cloneAndBranch, commitAndPush } from "../../utils/azure-devops-git.js";
+import { getHostingProvider } from "../../utils/git-hosting.js";
+import type { WorkItemQuery, WorkItemSummary } from "../../utils/azure-devops.js";
+
+/**
+ * Where a work item of a batch has got to. Items wait in "queued" for a
+ * free slot before planning and again before implementing.
+ */
+export type BatchItemStatus =
+  | "queued"
+  | "planning"
+  | "awaiting_approval"
+  | "implementing"
+  | "pr_opened"
+  | "failed"
+  | "cancelled";
+
+export interface BatchItem {
+  workItemId: number;
+  title: string;
+  type: string;
+  url: string;
+  /** The ticket session the item is planned and implemented in; it can be opened in the ticket workflow */
+  sessionId: string | null;
+  status: BatchItemStatus;
+  /** The latest progress, or why the item failed */
+  message: string;
+  pullRequest: { id: number; url: string } | null;
+  updatedAt: string;
+}
+
+export interface BatchOptions {
+  /** Model for implementation; plans are generated with generatePlan's default */
+  model: string;
+  /** Implement each plan as soon as it is ready instead of waiting for approval */
+  autoApprove: boolean;
+  postTasks: PostTask[];
+  fixUntilGreen: boolean;
+  maxFixAttempts: number;
+  /** Defaults to the repository's default branch */
+  targetBranch?: string;
+  isDraft: boolean;
+}
+
+/**
+ * Many work items from one query, each planned and implemented in its own
+ * ticket session, workspace and branch, and opened as its own PR.
+ */
+export interface Batch {
+  id: string;
+  /** The user who started it, and owns its ticket sessions; null without sign-in */
+  ownerId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  projectUrl: string;
+  query: WorkItemQuery;
+  repoUrl: string;
+  options: BatchOptions;
+  items: BatchItem[];
+}
+
+export interface BatchSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  query: WorkItemQuery;
+  repoUrl: string;
+  total: number;
+  counts: Partial<Record<BatchItemStatus, number>>;
+}
+
+// Work items taken from one query; a larger query should be narrowed down
+export const MAX_BATCH_ITEMS = 50;
+
+// Statuses an item leaves by itself, and that a server restart interrupts
+const ACTIVE_STATUSES: BatchItemStatus[] = ["queued", "planning", "implementing"];
+
+const batches = new Map<string, Batch>();
+
+// Copilot sessions (planning or implementing) running at once, across all batches
+function concurrency(): number {
+  return Math.max(1, parseInt(process.env.BATCH_CONCURRENCY ?? "", 10) || 2);
+}
+
+let runningSlots = 0;
+const waitingForSlot: (() => void)[] = [];
+
+function acquireSlot(): Promise<void> {
+  if (runningSlots < concurrency()) {
+    runningSlots++;
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => waitingForSlot.push(resolve));
+}
+
+// A waiting item takes the slot over directly, so nothing can jump the queue
+function releaseSlot(): void {
+  const next = waitingForSlot.shift();
+  if (next) {
+    next();
+  } else {
+    runningSlots--;
+  }
+}
+
+/**
+ * Each time an item is queued starts a new attempt. A task still waiting
+ * for a slot from an earlier attempt (the item was cancelled and retried
+ * meanwhile) finds its attempt superseded and leaves the item alone.
+ */
+const itemAttempts = new WeakMap<BatchItem, number>();
+let lastAttempt = 0;
+
+function newAttempt(item: BatchItem): number {
+  itemAttempts.set(item, ++lastAttempt);
+  return lastAttempt;
+}
+
+function isCurrentAttempt(item: BatchItem, attempt: number): boolean {
+  return item.status === "queued" && itemAttempts.get(item) === attempt;
+}
+
+function saveBatch(batch: Batch): void {
+  // A deleted batch's pipelines may still be winding down
+  if (batches.has(batch.id)) {
+    saveSessionRecord("batch", batch.id, batch);
+  }
+}
+
+function updateItem(batch: Batch, item: BatchItem, changes: Partial<BatchItem>): void {
+  Object.assign(item, changes, { updatedAt: new Date().toISOString() });
+  batch.updatedAt = item.updatedAt;
+  saveBatch(batch);
+}
+
+// A session closed meanwhile (its batch was deleted) must not be saved again
+function saveOpenSession(session: TicketSession): void {
+  if (getTicketSession(session.id) === session) {
+    saveTicketSession(session);
+  }
+}
+
+function hasChanges(localPath: string): boolean {
+  return execSync("git status --porcelain", { cwd: localPath, encoding: "utf-8" }).trim() !== "";
+}
+
+/**
+ * Fetch the work item, clone the repository onto a new branch in a new
+ * ticket session, and generate a plan. A failed plan's session is closed.
+ */
+async function planItem(batch: Batch, item: BatchItem, attempt: number): Promise<void> {
+  await acquireSlot();
+  let session: TicketSession | null = null;
+  let operation: AbortController | null = null;
+
+  try {
+    // Cancelled (and perhaps retried) while waiting for the slot
+    if (!isCurrentAttempt(item, attempt)) {
+      return;
+    }
+
+    session = createTicketSession(batch.ownerId);
+    operation = beginOperation(session.id, "plan");
+    const { signal } = operation;
+    const ensureRunning = () => {
+      if (signal.aborted) {
+        throw new OperationCancelledError();
+      }
+    };
+    updateItem(batch, item, { status: "planning", sessionId: session.id, message: "Fetching the work item" });
+
+    const ticket = await fetchTicket(item.url);
+    session.ticket = ticket;
+    ensureRunning();
+
+    updateItem(batch, item, { title: ticket.title, message: "Cloning the repository" });
+    session.repo = await cloneAndBranch(getHostingProvider(batch.repoUrl), batch.repoUrl, ticket.id, ticket.title);
+    session.repoUrl = batch.repoUrl;
+    session.sourceType = "remote";
+    session.canCreatePr = true;
+    saveOpenSession(session);
+    ensureRunning();
+
+    updateItem(batch, item, { message: "Generating the plan" });
+    const planSession = session;
+    const { mcpServers } = selectMcpServers({ ticket, repoUrl: session.repoUrl }, session.mcpServerOverrides);
+    session.plan = await generatePlan(
+      ticket,
+      session.repo.localPath,
+      (progress) => updateItem(batch, item, { message: progress }),
+      undefined,
+      signal,
+      (applied) => {
+        planSession.planInstructions = applied;
+      },
+      mcpServers
+    );
+    saveOpenSession(session);
+    ensureRunning();
+
+    const steps = session.plan.steps.filter((step) => step.enabled).length;
+    if (batch.options.autoApprove) {
+      updateItem(batch, item, { status: "queued", message: `Plan with ${steps} steps; waiting to implement` });
+      void implementItem(batch, item, newAttempt(item));
+    } else {
+      updateItem(batch, item, { status: "awaiting_approval", message: `Plan with ${steps} steps` });
+    }
+  } catch (error) {
+    if (session) {
+      closeTicketSession(session.id);
+    }
+    updateItem(batch, item, {
+      status: isCancellation(error) ? "cancelled" : "failed",
+      sessionId: null,
+      message: isCancellation(error) ? "Cancelled" : error instanceof Error ? error.message : "Planning failed",
+    });
+  } finally {
+    if (session && operation) {
+      endOperation(session.id, operation);
+    }
+    releaseSlot();
+  }
+}
+
+/**
+ * Implement the session's plan, run the batch's checks, push the branch and
+ * open a PR. The session is kept when this fails, so the workspace can be
+ * looked at or finished in the ticket workflow.
+ */
+async function implementItem(batch: Batch, item: BatchItem, attempt: number): Promise<void> {
+  await acquireSlot();
+  let session: TicketSession | undefined;
+  let operation: AbortController | null = null;
+
+  try {
+    if (!isCurrentAttempt(item, attempt)) {
+      return;
+    }
+    session = item.sessionId ? getTicketSession(item.sessionId) : undefined;
+    if (!session?.ticket || !session.plan || !session.repo || !session.repoUrl) {
+      throw new Error("The ticket session is gone. Retry the work item.");
+    }
+
+    operation = beginOperation(session.id, "implement");
+    const { signal } = operation;
+    const { ticket, plan, repo, repoUrl } = session;
+    const { options } = batch;
+    updateItem(batch, item, { status: "implementing", message: "Starting the implementation" });
+
+    // Only the milestones are worth showing
+    const onProgress = (progress: ImplementationProgress) => {
+      if (
+        progress.type === "step_start" ||
+        progress.type === "phase" ||
+        (progress.type === "post_task" && !progress.stream)
+      ) {
+        updateItem(batch, item, { message: progress.content });
+      }
+    };
+
+    const { mcpServers } = selectMcpServers({ ticket, repoUrl }, session.mcpServerOverrides);
+    await implementTicket(ticket, plan, onProgress, repo.localPath, options.model, signal, { mcpServers });
+
+    if (options.postTasks.length > 0) {
+      session.postTaskResults = await runPostTasks(options.postTasks, {
+        cwd: repo.localPath,
+        signal,
+        onProgress,
+        ...(options.fixUntilGreen && {
+          maxFixAttempts: options.maxFixAttempts,
+          fix: (task: PostTask, output: string) =>
+            fixFailingTask(ticket, task.name, task.command, output, onProgress, repo.localPath, options.model, signal, mcpServers),
+        }),
+      });
+      const failing = session.postTaskResults.filter((result) => result.status !== "passed");
+      if (failing.length > 0) {
+        throw new Error(`Still failing: ${failing.map((result) => result.name).join(", ")}. Nothing was pushed.`);
+      }
+    }
+
+    if (!hasChanges(repo.localPath)) {
+      throw new Error("The implementation changed no files.");
+    }
+
+    updateItem(batch, item, { message: `Pushing ${repo.branchName}` });
+    await commitAndPush(getHostingProvider(repoUrl), repo.localPath, repo.branchName, `Implement ticket #${ticket.id}: ${ticket.title}`);
+
+    updateItem(batch, item, { message: "Opening the pull request" });
+    const hosting = getHostingProvider(repoUrl);
+    const pr = await hosting.createPullRequest(repoUrl, {
+      sourceBranch: repo.branchName,
+      targetBranch: options.targetBranch || await hosting.getDefaultBranch(repoUrl),
+      title: `[#${ticket.id}] ${ticket.title}`,
+      description: formatPullRequestDescription(ticket, plan),
+      isDraft: options.isDraft,
+    });
+    updateItem(batch, item, {
+      status: "pr_opened",
+      message: `#${pr.id} ${pr.title}`,
+      pullRequest: { id: pr.id, url: pr.url },
+    });
+  } catch (error) {
+    updateItem(batch, item, {
+      status: isCancellation(error) ? "cancelled" : "failed",
+      message: isCancellation(error) ? "Cancelled" : error instanceof Error ? error.message : "Implementation failed",
+    });
+  } finally {
+    if (session) {
+      if (operation) {
+        endOperation(session.id, operation);
+      }
+      saveOpenSession(session);
+    }
+    releaseSlot();
+  }
+}
+
+/**
+ * Start a batch for the work items a query returned: each is queued for
+ * planning right away.
+ */
+export function createBatch(
+  projectUrl: string,
+  query: WorkItemQuery,
+  repoUrl: string,
+  options: BatchOptions,
+  workItems: WorkItemSummary[],
+  ownerId: string | null
+): Batch {
+  const now = new Date().toISOString();
+  const batch: Batch = {
+    id: randomUUID(),
+    ownerId,
+    createdAt: now,
+    updatedAt: now,
+    projectUrl,
+    query,
+    repoUrl,
+    options,
+    items: workItems.map((workItem) => ({
+      workItemId: workItem.id,
+      title: workItem.title,
+      type: workItem.type,
+      url: workItem.url,
+      sessionId: null,
+      status: "queued",
+      message: "Waiting to plan",
+      pullRequest: null,
+      updatedAt: now,
+    })),
+  };
+  batches.set(batch.id, batch);
+  saveBatch(batch);
+
+  for (const item of batch.items) {
+    void planItem(batch, item, newAttempt(item));
+  }
+  return batch;
+}
+
+export function getBatch(id: string): Batch | undefined {
+  return batches.get(id);
+}
+
+export function summarizeBatch(batch: Batch): BatchSummary {
+  const counts: Partial<Record<BatchItemStatus, number>> = {};
+  for (const item of batch.items) {
+    counts[item.status] = (counts[item.status] ?? 0) + 1;
+  }
+  return {
+    id: batch.id,
+    createdAt: batch.createdAt,
+    updatedAt: batch.updatedAt,
+    query: batch.query,
+    repoUrl: batch.repoUrl,
+    total: batch.items.length,
+    counts,
+  };
+}
+
+export function listBatches(user: User | null): BatchSummary[] {
+  return [...batches.values()]
+    .filter((batch) => isVisibleTo(batch.ownerId, user))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(summarizeBatch);
+}
+
+/**
+ * Queue an item whose plan is ready for implementation. Returns an error
+ * message if the item is not waiting for approval.
+ */
+export function approveBatchItem(batch: Batch, item: BatchItem): string | null {
+  if (item.status !== "awaiting_approval") {
+    return `Work item ${item.workItemId} is not waiting for approval`;
+  }
+  updateItem(batch, item, { status: "queued", message: "Waiting to implement" });
+  void implementItem(batch, item, newAttempt(item));
+  return null;
+}
+
+/**
+ * Start a failed or cancelled item over: its session and workspace are
+ * closed and it is planned again.
+ */
+export function retryBatchItem(batch: Batch, item: BatchItem): string | null {
+  if (item.status !== "failed" && item.status !== "cancelled") {
+    return `Work item ${item.workItemId} has not failed`;
+  }
+  if (item.sessionId) {
+    closeTicketSession(item.sessionId);
+  }
+  updateItem(batch, item, { status: "queued", sessionId: null, pullRequest: null, message: "Waiting to plan" });
+  void planItem(batch, item, newAttempt(item));
+  return null;
+}
+
+/**
+ * Stop every item that has not opened its PR yet. Running sessions are
+ * aborted; their items become "cancelled" once they have stopped.
+ */
+export function cancelBatch(batch: Batch): void {
+  for (const item of batch.items) {
+    if (item.status === "planning" || item.status === "implementing") {
+      if (item.sessionId) {
+        cancelOperation(item.sessionId);
+      }
+    } else if (item.status === "queued" || item.status === "awaiting_approval") {
+      updateItem(batch, item, { status: "cancelled", message: "Cancelled" });
+    }
+  }
+}
+
+/**
+ * Cancel a batch and forget it, closing its ticket sessions. Pushed
+ * branches and opened PRs stay.
+ */
+export function deleteBatch(batch: Batch): void {
+  cancelBatch(batch);
+  batches.delete(batch.id);
+  deleteSessionRecord("batch", batch.id);
+  for (const item of batch.items) {
+    if (item.sessionId) {
+      closeTicketSession(item.sessionId);
+    }
+  }
+}
+
+/**
+ * Load batches saved by a previous server run. Items that were queued or
+ * running were interrupted and can be retried.
+ */
+export function restoreBatches(): number {
+  for (const batch of loadSessionRecords<Batch>("batch")) {
+    // Saved before batches had owners
+    batch.ownerId ??= null;
+    for (const item of batch.items) {
+      if (ACTIVE_STATUSES.includes(item.status)) {
+        item.status = "failed";
+        item.message = "Interrupted by a server restart";
+      }
+    }
+    batches.set(batch.id, batch);
+    saveBatch(batch);
+  }
+  return batches.size;
+}
@@ -0,0 +1,129 @@
+import type { CopilotSession } from "@github/copilot-sdk";
+
+export class OperationCancelledError extends Error {
+  constructor(message = "Operation cancelled") {
+    super(message);
+    this.name = "OperationCancelledError";
+  }
+}
+
+export function isCancellation(error: unknown): boolean {
+  return (
+    error instanceof OperationCancelledError ||
+    (error instanceof Error && error.name === "AbortError")
+  );
+}
+
+interface RunningOperation {
+  kind: string;
+  controller: AbortController;
+}
+
+// One cancellable operation (plan, implementation, review...) per session
+const runningOperations = new Map<string, RunningOperation>();
+
+/**
+ * Register a long-running operation for a session and return its controller.
+ * Starting a new operation cancels any previous one still running.
+ */
+export function beginOperation(sessionId: string, kind: string): AbortController {
+  runningOperations.get(sessionId)?.controller.abort();
+
+  const controller = new AbortController();
+  runningOperations.set(sessionId, { kind, controller });
+  return controller;
+}
+
+export function endOperation(sessionId: string, controller: AbortController): void {
+  if (runningOperations.get(sessionId)?.controller === controller) {
+    runningOperations.delete(sessionId);
+  }
+}
+
+// The kind of operation running for a session, or null if it is idle
+export function runningOperation(sessionId: string): string | null {
+  return runningOperations.get(sessionId)?.kind ?? null;
+}
+
+/**
+ * Cancel the operation running for a session. Returns the kind of operation
+ * that was cancelled, or null if nothing was running.
+ */
+export function cancelOperation(sessionId: string): string | null {
+  const operation = runningOperations.get(sessionId);
+  if (!operation) {
+    return null;
+  }
+
+  operation.controller.abort();
+  runningOperations.delete(sessionId);
+  return operation.kind;
+}
+
+// Operations paused until the user asks them to go on, by session
+const pausedOperations = new Map<string, () => void>();
+
+/**
+ * Pause an operation until resumeOperation is called for the session.
+ * Rejects with an OperationCancelledError if the signal fires meanwhile.
+ */
+export function waitForResume(sessionId: string, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new OperationCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      pausedOperations.delete(sessionId);
+      reject(new OperationCancelledError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    pausedOperations.set(sessionId, () => {
+      signal.removeEventListener("abort", onAbort);
+      pausedOperations.delete(sessionId);
+      resolve();
+    });
+  });
+}
+
+export function resumeOperation(sessionId: string): boolean {
+  const resume = pausedOperations.get(sessionId);
+  resume?.();
+  return !!resume;
+}
+
+/**
+ * sendAndWait that aborts the Copilot session as soon as the signal fires,
+ * instead of waiting for the model to finish or the timeout to expire.
+ */
+export async function sendAndWaitWithAbort(
+  session: CopilotSession,
+  options: Parameters<CopilotSession["sendAndWait"]>[0],
+  timeout: number,
+  signal?: AbortSignal
+): ReturnType<CopilotSession["sendAndWait"]> {
+  if (!signal) {
+    return session.sendAndWait(options, timeout);
+  }
+
+  if (signal.aborted) {
+    throw new OperationCancelledError();
+  }
+
+  let onAbort: () => void = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      session.abort().catch(() => {});
+      reject(new OperationCancelledError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([session.sendAndWait(options, timeout), aborted]);
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+  }
+}
@@ -1,68 +1,77 @@
-import { CopilotClient } from "@github/copilot-sdk";
-import { getWorkItem, type WorkItem } from "../../utils/azure-devops.js";
+import { CopilotClient, type MCPServerConfig } from "@github/copilot-sdk";
+import type { WorkItem } from "../../utils/azure-devops.js";
+import { getTicketSource } from "../../utils/ticket-sources.js";
+import { formatTicketContext } from "./ticket-context.js";
 import * as fs from "fs";
 import * as path from "path";
-
-export interface TicketPlan {
-  summary: string;
-  implementationPlan: string;
-}
+import { sendAndWaitWithAbort } from "./cancellation.js";
+import { fitDiff, splitDiffByFile } from "./diff-chunks.js";
+import { selectInstructions, type AppliedInstruction } from "./instructions.js";
+import type { PostTaskResult } from "./post-tasks.js";
+import {
+  parsePlanJson,
+  stepsFromMarkdown,
+  formatPlan,
+  planFiles,
+  formatPlanStep,
+  PLAN_JSON_FORMAT,
+  type TicketPlan,
+  type PlanStep,
+} from "./plan.js";
 
 function getSkillDirectories(workingDirectory: string): string[] {
   const skillsDir = path.join(workingDirectory, ".github", "skills");
   return fs.existsSync(skillsDir) ? [skillsDir] : [];
 }
 
-// Figma MCP server configuration for design-driven implementation
-const FIGMA_MCP_SERVER = {
-  type: "http" as const,
-  url: "https://mcp.figma.com/mcp",
-  tools: ['*']
-};
-
-function getMcpServers(includeFigma: boolean) {
-  const mcpServers  = {};
-  if (includeFigma) {
-    mcpServers['figma-mcp-server'] = FIGMA_MCP_SERVER;
-  }
-
-  return mcpServers;
+// The Figma prompt only makes sense when the session can reach a Figma server
+function hasFigmaServer(mcpServers: Record<string, MCPServerConfig>): boolean {
+  return Object.keys(mcpServers).some((id) => /figma/i.test(id));
 }
 
 export interface ImplementationProgress {
-  type: "message" | "tool_start" | "tool_end" | "complete" | "error";
+  type:
+    | "message"
+    | "tool_start"
+    | "tool_end"
+    | "complete"
+    | "error"
+    | "cancelled"
+    | "post_task"
+    | "phase"
+    | "step_start"
+    | "step_complete"
+    | "step_paused"
+    | "checkpoint"
+    | "instructions";
   content: string;
+  // instructions events: the repository instructions the session was given
+  instructions?: AppliedInstruction[];
+  // step_* events: the step started, finished, or the next one waiting to run
+  stepId?: string;
+  // checkpoint events: the checkpoint just recorded
+  checkpointId?: string;
+  // post_task events: which task, which output stream a line came from, and the final outcome
+  taskId?: string;
+  stream?: "stdout" | "stderr";
+  result?: PostTaskResult;
 }
 
-function parseAzureDevOpsUrl(url: string) {
-  const match = url.match(
-    /dev\.azure\.com\/([^/]+)\/([^/]+)\/_workitems\/edit\/(\d+)/
-  );
-  if (!match) {
-    throw new Error(`Invalid Azure DevOps URL: ${url}`);
-  }
-  return {
-    organization: match[1],
-    project: decodeURIComponent(match[2]),
-    workItemId: parseInt(match[3], 10),
-  };
-}
-
+/**
+ * Fetch a ticket from whichever tracker the URL belongs to.
+ */
 export async function fetchTicket(url: string): Promise<WorkItem> {
-  const pat = process.env.ADO_PAT;
-  if (!pat) {
-    throw new Error("ADO_PAT environment variable is not set");
-  }
-
-  const { organization, project, workItemId } = parseAzureDevOpsUrl(url);
-  return getWorkItem({ organization, project, pat }, workItemId);
+  return getTicketSource(url).fetchTicket(url);
 }
 
 export async function generatePlan(
   ticket: WorkItem,
   workingDirectory?: string,
   onProgress?: (message: string) => void,
-  model: string = "gpt-4.1"
+  model: string = "gpt-4.1",
+  signal?: AbortSignal,
+  onInstructions?: (applied: AppliedInstruction[]) => void,
+  mcpServers: Record<string, MCPServerConfig> = {}
 ): Promise<TicketPlan> {
   const clientOptions = workingDirectory ? { cwd: workingDirectory } : {};
   const client = new CopilotClient(clientOptions);
@@ -70,14 +79,17 @@ export async function generatePlan(
     ? getSkillDirectories(workingDirectory)
     : [];
 
-  const mcpServers = getMcpServers(!!ticket.figmaUrl);
+  // No plan yet, so no files: only instructions that apply everywhere
+  const instructions = selectInstructions(workingDirectory, []);
+  onInstructions?.(instructions.applied);
 
   const session = await client.createSession({
     model,
     streaming: true, // Enable streaming for tool use
     ...(workingDirectory && { workingDirectory }),
     ...(skillDirectories.length > 0 && { skillDirectories }),
-    ...(mcpServers && { mcpServers }),
+    ...(Object.keys(mcpServers).length > 0 && { mcpServers }),
+    ...(instructions.systemMessage && { systemMessage: instructions.systemMessage }),
   });
 
   // Track progress for UI feedback
@@ -92,7 +104,7 @@ export async function generatePlan(
   });
 
   const figmaContext = ticket.figmaUrl
-    ? `\nFigma Design: ${ticket.figmaUrl}\n\nIMPORTANT: This ticket includes a Figma design. Use the Figma MCP tools to fetch and analyze the design. The implementation should match the design specifications including layout, colors, typography, and component structure.`
+    ? `\nFigma Design: ${ticket.figmaUrl}${hasFigmaServer(mcpServers) ? "\n\nIMPORTANT: This ticket includes a Figma design. Use the Figma MCP tools to fetch and analyze the design. The implementation should match the design specifications including layout, colors, typography, and component structure." : ""}`
     : "";
 
   const codebaseExplorationPrompt = workingDirectory
@@ -116,32 +128,39 @@ IMPORTANT: Before creating the implementation plan, you MUST explore the codebas
 `
     : "";
 
-  await session.sendAndWait({
-    prompt: `You are a senior software engineer. Your task is to analyze a ticket and create a detailed implementation plan.
+  try {
+    await sendAndWaitWithAbort(session, {
+      prompt: `You are a senior software engineer. Your task is to analyze a ticket and create a detailed implementation plan.
 
-${codebaseExplorationPrompt}Ticket Title: ${ticket.title}
-Ticket Type: ${ticket.type}
-Ticket State: ${ticket.state}
-Ticket Description: ${ticket.description}${figmaContext}
+${codebaseExplorationPrompt}Ticket:
+${formatTicketContext(ticket)}${figmaContext}
 
 IMPORTANT OUTPUT FORMAT:
 - Do NOT narrate your exploration process
 - Do NOT say things like "I'll explore..." or "Let me check..."
-- ONLY output the final result in this exact format:
-
-## Summary
-[2-3 sentences describing what the ticket is asking for]
+- ONLY output the final result as a single JSON object in this exact format:
 
-## Implementation Plan
-[Numbered list of specific implementation steps]
+${PLAN_JSON_FORMAT}
 
-Your plan should be specific to THIS codebase, referencing actual file paths, existing patterns, and conventions you discovered during exploration.${ticket.figmaUrl ? " Include specific design details from the Figma file." : ""}`,
-  }, 300000); // 5 minute timeout for exploration
+Break the work into small, ordered steps that can each be implemented and checked on their own. Your plan should be specific to THIS codebase, referencing actual file paths, existing patterns, and conventions you discovered during exploration.${ticket.figmaUrl ? " Include specific design details from the Figma file." : ""}`,
+    }, 300000, signal); // 5 minute timeout for exploration
+  } finally {
+    await session.destroy();
+    await client.stop();
+  }
 
-  await session.destroy();
-  await client.stop();
+  return parsePlanResponse(fullResponse);
+}
 
-  const response = fullResponse;
+/**
+ * Read the plan from the model's response: the requested JSON if it is
+ * there, otherwise the older "## Summary / ## Implementation Plan" markdown.
+ */
+function parsePlanResponse(response: string): TicketPlan {
+  const plan = parsePlanJson(response);
+  if (plan) {
+    return plan;
+  }
 
   // Try to parse structured format with ## headers
   const summaryMatch = response.match(/##\s*Summary\s*\n([\s\S]*?)(?=##\s*Implementation Plan|$)/i);
@@ -150,7 +169,7 @@ Your plan should be specific to THIS codebase, referencing actual file paths, ex
   if (summaryMatch && planMatch) {
     return {
       summary: summaryMatch[1].trim(),
-      implementationPlan: planMatch[1].trim(),
+      steps: stepsFromMarkdown(planMatch[1].trim()),
     };
   }
 
@@ -174,16 +193,18 @@ Your plan should be specific to THIS codebase, referencing actual file paths, ex
 
     return {
       summary: cleanMarkdown(rawSummary),
-      implementationPlan: rawPlan
-        .replace(/\*\*implementation plan\*\*:?/gi, "")
-        .replace(/^#+\s*implementation plan:?\s*/i, "")
-        .trim(),
+      steps: stepsFromMarkdown(
+        rawPlan
+          .replace(/\*\*implementation plan\*\*:?/gi, "")
+          .replace(/^#+\s*implementation plan:?\s*/i, "")
+          .trim()
+      ),
     };
   }
 
   return {
     summary: cleanMarkdown(response),
-    implementationPlan: "",
+    steps: [],
   };
 }
 
@@ -198,7 +219,8 @@ export async function discussImplementation(
   diff: string,
   question: string,
   conversationHistory: DiscussionMessage[],
-  workingDirectory?: string
+  workingDirectory?: string,
+  mcpServers: Record<string, MCPServerConfig> = {}
 ): Promise<string> {
   const client = new CopilotClient({
     ...(workingDirectory && { cwd: workingDirectory }),
@@ -206,13 +228,17 @@ export async function discussImplementation(
   const skillDirectories = workingDirectory
     ? getSkillDirectories(workingDirectory)
     : [];
-  const mcpServers = getMcpServers(!!ticket.figmaUrl);
+  const instructions = selectInstructions(
+    workingDirectory,
+    splitDiffByFile(diff).map((file) => file.path)
+  );
 
   const session = await client.createSession({
     model: "gpt-4.1",
     ...(workingDirectory && { workingDirectory }),
     ...(skillDirectories.length > 0 && { skillDirectories }),
-    ...(mcpServers && { mcpServers }),
+    ...(Object.keys(mcpServers).length > 0 && { mcpServers }),
+    ...(instructions.systemMessage && { systemMessage: instructions.systemMessage }),
   });
 
   // Build conversation context
@@ -224,10 +250,8 @@ export async function discussImplementation(
     ? `\nFigma Design: ${ticket.figmaUrl}`
     : "";
 
-  // Truncate diff if too long
-  const truncatedDiff = diff.length > 10000
-    ? diff.substring(0, 10000) + "\n... (diff truncated for brevity)"
-    : diff;
+  // Whole files only, those the question names first
+  const truncatedDiff = fitDiff(diff, 10000, question);
 
   const result = await session.sendAndWait({
     prompt: `You are a senior software engineer helping to discuss code changes that were just implemented. Answer questions about the implementation, explain code decisions, and help the user understand the changes. Be conversational and helpful.
@@ -257,10 +281,12 @@ Provide a helpful response about the implementation. Explain code decisions, pat
 
 export async function discussPlan(
   ticket: WorkItem,
-  currentPlan: string,
+  currentPlan: TicketPlan,
   question: string,
   conversationHistory: DiscussionMessage[],
-  workingDirectory?: string
+  workingDirectory?: string,
+  onInstructions?: (applied: AppliedInstruction[]) => void,
+  mcpServers: Record<string, MCPServerConfig> = {}
 ): Promise<string> {
   const client = new CopilotClient({
     ...(workingDirectory && { cwd: workingDirectory }),
@@ -268,13 +294,15 @@ export async function discussPlan(
   const skillDirectories = workingDirectory
     ? getSkillDirectories(workingDirectory)
     : [];
-  const mcpServers = getMcpServers(!!ticket.figmaUrl);
+  const instructions = selectInstructions(workingDirectory, planFiles(currentPlan));
+  onInstructions?.(instructions.applied);
 
   const session = await client.createSession({
     model: "gpt-4.1",
     ...(workingDirectory && { workingDirectory }),
     ...(skillDirectories.length > 0 && { skillDirectories }),
-    ...(mcpServers && { mcpServers }),
+    ...(Object.keys(mcpServers).length > 0 && { mcpServers }),
+    ...(instructions.systemMessage && { systemMessage: instructions.systemMessage }),
   });
 
   // Build conversation context
@@ -293,7 +321,7 @@ Ticket Title: ${ticket.title}
 Ticket Description: ${ticket.description}${figmaContext}
 
 Current Implementation Plan:
-${currentPlan}
+${formatPlan(currentPlan)}
 ${historyContext}
 
 User's question: ${question}
@@ -309,23 +337,27 @@ Provide a helpful response. If the user's question suggests the plan should be c
 
 export async function refinePlan(
   ticket: WorkItem,
-  currentPlan: string,
+  currentPlan: TicketPlan,
   feedback: string,
-  workingDirectory?: string
-): Promise<string> {
+  workingDirectory?: string,
+  onInstructions?: (applied: AppliedInstruction[]) => void,
+  mcpServers: Record<string, MCPServerConfig> = {}
+): Promise<TicketPlan> {
   const client = new CopilotClient({
     ...(workingDirectory && { cwd: workingDirectory }),
   });
   const skillDirectories = workingDirectory
     ? getSkillDirectories(workingDirectory)
     : [];
-  const mcpServers = getMcpServers(!!ticket.figmaUrl);
+  const instructions = selectInstructions(workingDirectory, planFiles(currentPlan));
+  onInstructions?.(instructions.applied);
 
   const session = await client.createSession({
     model: "gpt-4.1",
     ...(workingDirectory && { workingDirectory }),
     ...(skillDirectories.length > 0 && { skillDirectories }),
-    ...(mcpServers && { mcpServers }),
+    ...(Object.keys(mcpServers).length > 0 && { mcpServers }),
+    ...(instructions.systemMessage && { systemMessage: instructions.systemMessage }),
   });
 
   const figmaRefineContext = ticket.figmaUrl
@@ -339,40 +371,74 @@ Ticket Title: ${ticket.title}
 Ticket Description: ${ticket.description}${figmaRefineContext}
 
 Current Implementation Plan:
-${currentPlan}
+\`\`\`json
+${JSON.stringify(currentPlan, null, 2)}
+\`\`\`
 
 User Feedback:
 ${feedback}
 
-Please provide an updated implementation plan that incorporates this feedback. Only output the refined plan, no other text.`,
+Please provide an updated implementation plan that incorporates this feedback. Keep the "id" and "enabled" of steps you keep; new steps need neither. Only output the refined plan as a single JSON object in this format, no other text:
+
+${PLAN_JSON_FORMAT}`,
   });
 
   await session.destroy();
   await client.stop();
 
-  return result?.data?.content || currentPlan;
+  const response = result?.data?.content;
+  if (!response) {
+    return currentPlan;
+  }
+
+  const refined = parsePlanJson(response);
+  if (refined) {
+    return { summary: refined.summary || currentPlan.summary, steps: refined.steps };
+  }
+
+  // The model answered with a plain list instead of JSON
+  const steps = stepsFromMarkdown(response);
+  return steps.length > 0 ? { ...currentPlan, steps } : currentPlan;
 }
 
-export async function implementTicket(
+/**
+ * Run a streaming Copilot session that edits files in the workspace. `work`
+ * sends one or more prompts through the same session, so later prompts keep
+ * the context of earlier ones. `files` picks the repository instructions the
+ * session gets. Errors, cancellations included, are thrown, so a failed step
+ * stops the run and whatever would follow it.
+ */
+async function runCodingSession(
   ticket: WorkItem,
-  plan: string,
+  files: string[],
+  mcpServers: Record<string, MCPServerConfig>,
   onProgress: (progress: ImplementationProgress) => void,
-  workingDirectory?: string,
-  model: string = "claude-sonnet-4.5"
+  workingDirectory: string | undefined,
+  model: string,
+  signal: AbortSignal | undefined,
+  work: (send: (prompt: string) => Promise<void>) => Promise<void>
 ): Promise<void> {
   const clientOptions = workingDirectory ? { cwd: workingDirectory } : {};
   const client = new CopilotClient(clientOptions);
   const skillDirectories = workingDirectory
     ? getSkillDirectories(workingDirectory)
     : [];
-  const mcpServers = getMcpServers(!!ticket.figmaUrl);
+  const instructions = selectInstructions(workingDirectory, files);
+  onProgress({
+    type: "instructions",
+    content: instructions.applied.length > 0
+      ? `Instructions: ${instructions.applied.map((instruction) => instruction.name).join(", ")}`
+      : "No repository instructions apply",
+    instructions: instructions.applied,
+  });
 
   const session = await client.createSession({
     model,
     streaming: true,
     ...(workingDirectory && { workingDirectory }),
     ...(skillDirectories.length > 0 && { skillDirectories }),
-    ...(mcpServers && { mcpServers }),
+    ...(Object.keys(mcpServers).length > 0 && { mcpServers }),
+    ...(instructions.systemMessage && { systemMessage: instructions.systemMessage }),
   });
 
   session.on("assistant.message_delta", (event) => {
@@ -393,32 +459,149 @@ export async function implementTicket(
     });
   });
 
-  try {
+  const send = async (prompt: string) => {
     // Use 10 minute timeout for complex implementations
-    const figmaImplementContext = ticket.figmaUrl
-      ? `\nFigma Design: ${ticket.figmaUrl}\n\nIMPORTANT: Use the Figma MCP tools to fetch design details. Match the design exactly - colors, spacing, typography, and layout. Extract design tokens and component specifications from the Figma file.`
-      : "";
+    await sendAndWaitWithAbort(session, { prompt }, 600000, signal);
+  };
 
-    await session.sendAndWait({
-      prompt: `Implement this ticket:
+  try {
+    await work(send);
+  } finally {
+    await session.destroy();
+    await client.stop();
+  }
+}
 
-Title: ${ticket.title}
-Description: ${ticket.description}${figmaImplementContext}
+export interface ImplementOptions {
+  /**
+   * Called before every step but the first; the next step starts when the
+   * returned promise resolves. Used to pause between steps.
+   */
+  beforeStep?: (step: PlanStep, index: number, total: number) => Promise<void>;
+  /** Called when a step has finished, e.g. to checkpoint the workspace */
+  afterStep?: (step: PlanStep, index: number, total: number) => void;
+  /** The MCP servers the session gets (see mcp-servers.ts) */
+  mcpServers?: Record<string, MCPServerConfig>;
+}
+
+/**
+ * Implement the enabled steps of a plan one at a time, in a single Copilot
+ * session, with step_start / step_complete progress events around each.
+ */
+export async function implementTicket(
+  ticket: WorkItem,
+  plan: TicketPlan,
+  onProgress: (progress: ImplementationProgress) => void,
+  workingDirectory?: string,
+  model: string = "claude-sonnet-4.5",
+  signal?: AbortSignal,
+  options: ImplementOptions = {}
+): Promise<void> {
+  const figmaImplementContext = ticket.figmaUrl
+    ? `\nFigma Design: ${ticket.figmaUrl}${hasFigmaServer(options.mcpServers ?? {}) ? "\n\nIMPORTANT: Use the Figma MCP tools to fetch design details. Match the design exactly - colors, spacing, typography, and layout. Extract design tokens and component specifications from the Figma file." : ""}`
+    : "";
+
+  const steps = plan.steps.filter((step) => step.enabled);
+
+  await runCodingSession(ticket, planFiles(plan), options.mcpServers ?? {}, onProgress, workingDirectory, model, signal, async (send) => {
+    for (const [index, step] of steps.entries()) {
+      const label = `Step ${index + 1}/${steps.length}: ${step.title}`;
+
+      if (index > 0 && options.beforeStep) {
+        await options.beforeStep(step, index, steps.length);
+      }
+
+      onProgress({ type: "step_start", stepId: step.id, content: label });
+
+      const stepRequest = `Now implement step ${index + 1} of ${steps.length}:
+${formatPlanStep(step)}
+
+Only make the changes for this step; later steps will follow.
+
+IMPORTANT: Do NOT commit any changes. Do NOT run git commit. The user will review and commit the changes manually after reviewing the diff.`;
+
+      await send(index === 0
+        ? `Implement this ticket, one step of the plan at a time:
+
+${formatTicketContext(ticket)}${figmaImplementContext}
 
 Implementation Plan:
-${plan}
+${formatPlan(plan)}
 
-Please implement these changes now. Create or modify files as needed.
+${stepRequest}`
+        : `Step ${index} is done. ${stepRequest}`);
 
-IMPORTANT: Do NOT commit any changes. Do NOT run git commit. The user will review and commit the changes manually after reviewing the diff.`,
-    }, 600000);
-  } catch (error) {
-    onProgress({
-      type: "error",
-      content: error instanceof Error ? error.message : "Unknown error",
-    });
-  } finally {
-    await session.destroy();
-    await client.stop();
-  }
+      onProgress({ type: "step_complete", stepId: step.id, content: `✓ ${label}` });
+      options.afterStep?.(step, index, steps.length);
+    }
+  });
+}
+
+/**
+ * Change the implementation in the workspace according to the user's feedback.
+ */
+export async function refineImplementation(
+  ticket: WorkItem,
+  plan: TicketPlan,
+  feedback: string,
+  onProgress: (progress: ImplementationProgress) => void,
+  workingDirectory?: string,
+  model: string = "claude-sonnet-4.5",
+  signal?: AbortSignal,
+  mcpServers: Record<string, MCPServerConfig> = {}
+): Promise<void> {
+  await runCodingSession(ticket, planFiles(plan), mcpServers, onProgress, workingDirectory, model, signal, (send) => send(`You implemented this ticket and the user has asked for changes.
+
+Title: ${ticket.title}
+Description: ${ticket.description}${ticket.figmaUrl ? `\nFigma Design: ${ticket.figmaUrl}` : ""}
+
+Implementation Plan that was followed:
+${formatPlan(plan)}
+
+User feedback for refinement:
+${feedback}
+
+Please make the requested changes to the code based on the feedback above.
+
+IMPORTANT: Do NOT commit any changes. Do NOT run git commit. The user will review and commit the changes manually after reviewing the diff.`));
+}
+
+// Keep the end of the output: that is where test runners and linters summarise
+const MAX_FAILURE_OUTPUT = 20000;
+
+/**
+ * Ask Copilot to fix the code so that a failing post-task (tests, lint,
+ * build...) passes, given the command's captured output.
+ */
+export async function fixFailingTask(
+  ticket: WorkItem,
+  taskName: string,
+  command: string,
+  output: string,
+  onProgress: (progress: ImplementationProgress) => void,
+  workingDirectory?: string,
+  model: string = "claude-sonnet-4.5",
+  signal?: AbortSignal,
+  mcpServers: Record<string, MCPServerConfig> = {}
+): Promise<void> {
+  const truncatedOutput = output.length > MAX_FAILURE_OUTPUT
+    ? "... (earlier output truncated)\n" + output.slice(-MAX_FAILURE_OUTPUT)
+    : output;
+
+  // Which files the failure is about is not known; general instructions only
+  await runCodingSession(ticket, [], mcpServers, onProgress, workingDirectory, model, signal, (send) => send(`You just implemented this ticket, but the "${taskName}" check fails.
+
+Title: ${ticket.title}
+Description: ${ticket.description}
+
+Command: ${command}
+
+Output:
+\`\`\`
+${truncatedOutput}
+\`\`\`
+
+Fix the code so that this command succeeds. Make targeted changes that address the failures above; do not rewrite unrelated code, and do not disable, skip or delete tests or lint rules to make the check pass.
+
+IMPORTANT: Do NOT commit any changes. Do NOT run git commit.`));
 }
@@ -0,0 +1,114 @@
+/**
+ * Splitting unified diffs (git diff output) so large ones can be reviewed
+ * in parts, or cut down for a prompt without silently losing files.
+ */
+export interface FileDiff {
+  path: string;
+  text: string;
+}
+
+export interface DiffChunk {
+  /** 1-based */
+  index: number;
+  files: string[];
+  diff: string;
+}
+
+/**
+ * One entry per file, in diff order. Text before the first file header
+ * (there normally is none) is dropped.
+ */
+export function splitDiffByFile(diff: string): FileDiff[] {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter((text) => text.startsWith("diff --git "))
+    .map((text) => {
+      const newPath = text.match(/^\+\+\+ b\/(.+)$/m)?.[1];
+      const oldPath = text.match(/^--- a\/(.+)$/m)?.[1];
+      const headerPath = text.match(/^diff --git a\/.+ b\/(.+)$/m)?.[1];
+      return { path: newPath ?? headerPath ?? oldPath ?? "(unknown file)", text };
+    });
+}
+
+/**
+ * Split one file's diff between hunks into pieces of at most maxChars,
+ * each repeating the file header so it reads as a diff of its own. A
+ * single hunk larger than maxChars stays whole.
+ */
+function splitFileByHunks(file: FileDiff, maxChars: number): string[] {
+  const [header, ...hunks] = file.text.split(/^(?=@@ )/m);
+  const pieces: string[] = [];
+  let current = header;
+
+  for (const hunk of hunks) {
+    if (current !== header && current.length + hunk.length > maxChars) {
+      pieces.push(current);
+      current = header;
+    }
+    current += hunk;
+  }
+  pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Group whole files into chunks of at most maxChars, in diff order. Files
+ * too large for a chunk of their own are split between hunks.
+ */
+export function chunkDiff(diff: string, maxChars: number): DiffChunk[] {
+  const chunks: { files: string[]; diff: string }[] = [];
+  let current: { files: string[]; diff: string } | null = null;
+
+  for (const file of splitDiffByFile(diff)) {
+    const pieces = file.text.length > maxChars ? splitFileByHunks(file, maxChars) : [file.text];
+    for (const piece of pieces) {
+      if (!current || current.diff.length + piece.length > maxChars) {
+        current = { files: [], diff: "" };
+        chunks.push(current);
+      }
+      if (!current.files.includes(file.path)) {
+        current.files.push(file.path);
+      }
+      current.diff += piece;
+    }
+  }
+
+  if (chunks.length === 0 && diff.trim()) {
+    // Not a git diff; nothing to split on
+    chunks.push({ files: [], diff });
+  }
+  return chunks.map((chunk, i) => ({ index: i + 1, ...chunk }));
+}
+
+/**
+ * Cut a diff down to maxChars by leaving out whole files, and say which
+ * ones. Files named in `focus` (e.g. the user's question) are kept first.
+ */
+export function fitDiff(diff: string, maxChars: number, focus = ""): string {
+  if (diff.length <= maxChars) {
+    return diff;
+  }
+
+  const files = splitDiffByFile(diff);
+  if (files.length === 0) {
+    return diff.substring(0, maxChars) + "\n... (diff truncated)";
+  }
+  const mentioned = (file: FileDiff) =>
+    focus.includes(file.path) || focus.includes(file.path.split("/").pop()!);
+  const ordered = [...files.filter(mentioned), ...files.filter((file) => !mentioned(file))];
+
+  const kept = new Set<FileDiff>();
+  let size = 0;
+  for (const file of ordered) {
+    if (size + file.text.length <= maxChars) {
+      kept.add(file);
+      size += file.text.length;
+    }
+  }
+
+  const omitted = files.filter((file) => !kept.has(file));
+  return [
+    ...files.filter((file) => kept.has(file)).map((file) => file.text),
+    `... (diff too large: ${omitted.length} file${omitted.length !== 1 ? "s" : ""} left out, read them from the working directory if needed: ${omitted.map((file) => file.path).join(", ")})\n`,
+  ].join("");
+}
@@ -0,0 +1,220 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { SystemMessageConfig } from "@github/copilot-sdk";
+
+// Where a repository keeps its instruction files, as in VS Code
+export const INSTRUCTIONS_DIR = path.join(".github", "instructions");
+const INSTRUCTION_FILE_SUFFIX = ".instructions.md";
+
+export interface InstructionFile {
+  /** Relative to the repository root, with forward slashes */
+  path: string;
+  name: string;
+  description: string;
+  /** Globs from the applyTo front matter; empty means every file */
+  applyTo: string[];
+  content: string;
+}
+
+/**
+ * An instruction file that was put into a Copilot session, and why.
+ */
+export interface AppliedInstruction {
+  path: string;
+  name: string;
+  description: string;
+  applyTo: string[];
+  /** The files in play that matched applyTo; empty when it matches everything */
+  matchedFiles: string[];
+}
+
+export interface SessionInstructions {
+  applied: AppliedInstruction[];
+  /** For createSession; undefined when nothing applies */
+  systemMessage?: SystemMessageConfig;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+/**
+ * Split a file into its YAML front matter and body. Only what instruction
+ * files use is understood: `key: value` lines and `- item` lists.
+ */
+export function parseFrontMatter(text: string): { attributes: Record<string, string | string[]>; body: string } {
+  const match = text.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { attributes: {}, body: text };
+  }
+
+  const attributes: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.*)$/);
+    if (item && listKey) {
+      (attributes[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+    const pair = line.match(/^([A-Za-z][\w-]*):\s*(.*)$/);
+    if (!pair) {
+      continue;
+    }
+    if (pair[2].trim()) {
+      attributes[pair[1]] = unquote(pair[2]);
+      listKey = null;
+    } else {
+      attributes[pair[1]] = [];
+      listKey = pair[1];
+    }
+  }
+
+  return { attributes, body: text.slice(match[0].length) };
+}
+
+// "**/*.{ts,tsx}, docs/**" → ["**/*.{ts,tsx}", "docs/**"]: commas inside braces do not split
+function splitGlobList(value: string): string[] {
+  const globs: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of value) {
+    if (char === "{") depth++;
+    if (char === "}") depth = Math.max(0, depth - 1);
+    if (char === "," && depth === 0) {
+      globs.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  globs.push(current);
+  return globs.map((glob) => unquote(glob)).filter(Boolean);
+}
+
+/**
+ * Translate a glob into a regular expression over a relative path:
+ * `**` crosses directories, `*` and `?` do not, `{a,b}` is either.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      i++;
+      if (glob[i + 1] === "/") {
+        i++;
+        source += "(?:.*/)?";
+      } else {
+        source += ".*";
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      source += "(?:";
+    } else if (char === "}") {
+      source += ")";
+    } else if (char === ",") {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function matchesGlob(filePath: string, glob: string): boolean {
+  const pattern = glob.replace(/^\.?\//, "");
+  // A glob without a directory part, like "*.ts", matches the file name anywhere
+  const subject = pattern.includes("/") ? filePath : path.posix.basename(filePath);
+  return globToRegExp(pattern).test(subject);
+}
+
+function appliesEverywhere(instruction: InstructionFile): boolean {
+  return instruction.applyTo.length === 0 || instruction.applyTo.some((glob) => ["**", "**/*", "*"].includes(glob));
+}
+
+function findInstructionFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findInstructionFiles(fullPath);
+    }
+    return entry.isFile() && entry.name.endsWith(INSTRUCTION_FILE_SUFFIX) ? [fullPath] : [];
+  });
+}
+
+/**
+ * Every `*.instructions.md` file under `.github/instructions/`, subfolders
+ * included, with its front matter read.
+ */
+export function loadInstructionFiles(workingDirectory: string): InstructionFile[] {
+  return findInstructionFiles(path.join(workingDirectory, INSTRUCTIONS_DIR))
+    .sort()
+    .map((fullPath) => {
+      const { attributes, body } = parseFrontMatter(fs.readFileSync(fullPath, "utf-8"));
+      const applyTo = attributes.applyTo;
+      const fileName = path.basename(fullPath, INSTRUCTION_FILE_SUFFIX);
+      return {
+        path: path.relative(workingDirectory, fullPath).split(path.sep).join("/"),
+        name: (typeof attributes.name === "string" && attributes.name) || fileName,
+        description: typeof attributes.description === "string" ? attributes.description : "",
+        applyTo: Array.isArray(applyTo) ? applyTo.flatMap(splitGlobList) : splitGlobList(applyTo ?? ""),
+        content: body.trim(),
+      };
+    })
+    .filter((instruction) => instruction.content);
+}
+
+/**
+ * The instructions that apply to the files in play, and the system message
+ * that carries them. Instructions without applyTo, or with one matching
+ * every file, always apply; the others only when one of `files` matches.
+ * With no files known yet (e.g. before there is a plan) only the former do.
+ */
+export function selectInstructions(
+  workingDirectory: string | undefined,
+  files: string[]
+): SessionInstructions {
+  if (!workingDirectory) {
+    return { applied: [] };
+  }
+
+  const selected = loadInstructionFiles(workingDirectory).flatMap((instruction) => {
+    if (appliesEverywhere(instruction)) {
+      return [{ instruction, matchedFiles: [] as string[] }];
+    }
+    const matchedFiles = files.filter((file) =>
+      instruction.applyTo.some((glob) => matchesGlob(file.replace(/^\/+/, ""), glob))
+    );
+    return matchedFiles.length > 0 ? [{ instruction, matchedFiles }] : [];
+  });
+
+  if (selected.length === 0) {
+    return { applied: [] };
+  }
+
+  const content = selected
+    .map(({ instruction }) =>
+      `<instructions name="${instruction.name}"${instruction.applyTo.length > 0 ? ` applyTo="${instruction.applyTo.join(", ")}"` : ""}>\n${instruction.content}\n</instructions>`
+    )
+    .join("\n\n");
+
+  return {
+    applied: selected.map(({ instruction, matchedFiles }) => ({
+      path: instruction.path,
+      name: instruction.name,
+      description: instruction.description,
+      applyTo: instruction.applyTo,
+      matchedFiles,
+    })),
+    systemMessage: {
+      mode: "append",
+      content: `<custom_instructions>\nFollow these repository instructions when they apply to the files you work on.\n\n${content}\n</custom_instructions>`,
+    },
+  };
+}
@@ -0,0 +1,221 @@
+import { randomUUID } from "crypto";
+import { isVisibleTo, type User } from "./auth.js";
+import { OperationCancelledError, beginOperation, endOperation, isCancellation } from "./cancellation.js";
+import {
+  saveJobRecord,
+  loadJobRecords,
+  deleteJobRecord,
+  appendJobEvent,
+  loadJobEvents,
+} from "./store.js";
+
+export type JobKind = "plan" | "implement" | "refine-code" | "review";
+
+export type JobStatus = "running" | "completed" | "failed" | "cancelled";
+
+/**
+ * A long-running Copilot operation for a session, run on the server
+ * independently of the request that started it. Its progress events are
+ * stored so a client can reconnect and replay whatever it missed.
+ */
+export interface Job {
+  id: string;
+  kind: JobKind;
+  /** The ticket or review session the job works on, or the webhook delivery that started it */
+  sessionId: string;
+  /** The user who started it, i.e. the session's owner; null without sign-in */
+  ownerId: string | null;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Id of the job's latest event; events are numbered from 1 */
+  lastEventId: number;
+}
+
+export interface JobEvent {
+  id: number;
+  data: unknown;
+}
+
+export interface JobContext {
+  /** Record a progress event and send it to every connected client */
+  emit: <T extends { type: string }>(data: T) => void;
+  /** Fires when the job is cancelled, or another operation starts for the session */
+  signal: AbortSignal;
+}
+
+export interface JobListener {
+  event: (event: JobEvent) => void;
+  /** The job has finished; no more events follow */
+  end: (job: Job) => void;
+}
+
+// Finished jobs and their events are dropped after this long
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const jobs = new Map<string, Job>();
+const controllers = new Map<string, AbortController>();
+const listeners = new Map<string, Set<JobListener>>();
+// The latest job of each session, settled once it has finished, cleanup included
+const sessionJobs = new Map<string, Promise<void>>();
+
+function saveJob(job: Job): void {
+  job.updatedAt = new Date().toISOString();
+  saveJobRecord(job.id, job);
+}
+
+function recordEvent(job: Job, data: unknown): void {
+  job.lastEventId++;
+  appendJobEvent(job.id, job.lastEventId, data);
+  saveJob(job);
+
+  const event = { id: job.lastEventId, data };
+  for (const listener of listeners.get(job.id) ?? []) {
+    listener.event(event);
+  }
+}
+
+/**
+ * Start a job and return it straight away; `run` carries on in the
+ * background. A job that emits a "cancelled" event ends cancelled, one that
+ * emits an "error" event ends failed, and anything else ends completed.
+ * Like any operation, starting a job cancels the one running for the session;
+ * `run` only starts once that job has finished, so a cancelled job undoing
+ * its changes to the workspace cannot undo the new job's as well.
+ */
+export function startJob(
+  kind: JobKind,
+  sessionId: string,
+  ownerId: string | null,
+  run: (context: JobContext) => Promise<void>
+): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    kind,
+    sessionId,
+    ownerId,
+    status: "running",
+    createdAt: now,
+    updatedAt: now,
+    lastEventId: 0,
+  };
+  jobs.set(job.id, job);
+  saveJob(job);
+
+  const operation = beginOperation(sessionId, kind);
+  controllers.set(job.id, operation);
+
+  let outcome: JobStatus = "completed";
+  const emit = <T extends { type: string }>(data: T) => {
+    if (data.type === "cancelled") {
+      outcome = "cancelled";
+    } else if (data.type === "error" && outcome !== "cancelled") {
+      outcome = "failed";
+    }
+    recordEvent(job, data);
+  };
+
+  const previous = sessionJobs.get(sessionId) ?? Promise.resolve();
+  const settled: Promise<void> = previous
+    .then(() => {
+      // Cancelled while waiting for the previous job
+      if (operation.signal.aborted) {
+        throw new OperationCancelledError();
+      }
+      return run({ emit, signal: operation.signal });
+    })
+    .catch((error) => {
+      // Jobs report their own failures; this is for whatever slipped through
+      if (isCancellation(error)) {
+        emit({ type: "cancelled", content: "Cancelled" });
+      } else {
+        emit({ type: "error", content: error instanceof Error ? error.message : "Unknown error" });
+      }
+    })
+    .finally(() => {
+      endOperation(sessionId, operation);
+      controllers.delete(job.id);
+      job.status = outcome;
+      saveJob(job);
+
+      for (const listener of listeners.get(job.id) ?? []) {
+        listener.end(job);
+      }
+      listeners.delete(job.id);
+      if (sessionJobs.get(sessionId) === settled) {
+        sessionJobs.delete(sessionId);
+      }
+    });
+  sessionJobs.set(sessionId, settled);
+
+  return job;
+}
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+// The jobs the user may see, newest first, optionally only those of one session
+export function listJobs(user: User | null, sessionId?: string): Job[] {
+  return [...jobs.values()]
+    .filter((job) => isVisibleTo(job.ownerId, user) && (!sessionId || job.sessionId === sessionId))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Replay the events after `afterEventId`, then follow the job live until it
+ * ends. Replay and subscription happen in one go, so no event is missed or
+ * sent twice. Returns a function to stop following; for a finished job,
+ * `listener.end` is called right after the replay.
+ */
+export function followJob(job: Job, afterEventId: number, listener: JobListener): () => void {
+  for (const { seq, data } of loadJobEvents(job.id, afterEventId)) {
+    listener.event({ id: seq, data });
+  }
+
+  if (job.status !== "running") {
+    listener.end(job);
+    return () => {};
+  }
+
+  const jobListeners = listeners.get(job.id) ?? new Set<JobListener>();
+  jobListeners.add(listener);
+  listeners.set(job.id, jobListeners);
+  return () => {
+    jobListeners.delete(listener);
+  };
+}
+
+// Returns false if the job has already finished
+export function cancelJob(job: Job): boolean {
+  const controller = controllers.get(job.id);
+  controller?.abort();
+  return !!controller;
+}
+
+/**
+ * Load jobs saved by a previous server run. A job that was running then
+ * cannot be resumed, so it is recorded as failed; jobs that finished more
+ * than a week ago are deleted with their events.
+ */
+export function restoreJobs(): number {
+  const cutoff = new Date(Date.now() - JOB_RETENTION_MS).toISOString();
+
+  for (const job of loadJobRecords<Job>()) {
+    if (job.status !== "running" && job.updatedAt < cutoff) {
+      deleteJobRecord(job.id);
+      continue;
+    }
+
+    // Saved before jobs had owners
+    job.ownerId ??= null;
+    jobs.set(job.id, job);
+    if (job.status === "running") {
+      recordEvent(job, { type: "error", content: "Interrupted by a server restart" });
+      job.status = "failed";
+      saveJob(job);
+    }
+  }
+  return jobs.size;
+}
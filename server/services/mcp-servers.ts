@@ -0,0 +1,253 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { MCPServerConfig } from "@github/copilot-sdk";
+import type { WorkItem } from "../../utils/azure-devops.js";
+
+/**
+ * When a server switches itself on. Each entry is a regular expression
+ * (case-insensitive); a match in any list is enough.
+ */
+export interface McpServerTriggers {
+  /** Matched against the URLs in the ticket or pull request, and its own URL */
+  urls?: string[];
+  /** Matched against the repository URL */
+  repos?: string[];
+  /** Matched against the work item type, e.g. "Bug" or "User Story" */
+  workItemTypes?: string[];
+}
+
+/**
+ * One entry of the registry: a local stdio server (`command`) or a remote
+ * HTTP one (`url`), with the SDK's options for each, plus when to use it.
+ * `${VAR}` in strings is replaced with the environment variable.
+ */
+export interface McpServerDefinition {
+  name?: string;
+  description?: string;
+  type?: "local" | "stdio" | "http" | "sse";
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  /** Default: every tool */
+  tools?: string[];
+  timeout?: number;
+  /** Without triggers the server is on for every session */
+  triggers?: McpServerTriggers;
+  /** false: never on by itself, only when turned on in the UI */
+  enabled?: boolean;
+}
+
+/**
+ * A registry server as a session sees it. `reason` says why it is on or
+ * off by default; `overridden` when the user switched it.
+ */
+export interface McpServerStatus {
+  id: string;
+  name: string;
+  description: string;
+  type: "local" | "http" | "sse";
+  enabled: boolean;
+  defaultEnabled: boolean;
+  reason: string;
+  overridden: boolean;
+}
+
+/**
+ * What triggers are matched against. Ticket sessions have a ticket and
+ * usually a repository; review sessions a repository and a PR.
+ */
+export interface McpTriggerContext {
+  ticket?: WorkItem | null;
+  repoUrl?: string | null;
+  /** Other text to find URLs in, e.g. a pull request's description */
+  text?: string;
+  /** URLs that always count, e.g. the pull request's own */
+  urls?: string[];
+}
+
+export interface SessionMcpServers {
+  servers: McpServerStatus[];
+  /** For createSession */
+  mcpServers: Record<string, MCPServerConfig>;
+}
+
+// Used when there is no registry file: Figma for tickets that link a design
+const DEFAULT_REGISTRY: Record<string, McpServerDefinition> = {
+  "figma-mcp-server": {
+    name: "Figma",
+    description: "Design details from the Figma file linked in the ticket",
+    type: "http",
+    url: "https://mcp.figma.com/mcp",
+    tools: ["*"],
+    triggers: { urls: ["figma\\.com/(file|design|proto)/"] },
+  },
+};
+
+function registryFilePath(): string {
+  return path.resolve(process.env.MCP_SERVERS_FILE || "mcp-servers.json");
+}
+
+function expandEnv<T>(value: T): T {
+  if (typeof value === "string") {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] ?? "") as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(expandEnv) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, expandEnv(inner)])) as T;
+  }
+  return value;
+}
+
+function compileTriggers(id: string, triggers: McpServerTriggers = {}): Record<keyof McpServerTriggers, RegExp[]> {
+  const compile = (patterns: string[] = []) =>
+    patterns.map((pattern) => {
+      try {
+        return new RegExp(pattern, "i");
+      } catch {
+        throw new Error(`MCP server "${id}" has an invalid trigger pattern: ${pattern}`);
+      }
+    });
+  return {
+    urls: compile(triggers.urls),
+    repos: compile(triggers.repos),
+    workItemTypes: compile(triggers.workItemTypes),
+  };
+}
+
+/**
+ * The registry: the servers in the registry file (MCP_SERVERS_FILE,
+ * default: mcp-servers.json), as `{ "servers": { "<id>": { ... } } }`.
+ * Without a file, only the built-in Figma server.
+ */
+export function loadMcpRegistry(): Record<string, McpServerDefinition> {
+  const file = registryFilePath();
+  if (!fs.existsSync(file)) {
+    return DEFAULT_REGISTRY;
+  }
+
+  let parsed: { servers?: Record<string, McpServerDefinition> };
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(`Invalid MCP server registry ${file}: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+  if (!parsed?.servers || typeof parsed.servers !== "object" || Array.isArray(parsed.servers)) {
+    throw new Error(`Invalid MCP server registry ${file}: expected an object of servers under "servers"`);
+  }
+
+  for (const [id, definition] of Object.entries(parsed.servers)) {
+    if (!definition || Boolean(definition.command) === Boolean(definition.url)) {
+      throw new Error(`MCP server "${id}" needs either a command (local) or a url (remote)`);
+    }
+  }
+  return parsed.servers;
+}
+
+function toSdkConfig(definition: McpServerDefinition): MCPServerConfig {
+  const { type, command, args, env, cwd, url, headers, tools, timeout } = expandEnv(definition);
+  if (command) {
+    return {
+      type: type === "stdio" ? "stdio" : "local",
+      command,
+      args: args ?? [],
+      tools: tools ?? ["*"],
+      ...(env && { env }),
+      ...(cwd && { cwd }),
+      ...(timeout && { timeout }),
+    };
+  }
+  return {
+    type: type === "sse" ? "sse" : "http",
+    url: url!,
+    tools: tools ?? ["*"],
+    ...(headers && { headers }),
+    ...(timeout && { timeout }),
+  };
+}
+
+function contextUrls(context: McpTriggerContext): string[] {
+  const { ticket } = context;
+  const texts = [
+    context.text ?? "",
+    ticket?.description ?? "",
+    ticket?.acceptanceCriteria ?? "",
+    ticket?.reproSteps ?? "",
+  ];
+  const found = texts.flatMap((text) => text.match(/https?:\/\/[^\s"'<>)}\]]+/g) ?? []);
+  return [...new Set([...(context.urls ?? []), ticket?.url, ticket?.figmaUrl, ...found].filter((url): url is string => !!url))];
+}
+
+// Why a server is on by default, or null when nothing triggers it
+function triggerReason(id: string, definition: McpServerDefinition, context: McpTriggerContext, urls: string[]): string | null {
+  if (!definition.triggers) {
+    return "Always on";
+  }
+  const triggers = compileTriggers(id, definition.triggers);
+  const url = urls.find((candidate) => triggers.urls.some((pattern) => pattern.test(candidate)));
+  if (url) {
+    return `Link: ${url}`;
+  }
+  if (context.repoUrl && triggers.repos.some((pattern) => pattern.test(context.repoUrl!))) {
+    return `Repository: ${context.repoUrl}`;
+  }
+  const type = context.ticket?.type;
+  if (type && triggers.workItemTypes.some((pattern) => pattern.test(type))) {
+    return `Work item type: ${type}`;
+  }
+  return null;
+}
+
+/**
+ * The registry servers for a session: on when their triggers match the
+ * context, unless the user turned them off (or on) in `overrides`.
+ */
+export function selectMcpServers(
+  context: McpTriggerContext,
+  overrides: Record<string, boolean> = {}
+): SessionMcpServers {
+  const urls = contextUrls(context);
+  const servers: McpServerStatus[] = [];
+  const mcpServers: Record<string, MCPServerConfig> = {};
+
+  for (const [id, definition] of Object.entries(loadMcpRegistry())) {
+    const reason = definition.enabled === false ? null : triggerReason(id, definition, context, urls);
+    const defaultEnabled = reason !== null;
+    const overridden = id in overrides && overrides[id] !== defaultEnabled;
+    const enabled = overridden ? overrides[id] : defaultEnabled;
+    const config = toSdkConfig(definition);
+
+    servers.push({
+      id,
+      name: definition.name || id,
+      description: definition.description ?? "",
+      type: config.type === "http" || config.type === "sse" ? config.type : "local",
+      enabled,
+      defaultEnabled,
+      reason: reason ?? (definition.enabled === false ? "Off unless turned on" : "Not triggered"),
+      overridden,
+    });
+    if (enabled) {
+      mcpServers[id] = config;
+    }
+  }
+
+  return { servers, mcpServers };
+}
+
+/**
+ * Record a user's choice for one server. Choosing what the triggers would
+ * pick anyway drops the override, so later trigger changes still apply.
+ */
+export function setMcpServerOverride(
+  overrides: Record<string, boolean>,
+  status: McpServerStatus,
+  enabled: boolean
+): Record<string, boolean> {
+  const { [status.id]: _previous, ...rest } = overrides;
+  return enabled === status.defaultEnabled ? rest : { ...rest, [status.id]: enabled };
+}
@@ -0,0 +1,210 @@
+/**
+ * An implementation plan as an ordered list of steps. Steps are run one at
+ * a time; disabled steps stay in the plan but are skipped.
+ */
+export interface PlanStep {
+  id: string;
+  title: string;
+  description: string;
+  files: string[];
+  /** How to tell the step is done, e.g. a command to run or behaviour to observe */
+  acceptance: string;
+  enabled: boolean;
+}
+
+export interface TicketPlan {
+  summary: string;
+  steps: PlanStep[];
+}
+
+// The JSON shape the model is asked to produce, shared by generation and refinement
+export const PLAN_JSON_FORMAT = `\`\`\`json
+{
+  "summary": "2-3 sentences describing what the ticket is asking for",
+  "steps": [
+    {
+      "title": "Short imperative title",
+      "description": "What to change and how, specific to this codebase",
+      "files": ["path/to/file.ts"],
+      "acceptance": "How to tell this step is done (a command to run, behaviour to observe)"
+    }
+  ]
+}
+\`\`\``;
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * Validate steps coming from the model or the UI: fill in missing fields and
+ * give every step a unique id. Steps without a title or description are dropped.
+ */
+export function normalizePlanSteps(rawSteps: unknown[]): PlanStep[] {
+  const usedIds = new Set<string>();
+  const steps: PlanStep[] = [];
+
+  for (const raw of rawSteps) {
+    if (!raw || typeof raw !== "object") {
+      continue;
+    }
+    const step = raw as Record<string, unknown>;
+    const title = asString(step.title);
+    const description = asString(step.description);
+    if (!title && !description) {
+      continue;
+    }
+
+    let id = asString(step.id);
+    if (!id || usedIds.has(id)) {
+      let n = steps.length + 1;
+      while (usedIds.has(`step-${n}`)) {
+        n++;
+      }
+      id = `step-${n}`;
+    }
+    usedIds.add(id);
+
+    steps.push({
+      id,
+      title: title || description.split("\n")[0].slice(0, 80),
+      description,
+      files: Array.isArray(step.files) ? step.files.map(asString).filter(Boolean) : [],
+      acceptance: asString(step.acceptance),
+      enabled: step.enabled !== false,
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Turn a free-form numbered list into steps, for models that ignore the
+ * JSON format and for plans saved before steps existed. "Files:" and
+ * "Done when:" lines, as formatPlanStep writes them, fill in those fields.
+ */
+export function stepsFromMarkdown(text: string): PlanStep[] {
+  const items: { title: string; body: string[] }[] = [];
+
+  for (const line of text.split("\n")) {
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    if (numbered) {
+      items.push({ title: numbered[1].replace(/\*\*/g, "").trim().replace(/:$/, ""), body: [] });
+    } else if (items.length > 0) {
+      items[items.length - 1].body.push(line);
+    }
+  }
+
+  if (items.length === 0) {
+    return text.trim()
+      ? normalizePlanSteps([{ title: "Implement the ticket", description: text }])
+      : [];
+  }
+
+  return normalizePlanSteps(
+    items.map((item) => {
+      // formatPlan indents a step's lines under its number
+      const body = item.body.map((line) => line.replace(/^ {1,3}/, ""));
+      const files = body.find((line) => line.startsWith("Files:"));
+      const acceptance = body.find((line) => line.startsWith("Done when:"));
+      return {
+        title: item.title,
+        description: body.filter((line) => line !== files && line !== acceptance).join("\n").trim(),
+        files: files ? files.slice("Files:".length).split(",") : [],
+        acceptance: acceptance?.slice("Done when:".length) ?? "",
+      };
+    })
+  );
+}
+
+/**
+ * Extract a plan from a model response that should contain the JSON object
+ * described by PLAN_JSON_FORMAT. Returns null if there is no usable JSON.
+ */
+export function parsePlanJson(response: string): TicketPlan | null {
+  const fenced = [...response.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)].map((m) => m[1]);
+  const braces = response.slice(response.indexOf("{"), response.lastIndexOf("}") + 1);
+  const candidates = [...fenced.reverse(), braces];
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate) as { summary?: unknown; steps?: unknown };
+      if (!Array.isArray(parsed.steps)) {
+        continue;
+      }
+      const steps = normalizePlanSteps(parsed.steps);
+      if (steps.length > 0) {
+        return { summary: asString(parsed.summary), steps };
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The files the enabled steps of a plan expect to touch, each once.
+ */
+export function planFiles(plan: TicketPlan): string[] {
+  return [...new Set(plan.steps.filter((step) => step.enabled).flatMap((step) => step.files))];
+}
+
+/**
+ * Plans saved before steps existed were { summary, implementationPlan }.
+ */
+export function upgradePlan(plan: unknown): TicketPlan | null {
+  if (!plan || typeof plan !== "object") {
+    return null;
+  }
+  const saved = plan as { summary?: unknown; steps?: unknown; implementationPlan?: unknown };
+  if (Array.isArray(saved.steps)) {
+    return { summary: asString(saved.summary), steps: normalizePlanSteps(saved.steps) };
+  }
+  return {
+    summary: asString(saved.summary),
+    steps: stepsFromMarkdown(asString(saved.implementationPlan)),
+  };
+}
+
+export function formatPlanStep(step: PlanStep): string {
+  const lines = [step.title];
+  if (step.description) {
+    lines.push(step.description);
+  }
+  if (step.files.length > 0) {
+    lines.push(`Files: ${step.files.join(", ")}`);
+  }
+  if (step.acceptance) {
+    lines.push(`Done when: ${step.acceptance}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * The enabled steps as a numbered markdown list, for prompts and PR descriptions.
+ */
+export function formatPlan(plan: TicketPlan): string {
+  return plan.steps
+    .filter((step) => step.enabled)
+    .map((step, index) => `${index + 1}. ${formatPlanStep(step).replace(/\n/g, "\n   ")}`)
+    .join("\n");
+}
+
+/**
+ * A plan as a markdown document that can be edited by hand and read back
+ * with parsePlanMarkdown. Disabled steps are left out.
+ */
+export function formatPlanMarkdown(plan: TicketPlan): string {
+  return `## Summary\n\n${plan.summary}\n\n## Implementation Plan\n\n${formatPlan(plan)}\n`;
+}
+
+export function parsePlanMarkdown(text: string): TicketPlan {
+  const summary = text.match(/^##\s*Summary\s*\n([\s\S]*?)(?=^##\s|(?![\s\S]))/im);
+  const steps = text.match(/^##\s*Implementation Plan\s*\n([\s\S]*)$/im);
+  return {
+    summary: summary?.[1].trim() ?? "",
+    steps: stepsFromMarkdown(steps ? steps[1] : text),
+  };
+}
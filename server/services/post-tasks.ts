@@ -0,0 +1,289 @@
+import { spawn } from "child_process";
+import { OperationCancelledError, isCancellation } from "./cancellation.js";
+import type { ImplementationProgress } from "./copilot.js";
+
+export interface PostTask {
+  id: string;
+  name: string;
+  command: string;
+  /** Defaults to DEFAULT_TASK_TIMEOUT_SECONDS */
+  timeoutSeconds?: number;
+  /** Extra environment variables, on top of the server's own */
+  env?: Record<string, string>;
+}
+
+export interface PostTaskResult {
+  id: string;
+  name: string;
+  command: string;
+  status: "passed" | "failed" | "timed_out";
+  exitCode: number | null;
+  durationMs: number;
+  /** Runs of the task, including re-runs after fix-until-green attempts */
+  attempts: number;
+}
+
+export const DEFAULT_TASK_TIMEOUT_SECONDS = 300;
+
+// How long a stopped command gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 5000;
+
+// Keep only the end of very chatty output in memory; that is where runners summarise
+const MAX_CAPTURED_OUTPUT = 1_000_000;
+
+export interface CommandResult {
+  exitCode: number | null;
+  output: string;
+  durationMs: number;
+  timedOut: boolean;
+}
+
+export interface RunCommandOptions {
+  cwd: string;
+  timeout: number;
+  env?: Record<string, string>;
+  signal?: AbortSignal;
+  onLine?: (line: string, stream: "stdout" | "stderr") => void;
+}
+
+/**
+ * Run a shell command without blocking the event loop, reporting its output
+ * line by line as it arrives. Resolves with the exit code whether or not the
+ * command succeeded; rejects with an OperationCancelledError if the signal
+ * fires. On timeout or cancellation the whole process tree is killed, not
+ * just the shell, and the promise settles even if the command will not die.
+ */
+export function runCommand(command: string, options: RunCommandOptions): Promise<CommandResult> {
+  const { cwd, timeout, env, signal, onLine } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new OperationCancelledError());
+      return;
+    }
+
+    const startedAt = Date.now();
+    // On POSIX the shell gets its own process group so its children die with it
+    const child = spawn(command, {
+      cwd,
+      shell: true,
+      detached: process.platform !== "win32",
+      stdio: ["ignore", "pipe", "pipe"],
+      env: { ...process.env, ...env },
+    });
+
+    let output = "";
+    let stopReason: "timeout" | "cancelled" | null = null;
+    const pending = { stdout: "", stderr: "" };
+
+    const collect = (stream: "stdout" | "stderr", chunk: string) => {
+      output += chunk;
+      if (output.length > MAX_CAPTURED_OUTPUT) {
+        output = output.slice(-MAX_CAPTURED_OUTPUT);
+      }
+
+      const lines = (pending[stream] + chunk).split("\n");
+      pending[stream] = lines.pop() ?? "";
+      for (const line of lines) {
+        onLine?.(line.replace(/\r$/, ""), stream);
+      }
+    };
+
+    child.stdout.setEncoding("utf-8");
+    child.stderr.setEncoding("utf-8");
+    child.stdout.on("data", (chunk: string) => collect("stdout", chunk));
+    child.stderr.on("data", (chunk: string) => collect("stderr", chunk));
+
+    let settled = false;
+    let killTimer: NodeJS.Timeout | undefined;
+    const settle = (code: number | null) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      signal?.removeEventListener("abort", onAbort);
+
+      // Flush a last line that had no trailing newline
+      for (const stream of ["stdout", "stderr"] as const) {
+        if (pending[stream]) {
+          onLine?.(pending[stream], stream);
+          pending[stream] = "";
+        }
+      }
+
+      if (stopReason === "cancelled") {
+        reject(new OperationCancelledError());
+        return;
+      }
+
+      resolve({
+        exitCode: code,
+        output,
+        durationMs: Date.now() - startedAt,
+        timedOut: stopReason === "timeout",
+      });
+    };
+
+    const signalGroup = (name: NodeJS.Signals) => {
+      try {
+        if (process.platform === "win32" || !child.pid) {
+          child.kill(name);
+        } else {
+          process.kill(-child.pid, name);
+        }
+      } catch {
+        // Already exited
+      }
+    };
+
+    // SIGTERM first; whatever ignores it (a watch-mode runner, say) gets SIGKILL after a grace period
+    const kill = (reason: "timeout" | "cancelled") => {
+      if (stopReason || child.exitCode !== null) {
+        return;
+      }
+      stopReason = reason;
+      signalGroup("SIGTERM");
+      killTimer = setTimeout(() => {
+        signalGroup("SIGKILL");
+        // A process that left the group can keep the pipes open; stop waiting for it
+        killTimer = setTimeout(() => settle(null), KILL_GRACE_MS);
+      }, KILL_GRACE_MS);
+    };
+
+    const onAbort = () => kill("cancelled");
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(() => kill("timeout"), timeout);
+
+    child.on("error", (error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      signal?.removeEventListener("abort", onAbort);
+      reject(error);
+    });
+
+    child.on("close", (code) => settle(code));
+  });
+}
+
+export interface PostTaskRunOptions {
+  cwd: string;
+  signal?: AbortSignal;
+  onProgress: (progress: ImplementationProgress) => void;
+  /**
+   * Fix-until-green: called with a failing task and its output, after which
+   * the task runs again. Without it a failure is reported and skipped.
+   */
+  fix?: (task: PostTask, output: string) => Promise<void>;
+  maxFixAttempts?: number;
+}
+
+function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+function describeResult(result: PostTaskResult, timeoutSeconds: number): string {
+  const duration = formatDuration(result.durationMs);
+  switch (result.status) {
+    case "passed":
+      return `✓ ${result.name} passed in ${duration}`;
+    case "timed_out":
+      return `✗ ${result.name} timed out after ${timeoutSeconds}s`;
+    default:
+      return `✗ ${result.name} failed with exit code ${result.exitCode} after ${duration}`;
+  }
+}
+
+/**
+ * Run post-implementation tasks in order, streaming their output, and
+ * return the outcome of each task's final run.
+ */
+export async function runPostTasks(tasks: PostTask[], options: PostTaskRunOptions): Promise<PostTaskResult[]> {
+  const { cwd, signal, onProgress, fix, maxFixAttempts = 0 } = options;
+  const results: PostTaskResult[] = [];
+
+  for (const task of tasks) {
+    const timeoutSeconds = task.timeoutSeconds && task.timeoutSeconds > 0
+      ? task.timeoutSeconds
+      : DEFAULT_TASK_TIMEOUT_SECONDS;
+
+    for (let attempt = 0; ; attempt++) {
+      if (attempt > 0) {
+        onProgress({ type: "phase", content: `Re-running ${task.name} (attempt ${attempt + 1})` });
+      }
+      onProgress({ type: "post_task", taskId: task.id, content: `Running: ${task.name} (${task.command})` });
+
+      let run: CommandResult;
+      try {
+        run = await runCommand(task.command, {
+          cwd,
+          timeout: timeoutSeconds * 1000,
+          env: task.env,
+          signal,
+          onLine: (line, stream) =>
+            onProgress({ type: "post_task", taskId: task.id, stream, content: line }),
+        });
+      } catch (error) {
+        if (isCancellation(error)) {
+          throw error;
+        }
+        // The command could not be started at all
+        run = {
+          exitCode: null,
+          output: error instanceof Error ? error.message : "Unknown error",
+          durationMs: 0,
+          timedOut: false,
+        };
+      }
+
+      const result: PostTaskResult = {
+        id: task.id,
+        name: task.name,
+        command: task.command,
+        status: run.timedOut ? "timed_out" : run.exitCode === 0 ? "passed" : "failed",
+        exitCode: run.exitCode,
+        durationMs: run.durationMs,
+        attempts: attempt + 1,
+      };
+      // Not an "error" when it fails: the implementation itself succeeded and the run goes on
+      onProgress({
+        type: "post_task",
+        taskId: task.id,
+        result,
+        content: describeResult(result, timeoutSeconds),
+      });
+
+      if (result.status === "passed" || !fix || attempt >= maxFixAttempts) {
+        if (result.status !== "passed" && fix) {
+          onProgress({ type: "phase", content: `Giving up on ${task.name} after ${maxFixAttempts} fix attempt(s)` });
+        }
+        // Continue with other tasks even if one fails
+        results.push(result);
+        break;
+      }
+
+      onProgress({ type: "phase", content: `Fix attempt ${attempt + 1} of ${maxFixAttempts}: ${task.name}` });
+      try {
+        await fix(task, run.output);
+      } catch (error) {
+        if (isCancellation(error)) {
+          throw error;
+        }
+        // The task stays failing; the other tasks still run
+        onProgress({
+          type: "phase",
+          content: `Fix attempt for ${task.name} failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        });
+        results.push(result);
+        break;
+      }
+    }
+  }
+
+  return results;
+}
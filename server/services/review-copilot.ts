@@ -1,11 +1,42 @@
-import { CopilotClient } from "@github/copilot-sdk";
+import { CopilotClient, type MCPServerConfig } from "@github/copilot-sdk";
 import type { PRInfo } from "../../utils/azure-devops-pr.js";
+import { sendAndWaitWithAbort, isCancellation } from "./cancellation.js";
+import { chunkDiff, fitDiff, splitDiffByFile, type DiffChunk } from "./diff-chunks.js";
+import { selectInstructions, type AppliedInstruction } from "./instructions.js";
+import {
+  formatReviewMarkdown,
+  mergeReviews,
+  parseReviewJson,
+  reviewJsonFormat,
+  type StructuredReview,
+} from "./review-findings.js";
+
+export type ReviewChunkStatus = "queued" | "running" | "done" | "failed";
+
+// Where one part of a review that is split into parts has got to
+export interface ReviewChunkProgress {
+  index: number;
+  total: number;
+  files: string[];
+  status: ReviewChunkStatus;
+  findings?: number;
+  error?: string;
+}
 
 export interface ReviewProgress {
-  type: "message" | "tool_start" | "tool_end" | "complete" | "error";
+  type: "message" | "tool_start" | "tool_end" | "chunk" | "instructions" | "complete" | "error" | "cancelled";
   content: string;
+  /** On "instructions": the repository instructions a review session was given */
+  instructions?: AppliedInstruction[];
+  /** On "chunk": which part of a large review changed state */
+  chunk?: ReviewChunkProgress;
+  /** On "complete": the findings as data; content is the same review as markdown */
+  review?: StructuredReview;
 }
 
+// How many times the model is asked to fix a review that does not match the schema
+const MAX_SCHEMA_RETRIES = 2;
+
 export interface ReviewCategory {
   id: string;
   name: string;
@@ -13,6 +44,16 @@ export interface ReviewCategory {
   defaultEnabled: boolean;
 }
 
+/**
+ * The review an incremental re-review builds on: the diff then covers only
+ * the commits pushed after it.
+ */
+export interface PreviousReview {
+  commitSha: string;
+  /** The earlier review's markdown, findings included */
+  review: string;
+}
+
 export interface DiscussionMessage {
   role: "user" | "assistant";
   content: string;
@@ -63,54 +104,93 @@ export const DEFAULT_REVIEW_CATEGORIES: ReviewCategory[] = [
   },
 ];
 
+// Diffs larger than this are reviewed in parts, each in its own session
+const MAX_CHUNK_CHARS = 50000;
+
+// How many parts of a large diff are reviewed at the same time
+const REVIEW_CONCURRENCY = Math.max(1, Number(process.env.REVIEW_CONCURRENCY) || 3);
+
+// Everything about a review that is the same for every part of the diff
+interface ReviewContext {
+  pr: PRInfo;
+  categories: ReviewCategory[];
+  customFocusAreas: string[];
+  workingDirectory?: string;
+  model: string;
+  signal?: AbortSignal;
+  previousReview?: PreviousReview;
+  mcpServers: Record<string, MCPServerConfig>;
+}
+
+// One part of a diff that is reviewed in several
+interface ReviewPart {
+  chunk: DiffChunk;
+  total: number;
+  /** Every file the PR changes, so a part knows what it is not seeing */
+  allFiles: string[];
+}
+
 /**
- * Perform an AI-powered code review using the Copilot SDK.
- * Streams progress back via the onProgress callback.
+ * Review one diff in a session of its own, and validate the answer,
+ * sending it back with the errors up to MAX_SCHEMA_RETRIES times.
+ * Progress of a part is prefixed with its number and leaves out the
+ * streamed text, which would interleave with the other parts'.
  */
-export async function performReview(
-  pr: PRInfo,
+async function reviewDiff(
+  client: CopilotClient,
+  context: ReviewContext,
   diff: string,
-  activeCategories: string[],
-  customFocusAreas: string[],
   onProgress: (progress: ReviewProgress) => void,
-  workingDirectory?: string,
-  model: string = "claude-sonnet-4.5"
-): Promise<void> {
-  const clientOptions = workingDirectory ? { cwd: workingDirectory } : {};
-  const client = new CopilotClient(clientOptions);
+  part?: ReviewPart
+): Promise<StructuredReview> {
+  const { pr, categories, customFocusAreas, workingDirectory, previousReview } = context;
+  const label = part ? `[Part ${part.chunk.index}/${part.total}] ` : "";
+
+  // The instructions for the files this diff touches
+  const files = part ? part.chunk.files : splitDiffByFile(diff).map((file) => file.path);
+  const instructions = selectInstructions(workingDirectory, files);
+  if (instructions.applied.length > 0) {
+    onProgress({
+      type: "instructions",
+      content: `${label}Instructions: ${instructions.applied.map((instruction) => instruction.name).join(", ")}`,
+      instructions: instructions.applied,
+    });
+  }
 
   const session = await client.createSession({
-    model,
+    model: context.model,
     streaming: true,
     ...(workingDirectory && { workingDirectory }),
+    ...(Object.keys(context.mcpServers).length > 0 && { mcpServers: context.mcpServers }),
+    ...(instructions.systemMessage && { systemMessage: instructions.systemMessage }),
   });
 
-  session.on("assistant.message_delta", (event) => {
-    onProgress({ type: "message", content: event.data.deltaContent });
-  });
+  if (!part) {
+    session.on("assistant.message_delta", (event) => {
+      onProgress({ type: "message", content: event.data.deltaContent });
+    });
+  }
 
   session.on("tool.execution_start", (event) => {
     onProgress({
       type: "tool_start",
-      content: `Exploring: ${event.data.toolName}`,
+      content: `${label}Exploring: ${event.data.toolName}`,
     });
   });
 
   session.on("tool.execution_complete", (event) => {
     onProgress({
       type: "tool_end",
-      content: `Completed: ${event.data.result?.content}`,
+      content: `${label}Completed: ${event.data.result?.content}`,
     });
   });
 
   // Build category instructions
-  const categoryNames = activeCategories
-    .map((id) => {
-      const cat = DEFAULT_REVIEW_CATEGORIES.find((c) => c.id === id);
-      return cat ? `- **${cat.name}**: ${cat.description}` : null;
-    })
-    .filter(Boolean)
+  const categoryNames = categories
+    .map((cat) => `- **${cat.name}** (\`${cat.id}\`): ${cat.description}`)
     .join("\n");
+  const categoryIds = categories.map((cat) => cat.id);
+  const incremental = !!previousReview;
 
   // Build custom focus area instructions
   const customFocusSection =
@@ -118,12 +198,13 @@ export async function performReview(
       ? `\n\n## Custom Focus Areas\nThe reviewer has asked you to pay special attention to:\n${customFocusAreas.map((area) => `- ${area}`).join("\n")}`
       : "";
 
-  // Truncate diff if extremely large
-  const truncatedDiff =
-    diff.length > 50000
-      ? diff.substring(0, 50000) +
-        "\n... (diff truncated - review may be partial)"
-      : diff;
+  const partSection = part
+    ? `\n\n## Part ${part.chunk.index} of ${part.total}
+This PR is too large to review at once and is reviewed in ${part.total} parts. This part covers:
+${part.chunk.files.map((file) => `- ${file}`).join("\n")}
+
+Other files the PR changes are reviewed separately; look at them for context, but only report findings about the files above.${previousReview ? " Likewise, only judge earlier findings about these files." : ""}`
+    : "";
 
   const codebaseExplorationPrompt = workingDirectory
     ? `
@@ -132,13 +213,14 @@ IMPORTANT: Before reviewing the code changes, you MUST explore the codebase to u
 1. Check for documentation files (README.md, CLAUDE.md, AGENTS.md, CONTRIBUTING.md)
 2. Explore the directory structure to understand the project layout
 3. Look at existing code patterns related to the changed files
-4. Only AFTER exploring, output your review in the format below.
+4. Only AFTER exploring, output your review as JSON in the format below.
 
 `
     : "";
 
   try {
-    const result = await session.sendAndWait(
+    const result = await sendAndWaitWithAbort(
+      session,
       {
         prompt: `You are a senior software engineer performing a thorough code review.
 
@@ -146,72 +228,207 @@ ${codebaseExplorationPrompt}## Pull Request Details
 - **Title**: ${pr.title}
 - **Author**: ${pr.author}
 - **Source Branch**: ${pr.sourceBranch} → **Target Branch**: ${pr.targetBranch}
-- **Description**: ${pr.description || "(No description provided)"}
+- **Description**: ${pr.description || "(No description provided)"}${part ? `
+- **Files changed**: ${part.allFiles.join(", ")}` : ""}
 
 ## Review Categories
 Review the changes against these categories:
 ${categoryNames}
-${customFocusSection}
+${customFocusSection}${partSection}
 
-## Code Changes (Diff)
+${previousReview ? `## Previous Review
+This PR was reviewed before, at commit ${previousReview.commitSha.slice(0, 8)}. That review said:
+
+${previousReview.review}
+
+## Code Changes Since the Previous Review (Diff)` : "## Code Changes (Diff)"}
 \`\`\`diff
-${truncatedDiff}
+${diff}
 \`\`\`
 
 ## Instructions
 1. ${workingDirectory ? "First explore the codebase to understand the architecture and patterns." : "Analyze the diff carefully."}
 2. Review the changes against EACH active category above.
-3. For each finding, include the file path, approximate line number, severity, and a clear description with a suggestion for improvement.
+3. For each finding, give the file, the line range in the PR's version of the file, the severity and a clear explanation with a suggestion for improvement.${previousReview ? `
+4. List earlier findings the new changes resolve under "fixed". Report only findings that still apply ("still-open") or are new ("new").` : ""}
 
 ## Output Format
-Output your review in this exact format:
-
-# Code Review: ${pr.title}
+Output your review as a single JSON object in exactly this format:
 
-## Summary
-[2-3 sentence overview of the changes and overall assessment]
-
-[For each category that has findings, create a section:]
-
-## [Category Name]
-
-### [Severity: Critical/High/Medium/Low] - [Short title]
-**File**: \`path/to/file\` (line ~N)
-**Issue**: [Description of the issue]
-
-\`\`\`diff
-- problematic code line(s) from the diff
-+ suggested fix (if applicable)
-\`\`\`
-
-**Suggestion**: [How to fix it]
-
----
-
-## Overall Verdict
-[APPROVE / REQUEST CHANGES / NEEDS DISCUSSION] - [Brief rationale]
+${reviewJsonFormat(categoryIds, incremental)}
 
 IMPORTANT:
 - Do NOT narrate your exploration process
-- Only output the final review in the format above
+- Only output the JSON, nothing before or after it
 - Be constructive and specific
-- If no issues found in a category, skip that category section
+- Use an empty "findings" array if there are no issues
 - Prioritize actionable feedback
-- For EACH finding, include a code snippet showing the problematic line(s) from the diff. Use diff format with \`-\` for problematic lines and \`+\` for suggested fixes where appropriate. This is critical for making the review actionable.`,
+- Copy "originalCode" verbatim from the file, whitespace included, and give "suggestedReplacement" wherever there is a concrete fix. This is critical for making the review actionable.`,
       },
-      600000 // 10 minute timeout
+      600000, // 10 minute timeout
+      context.signal
     );
 
-    // Send the clean, complete review text from the SDK response
-    const finalText = result?.data?.content || "";
-    onProgress({ type: "complete", content: finalText });
+    let response = result?.data?.content || "";
+    let parsed = parseReviewJson(response, categoryIds, incremental);
+
+    for (let attempt = 1; !parsed.review && attempt <= MAX_SCHEMA_RETRIES; attempt++) {
+      onProgress({
+        type: "message",
+        content: `\n${label}The review did not match the findings format (${parsed.errors.length} problem${parsed.errors.length !== 1 ? "s" : ""}), asking for a corrected version...\n`,
+      });
+      const retry = await sendAndWaitWithAbort(
+        session,
+        {
+          prompt: `Your review does not match the required JSON format:
+${parsed.errors.map((error) => `- ${error}`).join("\n")}
+
+Reply with the corrected review as a single JSON object in this format, and nothing else:
+
+${reviewJsonFormat(categoryIds, incremental)}`,
+        },
+        120000,
+        context.signal
+      );
+      response = retry?.data?.content || "";
+      parsed = parseReviewJson(response, categoryIds, incremental);
+    }
+
+    if (!parsed.review) {
+      throw new Error(
+        `The review did not match the findings format after ${MAX_SCHEMA_RETRIES + 1} attempts: ${parsed.errors.slice(0, 5).join("; ")}`
+      );
+    }
+    return parsed.review;
+  } finally {
+    await session.destroy();
+  }
+}
+
+// Run fn over items with at most `limit` running at a time; results keep item order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Perform an AI-powered code review using the Copilot SDK.
+ * Streams progress back via the onProgress callback. With a previous review,
+ * the diff is only what changed since, and the model reports which earlier
+ * findings were fixed, which are still open and what is new.
+ *
+ * The model answers with JSON (see review-findings.ts). Diffs larger than
+ * MAX_CHUNK_CHARS are split by file (and large files by hunk), the parts
+ * are reviewed in parallel, REVIEW_CONCURRENCY at a time, and their
+ * findings are merged into one review.
+ */
+export async function performReview(
+  pr: PRInfo,
+  diff: string,
+  activeCategories: string[],
+  customFocusAreas: string[],
+  onProgress: (progress: ReviewProgress) => void,
+  workingDirectory?: string,
+  model: string = "claude-sonnet-4.5",
+  signal?: AbortSignal,
+  previousReview?: PreviousReview,
+  mcpServers: Record<string, MCPServerConfig> = {}
+): Promise<void> {
+  const clientOptions = workingDirectory ? { cwd: workingDirectory } : {};
+  const client = new CopilotClient(clientOptions);
+
+  const categories = DEFAULT_REVIEW_CATEGORIES.filter((c) => activeCategories.includes(c.id));
+  const incremental = !!previousReview;
+  const context: ReviewContext = {
+    pr,
+    categories,
+    customFocusAreas,
+    workingDirectory,
+    model,
+    signal,
+    previousReview,
+    mcpServers,
+  };
+
+  try {
+    const chunks = diff.length > MAX_CHUNK_CHARS ? chunkDiff(diff, MAX_CHUNK_CHARS) : [];
+    let review: StructuredReview;
+
+    if (chunks.length <= 1) {
+      review = await reviewDiff(client, context, diff, onProgress);
+    } else {
+      const allFiles = [...new Set(chunks.flatMap((chunk) => chunk.files))];
+      const reportChunk = (chunk: DiffChunk, status: ReviewChunkStatus, extra: Partial<ReviewChunkProgress> = {}) =>
+        onProgress({
+          type: "chunk",
+          content: `Part ${chunk.index}/${chunks.length}: ${status}`,
+          chunk: { index: chunk.index, total: chunks.length, files: chunk.files, status, ...extra },
+        });
+
+      onProgress({
+        type: "message",
+        content: `The diff has ${allFiles.length} files (${diff.length} characters); reviewing it in ${chunks.length} parts, ${Math.min(REVIEW_CONCURRENCY, chunks.length)} at a time\n`,
+      });
+      chunks.forEach((chunk) => reportChunk(chunk, "queued"));
+
+      const parts = await mapWithConcurrency(chunks, REVIEW_CONCURRENCY, async (chunk) => {
+        reportChunk(chunk, "running");
+        try {
+          const partReview = await reviewDiff(client, context, chunk.diff, onProgress, {
+            chunk,
+            total: chunks.length,
+            allFiles,
+          });
+          reportChunk(chunk, "done", { findings: partReview.findings.length });
+          return { chunk, review: partReview };
+        } catch (error) {
+          if (isCancellation(error)) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : "Unknown error";
+          reportChunk(chunk, "failed", { error: message });
+          return { chunk, error: message };
+        }
+      });
+
+      if (parts.every((result) => !result.review)) {
+        throw new Error(`No part of the review succeeded: ${parts[0].error}`);
+      }
+      review = mergeReviews(
+        parts.map((result) => ({
+          label: `Part ${result.chunk.index} (${result.chunk.files.join(", ")})`,
+          review: result.review,
+          error: result.error,
+        }))
+      );
+    }
+
+    onProgress({
+      type: "complete",
+      content: formatReviewMarkdown(review, pr.title, categories, incremental),
+      review,
+    });
   } catch (error) {
+    if (isCancellation(error)) {
+      throw error;
+    }
     onProgress({
       type: "error",
       content: error instanceof Error ? error.message : "Unknown error",
     });
   } finally {
-    await session.destroy();
     await client.stop();
   }
 }
@@ -224,15 +441,23 @@ export async function discussReview(
   diff: string,
   question: string,
   conversationHistory: DiscussionMessage[],
-  workingDirectory?: string
+  workingDirectory?: string,
+  mcpServers: Record<string, MCPServerConfig> = {}
 ): Promise<string> {
   const client = new CopilotClient({
     ...(workingDirectory && { cwd: workingDirectory }),
   });
 
+  const instructions = selectInstructions(
+    workingDirectory,
+    splitDiffByFile(diff).map((file) => file.path)
+  );
+
   const session = await client.createSession({
     model: "gpt-4.1",
     ...(workingDirectory && { workingDirectory }),
+    ...(Object.keys(mcpServers).length > 0 && { mcpServers }),
+    ...(instructions.systemMessage && { systemMessage: instructions.systemMessage }),
   });
 
   const historyContext =
@@ -245,10 +470,8 @@ export async function discussReview(
           .join("\n\n")}`
       : "";
 
-  const truncatedDiff =
-    diff.length > 10000
-      ? diff.substring(0, 10000) + "\n... (diff truncated for brevity)"
-      : diff;
+  // Whole files only, those the question names first
+  const truncatedDiff = fitDiff(diff, 10000, question);
 
   const result = await session.sendAndWait({
     prompt: `You are a senior software engineer discussing a code review. Answer questions about the review findings, explain issues in more detail, and help the user understand the changes.
@@ -0,0 +1,432 @@
+/**
+ * A code review as data: the model answers with JSON in this shape, it is
+ * validated here, and the markdown shown to people is rendered from it.
+ */
+export const FINDING_SEVERITIES = ["Critical", "High", "Medium", "Low"] as const;
+export type FindingSeverity = (typeof FINDING_SEVERITIES)[number];
+
+export const REVIEW_VERDICTS = ["APPROVE", "REQUEST_CHANGES", "NEEDS_DISCUSSION"] as const;
+export type ReviewVerdict = (typeof REVIEW_VERDICTS)[number];
+
+// Findings that fit none of the review categories, e.g. a custom focus area
+export const OTHER_CATEGORY = "other";
+
+export interface ReviewFinding {
+  id: string;
+  /** A review category id, or OTHER_CATEGORY */
+  category: string;
+  severity: FindingSeverity;
+  /** Repository-relative path; null for findings not about one file */
+  file: string | null;
+  /** 1-based lines of the PR's version of the file; null when file is */
+  startLine: number | null;
+  endLine: number | null;
+  title: string;
+  /** Markdown: what is wrong and why it matters */
+  explanation: string;
+  /** The current code, verbatim, so a fix can find what it replaces */
+  originalCode: string | null;
+  /** Code to put in place of originalCode */
+  suggestedReplacement: string | null;
+  /** Set on incremental re-reviews only */
+  status?: "new" | "still-open";
+}
+
+export interface StructuredReview {
+  summary: string;
+  findings: ReviewFinding[];
+  /** Titles of earlier findings the new changes resolve (incremental re-reviews) */
+  fixed: string[];
+  verdict: ReviewVerdict;
+  verdictRationale: string;
+}
+
+export interface ReviewParseResult {
+  review: StructuredReview | null;
+  /** What is wrong with the response, worded so the model can correct it */
+  errors: string[];
+}
+
+const VERDICT_LABELS: Record<ReviewVerdict, string> = {
+  APPROVE: "APPROVE",
+  REQUEST_CHANGES: "REQUEST CHANGES",
+  NEEDS_DISCUSSION: "NEEDS DISCUSSION",
+};
+
+/**
+ * The JSON shape the model is asked to produce. Incremental re-reviews
+ * also ask for "fixed" and a per-finding "status".
+ */
+export function reviewJsonFormat(categoryIds: string[], incremental: boolean): string {
+  const categories = [...categoryIds, OTHER_CATEGORY].map((id) => `"${id}"`).join(" | ");
+  return `\`\`\`json
+{
+  "summary": "2-3 sentence overview of the changes and overall assessment",${incremental ? `
+  "fixed": ["Title of each earlier finding the new changes resolve"],` : ""}
+  "findings": [
+    {
+      "category": ${categories},
+      "severity": "Critical" | "High" | "Medium" | "Low",${incremental ? `
+      "status": "new" | "still-open",` : ""}
+      "file": "path/to/file relative to the repository root, or null if the finding is not about one file",
+      "startLine": 42,
+      "endLine": 44,
+      "title": "Short title",
+      "explanation": "Markdown: what is wrong, why it matters and how to fix it",
+      "originalCode": "The problematic line(s) copied verbatim from the file, or null",
+      "suggestedReplacement": "The code to replace originalCode with, or null"
+    }
+  ],
+  "verdict": "APPROVE" | "REQUEST_CHANGES" | "NEEDS_DISCUSSION",
+  "verdictRationale": "One or two sentences"
+}
+\`\`\``;
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function asCode(value: unknown): string | null {
+  // Keep indentation; only blank-line padding is noise
+  return typeof value === "string" && value.trim() ? value.replace(/^\n+|\s+$/g, "") : null;
+}
+
+function asLine(value: unknown): number | null {
+  const line = typeof value === "string" ? Number(value) : value;
+  return typeof line === "number" && Number.isInteger(line) && line > 0 ? line : null;
+}
+
+// Compare ignoring case and separators, so "Code Quality" matches "code-quality"
+function matchOption<T extends string>(value: unknown, options: readonly T[]): T | null {
+  const normalize = (text: string) => text.replace(/[\s_-]+/g, "_").toUpperCase();
+  const text = normalize(asString(value));
+  return options.find((option) => normalize(option) === text) ?? null;
+}
+
+/**
+ * Check one finding against the schema. Trivial drift (case, a line number
+ * sent as a string) is fixed up; anything else is reported.
+ */
+function validateFinding(
+  raw: unknown,
+  label: string,
+  categoryIds: string[],
+  incremental: boolean
+): { finding: Omit<ReviewFinding, "id"> | null; errors: string[] } {
+  if (!raw || typeof raw !== "object") {
+    return { finding: null, errors: [`${label} is not an object`] };
+  }
+  const finding = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const category = matchOption(finding.category, [...categoryIds, OTHER_CATEGORY]);
+  if (!category) {
+    errors.push(`${label}.category must be one of ${[...categoryIds, OTHER_CATEGORY].join(", ")}`);
+  }
+  const severity = matchOption(finding.severity, FINDING_SEVERITIES);
+  if (!severity) {
+    errors.push(`${label}.severity must be one of ${FINDING_SEVERITIES.join(", ")}`);
+  }
+
+  const title = asString(finding.title);
+  if (!title) {
+    errors.push(`${label}.title is required`);
+  }
+  const explanation = asString(finding.explanation);
+  if (!explanation) {
+    errors.push(`${label}.explanation is required`);
+  }
+
+  const file = asString(finding.file).replace(/^\/+/, "") || null;
+  let startLine = asLine(finding.startLine);
+  let endLine = asLine(finding.endLine) ?? startLine;
+  if (file) {
+    if (startLine === null) {
+      errors.push(`${label}.startLine must be a positive integer when file is set`);
+    } else if (endLine !== null && endLine < startLine) {
+      errors.push(`${label}.endLine must not be before startLine`);
+    }
+  } else {
+    startLine = endLine = null;
+  }
+
+  const originalCode = asCode(finding.originalCode);
+  const suggestedReplacement = asCode(finding.suggestedReplacement);
+  if (suggestedReplacement !== null && (originalCode === null || !file)) {
+    errors.push(`${label}.suggestedReplacement needs file and originalCode, the code it replaces`);
+  }
+
+  const status = incremental ? matchOption(finding.status, ["new", "still-open"] as const) : null;
+  if (incremental && !status) {
+    errors.push(`${label}.status must be "new" or "still-open"`);
+  }
+
+  if (errors.length > 0) {
+    return { finding: null, errors };
+  }
+  return {
+    finding: {
+      category: category!,
+      severity: severity!,
+      file,
+      startLine,
+      endLine,
+      title,
+      explanation,
+      originalCode,
+      suggestedReplacement,
+      ...(status && { status }),
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Validate a parsed review object against the schema from reviewJsonFormat.
+ */
+export function validateReview(
+  raw: unknown,
+  categoryIds: string[],
+  incremental: boolean
+): ReviewParseResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { review: null, errors: ["The response must be a single JSON object"] };
+  }
+  const parsed = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const summary = asString(parsed.summary);
+  if (!summary) {
+    errors.push("summary is required");
+  }
+
+  const verdict = matchOption(parsed.verdict, REVIEW_VERDICTS);
+  if (!verdict) {
+    errors.push(`verdict must be one of ${REVIEW_VERDICTS.join(", ")}`);
+  }
+
+  const findings: ReviewFinding[] = [];
+  if (!Array.isArray(parsed.findings)) {
+    errors.push("findings must be an array (empty if there are none)");
+  } else {
+    parsed.findings.forEach((rawFinding, i) => {
+      const result = validateFinding(rawFinding, `findings[${i}]`, categoryIds, incremental);
+      errors.push(...result.errors);
+      if (result.finding) {
+        findings.push({ id: `finding-${findings.length + 1}`, ...result.finding });
+      }
+    });
+  }
+
+  let fixed: string[] = [];
+  if (incremental) {
+    if (parsed.fixed !== undefined && !Array.isArray(parsed.fixed)) {
+      errors.push("fixed must be an array of finding titles");
+    } else {
+      fixed = ((parsed.fixed as unknown[] | undefined) ?? []).map(asString).filter(Boolean);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { review: null, errors };
+  }
+  return {
+    review: {
+      summary,
+      findings,
+      fixed,
+      verdict: verdict!,
+      verdictRationale: asString(parsed.verdictRationale),
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Extract and validate the review JSON from a model response. The last
+ * fenced block wins, then the outermost braces.
+ */
+export function parseReviewJson(
+  response: string,
+  categoryIds: string[],
+  incremental: boolean
+): ReviewParseResult {
+  const fenced = [...response.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)].map((m) => m[1]);
+  const braces = response.slice(response.indexOf("{"), response.lastIndexOf("}") + 1);
+  const candidates = [...fenced.reverse(), braces].filter((candidate) => candidate.trim());
+
+  let firstErrors: string[] | null = null;
+  for (const candidate of candidates) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(candidate);
+    } catch {
+      continue;
+    }
+    const result = validateReview(parsed, categoryIds, incremental);
+    if (result.review) {
+      return result;
+    }
+    firstErrors ??= result.errors;
+  }
+
+  return { review: null, errors: firstErrors ?? ["The response does not contain a valid JSON object"] };
+}
+
+function formatLocation(finding: ReviewFinding): string {
+  if (!finding.file) {
+    return "";
+  }
+  const lines =
+    finding.startLine === finding.endLine || finding.endLine === null
+      ? `line ${finding.startLine}`
+      : `lines ${finding.startLine}-${finding.endLine}`;
+  return `\`${finding.file}\` (${lines})`;
+}
+
+function formatChange(finding: ReviewFinding): string {
+  if (!finding.originalCode) {
+    return "";
+  }
+  const removed = finding.originalCode.split("\n").map((line) => `- ${line}`);
+  const added = finding.suggestedReplacement?.split("\n").map((line) => `+ ${line}`) ?? [];
+  return ["```diff", ...removed, ...added, "```"].join("\n");
+}
+
+/**
+ * One finding as markdown, e.g. for a PR comment thread. A PR suggestion
+ * block shows the change itself, so the diff can be left out.
+ */
+export function formatFindingMarkdown(
+  finding: ReviewFinding,
+  { includeChange = true }: { includeChange?: boolean } = {}
+): string {
+  const status = finding.status === "still-open" ? "[Still open] " : finding.status === "new" ? "[New] " : "";
+  const location = formatLocation(finding);
+  const change = includeChange ? formatChange(finding) : "";
+
+  return [
+    `### ${finding.severity} - ${status}${finding.title}`,
+    location && `**File**: ${location}`,
+    finding.explanation,
+    change,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * The whole review as markdown, grouped by category in the order given.
+ */
+export function formatReviewMarkdown(
+  review: StructuredReview,
+  title: string,
+  categories: { id: string; name: string }[],
+  incremental: boolean
+): string {
+  const sections = [`# Code Review: ${title}`, `## Summary\n${review.summary}`];
+
+  if (incremental) {
+    const count = (status: ReviewFinding["status"]) =>
+      review.findings.filter((finding) => finding.status === status);
+    const list = (items: string[]) => (items.length > 0 ? items.map((item) => `\n  - ${item}`).join("") : " None");
+    sections.push(
+      [
+        "## Since the Previous Review",
+        `- **Fixed**:${list(review.fixed)}`,
+        `- **Still open**:${list(count("still-open").map((finding) => finding.title))}`,
+        `- **New**: ${count("new").length}`,
+      ].join("\n")
+    );
+  }
+
+  const groups = [...categories, { id: OTHER_CATEGORY, name: "Other" }];
+  for (const group of groups) {
+    const findings = review.findings.filter((finding) => finding.category === group.id);
+    if (findings.length > 0) {
+      sections.push(`## ${group.name}\n\n${findings.map((f) => formatFindingMarkdown(f)).join("\n\n---\n\n")}`);
+    }
+  }
+
+  sections.push(
+    `## Overall Verdict\n${VERDICT_LABELS[review.verdict]}${review.verdictRationale ? ` - ${review.verdictRationale}` : ""}`
+  );
+  return sections.join("\n\n");
+}
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = { Critical: 0, High: 1, Medium: 2, Low: 3 };
+const VERDICT_RANK: Record<ReviewVerdict, number> = { REQUEST_CHANGES: 0, NEEDS_DISCUSSION: 1, APPROVE: 2 };
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// The same issue reported twice: same title about the same file, or same category on overlapping lines
+function isDuplicate(a: ReviewFinding, b: ReviewFinding): boolean {
+  if (a.file !== b.file) {
+    return false;
+  }
+  if (normalizeTitle(a.title) === normalizeTitle(b.title)) {
+    return true;
+  }
+  return (
+    a.file !== null &&
+    a.category === b.category &&
+    a.startLine! <= (b.endLine ?? b.startLine!) &&
+    b.startLine! <= (a.endLine ?? a.startLine!)
+  );
+}
+
+export interface ReviewPartResult {
+  /** How the part is named in the merged summary, e.g. its files */
+  label: string;
+  review?: StructuredReview;
+  /** Why the part could not be reviewed */
+  error?: string;
+}
+
+/**
+ * Combine the reviews of the parts of a large diff. Duplicate findings
+ * keep the more severe one, the verdict is the strictest, and parts that
+ * failed are named in the summary rather than silently left out. A failed
+ * part turns an approval into NEEDS_DISCUSSION, since nobody looked at it.
+ */
+export function mergeReviews(parts: ReviewPartResult[]): StructuredReview {
+  const findings: ReviewFinding[] = [];
+  for (const finding of parts.flatMap((part) => part.review?.findings ?? [])) {
+    const i = findings.findIndex((kept) => isDuplicate(kept, finding));
+    if (i === -1) {
+      findings.push(finding);
+    } else if (SEVERITY_RANK[finding.severity] < SEVERITY_RANK[findings[i].severity]) {
+      findings[i] = finding;
+    }
+  }
+
+  const reviewed = parts.filter((part) => part.review);
+  const failed = parts.filter((part) => !part.review);
+  const strictest =
+    reviewed.map((part) => part.review!.verdict).sort((a, b) => VERDICT_RANK[a] - VERDICT_RANK[b])[0] ?? "APPROVE";
+  const verdict = failed.length > 0 && strictest === "APPROVE" ? "NEEDS_DISCUSSION" : strictest;
+
+  const summary = [
+    `Reviewed in ${parts.length} parts.`,
+    ...reviewed.map((part) => `- **${part.label}**: ${part.review!.summary}`),
+    ...failed.map((part) => `- **${part.label}**: not reviewed (${part.error})`),
+  ].join("\n");
+
+  const rationales = reviewed
+    .filter((part) => part.review!.verdict === verdict && part.review!.verdictRationale)
+    .map((part) => part.review!.verdictRationale);
+  if (failed.length > 0) {
+    rationales.push(`${failed.length} of ${parts.length} parts could not be reviewed.`);
+  }
+
+  return {
+    summary,
+    findings: findings.map((finding, i) => ({ ...finding, id: `finding-${i + 1}` })),
+    fixed: [...new Set(reviewed.flatMap((part) => part.review!.fixed))],
+    verdict,
+    verdictRationale: rationales.join(" "),
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * What users may do on the server machine itself. Without sign-in the
+ * server is one operator's tool and may open any folder and run any
+ * command. With sign-in, everyone who can sign in shares it, so local
+ * folders are limited to those under LOCAL_FOLDERS_ROOT and post-task
+ * commands to those listed in the post-tasks file.
+ */
+import fs from "fs";
+import path from "path";
+import { authEnabled } from "./auth.js";
+import type { PostTask } from "./post-tasks.js";
+
+function postTasksFilePath(): string {
+  return path.resolve(process.env.POST_TASKS_FILE || "post-tasks.json");
+}
+
+/**
+ * The commands signed-in users may run as post tasks: the post-tasks file
+ * (POST_TASKS_FILE, default: post-tasks.json), as `{ "commands": [...] }`.
+ * Without a file, none.
+ */
+export function loadAllowedPostTaskCommands(): string[] {
+  const file = postTasksFilePath();
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+
+  let parsed: { commands?: unknown };
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(`Invalid post-tasks file ${file}: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+  if (!Array.isArray(parsed?.commands) || !parsed.commands.every((command) => typeof command === "string")) {
+    throw new Error(`Invalid post-tasks file ${file}: expected a list of commands under "commands"`);
+  }
+  return parsed.commands;
+}
+
+// Why these post tasks may not run, or null when they may
+export function postTasksRefusal(postTasks: PostTask[]): string | null {
+  if (!authEnabled() || postTasks.length === 0) {
+    return null;
+  }
+
+  const allowed = loadAllowedPostTaskCommands();
+  for (const task of postTasks) {
+    if (!allowed.includes(task.command)) {
+      return `Post task "${task.name}" runs a command that is not in ${postTasksFilePath()}: ${task.command}`;
+    }
+    // Variables like NODE_OPTIONS or LD_PRELOAD would turn an allowed command into any other
+    if (task.env && Object.keys(task.env).length > 0) {
+      return `Post task "${task.name}" sets environment variables, which only the server may do while sign-in is on`;
+    }
+  }
+  return null;
+}
+
+// Why this folder may not be used as a workspace, or null when it may
+export function localFolderRefusal(localPath: string): string | null {
+  if (!authEnabled()) {
+    return null;
+  }
+
+  const root = process.env.LOCAL_FOLDERS_ROOT;
+  if (!root) {
+    return "Local folders are off while sign-in is on; set LOCAL_FOLDERS_ROOT to allow the folders under it";
+  }
+
+  // Real paths, so neither ".." nor a symbolic link leads outside the root
+  let inside: string;
+  try {
+    inside = path.relative(fs.realpathSync(root), fs.realpathSync(localPath));
+  } catch {
+    return `Path does not exist: ${localPath}`;
+  }
+  if (inside === ".." || inside.startsWith(`..${path.sep}`) || path.isAbsolute(inside)) {
+    return `Only folders under ${root} can be used`;
+  }
+  return null;
+}
@@ -0,0 +1,282 @@
+import { randomUUID } from "crypto";
+import type { WorkItem } from "../../utils/azure-devops.js";
+import {
+  cleanupWorkspace,
+  deleteCheckpoints,
+  reattachWorkspace,
+  type CloneResult,
+} from "../../utils/azure-devops-git.js";
+import { cleanupReviewWorkspace, type PRInfo } from "../../utils/azure-devops-pr.js";
+import {
+  cleanupTemporaryInstructions,
+  type ReplacedInstructionFile,
+} from "../../utils/instruction-sources.js";
+import type { DiscussionMessage } from "./copilot.js";
+import type { AppliedInstruction } from "./instructions.js";
+import { isVisibleTo, type User } from "./auth.js";
+import { upgradePlan, type TicketPlan } from "./plan.js";
+import type { PostTaskResult } from "./post-tasks.js";
+import {
+  saveSessionRecord,
+  loadSessionRecords,
+  deleteSessionRecord,
+} from "./store.js";
+
+/**
+ * A snapshot of the workspace taken during implementation, kept on a shadow
+ * ref so the user can diff against it or roll back to it.
+ */
+export interface Checkpoint {
+  id: string;
+  sha: string;
+  label: string;
+  /** The plan step that had just finished, for checkpoints taken after a step */
+  stepId?: string;
+  createdAt: string;
+}
+
+/**
+ * Everything the ticket workflow knows about one ticket being worked on.
+ * Each browser tab (or person) works in its own session so they never
+ * overwrite each other's ticket, plan or workspace.
+ */
+export interface TicketSession {
+  id: string;
+  /** The user who created it; null without sign-in */
+  ownerId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  ticket: WorkItem | null;
+  plan: TicketPlan | null;
+  /** The repository instructions the plan was generated or last refined with */
+  planInstructions: AppliedInstruction[];
+  repo: CloneResult | null;
+  repoUrl: string | null;
+  sourceType: "remote" | "local";
+  canCreatePr: boolean;
+  temporaryInstructionFiles: string[];
+  /** Workspace instruction files swapped for shared ones, restored when the session ends */
+  replacedInstructionFiles: ReplacedInstructionFile[];
+  discussionHistory: DiscussionMessage[];
+  implementationDiscussionHistory: DiscussionMessage[];
+  postTaskResults: PostTaskResult[];
+  checkpoints: Checkpoint[];
+  /** MCP servers the user turned on or off, by registry id */
+  mcpServerOverrides: Record<string, boolean>;
+}
+
+export interface TicketSessionSummary {
+  id: string;
+  ticketId: number | string | null;
+  title: string | null;
+  branchName: string | null;
+  hasPlan: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * State of one pull request review.
+ */
+export interface ReviewSession {
+  id: string;
+  /** The user who created it; null without sign-in */
+  ownerId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  pr: PRInfo | null;
+  diff: string | null;
+  repoPath: string | null;
+  categories: string[];
+  discussionHistory: DiscussionMessage[];
+  /** MCP servers the user turned on or off, by registry id */
+  mcpServerOverrides: Record<string, boolean>;
+}
+
+const ticketSessions = new Map<string, TicketSession>();
+const reviewSessions = new Map<string, ReviewSession>();
+
+export function createTicketSession(ownerId: string | null): TicketSession {
+  const now = new Date().toISOString();
+  const session: TicketSession = {
+    id: randomUUID(),
+    ownerId,
+    createdAt: now,
+    updatedAt: now,
+    ticket: null,
+    plan: null,
+    planInstructions: [],
+    repo: null,
+    repoUrl: null,
+    sourceType: "remote",
+    canCreatePr: false,
+    temporaryInstructionFiles: [],
+    replacedInstructionFiles: [],
+    discussionHistory: [],
+    implementationDiscussionHistory: [],
+    postTaskResults: [],
+    checkpoints: [],
+    mcpServerOverrides: {},
+  };
+  ticketSessions.set(session.id, session);
+  saveTicketSession(session);
+  return session;
+}
+
+export function getTicketSession(id: string): TicketSession | undefined {
+  return ticketSessions.get(id);
+}
+
+/**
+ * Record activity on a session so the session list can be ordered by it.
+ */
+export function touchTicketSession(session: TicketSession): void {
+  session.updatedAt = new Date().toISOString();
+}
+
+export function saveTicketSession(session: TicketSession): void {
+  saveSessionRecord("ticket", session.id, session);
+}
+
+export function summarizeTicketSession(session: TicketSession): TicketSessionSummary {
+  return {
+    id: session.id,
+    ticketId: session.ticket?.id ?? null,
+    title: session.ticket?.title ?? null,
+    branchName: session.repo?.branchName ?? null,
+    hasPlan: !!session.plan,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+export function listTicketSessions(user: User | null): TicketSessionSummary[] {
+  return [...ticketSessions.values()]
+    .filter((session) => isVisibleTo(session.ownerId, user))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(summarizeTicketSession);
+}
+
+/**
+ * Close a session: remove temporary instruction files and delete the
+ * workspace if it was cloned by us. Local folders are never deleted.
+ */
+export function closeTicketSession(id: string): boolean {
+  const session = ticketSessions.get(id);
+  if (!session) {
+    return false;
+  }
+
+  if (session.repo) {
+    cleanupTemporaryInstructions(
+      session.repo.localPath,
+      session.temporaryInstructionFiles,
+      session.replacedInstructionFiles
+    );
+    deleteCheckpoints(session.repo.localPath, session.id);
+    if (session.sourceType === "remote") {
+      cleanupWorkspace(session.repo.localPath);
+    }
+  }
+
+  ticketSessions.delete(id);
+  deleteSessionRecord("ticket", id);
+  return true;
+}
+
+export function createReviewSession(defaultCategories: string[], ownerId: string | null): ReviewSession {
+  const now = new Date().toISOString();
+  const session: ReviewSession = {
+    id: randomUUID(),
+    ownerId,
+    createdAt: now,
+    updatedAt: now,
+    pr: null,
+    diff: null,
+    repoPath: null,
+    categories: defaultCategories,
+    discussionHistory: [],
+    mcpServerOverrides: {},
+  };
+  reviewSessions.set(session.id, session);
+  saveReviewSession(session);
+  return session;
+}
+
+export function getReviewSession(id: string): ReviewSession | undefined {
+  return reviewSessions.get(id);
+}
+
+export function touchReviewSession(session: ReviewSession): void {
+  session.updatedAt = new Date().toISOString();
+}
+
+export function saveReviewSession(session: ReviewSession): void {
+  saveSessionRecord("review", session.id, session);
+}
+
+export function listReviewSessions(user: User | null): ReviewSession[] {
+  return [...reviewSessions.values()]
+    .filter((session) => isVisibleTo(session.ownerId, user))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function closeReviewSession(id: string): boolean {
+  const session = reviewSessions.get(id);
+  if (!session) {
+    return false;
+  }
+
+  if (session.repoPath) {
+    cleanupReviewWorkspace(session.repoPath);
+  }
+
+  reviewSessions.delete(id);
+  deleteSessionRecord("review", id);
+  return true;
+}
+
+/**
+ * Load sessions saved by a previous server run and reattach them to their
+ * workspace folders. Sessions whose workspace has disappeared are kept, but
+ * without a repository, so the user can clone again.
+ */
+export function restoreSessions(): { ticket: number; review: number } {
+  for (const session of loadSessionRecords<TicketSession>("ticket")) {
+    // Saved before post-task results, plan steps, checkpoints, ticket sources or owners existed
+    session.ownerId ??= null;
+    session.postTaskResults ??= [];
+    if (session.ticket) {
+      session.ticket.source ??= "azure-devops";
+    }
+    session.checkpoints ??= [];
+    session.planInstructions ??= [];
+    session.replacedInstructionFiles ??= [];
+    session.mcpServerOverrides ??= {};
+    session.plan = upgradePlan(session.plan);
+    if (session.repo && !reattachWorkspace(session.repo.localPath, session.repo.branchName)) {
+      console.warn(`Workspace for session ${session.id} is gone: ${session.repo.localPath}`);
+      session.repo = null;
+      session.repoUrl = null;
+      session.canCreatePr = false;
+      session.temporaryInstructionFiles = [];
+      session.replacedInstructionFiles = [];
+      saveTicketSession(session);
+    }
+    ticketSessions.set(session.id, session);
+  }
+
+  for (const session of loadSessionRecords<ReviewSession>("review")) {
+    session.ownerId ??= null;
+    session.mcpServerOverrides ??= {};
+    if (session.repoPath && session.pr && !reattachWorkspace(session.repoPath, session.pr.sourceBranch)) {
+      console.warn(`Review workspace for session ${session.id} is gone: ${session.repoPath}`);
+      session.repoPath = null;
+      session.diff = null;
+      saveReviewSession(session);
+    }
+    reviewSessions.set(session.id, session);
+  }
+
+  return { ticket: ticketSessions.size, review: reviewSessions.size };
+}
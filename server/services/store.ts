@@ -0,0 +1,231 @@
+import { DatabaseSync } from "node:sqlite";
+import { mkdirSync, existsSync } from "fs";
+import { join } from "path";
+
+/**
+ * Local embedded store for server state that must survive a restart.
+ * The database lives in DATA_DIR (default: .data/ in the working directory).
+ */
+let database: DatabaseSync | null = null;
+
+export function getDatabase(): DatabaseSync {
+  if (database) {
+    return database;
+  }
+
+  const dataDir = process.env.DATA_DIR || join(process.cwd(), ".data");
+  if (!existsSync(dataDir)) {
+    mkdirSync(dataDir, { recursive: true });
+  }
+
+  database = new DatabaseSync(join(dataDir, "ticket-implementer.db"));
+  database.exec("PRAGMA journal_mode = WAL");
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      kind TEXT NOT NULL,
+      id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (kind, id)
+    )
+  `);
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS job_events (
+      job_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (job_id, seq)
+    )
+  `);
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_events (
+      event_id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      received_at TEXT NOT NULL
+    )
+  `);
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS auth_sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    )
+  `);
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS pr_reviews (
+      pr_url TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  return database;
+}
+
+export type SessionKind = "ticket" | "review" | "batch";
+
+export function saveSessionRecord(kind: SessionKind, id: string, data: { updatedAt: string }): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO sessions (kind, id, data, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (kind, id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    )
+    .run(kind, id, JSON.stringify(data), data.updatedAt);
+}
+
+export function loadSessionRecords<T>(kind: SessionKind): T[] {
+  const rows = getDatabase()
+    .prepare("SELECT data FROM sessions WHERE kind = ?")
+    .all(kind) as { data: string }[];
+  return rows.map((row) => JSON.parse(row.data) as T);
+}
+
+export function deleteSessionRecord(kind: SessionKind, id: string): void {
+  getDatabase().prepare("DELETE FROM sessions WHERE kind = ? AND id = ?").run(kind, id);
+}
+
+export function saveJobRecord(id: string, data: { updatedAt: string }): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO jobs (id, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    )
+    .run(id, JSON.stringify(data), data.updatedAt);
+}
+
+export function loadJobRecords<T>(): T[] {
+  const rows = getDatabase().prepare("SELECT data FROM jobs").all() as { data: string }[];
+  return rows.map((row) => JSON.parse(row.data) as T);
+}
+
+export function deleteJobRecord(id: string): void {
+  const db = getDatabase();
+  db.prepare("DELETE FROM job_events WHERE job_id = ?").run(id);
+  db.prepare("DELETE FROM jobs WHERE id = ?").run(id);
+}
+
+export function appendJobEvent(jobId: string, seq: number, data: unknown): void {
+  getDatabase()
+    .prepare("INSERT INTO job_events (job_id, seq, data) VALUES (?, ?, ?)")
+    .run(jobId, seq, JSON.stringify(data));
+}
+
+// A job's events after the given one, oldest first
+export function loadJobEvents(jobId: string, afterSeq = 0): { seq: number; data: unknown }[] {
+  const rows = getDatabase()
+    .prepare("SELECT seq, data FROM job_events WHERE job_id = ? AND seq > ? ORDER BY seq")
+    .all(jobId, afterSeq) as { seq: number; data: string }[];
+  return rows.map((row) => ({ seq: row.seq, data: JSON.parse(row.data) }));
+}
+
+/**
+ * Record a webhook delivery by its event id. Returns false if it was
+ * received before, so a redelivery is not acted on twice.
+ */
+export function claimWebhookEvent(eventId: string, data: { receivedAt: string }): boolean {
+  const result = getDatabase()
+    .prepare("INSERT OR IGNORE INTO webhook_events (event_id, data, received_at) VALUES (?, ?, ?)")
+    .run(eventId, JSON.stringify(data), data.receivedAt);
+  return result.changes > 0;
+}
+
+// Forget a delivery, so that its redelivery is acted on
+export function releaseWebhookEvent(eventId: string): void {
+  getDatabase().prepare("DELETE FROM webhook_events WHERE event_id = ?").run(eventId);
+}
+
+export function saveWebhookEvent(eventId: string, data: { receivedAt: string }): void {
+  getDatabase()
+    .prepare("UPDATE webhook_events SET data = ? WHERE event_id = ?")
+    .run(JSON.stringify(data), eventId);
+}
+
+// Forget deliveries received before the given time
+export function pruneWebhookEvents(before: string): void {
+  getDatabase().prepare("DELETE FROM webhook_events WHERE received_at < ?").run(before);
+}
+
+export function saveUserRecord(id: string, data: { updatedAt: string }): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO users (id, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    )
+    .run(id, JSON.stringify(data), data.updatedAt);
+}
+
+export function loadUserRecord<T>(id: string): T | null {
+  const row = getDatabase().prepare("SELECT data FROM users WHERE id = ?").get(id) as { data: string } | undefined;
+  return row ? (JSON.parse(row.data) as T) : null;
+}
+
+export function saveAuthSession(id: string, userId: string, expiresAt: string): void {
+  getDatabase()
+    .prepare("INSERT INTO auth_sessions (id, user_id, expires_at) VALUES (?, ?, ?)")
+    .run(id, userId, expiresAt);
+}
+
+// The user signed in with a session id, unless the session has expired
+export function loadAuthSession(id: string, now: string): string | null {
+  const row = getDatabase()
+    .prepare("SELECT user_id FROM auth_sessions WHERE id = ? AND expires_at > ?")
+    .get(id, now) as { user_id: string } | undefined;
+  return row?.user_id ?? null;
+}
+
+export function deleteAuthSession(id: string): void {
+  getDatabase().prepare("DELETE FROM auth_sessions WHERE id = ?").run(id);
+}
+
+export function pruneAuthSessions(now: string): void {
+  getDatabase().prepare("DELETE FROM auth_sessions WHERE expires_at <= ?").run(now);
+}
+
+/**
+ * The last completed review of a pull request, kept across sessions so the
+ * next one can cover only what changed since.
+ */
+export interface LastReview {
+  prUrl: string;
+  /** Azure DevOps PR iteration; null on GitHub, which has none */
+  iterationId: number | null;
+  commitSha: string;
+  /** The review's markdown */
+  review: string;
+  reviewedAt: string;
+}
+
+export function saveLastReview(lastReview: LastReview): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO pr_reviews (pr_url, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (pr_url) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    )
+    .run(lastReview.prUrl, JSON.stringify(lastReview), lastReview.reviewedAt);
+}
+
+export function getLastReview(prUrl: string): LastReview | null {
+  const row = getDatabase()
+    .prepare("SELECT data FROM pr_reviews WHERE pr_url = ?")
+    .get(prUrl) as { data: string } | undefined;
+  return row ? (JSON.parse(row.data) as LastReview) : null;
+}
+
+export function closeStore(): void {
+  database?.close();
+  database = null;
+}
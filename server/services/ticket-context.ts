@@ -0,0 +1,89 @@
+import type { WorkItem, WorkItemLink } from "../../utils/azure-devops.js";
+import { formatPlan, type TicketPlan } from "./plan.js";
+
+// Long discussions mostly repeat themselves; the latest comments matter most
+const MAX_COMMENTS = 20;
+
+const LINK_HEADINGS: Record<WorkItemLink["relation"], string> = {
+  parent: "Parent",
+  child: "Child items",
+  related: "Related items",
+};
+
+function formatLink(link: WorkItemLink): string {
+  const details = [link.type, link.state].filter(Boolean).join(", ");
+  return `- #${link.id} ${link.title ?? "(title unavailable)"}${details ? ` (${details})` : ""}`;
+}
+
+/**
+ * Everything known about a ticket, as the text block given to the model:
+ * the description plus acceptance criteria, repro steps, tags, area and
+ * iteration, comments, attachments and linked work items when present.
+ */
+export function formatTicketContext(ticket: WorkItem): string {
+  const sections = [
+    `Title: ${ticket.title}`,
+    `Type: ${ticket.type}`,
+    `State: ${ticket.state}`,
+  ];
+
+  if (ticket.labels?.length) {
+    sections.push(`Tags: ${ticket.labels.join(", ")}`);
+  }
+  if (ticket.areaPath) {
+    sections.push(`Area Path: ${ticket.areaPath}`);
+  }
+  if (ticket.iterationPath) {
+    sections.push(`Iteration Path: ${ticket.iterationPath}`);
+  }
+
+  sections.push(`Description: ${ticket.description}`);
+
+  if (ticket.acceptanceCriteria) {
+    sections.push(`Acceptance Criteria: ${ticket.acceptanceCriteria}`);
+  }
+  if (ticket.reproSteps) {
+    sections.push(`Repro Steps: ${ticket.reproSteps}`);
+  }
+
+  for (const relation of ["parent", "child", "related"] as const) {
+    const links = ticket.links?.filter((link) => link.relation === relation) ?? [];
+    if (links.length === 0) {
+      continue;
+    }
+    const lines = links.map(formatLink);
+    if (relation === "parent" && links[0].description) {
+      lines.push(`  Parent Description: ${links[0].description}`);
+    }
+    sections.push(`${LINK_HEADINGS[relation]}:\n${lines.join("\n")}`);
+  }
+
+  if (ticket.attachments?.length) {
+    const lines = ticket.attachments.map(
+      (attachment) => `- ${attachment.name}${attachment.comment ? ` (${attachment.comment})` : ""}: ${attachment.url}`
+    );
+    sections.push(`Attachments:\n${lines.join("\n")}`);
+  }
+
+  if (ticket.comments?.length) {
+    const comments = ticket.comments.slice(-MAX_COMMENTS);
+    const skipped = ticket.comments.length - comments.length;
+    const lines = comments.map(
+      (comment) => `- ${comment.author}${comment.createdAt ? ` (${comment.createdAt.slice(0, 10)})` : ""}: ${comment.text}`
+    );
+    if (skipped > 0) {
+      lines.unshift(`(${skipped} earlier comments omitted)`);
+    }
+    sections.push(`Comments:\n${lines.join("\n")}`);
+  }
+
+  return sections.join("\n");
+}
+
+/**
+ * The description of a pull request that implements a ticket: a link to
+ * the ticket and the plan that was followed.
+ */
+export function formatPullRequestDescription(ticket: WorkItem, plan: TicketPlan): string {
+  return `## Ticket\n[#${ticket.id}: ${ticket.title}](${ticket.url})\n\n## Implementation\nThis PR implements the changes for ticket #${ticket.id}.\n\n## Plan\n${formatPlan(plan)}`;
+}
@@ -0,0 +1,394 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fetchTicket, generatePlan } from "./copilot.js";
+import { performReview, DEFAULT_REVIEW_CATEGORIES } from "./review-copilot.js";
+import { OperationCancelledError, isCancellation } from "./cancellation.js";
+import { selectMcpServers } from "./mcp-servers.js";
+import { formatPlanMarkdown } from "./plan.js";
+import { cancelJob, startJob, type Job } from "./jobs.js";
+import {
+  createTicketSession,
+  getTicketSession,
+  saveTicketSession,
+  closeTicketSession,
+  type TicketSession,
+} from "./sessions.js";
+import { getLastReview, saveLastReview } from "./store.js";
+import { cloneAndBranch } from "../../utils/azure-devops-git.js";
+import {
+  cloneForReview,
+  cleanupReviewWorkspace,
+  getHeadCommit,
+  diffSinceCommit,
+} from "../../utils/azure-devops-pr.js";
+import { getHostingProvider } from "../../utils/git-hosting.js";
+import { writeBackToWorkItem } from "../../utils/azure-devops.js";
+import { escapeHtml, markdownToHtml } from "../../utils/markdown.js";
+
+export type WebhookEventType =
+  | "workitem.created"
+  | "workitem.updated"
+  | "git.pullrequest.created"
+  | "git.pullrequest.updated";
+
+const WORK_ITEM_EVENTS: WebhookEventType[] = ["workitem.created", "workitem.updated"];
+const PULL_REQUEST_EVENTS: WebhookEventType[] = ["git.pullrequest.created", "git.pullrequest.updated"];
+
+/**
+ * What an Azure DevOps service hook should start. Patterns are regular
+ * expressions (case-insensitive); a rule without a filter matches everything.
+ */
+export interface WebhookRule {
+  description?: string;
+  /** Work item events for "plan", pull request events for "review" */
+  events: WebhookEventType[];
+  action: "plan" | "review";
+  /** Matched against the project name */
+  projects?: string[];
+  /** Matched against the pull request's repository URL */
+  repos?: string[];
+  /** Plan only work items that get this tag (added in the update, for workitem.updated) */
+  tag?: string;
+  /** Matched against the work item type, e.g. "Bug" or "User Story" */
+  workItemTypes?: string[];
+  /** plan: the repository the plan is made for */
+  repoUrl?: string;
+  model?: string;
+  /** review: category ids; default: the categories enabled by default */
+  categories?: string[];
+  focusAreas?: string[];
+  /** Post the plan as a work item comment, or the review as a PR thread (default: true) */
+  postResult?: boolean;
+  /** false: ignored */
+  enabled?: boolean;
+}
+
+/** What a delivery is about, taken from its payload */
+export type WebhookSubject =
+  | { kind: "workItem"; url: string; project: string; type: string; tags: string[]; addedTags: string[] }
+  | { kind: "pullRequest"; url: string; project: string; repoUrl: string; status: string };
+
+/** The part of a service hook payload the receiver reads */
+export interface WebhookPayload {
+  id: string;
+  eventType: string;
+  resource?: Record<string, unknown>;
+  resourceContainers?: { account?: { baseUrl?: string } };
+}
+
+export interface TriggeredJob {
+  rule: string;
+  action: WebhookRule["action"];
+  jobId: string;
+}
+
+function rulesFilePath(): string {
+  return path.resolve(process.env.WEBHOOK_RULES_FILE || "webhook-rules.json");
+}
+
+function compile(ruleId: string, patterns: string[] = []): RegExp[] {
+  return patterns.map((pattern) => {
+    try {
+      return new RegExp(pattern, "i");
+    } catch {
+      throw new Error(`Webhook rule "${ruleId}" has an invalid pattern: ${pattern}`);
+    }
+  });
+}
+
+/**
+ * The rules in the rules file (WEBHOOK_RULES_FILE, default:
+ * webhook-rules.json), as `{ "rules": { "<id>": { ... } } }`. Without a
+ * file there are no rules, and deliveries start nothing.
+ */
+export function loadWebhookRules(): Record<string, WebhookRule> {
+  const file = rulesFilePath();
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  let parsed: { rules?: Record<string, WebhookRule> };
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(`Invalid webhook rules ${file}: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+  if (!parsed?.rules || typeof parsed.rules !== "object" || Array.isArray(parsed.rules)) {
+    throw new Error(`Invalid webhook rules ${file}: expected an object of rules under "rules"`);
+  }
+
+  for (const [id, rule] of Object.entries(parsed.rules)) {
+    const events = rule?.action === "plan" ? WORK_ITEM_EVENTS : rule?.action === "review" ? PULL_REQUEST_EVENTS : null;
+    if (!events) {
+      throw new Error(`Webhook rule "${id}" needs an action: "plan" or "review"`);
+    }
+    if (!Array.isArray(rule.events) || rule.events.length === 0 || !rule.events.every((event) => events.includes(event))) {
+      throw new Error(`Webhook rule "${id}" needs events, out of: ${events.join(", ")}`);
+    }
+    if (rule.action === "plan" && !rule.repoUrl) {
+      throw new Error(`Webhook rule "${id}" needs the repoUrl to plan in`);
+    }
+    if (rule.action === "plan" && rule.events.includes("workitem.updated") && !rule.tag) {
+      throw new Error(`Webhook rule "${id}" needs a tag; without one, every edit of a work item would plan it again`);
+    }
+    compile(id, [...(rule.projects ?? []), ...(rule.repos ?? []), ...(rule.workItemTypes ?? [])]);
+  }
+  return parsed.rules;
+}
+
+function splitTags(tags: unknown): string[] {
+  return typeof tags === "string" ? tags.split(";").map((tag) => tag.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Read the work item or pull request a delivery is about. Returns null for
+ * event types the receiver does not handle.
+ */
+export function webhookSubject(payload: WebhookPayload): WebhookSubject | null {
+  const resource = payload.resource ?? {};
+
+  if (WORK_ITEM_EVENTS.includes(payload.eventType as WebhookEventType)) {
+    // workitem.updated carries the changed fields as { oldValue, newValue } and the full item under "revision"
+    const updated = payload.eventType === "workitem.updated";
+    const item = (updated ? resource.revision : resource) as { id?: number; fields?: Record<string, unknown> } | undefined;
+    const fields = item?.fields ?? {};
+    const id = updated ? resource.workItemId ?? item?.id : item?.id;
+    const baseUrl = payload.resourceContainers?.account?.baseUrl;
+    const project = String(fields["System.TeamProject"] ?? "");
+    if (!id || !baseUrl || !project) {
+      return null;
+    }
+
+    const tags = splitTags(fields["System.Tags"]);
+    const tagChange = (resource.fields as Record<string, { oldValue?: unknown }> | undefined)?.["System.Tags"];
+    const previousTags = updated ? (tagChange ? splitTags(tagChange.oldValue) : tags) : [];
+    return {
+      kind: "workItem",
+      url: `${baseUrl.replace(/\/$/, "")}/${encodeURIComponent(project)}/_workitems/edit/${id}`,
+      project,
+      type: String(fields["System.WorkItemType"] ?? ""),
+      tags,
+      addedTags: tags.filter((tag) => !previousTags.some((previous) => previous.toLowerCase() === tag.toLowerCase())),
+    };
+  }
+
+  if (PULL_REQUEST_EVENTS.includes(payload.eventType as WebhookEventType)) {
+    const repository = resource.repository as
+      | { webUrl?: string; remoteUrl?: string; project?: { name?: string } }
+      | undefined;
+    // remoteUrl has the organization as user name: https://org@dev.azure.com/...
+    const repoUrl = (repository?.webUrl ?? repository?.remoteUrl)?.replace(/\/\/[^/@]+@/, "//");
+    const prId = resource.pullRequestId;
+    if (!repoUrl || !prId) {
+      return null;
+    }
+
+    return {
+      kind: "pullRequest",
+      url: `${repoUrl}/pullrequest/${prId}`,
+      project: repository?.project?.name ?? "",
+      repoUrl,
+      status: String(resource.status ?? ""),
+    };
+  }
+
+  return null;
+}
+
+// The rules that a delivery sets off, by id
+export function matchWebhookRules(
+  rules: Record<string, WebhookRule>,
+  eventType: string,
+  subject: WebhookSubject
+): [string, WebhookRule][] {
+  const matches = (id: string, patterns: string[] | undefined, value: string) =>
+    !patterns?.length || compile(id, patterns).some((pattern) => pattern.test(value));
+
+  return Object.entries(rules).filter(([id, rule]) => {
+    if (rule.enabled === false || !rule.events.includes(eventType as WebhookEventType)) {
+      return false;
+    }
+    if (!matches(id, rule.projects, subject.project)) {
+      return false;
+    }
+
+    if (subject.kind === "workItem") {
+      const tag = rule.tag?.toLowerCase();
+      const tags = eventType === "workitem.updated" ? subject.addedTags : subject.tags;
+      return (!tag || tags.some((candidate) => candidate.toLowerCase() === tag))
+        && matches(id, rule.workItemTypes, subject.type);
+    }
+    // Completed and abandoned pull requests are not worth reviewing
+    return subject.status === "active" && matches(id, rule.repos, subject.repoUrl);
+  });
+}
+
+// A session closed meanwhile must not be saved again
+function saveOpenSession(session: TicketSession): void {
+  if (getTicketSession(session.id) === session) {
+    saveTicketSession(session);
+  }
+}
+
+function throwIfAborted(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new OperationCancelledError();
+  }
+}
+
+/**
+ * Plan a work item in a new ticket session, which can then be opened in
+ * the Ticket Implementer to review and implement the plan.
+ */
+function startPlanJob(ruleId: string, rule: WebhookRule, workItemUrl: string): Job {
+  const repoUrl = rule.repoUrl!;
+  // Before making a session, so a rule naming an unsupported host starts nothing
+  const hosting = getHostingProvider(repoUrl);
+  // Started by a service hook, not by a user: every user can open it
+  const session = createTicketSession(null);
+
+  return startJob("plan", session.id, null, async ({ emit, signal }) => {
+    try {
+      emit({ type: "progress", content: `Webhook rule "${ruleId}": planning ${workItemUrl}` });
+      const ticket = await fetchTicket(workItemUrl);
+      session.ticket = ticket;
+      throwIfAborted(signal);
+
+      emit({ type: "progress", content: `Cloning ${repoUrl}` });
+      session.repo = await cloneAndBranch(hosting, repoUrl, ticket.id, ticket.title);
+      session.repoUrl = repoUrl;
+      session.sourceType = "remote";
+      session.canCreatePr = true;
+      saveOpenSession(session);
+      throwIfAborted(signal);
+
+      session.plan = await generatePlan(
+        ticket,
+        session.repo.localPath,
+        (progress) => emit({ type: "progress", content: progress }),
+        rule.model,
+        signal,
+        (applied) => {
+          session.planInstructions = applied;
+        },
+        selectMcpServers({ ticket, repoUrl }, session.mcpServerOverrides).mcpServers
+      );
+      saveOpenSession(session);
+
+      if (rule.postResult !== false) {
+        const comment = [
+          `<p>A plan was generated for this work item (webhook rule <code>${escapeHtml(ruleId)}</code>). Open it in the Ticket Implementer to review and implement it.</p>`,
+          markdownToHtml(formatPlanMarkdown(session.plan)),
+        ].join("\n");
+        for (const result of await writeBackToWorkItem(ticket, { comment })) {
+          emit({ type: "progress", content: result.ok ? result.message : `Could not comment: ${result.message}` });
+        }
+      }
+
+      emit({ type: "complete", ticket, plan: session.plan, instructions: session.planInstructions });
+    } catch (error) {
+      // Nothing to come back to: drop the session and its clone
+      closeTicketSession(session.id);
+      if (isCancellation(error)) {
+        emit({ type: "cancelled", content: "Plan generation cancelled" });
+      } else {
+        emit({ type: "error", content: error instanceof Error ? error.message : "Failed to generate plan" });
+      }
+    }
+  });
+}
+
+/**
+ * Review a pull request in a throwaway clone and post the review as a PR
+ * thread. After an update, only what changed since the last review is
+ * reviewed, and nothing if there are no new commits.
+ */
+function startReviewJob(ruleId: string, rule: WebhookRule, eventId: string, prUrl: string, updated: boolean): Job {
+  // Not a session's job: the delivery is what it belongs to
+  return startJob("review", `webhook:${eventId}:${ruleId}`, null, async ({ emit, signal }) => {
+    let repoPath: string | null = null;
+    try {
+      emit({ type: "message", content: `Webhook rule "${ruleId}": reviewing ${prUrl}\n` });
+      const hosting = getHostingProvider(prUrl);
+      const pr = await hosting.getPullRequest(prUrl);
+      const clone = await cloneForReview(hosting, pr.repositoryUrl, pr.sourceBranch, pr.targetBranch);
+      repoPath = clone.localPath;
+      throwIfAborted(signal);
+
+      const commitSha = getHeadCommit(repoPath);
+      const lastReview = updated ? getLastReview(pr.url) : null;
+      if (lastReview?.commitSha === commitSha) {
+        emit({ type: "complete", content: `Already reviewed at ${commitSha.slice(0, 8)}` });
+        return;
+      }
+      const diff = lastReview ? diffSinceCommit(hosting, repoPath, lastReview.commitSha) : clone.diff;
+      if (!diff.trim()) {
+        emit({ type: "complete", content: "Nothing to review" });
+        return;
+      }
+
+      const iterationId = await hosting.getLatestIteration(pr).catch(() => null);
+      let review: string | null = null;
+      await performReview(
+        pr,
+        diff,
+        rule.categories ?? DEFAULT_REVIEW_CATEGORIES.filter((c) => c.defaultEnabled).map((c) => c.id),
+        rule.focusAreas ?? [],
+        (progress) => {
+          if (progress.type === "complete") {
+            review = progress.content;
+          }
+          emit(progress);
+        },
+        repoPath,
+        rule.model,
+        signal,
+        lastReview ?? undefined,
+        selectMcpServers({ repoUrl: pr.repositoryUrl, text: pr.description, urls: [pr.url] }, {}).mcpServers
+      );
+
+      if (review) {
+        saveLastReview({ prUrl: pr.url, iterationId, commitSha, review, reviewedAt: new Date().toISOString() });
+        if (rule.postResult !== false) {
+          const { threadId } = await hosting.postReviewComment(pr, review);
+          emit({ type: "message", content: `Posted the review as thread ${threadId}\n` });
+        }
+      }
+    } catch (error) {
+      if (isCancellation(error)) {
+        emit({ type: "cancelled", content: "Review cancelled" });
+      } else {
+        emit({ type: "error", content: error instanceof Error ? error.message : "Unknown error" });
+      }
+    } finally {
+      if (repoPath) {
+        cleanupReviewWorkspace(repoPath);
+      }
+    }
+  });
+}
+
+/**
+ * Start a job for every rule a delivery matches. All or nothing: if one
+ * cannot be started, those already started are cancelled and the error is
+ * thrown, so a redelivery can start them all again.
+ */
+export function triggerWebhookRules(
+  payload: WebhookPayload,
+  subject: WebhookSubject,
+  rules: [string, WebhookRule][]
+): TriggeredJob[] {
+  const started: Job[] = [];
+  try {
+    return rules.map(([id, rule]) => {
+      const job = rule.action === "plan"
+        ? startPlanJob(id, rule, subject.url)
+        : startReviewJob(id, rule, payload.id, subject.url, payload.eventType === "git.pullrequest.updated");
+      started.push(job);
+      return { rule: id, action: rule.action, jobId: job.id };
+    });
+  } catch (error) {
+    started.forEach(cancelJob);
+    throw error;
+  }
+}
@@ -0,0 +1,169 @@
+import { test, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Router } from "express";
+import { useTemporaryDataDir } from "./helpers.js";
+import { cookieFrom, listenWithSignIn, signIn } from "./sign-in.js";
+import { getAdoPat, runWithAdoPat } from "../utils/ado-credentials.js";
+
+useTemporaryDataDir();
+
+// Answers with the Azure DevOps token the request is handled with
+const patRouter = Router();
+patRouter.get("/", async (_req, res) => {
+  await new Promise((resolve) => setTimeout(resolve, 1));
+  try {
+    res.json({ pat: getAdoPat() });
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+let server: Awaited<ReturnType<typeof listenWithSignIn>>;
+
+before(async () => {
+  server = await listenWithSignIn({ "/api/pat": patRouter });
+});
+
+after(() => server.close());
+
+async function startLogin(returnTo = "/") {
+  const login = await fetch(`${server.url}/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`, {
+    redirect: "manual",
+  });
+  return { authorize: new URL(login.headers.get("Location")!), loginCookie: cookieFrom(login, "ti_login")! };
+}
+
+// Sign in as alice at the fake IdP, then bring its answer back to the callback
+async function finishLogin(authorize: URL, loginCookie: string | null): Promise<Response> {
+  authorize.searchParams.set("login_hint", "alice@example.com");
+  const issued = await fetch(authorize, { redirect: "manual" });
+  return fetch(issued.headers.get("Location")!, {
+    redirect: "manual",
+    headers: loginCookie ? { Cookie: loginCookie } : {},
+  });
+}
+
+function loginErrorOf(response: Response): string | null {
+  return new URL(response.headers.get("Location")!).searchParams.get("loginError");
+}
+
+async function me(cookie: string) {
+  return (await fetch(`${server.url}/api/auth/me`, { headers: { Cookie: cookie } })).json();
+}
+
+test("signs in with the authorization code flow, PKCE and a nonce", async () => {
+  const { authorize, loginCookie } = await startLogin("/review");
+
+  assert.equal(authorize.origin + authorize.pathname, `${server.url}/fake-idp/authorize`);
+  assert.equal(authorize.searchParams.get("redirect_uri"), `${server.url}/api/auth/callback`);
+  assert.equal(authorize.searchParams.get("code_challenge_method"), "S256");
+  assert.ok(authorize.searchParams.get("code_challenge"));
+  assert.ok(authorize.searchParams.get("nonce"));
+  assert.equal(loginCookie, `ti_login=${authorize.searchParams.get("state")}`);
+
+  const callback = await finishLogin(authorize, loginCookie);
+
+  assert.equal(callback.headers.get("Location"), `${server.url}/review`);
+  const session = cookieFrom(callback, "ti_session")!;
+  const { user } = await me(session);
+  assert.equal(user.email, "alice@example.com");
+  assert.equal(user.hasAdoToken, false);
+});
+
+test("rejects a callback without the login cookie, or with another login's", async () => {
+  const first = await startLogin();
+  const second = await startLogin();
+
+  for (const callback of [
+    await finishLogin(first.authorize, null),
+    await finishLogin(second.authorize, first.loginCookie),
+  ]) {
+    assert.equal(cookieFrom(callback, "ti_session"), null);
+    assert.equal(loginErrorOf(callback), "Sign-in did not start in this browser; sign in again");
+  }
+});
+
+test("rejects a code bound to another code challenge", async () => {
+  const { authorize, loginCookie } = await startLogin();
+  authorize.searchParams.set("code_challenge", "not-the-challenge-of-this-login");
+
+  const callback = await finishLogin(authorize, loginCookie);
+
+  assert.equal(cookieFrom(callback, "ti_session"), null);
+  assert.match(loginErrorOf(callback)!, /\/fake-idp\/token answered 400: .*invalid_grant/);
+});
+
+test("rejects an ID token issued for another nonce", async () => {
+  const { authorize, loginCookie } = await startLogin();
+  authorize.searchParams.set("nonce", "not-the-nonce-of-this-login");
+
+  const callback = await finishLogin(authorize, loginCookie);
+
+  assert.equal(cookieFrom(callback, "ti_session"), null);
+  assert.equal(loginErrorOf(callback), "ID token does not belong to this sign-in");
+});
+
+test("the session cookie and the session behind it expire after 12 hours", async () => {
+  const { authorize, loginCookie } = await startLogin();
+  const callback = await finishLogin(authorize, loginCookie);
+
+  const header = callback.headers.getSetCookie().find((cookie) => cookie.startsWith("ti_session="))!;
+  assert.match(header, /Max-Age=43200/);
+  assert.match(header, /HttpOnly/);
+
+  const session = cookieFrom(callback, "ti_session")!;
+  mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  try {
+    mock.timers.tick(12 * 60 * 60 * 1000 - 1000);
+    assert.ok((await me(session)).user);
+    mock.timers.tick(2000);
+    assert.equal((await me(session)).user, null);
+    assert.equal((await fetch(`${server.url}/api/pat`, { headers: { Cookie: session } })).status, 401);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test("requireUser turns away API calls without a valid session", async () => {
+  for (const headers of [{}, { Cookie: "ti_session=forged" }] as Record<string, string>[]) {
+    const response = await fetch(`${server.url}/api/pat`, { headers });
+    assert.equal(response.status, 401);
+    assert.deepEqual(await response.json(), { error: "Sign in first" });
+  }
+});
+
+test("each request runs with the Azure DevOps token of the user who made it", async () => {
+  process.env.ADO_PAT = "service-pat";
+  const alice = await signIn(server.url, "alice@example.com");
+  const bob = await signIn(server.url, "bob@example.com");
+  const pat = async (cookie: string) => (await fetch(`${server.url}/api/pat`, { headers: { Cookie: cookie } })).json();
+
+  const stored = await fetch(`${server.url}/api/auth/ado-token`, {
+    method: "PUT",
+    headers: { Cookie: alice, "Content-Type": "application/json" },
+    body: JSON.stringify({ token: "alice-pat" }),
+  });
+  assert.equal((await stored.json()).user.hasAdoToken, true);
+
+  // Concurrent requests each keep their own user's token across awaits
+  const [forAlice, forBob] = await Promise.all([pat(alice), pat(bob)]);
+  assert.deepEqual(forAlice, { pat: "alice-pat" });
+  // A user without a token does not borrow ADO_PAT
+  assert.deepEqual(forBob, { error: "No Azure DevOps token: add yours under Account" });
+});
+
+test("a token applies only to the work run with it; everything else uses ADO_PAT", async () => {
+  process.env.ADO_PAT = "service-pat";
+  assert.equal(getAdoPat(), "service-pat");
+  assert.equal(
+    await runWithAdoPat("user-pat", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return getAdoPat();
+    }),
+    "user-pat"
+  );
+  assert.throws(() => runWithAdoPat(null, getAdoPat), /No Azure DevOps token/);
+
+  delete process.env.ADO_PAT;
+  assert.throws(getAdoPat, /ADO_PAT environment variable is not set/);
+});
@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { existsSync, mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { useLocalFolder } from "../utils/azure-devops-git.js";
+
+test("a ticket id from a remote tracker cannot run commands through the branch name", async () => {
+  const repo = mkdtempSync(join(tmpdir(), "ticket-implementer-repo-"));
+  execFileSync("git", ["init", "-q"], { cwd: repo });
+  execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", "commit", "-q", "--allow-empty", "-m", "Initial"], {
+    cwd: repo,
+  });
+
+  const { branchName } = await useLocalFolder(repo, 'ABC-1"$(touch pwned)"', "Speed up `widgets`");
+
+  assert.match(branchName, /^feature\/abc-1-touch-pwned-speed-up-widgets-[a-z0-9]+$/);
+  assert.equal(execFileSync("git", ["branch", "--show-current"], { cwd: repo, encoding: "utf-8" }).trim(), branchName);
+  assert.equal(existsSync(join(repo, "pwned")), false);
+});
@@ -0,0 +1,240 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import express, { type Request, type Response } from "express";
+import { listen } from "./helpers.js";
+import {
+  createGitHubPullRequest,
+  getGitHubIssue,
+  getGitHubPullRequest,
+  postGitHubReviewFindings,
+} from "../utils/github.js";
+import type { ReviewFindingComment } from "../utils/azure-devops-pr.js";
+
+const PR_URL = "https://github.com/acme/widgets/pull/7";
+
+interface Call {
+  method: string;
+  path: string;
+  authorization?: string;
+  accept?: string;
+  body: Record<string, unknown>;
+}
+
+// What the stub was asked, and what it answers; each test sets its own routes
+let calls: Call[] = [];
+let routes: Record<string, (req: Request, res: Response) => void> = {};
+
+const stub = express();
+stub.use(express.json());
+stub.use((req, res) => {
+  calls.push({
+    method: req.method,
+    path: req.path,
+    authorization: req.get("Authorization"),
+    accept: req.get("Accept"),
+    body: req.body,
+  });
+  const route = routes[`${req.method} ${req.path}`];
+  if (route) {
+    route(req, res);
+  } else {
+    res.status(404).json({ message: "Not Found" });
+  }
+});
+
+let server: Awaited<ReturnType<typeof listen>>;
+
+before(async () => {
+  server = await listen(stub);
+  process.env.GITHUB_API_URL = server.url;
+  process.env.GITHUB_TOKEN = "test-token";
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  calls = [];
+  routes = {};
+});
+
+const pullRequest = {
+  number: 7,
+  node_id: "PR_node7",
+  html_url: PR_URL,
+  title: "Add widgets",
+  body: "Adds the widgets",
+  user: { login: "octocat" },
+  head: { ref: "feature/widgets", sha: "abc123" },
+  base: { ref: "main" },
+  merged: false,
+  state: "open",
+};
+
+test("fetches a pull request through the configured API URL", async () => {
+  routes["GET /repos/acme/widgets/pulls/7"] = (_req, res) => res.json(pullRequest);
+
+  const pr = await getGitHubPullRequest(PR_URL);
+
+  assert.deepEqual(pr, {
+    prId: 7,
+    title: "Add widgets",
+    description: "Adds the widgets",
+    author: "octocat",
+    sourceBranch: "feature/widgets",
+    targetBranch: "main",
+    status: "open",
+    repositoryName: "widgets",
+    repositoryUrl: "https://github.com/acme/widgets",
+    url: PR_URL,
+  });
+  assert.equal(calls[0].authorization, "Bearer test-token");
+});
+
+test("fetches an issue with its rendered body and labels", async () => {
+  routes["GET /repos/acme/widgets/issues/12"] = (_req, res) =>
+    res.json({
+      title: "Widgets are slow",
+      body: "See https://www.figma.com/design/abc123/Widgets",
+      body_html: "<p>See the design</p>",
+      state: "closed",
+      state_reason: "not_planned",
+      type: null,
+      assignee: { login: "hubot" },
+      labels: ["bug", { name: "performance" }],
+      html_url: "https://github.com/acme/widgets/issues/12",
+    });
+
+  const issue = await getGitHubIssue("https://github.com/acme/widgets/issues/12");
+
+  assert.equal(calls[0].accept, "application/vnd.github.full+json");
+  assert.equal(issue.description, "<p>See the design</p>");
+  assert.equal(issue.state, "closed (not planned)");
+  assert.equal(issue.type, "Issue");
+  assert.equal(issue.assignedTo, "hubot");
+  assert.deepEqual(issue.labels, ["bug", "performance"]);
+  assert.equal(issue.figmaUrl, "https://www.figma.com/design/abc123/Widgets");
+});
+
+test("creates a pull request, then requests reviewers, adds labels and enables auto-merge", async () => {
+  routes["POST /repos/acme/widgets/pulls"] = (_req, res) => res.status(201).json(pullRequest);
+  routes["POST /repos/acme/widgets/pulls/7/requested_reviewers"] = (_req, res) => res.status(201).json({});
+  routes["POST /repos/acme/widgets/issues/7/labels"] = (_req, res) => res.json([]);
+  routes["POST /graphql"] = (_req, res) => res.json({ data: { enablePullRequestAutoMerge: {} } });
+
+  const result = await createGitHubPullRequest(
+    "https://github.com/acme/widgets",
+    "feature/widgets",
+    "Add widgets",
+    "Adds the widgets",
+    "main",
+    {
+      isDraft: true,
+      reviewers: [{ name: "octocat", required: true }],
+      labels: ["enhancement"],
+      autoComplete: { mergeStrategy: "squash" },
+    }
+  );
+
+  assert.deepEqual(result, { id: 7, url: PR_URL, title: "Add widgets" });
+  assert.deepEqual(
+    calls.map((call) => `${call.method} ${call.path}`),
+    [
+      "POST /repos/acme/widgets/pulls",
+      "POST /repos/acme/widgets/pulls/7/requested_reviewers",
+      "POST /repos/acme/widgets/issues/7/labels",
+      "POST /graphql",
+    ]
+  );
+  assert.deepEqual(calls[0].body, {
+    head: "feature/widgets",
+    base: "main",
+    title: "Add widgets",
+    body: "Adds the widgets",
+    draft: true,
+  });
+  assert.deepEqual(calls[1].body, { reviewers: ["octocat"] });
+  assert.deepEqual(calls[2].body, { labels: ["enhancement"] });
+  assert.deepEqual(calls[3].body.variables, { id: "PR_node7", method: "SQUASH" });
+});
+
+test("reports a pull request that was created but could not be set up", async () => {
+  routes["POST /repos/acme/widgets/pulls"] = (_req, res) => res.status(201).json(pullRequest);
+  routes["POST /repos/acme/widgets/pulls/7/requested_reviewers"] = (_req, res) =>
+    res.status(422).json({ message: "Reviews may only be requested from collaborators" });
+
+  await assert.rejects(
+    createGitHubPullRequest("https://github.com/acme/widgets", "feature/widgets", "Add widgets", "", "main", {
+      reviewers: [{ name: "stranger", required: false }],
+    }),
+    /Pull request #7 was created, but could not be fully set up: .*422.*only be requested from collaborators/
+  );
+});
+
+test("surfaces error responses with their status and body", async () => {
+  await assert.rejects(getGitHubPullRequest(PR_URL), /Failed to fetch PR #7: GitHub API GET \/repos\/acme\/widgets\/pulls\/7 failed: 404 .*Not Found/);
+
+  routes["POST /graphql"] = (_req, res) => res.json({ errors: [{ message: "Auto-merge is not allowed" }] });
+  routes["POST /repos/acme/widgets/pulls"] = (_req, res) => res.status(201).json(pullRequest);
+  await assert.rejects(
+    createGitHubPullRequest("https://github.com/acme/widgets", "feature/widgets", "Add widgets", "", "main", {
+      autoComplete: { mergeStrategy: "rebase" },
+    }),
+    /GitHub GraphQL request failed: Auto-merge is not allowed/
+  );
+});
+
+test("anchors findings inside the diff, reading every page of changed files", async () => {
+  routes["GET /repos/acme/widgets/pulls/7"] = (_req, res) => res.json(pullRequest);
+  routes["GET /repos/acme/widgets/pulls/7/files"] = (req, res) => {
+    if (req.query.page === "2") {
+      res.json([{ filename: "src/widget.ts", patch: "@@ -10,3 +10,5 @@ export class Widget {\n+  size = 1;" }]);
+    } else {
+      res.set("Link", `<${server.url}/repos/acme/widgets/pulls/7/files?per_page=100&page=2>; rel="next"`);
+      res.json([{ filename: "logo.png" }]);
+    }
+  };
+  let nextId = 1;
+  routes["POST /repos/acme/widgets/pulls/7/comments"] = (_req, res) => res.status(201).json({ id: nextId++ });
+  routes["POST /repos/acme/widgets/issues/7/comments"] = (_req, res) => res.status(201).json({ id: nextId++ });
+
+  const pr = await getGitHubPullRequest(PR_URL);
+  const finding = (fields: Partial<ReviewFindingComment>): ReviewFindingComment => ({
+    content: "Check this",
+    filePath: null,
+    startLine: null,
+    endLine: null,
+    suggestion: null,
+    ...fields,
+  });
+  calls = [];
+
+  const posted = await postGitHubReviewFindings(pr, [
+    finding({ filePath: "/src/widget.ts", startLine: 11, endLine: 12, suggestion: "  size = 2;" }),
+    finding({ filePath: "src/widget.ts", startLine: 30, endLine: 30, suggestion: "  size = 3;" }),
+    finding({ filePath: "logo.png", startLine: 1, endLine: 1 }),
+    finding({}),
+  ]);
+
+  assert.deepEqual(posted, [
+    { threadId: 1, anchored: true },
+    { threadId: 2, anchored: false },
+    { threadId: 3, anchored: false },
+    { threadId: 4, anchored: false },
+  ]);
+  assert.equal(calls.filter((call) => call.path.endsWith("/files")).length, 2);
+  const [lineComment, ...conversationComments] = calls.filter((call) => call.method === "POST");
+  assert.deepEqual(lineComment.body, {
+    body: "Check this\n\n```suggestion\n  size = 2;\n```",
+    commit_id: "abc123",
+    path: "src/widget.ts",
+    line: 12,
+    side: "RIGHT",
+    start_line: 11,
+    start_side: "RIGHT",
+  });
+  // Suggestions are dropped outside line comments
+  assert.deepEqual(
+    conversationComments.map((call) => call.body),
+    [{ body: "Check this" }, { body: "Check this" }, { body: "Check this" }]
+  );
+});
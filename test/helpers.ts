@@ -0,0 +1,37 @@
+import { execFileSync } from "child_process";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { AddressInfo } from "net";
+import type { Express } from "express";
+
+// A fresh, empty database for the test process; call before anything touches the store
+export function useTemporaryDataDir(): string {
+  const dataDir = mkdtempSync(join(tmpdir(), "ticket-implementer-test-"));
+  process.env.DATA_DIR = dataDir;
+  return dataDir;
+}
+
+// Serve an app on a free port; close() stops it
+export async function listen(app: Express): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Run a script in a new Node process on the same data directory, as the
+ * server would after a restart. Returns what it printed.
+ */
+export function runInNewProcess(script: string): string {
+  return execFileSync(process.execPath, [...process.execArgv, "--input-type=module", "-e", script], {
+    cwd: process.cwd(),
+    env: process.env,
+    encoding: "utf-8",
+    stdio: ["ignore", "pipe", "ignore"],
+  });
+}
@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { useTemporaryDataDir } from "./helpers.js";
+import { listSharedInstructions } from "../utils/instruction-sources.js";
+
+const dataDir = useTemporaryDataDir();
+
+test("a source URL is handed to git as it is, never to a shell", async () => {
+  const repo = join(dataDir, 'shared"$(touch pwned)"');
+  mkdirSync(join(repo, "instructions"), { recursive: true });
+  writeFileSync(join(repo, "instructions", "react.instructions.md"), "Use function components.\n");
+  execFileSync("git", ["init", "-q"], { cwd: repo });
+  execFileSync("git", ["add", "-A"], { cwd: repo });
+  execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", "commit", "-q", "-m", "Add"], {
+    cwd: repo,
+  });
+  process.env.INSTRUCTION_SOURCES_FILE = join(dataDir, "instruction-sources.json");
+  writeFileSync(process.env.INSTRUCTION_SOURCES_FILE, JSON.stringify([{ name: "Shared", url: repo, path: "instructions" }]));
+  process.chdir(dataDir);
+
+  const { instructions, sources } = await listSharedInstructions();
+
+  assert.equal(sources[0].error, undefined);
+  assert.deepEqual(
+    instructions.map((instruction) => instruction.path),
+    ["react.instructions.md"]
+  );
+  assert.equal(existsSync(join(dataDir, "pwned")), false);
+});
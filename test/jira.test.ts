@@ -0,0 +1,83 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { listen } from "./helpers.js";
+import { getJiraIssue, parseJiraIssueUrl } from "../utils/jira.js";
+
+// Requests the stub Jira site received
+let requests: string[] = [];
+
+const stub = express();
+stub.get("/rest/api/3/issue/:key", (req, res) => {
+  requests.push(req.get("Authorization") ?? "");
+  res.json({
+    key: req.params.key,
+    fields: {
+      summary: "Widgets are slow",
+      description: {
+        type: "doc",
+        content: [
+          {
+            type: "paragraph",
+            content: [
+              { type: "text", text: "Speed them up", marks: [{ type: "link", attrs: { href: "https://example.com/spec" } }] },
+              { type: "emoji", attrs: { shortName: ":zap:" } },
+              { type: "mention", attrs: { id: 42 } },
+            ],
+          },
+        ],
+      },
+      status: { name: "To Do" },
+      issuetype: { name: "Bug" },
+      labels: ["performance"],
+    },
+  });
+});
+
+let server: Awaited<ReturnType<typeof listen>>;
+
+before(async () => {
+  server = await listen(stub);
+  process.env.JIRA_EMAIL = "bot@example.com";
+  process.env.JIRA_API_TOKEN = "jira-token";
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  requests = [];
+  delete process.env.JIRA_BASE_URL;
+});
+
+test("fetches an issue from the configured Jira site", async () => {
+  process.env.JIRA_BASE_URL = server.url;
+
+  const issue = await getJiraIssue(`${server.url}/browse/ABC-1`);
+
+  assert.equal(issue.id, "ABC-1");
+  assert.equal(issue.description, '<p><a href="https://example.com/spec">Speed them up</a>:zap:@someone</p>');
+  assert.equal(issue.url, `${server.url}/browse/ABC-1`);
+  assert.deepEqual(requests, [`Basic ${Buffer.from("bot@example.com:jira-token").toString("base64")}`]);
+});
+
+test("does not send the Jira token to another host", async () => {
+  process.env.JIRA_BASE_URL = "https://acme.atlassian.net";
+
+  await assert.rejects(getJiraIssue(`${server.url}/browse/ABC-1`), /Jira issue URL is not on https:\/\/acme\.atlassian\.net/);
+  assert.deepEqual(requests, []);
+});
+
+test("without JIRA_BASE_URL, accepts only Jira Cloud sites", () => {
+  assert.deepEqual(parseJiraIssueUrl("https://acme.atlassian.net/browse/ABC-1"), {
+    baseUrl: "https://acme.atlassian.net",
+    issueKey: "ABC-1",
+  });
+  for (const url of [
+    "https://attacker.example/browse/ABC-1",
+    "https://acme.atlassian.net.attacker.example/browse/ABC-1",
+    "http://acme.atlassian.net/browse/ABC-1",
+    "https://user@attacker.example/?selectedIssue=ABC-1&x=.atlassian.net",
+  ]) {
+    assert.throws(() => parseJiraIssueUrl(url), /Jira issue URL is not on a Jira Cloud site/, url);
+  }
+});
@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { useTemporaryDataDir } from "./helpers.js";
+import { startJob, getJob, followJob, type Job } from "../server/services/jobs.js";
+import { OperationCancelledError } from "../server/services/cancellation.js";
+
+useTemporaryDataDir();
+
+function finished(job: Job): Promise<Job> {
+  return new Promise((resolve) => followJob(job, job.lastEventId, { event: () => {}, end: resolve }));
+}
+
+test("a job starts only once the job it cancelled has undone its changes", async () => {
+  const steps: string[] = [];
+
+  const first = startJob("implement", "session-1", null, async ({ emit, signal }) => {
+    steps.push("first started");
+    await new Promise((resolve) => signal.addEventListener("abort", resolve, { once: true }));
+    // Restoring the workspace takes a while
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    steps.push("first restored");
+    emit({ type: "cancelled", content: "Implementation cancelled" });
+  });
+  await new Promise((resolve) => setImmediate(resolve));
+
+  const second = startJob("refine-code", "session-1", null, async ({ signal }) => {
+    steps.push(`second started${signal.aborted ? " cancelled" : ""}`);
+  });
+  await finished(second);
+
+  assert.deepEqual(steps, ["first started", "first restored", "second started"]);
+  assert.equal(getJob(first.id)?.status, "cancelled");
+  assert.equal(getJob(second.id)?.status, "completed");
+});
+
+test("a job cancelled while it waits for the previous one never runs", async () => {
+  const steps: string[] = [];
+
+  startJob("implement", "session-2", null, async ({ signal }) => {
+    await new Promise((resolve) => signal.addEventListener("abort", resolve, { once: true }));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    throw new OperationCancelledError();
+  });
+  const waiting = startJob("implement", "session-2", null, async () => {
+    steps.push("waiting ran");
+  });
+  const last = startJob("implement", "session-2", null, async () => {
+    steps.push("last ran");
+  });
+  await finished(last);
+
+  assert.deepEqual(steps, ["last ran"]);
+  assert.equal(getJob(waiting.id)?.status, "cancelled");
+});
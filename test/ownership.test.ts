@@ -0,0 +1,106 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { useTemporaryDataDir } from "./helpers.js";
+import { listenWithSignIn, signIn } from "./sign-in.js";
+import { ticketRouter } from "../server/routes/ticket.js";
+import { reviewRouter } from "../server/routes/review.js";
+import { batchRouter } from "../server/routes/batch.js";
+import { jobsRouter } from "../server/routes/jobs.js";
+import { startJob } from "../server/services/jobs.js";
+import { createTicketSession } from "../server/services/sessions.js";
+import { createBatch } from "../server/services/batch.js";
+
+useTemporaryDataDir();
+
+let server: Awaited<ReturnType<typeof listenWithSignIn>>;
+let alice: string;
+let bob: string;
+
+before(async () => {
+  server = await listenWithSignIn({
+    "/api/ticket": ticketRouter,
+    "/api/review": reviewRouter,
+    "/api/batch": batchRouter,
+    "/api/jobs": jobsRouter,
+  });
+  alice = await signIn(server.url, "alice@example.com");
+  bob = await signIn(server.url, "bob@example.com");
+});
+
+after(() => server.close());
+
+function api(path: string, cookie: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${server.url}/api${path}`, { ...init, headers: { Cookie: cookie } });
+}
+
+async function userIdOf(cookie: string): Promise<string> {
+  const { user } = await (await api("/auth/me", cookie)).json();
+  return user.id;
+}
+
+test("a ticket session is only found by the user who created it", async () => {
+  const created = await (await api("/ticket/sessions", alice, { method: "POST" })).json();
+
+  assert.equal((await api(`/ticket/${created.id}/repo-info`, alice)).status, 200);
+  assert.equal((await api(`/ticket/${created.id}/repo-info`, bob)).status, 404);
+  assert.equal((await api(`/ticket/${created.id}`, bob, { method: "DELETE" })).status, 404);
+
+  const listed = async (cookie: string) =>
+    (await (await api("/ticket/sessions", cookie)).json()).sessions.map((session: { id: string }) => session.id);
+  assert.ok((await listed(alice)).includes(created.id));
+  assert.ok(!(await listed(bob)).includes(created.id));
+});
+
+test("a review session is only found by the user who created it", async () => {
+  const created = await (await api("/review/sessions", alice, { method: "POST" })).json();
+
+  assert.equal((await api(`/review/${created.id}`, bob, { method: "DELETE" })).status, 404);
+  const listed = async (cookie: string) =>
+    (await (await api("/review/sessions", cookie)).json()).sessions.map((session: { id: string }) => session.id);
+  assert.ok(!(await listed(bob)).includes(created.id));
+  assert.ok((await listed(alice)).includes(created.id));
+});
+
+test("a job is only found by the user who started it; a service hook's is everyone's to view", async () => {
+  const owned = startJob("plan", "session-of-alice", await userIdOf(alice), async () => {});
+  const shared = startJob("review", "webhook:event:rule", null, async () => {});
+
+  assert.equal((await api(`/jobs/${owned.id}`, alice)).status, 200);
+  assert.equal((await api(`/jobs/${owned.id}`, bob)).status, 404);
+  assert.equal((await api(`/jobs/${owned.id}/cancel`, bob, { method: "POST" })).status, 404);
+  assert.equal((await api(`/jobs/${shared.id}`, bob)).status, 200);
+  assert.equal((await api(`/jobs/${shared.id}/cancel`, bob, { method: "POST" })).status, 403);
+
+  const { jobs } = await (await api("/jobs", bob)).json();
+  assert.deepEqual(
+    jobs.map((job: { id: string }) => job.id),
+    [shared.id]
+  );
+});
+
+test("a batch is only found by the user who started it", async () => {
+  const batch = createBatch(
+    "https://dev.azure.com/acme/widgets",
+    { kind: "wiql", value: "SELECT [System.Id] FROM WorkItems" },
+    "https://dev.azure.com/acme/widgets/_git/widgets",
+    { model: "test", autoApprove: false, postTasks: [], fixUntilGreen: false, maxFixAttempts: 1, isDraft: false },
+    [],
+    await userIdOf(alice)
+  );
+
+  assert.equal((await api(`/batch/${batch.id}`, alice)).status, 200);
+  assert.equal((await api(`/batch/${batch.id}`, bob)).status, 404);
+  assert.equal((await api(`/batch/${batch.id}/cancel`, bob, { method: "POST" })).status, 404);
+  const { batches } = await (await api("/batch", bob)).json();
+  assert.equal(batches.length, 0);
+});
+
+test("a session without an owner can be viewed by everyone but changed by no one", async () => {
+  const shared = createTicketSession(null);
+
+  assert.equal((await api(`/ticket/${shared.id}/repo-info`, bob)).status, 200);
+  const deleted = await api(`/ticket/${shared.id}`, bob, { method: "DELETE" });
+  assert.equal(deleted.status, 403);
+  assert.match((await deleted.json()).error, /can be viewed, not changed/);
+  assert.equal((await api(`/ticket/${shared.id}/repo-info`, alice)).status, 200);
+});
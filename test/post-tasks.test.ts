@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { tmpdir } from "os";
+import { runCommand } from "../server/services/post-tasks.js";
+import { isCancellation } from "../server/services/cancellation.js";
+
+// The shell and everything it starts ignore SIGTERM, like some watch-mode runners
+const STUBBORN_COMMAND = "trap '' TERM; sleep 60";
+
+test("a command that ignores SIGTERM is killed when it times out", async () => {
+  const startedAt = Date.now();
+  const result = await runCommand(STUBBORN_COMMAND, { cwd: tmpdir(), timeout: 200 });
+
+  assert.equal(result.timedOut, true);
+  assert.ok(Date.now() - startedAt < 15000);
+});
+
+test("a command that ignores SIGTERM is killed when it is cancelled", async () => {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 200);
+
+  await assert.rejects(
+    runCommand(STUBBORN_COMMAND, { cwd: tmpdir(), timeout: 60000, signal: controller.signal }),
+    (error) => isCancellation(error)
+  );
+});
+
+test("a command's exit code and output are reported", async () => {
+  const lines: string[] = [];
+  const result = await runCommand("echo one; echo two >&2; exit 3", {
+    cwd: tmpdir(),
+    timeout: 10000,
+    onLine: (line) => lines.push(line),
+  });
+
+  assert.equal(result.exitCode, 3);
+  assert.equal(result.timedOut, false);
+  assert.deepEqual(lines.sort(), ["one", "two"]);
+});
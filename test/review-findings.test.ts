@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mergeReviews, type ReviewVerdict, type StructuredReview } from "../server/services/review-findings.js";
+
+function review(verdict: ReviewVerdict, verdictRationale: string): StructuredReview {
+  return { summary: `${verdict} summary`, findings: [], fixed: [], verdict, verdictRationale };
+}
+
+test("a failed part does not soften a request for changes", () => {
+  const merged = mergeReviews([
+    { label: "src/a.ts", review: review("APPROVE", "Looks fine.") },
+    { label: "src/b.ts", review: review("REQUEST_CHANGES", "The query is injectable.") },
+    { label: "src/c.ts", error: "The model timed out" },
+  ]);
+
+  assert.equal(merged.verdict, "REQUEST_CHANGES");
+  assert.equal(merged.verdictRationale, "The query is injectable. 1 of 3 parts could not be reviewed.");
+  assert.match(merged.summary, /\*\*src\/c\.ts\*\*: not reviewed \(The model timed out\)/);
+});
+
+test("a failed part turns an approval into a discussion", () => {
+  const merged = mergeReviews([
+    { label: "src/a.ts", review: review("APPROVE", "Looks fine.") },
+    { label: "src/b.ts", error: "The model timed out" },
+  ]);
+
+  assert.equal(merged.verdict, "NEEDS_DISCUSSION");
+  assert.equal(merged.verdictRationale, "1 of 2 parts could not be reviewed.");
+});
+
+test("without failures the strictest verdict wins", () => {
+  const merged = mergeReviews([
+    { label: "src/a.ts", review: review("APPROVE", "Looks fine.") },
+    { label: "src/b.ts", review: review("NEEDS_DISCUSSION", "The API change needs agreement.") },
+  ]);
+
+  assert.equal(merged.verdict, "NEEDS_DISCUSSION");
+  assert.equal(merged.verdictRationale, "The API change needs agreement.");
+});
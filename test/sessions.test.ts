@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { listen, runInNewProcess, useTemporaryDataDir } from "./helpers.js";
+import { ticketRouter } from "../server/routes/ticket.js";
+import { reviewRouter } from "../server/routes/review.js";
+
+useTemporaryDataDir();
+
+const app = express();
+app.use(express.json());
+app.use("/api/ticket", ticketRouter);
+app.use("/api/review", reviewRouter);
+
+// The session ids a restarted server gets back from the database
+function restoredSessionIds(): { ticket: string[]; review: string[] } {
+  return JSON.parse(
+    runInNewProcess(`
+      const { restoreSessions, listTicketSessions, listReviewSessions } = await import("./server/services/sessions.ts");
+      restoreSessions();
+      console.log(JSON.stringify({
+        ticket: listTicketSessions(null).map((session) => session.id),
+        review: listReviewSessions(null).map((session) => session.id),
+      }));
+    `)
+  );
+}
+
+test("a deleted ticket session stays gone after a restart", async () => {
+  const server = await listen(app);
+  try {
+    const kept = await (await fetch(`${server.url}/api/ticket/sessions`, { method: "POST" })).json();
+    const closed = await (await fetch(`${server.url}/api/ticket/sessions`, { method: "POST" })).json();
+
+    const response = await fetch(`${server.url}/api/ticket/${closed.id}`, { method: "DELETE" });
+    assert.equal(response.status, 200);
+    // The request's close handler runs after the response is sent
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const restored = restoredSessionIds().ticket;
+    assert.ok(restored.includes(kept.id));
+    assert.ok(!restored.includes(closed.id));
+  } finally {
+    await server.close();
+  }
+});
+
+test("a deleted review session stays gone after a restart", async () => {
+  const server = await listen(app);
+  try {
+    const created = await (await fetch(`${server.url}/api/review/sessions`, { method: "POST" })).json();
+
+    const response = await fetch(`${server.url}/api/review/${created.id}`, { method: "DELETE" });
+    assert.equal(response.status, 200);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    assert.ok(!restoredSessionIds().review.includes(created.id));
+  } finally {
+    await server.close();
+  }
+});
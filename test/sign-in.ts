@@ -0,0 +1,52 @@
+import { randomBytes } from "crypto";
+import express, { type Router } from "express";
+import { listen } from "./helpers.js";
+import { authRouter, requireUser } from "../server/routes/auth.js";
+import { fakeIdpRouter } from "../server/routes/fake-idp.js";
+
+/**
+ * Serve API routers behind sign-in as server/index.ts does, with the fake
+ * identity provider on the same server as the issuer and the server itself
+ * as the UI origin, so the callback comes straight back to it.
+ */
+export async function listenWithSignIn(routers: Record<string, Router>): ReturnType<typeof listen> {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/auth", authRouter);
+  app.use("/fake-idp", fakeIdpRouter);
+  app.use("/api", requireUser);
+  for (const [path, router] of Object.entries(routers)) {
+    app.use(path, router);
+  }
+
+  const server = await listen(app);
+  process.env.OIDC_ISSUER = `${server.url}/fake-idp`;
+  process.env.OIDC_CLIENT_ID = "test-client";
+  process.env.UI_ORIGIN = server.url;
+  process.env.TOKEN_ENCRYPTION_KEY ??= randomBytes(32).toString("base64");
+  return server;
+}
+
+// The name=value part of a Set-Cookie header for the named cookie
+export function cookieFrom(response: Response, name: string): string | null {
+  const header = response.headers.getSetCookie().find((cookie) => cookie.startsWith(`${name}=`));
+  return header ? header.split(";")[0] : null;
+}
+
+// Sign in through the fake identity provider as `email`; returns the session cookie
+export async function signIn(url: string, email: string): Promise<string> {
+  const login = await fetch(`${url}/api/auth/login`, { redirect: "manual" });
+  const authorize = new URL(login.headers.get("Location")!);
+  authorize.searchParams.set("login_hint", email);
+
+  const issued = await fetch(authorize, { redirect: "manual" });
+  const callback = await fetch(issued.headers.get("Location")!, {
+    redirect: "manual",
+    headers: { Cookie: cookieFrom(login, "ti_login")! },
+  });
+  const session = cookieFrom(callback, "ti_session");
+  if (!session) {
+    throw new Error(`Sign-in failed: ${callback.headers.get("Location")}`);
+  }
+  return session;
+}
@@ -0,0 +1,64 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import express from "express";
+import { listen, useTemporaryDataDir } from "./helpers.js";
+import { webhooksRouter } from "../server/routes/webhooks.js";
+
+const dataDir = useTemporaryDataDir();
+process.env.WEBHOOK_SECRET = "hook-secret";
+process.env.WEBHOOK_RULES_FILE = join(dataDir, "webhook-rules.json");
+
+const planRule = (repoUrl: string) => ({ events: ["workitem.created"], action: "plan", repoUrl });
+
+function writeRules(rules: Record<string, unknown>): void {
+  writeFileSync(process.env.WEBHOOK_RULES_FILE!, JSON.stringify({ rules }));
+}
+
+let server: Awaited<ReturnType<typeof listen>>;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/webhooks", webhooksRouter);
+  server = await listen(app);
+});
+
+after(() => server.close());
+
+function deliver(eventId: string) {
+  return fetch(`${server.url}/api/webhooks/azure-devops`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Webhook-Secret": "hook-secret" },
+    body: JSON.stringify({
+      id: eventId,
+      eventType: "workitem.created",
+      resource: { id: 42, fields: { "System.TeamProject": "Widgets", "System.WorkItemType": "Bug" } },
+      resourceContainers: { account: { baseUrl: "https://dev.azure.com/acme/" } },
+    }),
+  });
+}
+
+test("a delivery whose jobs cannot all start is left for Azure DevOps to retry", async () => {
+  writeRules({
+    "plan-widgets": planRule("https://dev.azure.com/acme/Widgets/_git/widgets"),
+    "plan-elsewhere": planRule("https://example.com/widgets.git"),
+  });
+
+  const failed = await deliver("event-1");
+  assert.equal(failed.status, 500);
+  assert.match((await failed.json()).error, /Unsupported repository host: https:\/\/example\.com\/widgets\.git/);
+
+  writeRules({ "plan-widgets": planRule("https://dev.azure.com/acme/Widgets/_git/widgets") });
+  const retried = await deliver("event-1");
+  assert.equal(retried.status, 202);
+  const { triggered } = await retried.json();
+  assert.deepEqual(
+    triggered.map((job: { rule: string }) => job.rule),
+    ["plan-widgets"]
+  );
+
+  const redelivered = await deliver("event-1");
+  assert.deepEqual(await redelivered.json(), { eventId: "event-1", duplicate: true, triggered: [] });
+});
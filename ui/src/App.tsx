@@ -1,11 +1,15 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import TicketInput, { type RepoInfo } from "./components/TicketInput";
-import PlanReview, { type PostTask } from "./components/PlanReview";
-import Implementation from "./components/Implementation";
+import PlanReview, { type Plan, type PostTask, type RunOptions } from "./components/PlanReview";
+import Implementation, { type WriteBackSettings } from "./components/Implementation";
+import type { AppliedInstruction } from "./components/AppliedInstructions";
 import ToolSelector from "./components/ToolSelector";
+import SessionBar, { type SessionSummary } from "./components/SessionBar";
 import CodeReviewApp from "./pages/CodeReviewApp";
+import BatchApp from "./pages/BatchApp";
+import { latestJob, type Job } from "./jobs";
 
-type Tool = "ticket" | "review" | null;
+type Tool = "ticket" | "review" | "batch" | null;
 type Step = "input" | "review" | "implement";
 
 interface Ticket {
@@ -17,11 +21,12 @@ interface Ticket {
   assignedTo?: string;
   url: string;
   figmaUrl?: string;
+  source?: string;
 }
 
-interface Plan {
-  summary: string;
-  implementationPlan: string;
+interface DiscussionMessage {
+  role: "user" | "assistant";
+  content: string;
 }
 
 export default function App() {
@@ -29,52 +34,149 @@ export default function App() {
   const [step, setStep] = useState<Step>("input");
   const [ticket, setTicket] = useState<Ticket | null>(null);
   const [plan, setPlan] = useState<Plan | null>(null);
+  const [planInstructions, setPlanInstructions] = useState<AppliedInstruction[]>([]);
   const [selectedModel, setSelectedModel] = useState<string>("claude-sonnet-4.5");
   const [postTasks, setPostTasks] = useState<PostTask[]>([]);
+  const [runOptions, setRunOptions] = useState<RunOptions>({ fixUntilGreen: false, maxFixAttempts: 3, pauseBetweenSteps: false });
+  const [writeBack, setWriteBack] = useState<WriteBackSettings>({
+    moveOnStart: false,
+    startState: "Active",
+    moveOnPr: false,
+    prState: "Resolved",
+    comment: false,
+    linkPr: false,
+  });
   const [repoInfo, setRepoInfo] = useState<RepoInfo | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [planDiscussion, setPlanDiscussion] = useState<DiscussionMessage[]>([]);
+  // An implementation job of the session to show again, e.g. after a page reload
+  const [resumeJob, setResumeJob] = useState<Job | null>(null);
+
+  const refreshSessions = async (): Promise<SessionSummary[]> => {
+    try {
+      const response = await fetch("/api/ticket/sessions");
+      const data = await response.json();
+      setSessions(data.sessions || []);
+      return data.sessions || [];
+    } catch {
+      return [];
+    }
+  };
+
+  const resetTicketState = () => {
+    setStep("input");
+    setTicket(null);
+    setPlan(null);
+    setPlanInstructions([]);
+    setRepoInfo(null);
+    setPlanDiscussion([]);
+    setResumeJob(null);
+  };
+
+  const handleNewSession = async () => {
+    const response = await fetch("/api/ticket/sessions", { method: "POST" });
+    const data = await response.json();
+    resetTicketState();
+    setSessionId(data.id);
+    await refreshSessions();
+  };
+
+  const handleSwitchSession = async (id: string) => {
+    const response = await fetch(`/api/ticket/${id}`);
+    if (!response.ok) {
+      await refreshSessions();
+      return;
+    }
+    const data = await response.json();
+    // The last thing done in the session was implementing: show that run, finished or not
+    const job = await latestJob(id);
+    const implementJob = data.plan && (job?.kind === "implement" || job?.kind === "refine-code") ? job : null;
+    setTicket(data.ticket);
+    setPlan(data.plan);
+    setPlanInstructions(data.planInstructions || []);
+    setRepoInfo(data.repoInfo);
+    setPlanDiscussion(data.discussionHistory || []);
+    setResumeJob(implementJob);
+    setStep(implementJob ? "implement" : data.plan ? "review" : "input");
+    setSessionId(id);
+  };
+
+  const handleCloseSession = async (id: string) => {
+    await fetch(`/api/ticket/${id}`, { method: "DELETE" }).catch(() => {});
+    const remaining = (await refreshSessions()).filter((s) => s.id !== id);
+    if (id !== sessionId) return;
+
+    if (remaining.length > 0) {
+      await handleSwitchSession(remaining[0].id);
+    } else {
+      await handleNewSession();
+    }
+  };
+
+  // Resume the most recent session (or start one) when entering the ticket tool
+  useEffect(() => {
+    if (selectedTool !== "ticket" || sessionId) return;
+
+    refreshSessions().then((existing) => {
+      if (existing.length > 0) {
+        handleSwitchSession(existing[0].id);
+      } else {
+        handleNewSession();
+      }
+    });
+  }, [selectedTool, sessionId]);
 
   const handleTicketFetched = (fetchedTicket: Ticket) => {
     setTicket(fetchedTicket);
+    refreshSessions();
   };
 
-  const handlePlanGenerated = (generatedPlan: Plan) => {
+  const handlePlanGenerated = (generatedPlan: Plan, instructions: AppliedInstruction[]) => {
     setPlan(generatedPlan);
+    setPlanInstructions(instructions);
     setStep("review");
   };
 
+  // Step edits keep the instructions; a refinement reports the ones it used
+  const handlePlanUpdate = (updatedPlan: Plan, instructions?: AppliedInstruction[]) => {
+    setPlan(updatedPlan);
+    if (instructions) setPlanInstructions(instructions);
+  };
+
   const handleRepoReady = (info: RepoInfo) => {
     setRepoInfo(info);
   };
 
-  const handleApprove = (model: string, tasks: PostTask[]) => {
+  const handleApprove = (model: string, tasks: PostTask[], options: RunOptions) => {
     setSelectedModel(model);
     setPostTasks(tasks);
+    setRunOptions(options);
+    setResumeJob(null);
     setStep("implement");
   };
 
-  const handleCancel = () => {
-    setStep("input");
-    setTicket(null);
-    setPlan(null);
+  // Closing the session also cleans up temporary instruction files
+  const handleCancel = async () => {
+    if (sessionId) await handleCloseSession(sessionId);
   };
 
   const handleComplete = async () => {
-    // Cleanup temporary instruction files
-    await fetch("/api/ticket/cleanup-instructions", { method: "POST" }).catch(() => {});
-
-    setStep("input");
-    setTicket(null);
-    setPlan(null);
-    setRepoInfo(null);
+    if (sessionId) await handleCloseSession(sessionId);
   };
 
   const handleBackToSelector = () => {
     setSelectedTool(null);
-    // Reset ticket state
-    setStep("input");
-    setTicket(null);
-    setPlan(null);
-    setRepoInfo(null);
+    // Sessions stay open on the server; the most recent one is resumed on return
+    setSessionId(null);
+    resetTicketState();
+  };
+
+  // Load the session before switching tools so the resume effect keeps it
+  const handleOpenBatchSession = async (id: string) => {
+    await refreshSessions();
+    await handleSwitchSession(id);
+    setSelectedTool("ticket");
   };
 
   // Tool selector landing page
@@ -97,6 +199,15 @@ export default function App() {
     );
   }
 
+  // Batch Runner flow
+  if (selectedTool === "batch") {
+    return (
+      <div className="container">
+        <BatchApp onBackToSelector={handleBackToSelector} onOpenSession={handleOpenBatchSession} />
+      </div>
+    );
+  }
+
   // Ticket Implementer flow (existing)
   return (
     <div className="container">
@@ -108,7 +219,15 @@ export default function App() {
       </button>
 
       <h1>Ticket Implementer</h1>
-      <p>Paste an Azure DevOps ticket URL to generate and implement a plan</p>
+      <p>Paste an Azure DevOps, GitHub, Jira or Linear ticket URL to generate and implement a plan</p>
+
+      <SessionBar
+        sessions={sessions}
+        activeSessionId={sessionId}
+        onSwitch={handleSwitchSession}
+        onClose={handleCloseSession}
+        onNew={handleNewSession}
+      />
 
       <div className="steps">
         <div
@@ -133,31 +252,45 @@ export default function App() {
         </div>
       </div>
 
-      {step === "input" && (
+      {step === "input" && sessionId && (
         <TicketInput
+          key={sessionId}
+          sessionId={sessionId}
           onTicketFetched={handleTicketFetched}
           onPlanGenerated={handlePlanGenerated}
           onRepoReady={handleRepoReady}
           ticket={ticket}
+          repoInfo={repoInfo}
         />
       )}
 
-      {step === "review" && ticket && plan && (
+      {step === "review" && sessionId && ticket && plan && (
         <PlanReview
+          key={sessionId}
+          sessionId={sessionId}
           ticket={ticket}
           plan={plan}
+          instructions={planInstructions}
           onApprove={handleApprove}
           onCancel={handleCancel}
-          onPlanUpdate={setPlan}
+          onPlanUpdate={handlePlanUpdate}
+          initialDiscussion={planDiscussion}
         />
       )}
 
-      {step === "implement" && (
+      {step === "implement" && sessionId && (
         <Implementation
+          key={sessionId}
+          sessionId={sessionId}
           onComplete={handleComplete}
           model={selectedModel}
           postTasks={postTasks}
+          runOptions={runOptions}
+          steps={plan?.steps.filter((planStep) => planStep.enabled) ?? []}
           canCreatePr={repoInfo?.canCreatePr ?? false}
+          writeBack={ticket?.source === "azure-devops" ? writeBack : null}
+          onWriteBackChange={setWriteBack}
+          resumeJob={resumeJob}
         />
       )}
     </div>
@@ -0,0 +1,49 @@
+/**
+ * Sign-in, when the server has it configured: the session is an HttpOnly
+ * cookie, so the UI only ever asks the server who is signed in.
+ */
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string | null;
+  /** Whether the user has added their Azure DevOps token */
+  hasAdoToken: boolean;
+}
+
+export interface AuthState {
+  enabled: boolean;
+  user: AuthUser | null;
+}
+
+export async function fetchAuthState(): Promise<AuthState> {
+  const response = await fetch("/api/auth/me");
+  if (!response.ok) {
+    throw new Error("Could not reach the server");
+  }
+  return response.json();
+}
+
+// Leave for the identity provider, coming back to the current page
+export function signIn(): void {
+  const here = new URL(window.location.href);
+  here.searchParams.delete("loginError");
+  window.location.href = `/api/auth/login?returnTo=${encodeURIComponent(here.pathname + here.search)}`;
+}
+
+export async function signOut(): Promise<void> {
+  await fetch("/api/auth/logout", { method: "POST" });
+}
+
+// Store (or with null, remove) the signed-in user's Azure DevOps token
+export async function saveAdoToken(token: string | null): Promise<AuthUser> {
+  const response = await fetch("/api/auth/ado-token", {
+    method: token ? "PUT" : "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: token ? JSON.stringify({ token }) : undefined,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || "Could not save the token");
+  }
+  return data.user;
+}
@@ -0,0 +1,62 @@
+// A repository instruction file a Copilot session was given, and the files that made it apply
+export interface AppliedInstruction {
+  path: string;
+  name: string;
+  description: string;
+  applyTo: string[];
+  matchedFiles: string[];
+}
+
+interface Props {
+  instructions: AppliedInstruction[];
+}
+
+/**
+ * Merge instruction lists from several sessions (e.g. the parts of a large
+ * review), one entry per file with the matched files combined.
+ */
+export function mergeInstructions(
+  current: AppliedInstruction[],
+  added: AppliedInstruction[]
+): AppliedInstruction[] {
+  const merged = [...current];
+  for (const instruction of added) {
+    const i = merged.findIndex((existing) => existing.path === instruction.path);
+    if (i === -1) {
+      merged.push(instruction);
+    } else {
+      merged[i] = {
+        ...merged[i],
+        matchedFiles: [...new Set([...merged[i].matchedFiles, ...instruction.matchedFiles])],
+      };
+    }
+  }
+  return merged;
+}
+
+export default function AppliedInstructions({ instructions }: Props) {
+  if (instructions.length === 0) return null;
+
+  return (
+    <div className="applied-instructions">
+      <span className="applied-instructions-label">Instructions applied:</span>
+      {instructions.map((instruction) => (
+        <span
+          key={instruction.path}
+          className="applied-instruction"
+          title={[
+            instruction.path,
+            instruction.description,
+            instruction.matchedFiles.length > 0
+              ? `Matched: ${instruction.matchedFiles.join(", ")}`
+              : "Applies to every file",
+          ]
+            .filter(Boolean)
+            .join("\n")}
+        >
+          {instruction.name}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { fetchAuthState, signIn, signOut, saveAdoToken, type AuthState } from "../auth";
+
+interface Props {
+  children: ReactNode;
+}
+
+/**
+ * Shows the application only to signed-in users when the server has sign-in
+ * configured, with an account bar for the user's Azure DevOps token.
+ * Without sign-in, the application is shown as is.
+ */
+export default function AuthGate({ children }: Props) {
+  const [auth, setAuth] = useState<AuthState | null>(null);
+  const [error, setError] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("loginError")
+  );
+  const [editingToken, setEditingToken] = useState(false);
+  const [token, setToken] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchAuthState()
+      .then((state) => {
+        setAuth(state);
+        // Ask for the token straight away: without it, Azure DevOps work fails
+        setEditingToken(!!state.user && !state.user.hasAdoToken);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Could not reach the server"));
+  }, []);
+
+  const handleSaveToken = async (value: string | null) => {
+    if (!auth?.user) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const user = await saveAdoToken(value);
+      setAuth({ ...auth, user });
+      setToken("");
+      setEditingToken(!user.hasAdoToken);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the token");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut().catch(() => {});
+    setAuth({ enabled: true, user: null });
+  };
+
+  if (!auth) {
+    return error ? (
+      <div className="container">
+        <div className="error">{error}</div>
+      </div>
+    ) : null;
+  }
+
+  if (!auth.enabled) {
+    return <>{children}</>;
+  }
+
+  if (!auth.user) {
+    return (
+      <div className="container">
+        <h1>Developer Tools</h1>
+        <p>Sign in with your organization account to continue</p>
+        <div className="card sign-in">
+          <button className="primary" onClick={signIn}>
+            Sign in
+          </button>
+          {error && <div className="error">{error}</div>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="account-bar">
+        <span className="account-name" title={auth.user.email ?? undefined}>
+          {auth.user.name}
+        </span>
+        <span className={`account-token-status ${auth.user.hasAdoToken ? "set" : "missing"}`}>
+          {auth.user.hasAdoToken ? "Azure DevOps token added" : "No Azure DevOps token"}
+        </span>
+        <button className="small secondary" onClick={() => setEditingToken(!editingToken)}>
+          {auth.user.hasAdoToken ? "Replace token" : "Add token"}
+        </button>
+        {auth.user.hasAdoToken && (
+          <button className="small secondary" onClick={() => handleSaveToken(null)} disabled={saving}>
+            Remove token
+          </button>
+        )}
+        <button className="small secondary" onClick={handleSignOut}>
+          Sign out
+        </button>
+      </div>
+
+      {editingToken && (
+        <form
+          className="account-token"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (token.trim()) handleSaveToken(token.trim());
+          }}
+        >
+          <p>
+            Pull requests, comments and work item changes are made with your own Azure DevOps personal access
+            token (Code: Read &amp; Write, Work Items: Read &amp; Write). It is stored encrypted on the server.
+          </p>
+          <div className="account-token-input">
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="Personal access token"
+              autoComplete="off"
+            />
+            <button type="submit" className="primary small" disabled={saving || !token.trim()}>
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      )}
+      {error && <div className="error account-error">{error}</div>}
+
+      {children}
+    </>
+  );
+}
@@ -1,8 +1,28 @@
 import { useEffect, useState, useRef, useMemo } from "react";
+import type { PlanStep, PostTask, RunOptions } from "./PlanReview";
+import AppliedInstructions, { type AppliedInstruction } from "./AppliedInstructions";
+import { startJob, followJob, type Job } from "../jobs";
+
+interface PostTaskResult {
+  id: string;
+  name: string;
+  status: "passed" | "failed" | "timed_out";
+  exitCode: number | null;
+  durationMs: number;
+  attempts: number;
+}
 
 interface ProgressLine {
-  type: "message" | "tool_start" | "tool_end" | "complete" | "error" | "pr_created" | "post_task" | "changes_pushed";
+  type: "message" | "tool_start" | "tool_end" | "complete" | "error" | "pr_created" | "post_task" | "changes_pushed" | "cancelled" | "phase" | "step_start" | "step_complete" | "step_paused" | "checkpoint" | "instructions";
   content: string;
+  stepId?: string;
+  // Set on instructions events: the repository instructions the session was given
+  instructions?: AppliedInstruction[];
+  checkpointId?: string;
+  // Set on post_task events: output lines carry their stream, the last event per run its result
+  taskId?: string;
+  stream?: "stdout" | "stderr";
+  result?: PostTaskResult;
 }
 
 // Map internal Copilot SDK tool names to user-friendly descriptions
@@ -34,10 +54,13 @@ function formatToolName(rawName: string): string {
   return rawName;
 }
 
-interface PostTask {
+type StepStatus = "pending" | "running" | "paused" | "done";
+
+interface Checkpoint {
   id: string;
-  name: string;
-  command: string;
+  label: string;
+  stepId?: string;
+  createdAt: string;
 }
 
 interface DiscussionMessage {
@@ -45,42 +68,110 @@ interface DiscussionMessage {
   content: string;
 }
 
+/** What to write back to the Azure DevOps work item as the run progresses */
+export interface WriteBackSettings {
+  moveOnStart: boolean;
+  startState: string;
+  moveOnPr: boolean;
+  prState: string;
+  comment: boolean;
+  linkPr: boolean;
+}
+
+type MergeStrategy = "squash" | "noFastForward" | "rebase" | "rebaseMerge";
+
+const MERGE_STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  squash: "Squash commit",
+  noFastForward: "Merge (no fast-forward)",
+  rebase: "Rebase and fast-forward",
+  rebaseMerge: "Semi-linear merge",
+};
+
+// "a@x.com, b@x.com" → ["a@x.com", "b@x.com"]
+function splitList(text: string): string[] {
+  return text.split(/[,;\n]/).map((item) => item.trim()).filter(Boolean);
+}
+
+interface WriteBackResult {
+  action: "state" | "comment" | "links";
+  ok: boolean;
+  message: string;
+}
+
 interface Props {
+  sessionId: string;
   onComplete: () => void;
   model: string;
   postTasks: PostTask[];
+  runOptions: RunOptions;
+  /** The enabled plan steps, in the order they will run */
+  steps: PlanStep[];
   canCreatePr: boolean;
+  /** Only set for Azure DevOps tickets; other trackers have no write-back */
+  writeBack: WriteBackSettings | null;
+  onWriteBackChange: (settings: WriteBackSettings) => void;
+  /** Show this implementation or refinement job instead of starting a new run */
+  resumeJob?: Job | null;
 }
 
-export default function Implementation({ onComplete, model, postTasks, canCreatePr }: Props) {
+export default function Implementation({ sessionId, onComplete, model, postTasks, runOptions, steps, canCreatePr, writeBack, onWriteBackChange, resumeJob }: Props) {
   const [lines, setLines] = useState<ProgressLine[]>([]);
   const [isComplete, setIsComplete] = useState(false);
   const [hasError, setHasError] = useState(false);
+  const [isCancelled, setIsCancelled] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
+  const [postTaskResults, setPostTaskResults] = useState<PostTaskResult[]>([]);
+  const [stepStatus, setStepStatus] = useState<Record<string, StepStatus>>({});
+  const [instructions, setInstructions] = useState<AppliedInstruction[]>([]);
+  const [isContinuing, setIsContinuing] = useState(false);
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  // A checkpoint diff shown in place of the uncommitted changes
+  const [checkpointDiff, setCheckpointDiff] = useState<{ label: string; diff: string } | null>(null);
+  const [checkpointError, setCheckpointError] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [diffVersion, setDiffVersion] = useState(0);
   const [prUrl, setPrUrl] = useState<string | null>(null);
   const [changesPushed, setChangesPushed] = useState(false);
   const [diff, setDiff] = useState<string | null>(null);
   const [loadingDiff, setLoadingDiff] = useState(false);
   const [creatingPr, setCreatingPr] = useState(false);
   const [prError, setPrError] = useState<string | null>(null);
+  // Empty means the repository's default branch
+  const [targetBranch, setTargetBranch] = useState("");
+  const [isDraft, setIsDraft] = useState(false);
+  const [requiredReviewers, setRequiredReviewers] = useState("");
+  const [optionalReviewers, setOptionalReviewers] = useState("");
+  const [prLabels, setPrLabels] = useState("");
+  const [linkWorkItem, setLinkWorkItem] = useState(true);
+  const [autoComplete, setAutoComplete] = useState(false);
+  const [mergeStrategy, setMergeStrategy] = useState<MergeStrategy>("squash");
+  const [deleteSourceBranch, setDeleteSourceBranch] = useState(true);
+  const [writeBackResults, setWriteBackResults] = useState<WriteBackResult[]>([]);
   const [commitPushError, setCommitPushError] = useState<string | null>(null);
   const [isCommitting, setIsCommitting] = useState(false);
   const [refineFeedback, setRefineFeedback] = useState("");
   const [isRefining, setIsRefining] = useState(false);
   const [selectedFileIndex, setSelectedFileIndex] = useState(0);
-  const hasStarted = useRef(false);
+  const started = useRef<Promise<Job> | null>(null);
+  // Aborted when the component goes away, to stop following jobs
+  const following = useRef<AbortController | null>(null);
+  // Whether the running stream is a refinement of an already complete implementation
+  const isRefineRun = useRef(false);
   const [discussionMessages, setDiscussionMessages] = useState<DiscussionMessage[]>([]);
   const [discussionQuestion, setDiscussionQuestion] = useState("");
   const [isDiscussing, setIsDiscussing] = useState(false);
   const [showDiscussion, setShowDiscussion] = useState(false);
 
+  const shownDiff = checkpointDiff?.diff ?? diff;
+
   // Parse diff into individual files (simple parser)
   const parsedFiles = useMemo(() => {
-    if (!diff || diff === "(No changes detected)") return [];
+    if (!shownDiff || shownDiff === "(No changes detected)") return [];
 
     const files: { name: string; lines: string[] }[] = [];
     let currentFile: { name: string; lines: string[] } | null = null;
 
-    for (const line of diff.split("\n")) {
+    for (const line of shownDiff.split("\n")) {
       // New file starts with "diff --git" or "+++ b/filename"
       if (line.startsWith("diff --git")) {
         const match = line.match(/diff --git a\/.+ b\/(.+)/);
@@ -101,38 +192,12 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
     }
 
     return files;
-  }, [diff]);
+  }, [shownDiff]);
 
   // Reset selected file when diff changes
   useEffect(() => {
     setSelectedFileIndex(0);
-  }, [diff]);
-
-  const parseSSEStream = async (response: Response, onData: (data: ProgressLine) => void) => {
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-
-    if (!reader) return;
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const text = decoder.decode(value);
-      const lines = text.split("\n");
-
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          try {
-            const data = JSON.parse(line.slice(6)) as ProgressLine;
-            onData(data);
-          } catch {
-            // Ignore parse errors
-          }
-        }
-      }
-    }
-  };
+  }, [shownDiff]);
 
   const handleSSEData = (data: ProgressLine) => {
     // For message type, accumulate content into the last message line
@@ -162,6 +227,32 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
     } else if (data.type === "error") {
       setHasError(true);
       setIsRefining(false);
+    } else if (data.type === "cancelled") {
+      setIsStopping(false);
+      setIsRefining(false);
+      // A cancelled refinement leaves the previous implementation in place
+      if (isRefineRun.current) {
+        setIsComplete(true);
+      } else {
+        setIsCancelled(true);
+      }
+    } else if (data.type === "step_start" || data.type === "step_complete" || data.type === "step_paused") {
+      const stepId = data.stepId;
+      if (stepId) {
+        const status = data.type === "step_start" ? "running" : data.type === "step_paused" ? "paused" : "done";
+        setStepStatus((prev) => ({ ...prev, [stepId]: status }));
+      }
+      if (data.type === "step_start") {
+        setIsContinuing(false);
+      }
+    } else if (data.type === "checkpoint") {
+      fetchCheckpoints();
+    } else if (data.type === "instructions") {
+      setInstructions(data.instructions ?? []);
+    } else if (data.type === "post_task" && data.result) {
+      const result = data.result;
+      // A re-run after a fix attempt replaces the task's earlier result
+      setPostTaskResults((prev) => [...prev.filter((r) => r.id !== result.id), result]);
     } else if (data.type === "pr_created") {
       setPrUrl(data.content);
     } else if (data.type === "changes_pushed") {
@@ -169,30 +260,70 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
     }
   };
 
+  const moveWorkItem = async (state: string) => {
+    if (!state.trim()) return;
+    try {
+      const response = await fetch(`/api/ticket/${sessionId}/work-item-state`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ state }),
+      });
+      const data = await response.json();
+      setLines((prev) => [
+        ...prev,
+        response.ok
+          ? { type: "phase", content: data.message }
+          : { type: "message", content: `Could not update the work item: ${data.error}` },
+      ]);
+    } catch (err) {
+      setLines((prev) => [
+        ...prev,
+        { type: "message", content: `Could not update the work item: ${err instanceof Error ? err.message : "Request failed"}` },
+      ]);
+    }
+  };
+
+  const handleMoveOnStartChange = (checked: boolean) => {
+    if (!writeBack) return;
+    onWriteBackChange({ ...writeBack, moveOnStart: checked });
+    // The run has already started, so apply it now
+    if (checked) {
+      moveWorkItem(writeBack.startState);
+    }
+  };
+
   useEffect(() => {
-    if (hasStarted.current) return;
-    hasStarted.current = true;
+    const controller = new AbortController();
+    following.current = controller;
 
-    const startImplementation = async () => {
-      try {
-        const response = await fetch("/api/ticket/implement", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ model, postTasks }),
-        });
-
-        await parseSSEStream(response, handleSSEData);
-      } catch (err) {
+    // Start the run only once; following it again is harmless, as every event is replayed
+    if (!started.current) {
+      // A job that was already running (or has finished) when the page was opened
+      if (resumeJob) {
+        isRefineRun.current = resumeJob.kind === "refine-code";
+        setIsRefining(isRefineRun.current);
+      } else if (writeBack?.moveOnStart) {
+        moveWorkItem(writeBack.startState);
+      }
+      started.current = resumeJob
+        ? Promise.resolve(resumeJob)
+        : startJob(`/api/ticket/${sessionId}/implement`, { model, postTasks, ...runOptions });
+    }
+
+    started.current
+      .then((job) => followJob(job.id, handleSSEData, controller.signal))
+      .catch((err) => {
+        if (controller.signal.aborted) return;
         setLines((prev) => [
           ...prev,
           { type: "error", content: err instanceof Error ? err.message : "Connection failed" },
         ]);
         setHasError(true);
-      }
-    };
+      });
 
-    startImplementation();
-  }, [model, postTasks]);
+    return () => controller.abort();
+    // The start state is only applied once, as the run begins
+  }, [sessionId, model, postTasks, runOptions]);
 
   // Fetch diff when implementation completes (and after refinements)
   useEffect(() => {
@@ -200,7 +331,7 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
       const fetchDiff = async () => {
         setLoadingDiff(true);
         try {
-          const response = await fetch("/api/ticket/diff");
+          const response = await fetch(`/api/ticket/${sessionId}/diff`);
           const data = await response.json();
           if (response.ok) {
             setDiff(data.diff || "(No changes detected)");
@@ -213,13 +344,30 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
       };
       fetchDiff();
     }
-  }, [isComplete, changesPushed, isRefining]);
+  }, [isComplete, changesPushed, isRefining, diffVersion]);
+
+  // Pre-fill the target branch with the repository's default branch
+  useEffect(() => {
+    if (!changesPushed || !canCreatePr) return;
+    const fetchDefaultBranch = async () => {
+      try {
+        const response = await fetch(`/api/ticket/${sessionId}/default-branch`);
+        const data = await response.json();
+        if (response.ok) {
+          setTargetBranch((current) => current || data.branch);
+        }
+      } catch {
+        // Leave it empty; the server falls back to the default branch itself
+      }
+    };
+    fetchDefaultBranch();
+  }, [sessionId, changesPushed, canCreatePr]);
 
   const handleCommitPush = async () => {
     setIsCommitting(true);
     setCommitPushError(null);
     try {
-      const response = await fetch("/api/ticket/commit-push", {
+      const response = await fetch(`/api/ticket/${sessionId}/commit-push`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
       });
@@ -242,6 +390,7 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
   const handleRefineCode = async () => {
     if (!refineFeedback.trim()) return;
 
+    isRefineRun.current = true;
     setIsRefining(true);
     setIsComplete(false);
     setDiff(null);
@@ -251,14 +400,9 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
     ]);
 
     try {
-      const response = await fetch("/api/ticket/refine-code", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ feedback: refineFeedback, model }),
-      });
-
-      await parseSSEStream(response, handleSSEData);
+      const job = await startJob(`/api/ticket/${sessionId}/refine-code`, { feedback: refineFeedback, model });
       setRefineFeedback("");
+      await followJob(job.id, handleSSEData, following.current?.signal);
     } catch (err) {
       setLines((prev) => [
         ...prev,
@@ -269,19 +413,111 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
     }
   };
 
+  const handleStop = async () => {
+    setIsStopping(true);
+    try {
+      await fetch(`/api/ticket/${sessionId}/cancel`, { method: "POST" });
+    } catch {
+      setIsStopping(false);
+    }
+  };
+
+  const handleContinue = async () => {
+    setIsContinuing(true);
+    try {
+      const response = await fetch(`/api/ticket/${sessionId}/continue`, { method: "POST" });
+      if (!response.ok) {
+        setIsContinuing(false);
+      }
+    } catch {
+      setIsContinuing(false);
+    }
+  };
+
+  const fetchCheckpoints = async () => {
+    try {
+      const response = await fetch(`/api/ticket/${sessionId}/checkpoints`);
+      const data = await response.json();
+      if (response.ok) {
+        setCheckpoints(data.checkpoints);
+      }
+    } catch {
+      // The timeline is optional
+    }
+  };
+
+  const handleShowCheckpointDiff = async (label: string, url: string) => {
+    setCheckpointError(null);
+    try {
+      const response = await fetch(url);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to get diff");
+      }
+      setCheckpointDiff({ label, diff: data.diff || "(No changes detected)" });
+    } catch (err) {
+      setCheckpointError(err instanceof Error ? err.message : "Failed to get diff");
+    }
+  };
+
+  const handleRollback = async (checkpoint: Checkpoint) => {
+    if (!confirm(`Roll back the workspace to "${checkpoint.label}"? Changes made since then will be undone.`)) {
+      return;
+    }
+
+    setRollingBack(checkpoint.id);
+    setCheckpointError(null);
+    try {
+      const response = await fetch(`/api/ticket/${sessionId}/checkpoints/${checkpoint.id}/rollback`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to roll back");
+      }
+      setCheckpoints(data.checkpoints);
+      setCheckpointDiff(null);
+      setDiffVersion((version) => version + 1);
+      setLines((prev) => [...prev, { type: "phase", content: `Rolled back to "${checkpoint.label}"` }]);
+    } catch (err) {
+      setCheckpointError(err instanceof Error ? err.message : "Failed to roll back");
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
   const handleCreatePr = async () => {
     setCreatingPr(true);
     setPrError(null);
     try {
-      const response = await fetch("/api/ticket/create-pr", {
+      const response = await fetch(`/api/ticket/${sessionId}/create-pr`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          targetBranch: targetBranch.trim() || undefined,
+          isDraft,
+          reviewers: [
+            ...splitList(requiredReviewers).map((name) => ({ name, required: true })),
+            ...splitList(optionalReviewers).map((name) => ({ name, required: false })),
+          ],
+          labels: splitList(prLabels),
+          linkWorkItem: !!writeBack && linkWorkItem,
+          ...(autoComplete && { autoComplete: { mergeStrategy, deleteSourceBranch } }),
+          ...(writeBack && {
+            writeBack: {
+              state: writeBack.moveOnPr && writeBack.prState.trim() ? writeBack.prState.trim() : undefined,
+              comment: writeBack.comment,
+              links: writeBack.linkPr,
+            },
+          }),
+        }),
       });
       const data = await response.json();
       if (!response.ok) {
         throw new Error(data.error || "Failed to create PR");
       }
       setPrUrl(data.url);
+      setWriteBackResults(data.writeBack || []);
     } catch (err) {
       setPrError(err instanceof Error ? err.message : "Failed to create PR");
     } finally {
@@ -297,7 +533,7 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
     setIsDiscussing(true);
 
     try {
-      const response = await fetch("/api/ticket/discuss-implementation", {
+      const response = await fetch(`/api/ticket/${sessionId}/discuss-implementation`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ question: discussionQuestion, diff: diff || "" }),
@@ -320,14 +556,17 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
 
   const handleClearDiscussion = async () => {
     try {
-      await fetch("/api/ticket/clear-implementation-discussion", { method: "POST" });
+      await fetch(`/api/ticket/${sessionId}/clear-implementation-discussion`, { method: "POST" });
       setDiscussionMessages([]);
     } catch {
       // Ignore errors
     }
   };
 
-  const getLineClass = (type: ProgressLine["type"]) => {
+  const getLineClass = ({ type, stream }: ProgressLine) => {
+    if (stream) {
+      return `progress-line task-output ${stream}`;
+    }
     switch (type) {
       case "tool_start":
       case "tool_end":
@@ -338,12 +577,23 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
         return "progress-line complete";
       case "post_task":
         return "progress-line post-task";
+      case "cancelled":
+        return "progress-line cancelled";
+      case "phase":
+        return "progress-line phase";
+      case "step_start":
+      case "step_complete":
+      case "step_paused":
+        return "progress-line step";
+      case "checkpoint":
+        return "progress-line checkpoint";
       default:
         return "progress-line";
     }
   };
 
-  const isWorking = !isComplete && !hasError;
+  const isWorking = !isComplete && !hasError && !isCancelled;
+  const isPaused = isWorking && Object.values(stepStatus).includes("paused");
   const canRefine = isComplete && !changesPushed && !isRefining;
   const canCommit = isComplete && !changesPushed && !isRefining && diff && diff !== "(No changes detected)";
 
@@ -351,13 +601,30 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
     <div className="card">
       <h3>Implementation Progress</h3>
 
+      <AppliedInstructions instructions={instructions} />
+
+      {steps.length > 1 && (
+        <ol className="step-tracker">
+          {steps.map((step) => (
+            <li key={step.id} className={stepStatus[step.id] ?? "pending"}>
+              {step.title}
+            </li>
+          ))}
+        </ol>
+      )}
+
       <div className="progress-output">
         {lines.map((line, i) => (
-          <div key={i} className={getLineClass(line.type)}>
+          <div key={i} className={getLineClass(line)}>
             {line.type === "complete" && "🎉 "}
             {line.type === "error" && "❌ "}
             {line.type === "pr_created" && "🔗 "}
-            {line.type === "post_task" && "⚡ "}
+            {line.type === "post_task" && !line.stream && "⚡ "}
+            {line.type === "cancelled" && "⏹ "}
+            {line.type === "phase" && "🔁 "}
+            {line.type === "step_start" && "▶ "}
+            {line.type === "step_paused" && "⏸ "}
+            {line.type === "checkpoint" && "📌 "}
             {line.type === "pr_created"
               ? "Pull request created!"
               : (line.type === "tool_start" || line.type === "tool_end")
@@ -368,6 +635,92 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
         {isWorking && <div className="progress-line">▌</div>}
       </div>
 
+      {postTaskResults.length > 0 && (
+        <table className="post-task-results">
+          <thead>
+            <tr>
+              <th>Task</th>
+              <th>Result</th>
+              <th>Exit code</th>
+              <th>Duration</th>
+              <th>Runs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {postTaskResults.map((result) => (
+              <tr key={result.id} className={result.status}>
+                <td>{result.name}</td>
+                <td>{result.status === "timed_out" ? "timed out" : result.status}</td>
+                <td>{result.exitCode ?? "–"}</td>
+                <td>{(result.durationMs / 1000).toFixed(1)}s</td>
+                <td>{result.attempts}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {isWorking && (
+        <div className="stop-bar">
+          {isPaused && (
+            <button className="primary small" onClick={handleContinue} disabled={isContinuing || isStopping}>
+              {isContinuing ? "Continuing..." : "Continue to next step"}
+            </button>
+          )}
+          <button className="stop-button" onClick={handleStop} disabled={isStopping}>
+            {isStopping ? "Stopping..." : "Stop"}
+          </button>
+        </div>
+      )}
+
+      {checkpoints.length > 0 && !changesPushed && (
+        <div className="checkpoint-timeline">
+          <h4>Checkpoints</h4>
+          <ol>
+            {checkpoints.map((checkpoint) => (
+              <li key={checkpoint.id}>
+                <span className="checkpoint-time">{new Date(checkpoint.createdAt).toLocaleTimeString()}</span>
+                <span className="checkpoint-label">{checkpoint.label}</span>
+                {isComplete && (
+                  <>
+                    <button
+                      className="edit-toggle"
+                      onClick={() =>
+                        handleShowCheckpointDiff(
+                          `Changes in "${checkpoint.label}"`,
+                          `/api/ticket/${sessionId}/checkpoints/${checkpoint.id}/diff`
+                        )
+                      }
+                    >
+                      Changes
+                    </button>
+                    <button
+                      className="edit-toggle"
+                      onClick={() =>
+                        handleShowCheckpointDiff(
+                          `Changes since "${checkpoint.label}"`,
+                          `/api/ticket/${sessionId}/diff?checkpoint=${checkpoint.id}`
+                        )
+                      }
+                    >
+                      Compare with now
+                    </button>
+                  </>
+                )}
+                <button
+                  className="edit-toggle"
+                  onClick={() => handleRollback(checkpoint)}
+                  disabled={isWorking || rollingBack !== null}
+                >
+                  {rollingBack === checkpoint.id ? "Rolling back..." : "Roll back"}
+                </button>
+              </li>
+            ))}
+          </ol>
+          {checkpointError && <p className="error">{checkpointError}</p>}
+        </div>
+      )}
+
       {/* Show diff after implementation (before commit) */}
       {isComplete && !changesPushed && loadingDiff && (
         <div className="diff-section">
@@ -378,11 +731,20 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
 
       {isComplete && !changesPushed && diff !== null && (
         <div className="diff-section">
-          <h4>Git Diff (Uncommitted Changes)</h4>
-          {diff === "(No changes detected)" ? (
-            <pre className="diff-output">{diff}</pre>
+          {checkpointDiff ? (
+            <div className="plan-header">
+              <h4>{checkpointDiff.label}</h4>
+              <button className="edit-toggle" onClick={() => setCheckpointDiff(null)}>
+                Back to uncommitted changes
+              </button>
+            </div>
+          ) : (
+            <h4>Git Diff (Uncommitted Changes)</h4>
+          )}
+          {shownDiff === "(No changes detected)" ? (
+            <pre className="diff-output">{shownDiff}</pre>
           ) : parsedFiles.length === 0 ? (
-            <pre className="diff-output">{diff}</pre>
+            <pre className="diff-output">{shownDiff}</pre>
           ) : (
             <>
               {/* File tabs */}
@@ -542,8 +904,163 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
         </div>
       )}
 
+      {writeBackResults.length > 0 && (
+        <ul className="write-back-results">
+          {writeBackResults.map((result) => (
+            <li key={result.action} className={result.ok ? "ok" : "failed"}>
+              {result.ok ? "✓" : "✗"} {result.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {writeBack && !prUrl && (
+        <div className="write-back-settings">
+          <h4>Azure DevOps Work Item</h4>
+          <label className="fix-until-green-toggle">
+            <input
+              type="checkbox"
+              checked={writeBack.moveOnStart}
+              onChange={(e) => handleMoveOnStartChange(e.target.checked)}
+            />
+            Move to
+            <input
+              type="text"
+              value={writeBack.startState}
+              onChange={(e) => onWriteBackChange({ ...writeBack, startState: e.target.value })}
+              disabled={writeBack.moveOnStart}
+            />
+            when implementation starts
+          </label>
+          <label className="fix-until-green-toggle">
+            <input
+              type="checkbox"
+              checked={writeBack.moveOnPr}
+              onChange={(e) => onWriteBackChange({ ...writeBack, moveOnPr: e.target.checked })}
+              disabled={creatingPr}
+            />
+            Move to
+            <input
+              type="text"
+              value={writeBack.prState}
+              onChange={(e) => onWriteBackChange({ ...writeBack, prState: e.target.value })}
+              disabled={creatingPr}
+            />
+            when the pull request is created
+          </label>
+          <label className="fix-until-green-toggle">
+            <input
+              type="checkbox"
+              checked={writeBack.comment}
+              onChange={(e) => onWriteBackChange({ ...writeBack, comment: e.target.checked })}
+              disabled={creatingPr}
+            />
+            Comment with the plan summary when the pull request is created
+          </label>
+          <label className="fix-until-green-toggle">
+            <input
+              type="checkbox"
+              checked={writeBack.linkPr}
+              onChange={(e) => onWriteBackChange({ ...writeBack, linkPr: e.target.checked })}
+              disabled={creatingPr}
+            />
+            Link the pull request and branch to the work item
+          </label>
+        </div>
+      )}
+
       {changesPushed && !prUrl && canCreatePr && (
         <div className="create-pr-section">
+          <div className="form-group">
+            <label htmlFor="target-branch">Target branch</label>
+            <input
+              id="target-branch"
+              type="text"
+              value={targetBranch}
+              onChange={(e) => setTargetBranch(e.target.value)}
+              placeholder="Repository default branch"
+              disabled={creatingPr}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="required-reviewers">Required reviewers</label>
+            <input
+              id="required-reviewers"
+              type="text"
+              value={requiredReviewers}
+              onChange={(e) => setRequiredReviewers(e.target.value)}
+              placeholder="Emails or usernames, comma separated"
+              disabled={creatingPr}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="optional-reviewers">Optional reviewers</label>
+            <input
+              id="optional-reviewers"
+              type="text"
+              value={optionalReviewers}
+              onChange={(e) => setOptionalReviewers(e.target.value)}
+              placeholder="Emails or usernames, comma separated"
+              disabled={creatingPr}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="pr-labels">Labels</label>
+            <input
+              id="pr-labels"
+              type="text"
+              value={prLabels}
+              onChange={(e) => setPrLabels(e.target.value)}
+              placeholder="Comma separated"
+              disabled={creatingPr}
+            />
+          </div>
+          <div className="pr-options">
+            <label className="fix-until-green-toggle">
+              <input type="checkbox" checked={isDraft} onChange={(e) => setIsDraft(e.target.checked)} disabled={creatingPr} />
+              Create as draft
+            </label>
+            {writeBack && (
+              <label className="fix-until-green-toggle">
+                <input
+                  type="checkbox"
+                  checked={linkWorkItem}
+                  onChange={(e) => setLinkWorkItem(e.target.checked)}
+                  disabled={creatingPr}
+                />
+                Link the work item to the pull request
+              </label>
+            )}
+            <label className="fix-until-green-toggle">
+              <input
+                type="checkbox"
+                checked={autoComplete}
+                onChange={(e) => setAutoComplete(e.target.checked)}
+                disabled={creatingPr}
+              />
+              Auto-complete when policies pass, using
+              <select
+                value={mergeStrategy}
+                onChange={(e) => setMergeStrategy(e.target.value as MergeStrategy)}
+                disabled={creatingPr || !autoComplete}
+              >
+                {Object.entries(MERGE_STRATEGY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            {autoComplete && (
+              <label className="fix-until-green-toggle">
+                <input
+                  type="checkbox"
+                  checked={deleteSourceBranch}
+                  onChange={(e) => setDeleteSourceBranch(e.target.checked)}
+                  disabled={creatingPr}
+                />
+                Delete the source branch after merging
+              </label>
+            )}
+          </div>
           <button
             className="primary"
             onClick={handleCreatePr}
@@ -557,14 +1074,14 @@ export default function Implementation({ onComplete, model, postTasks, canCreate
 
       {changesPushed && !prUrl && !canCreatePr && (
         <div className="pr-not-available">
-          PR creation is only available for Azure DevOps repositories.
+          PR creation is only available for Azure DevOps and GitHub repositories.
         </div>
       )}
 
-      {(isComplete || hasError) && !isRefining && (
+      {(isComplete || hasError || isCancelled) && !isRefining && (
         <div className="button-group">
           <button className="secondary" onClick={onComplete}>
-            {hasError ? "Start Over" : "Done"}
+            {hasError || isCancelled ? "Start Over" : "Done"}
           </button>
         </div>
       )}
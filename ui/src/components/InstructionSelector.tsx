@@ -1,26 +1,87 @@
 import { useState, useEffect } from "react";
+import MarkdownIt from "markdown-it";
+
+const md = new MarkdownIt({ html: false, linkify: true });
 
 interface SharedInstructionFile {
+  sourceId: string;
+  sourceName: string;
   filename: string;
   displayName: string;
   path: string;
+  commit: string | null;
   existsInWorkspace: boolean;
 }
 
+interface InstructionSource {
+  id: string;
+  name: string;
+  kind: "azure-devops" | "github" | "git" | "local";
+  ref: string | null;
+  commit: string | null;
+  error?: string;
+}
+
+const SOURCE_KIND_LABELS: Record<InstructionSource["kind"], string> = {
+  "azure-devops": "Azure DevOps",
+  github: "GitHub",
+  git: "Git",
+  local: "Local folder",
+};
+
+// What to do when the workspace already has a file of that name; not selecting it keeps the workspace's
+type ConflictResolution = "replace" | "merge";
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  replace: "Replace for this session",
+  merge: "Use both",
+};
+
+interface InstructionPreview {
+  content: string;
+  attributes: Record<string, string | string[]>;
+  body: string;
+  workspaceContent: string | null;
+  /** From the workspace's copy to the shared one; null when the name is free */
+  diff: string | null;
+}
+
+interface CopyResult {
+  added: { sourceId: string; path: string; filename: string }[];
+  copied: string[];
+  replaced: string[];
+  skipped: string[];
+}
+
+// Files are picked by source and path: two sources may share a file name
+const fileKey = (file: SharedInstructionFile) => `${file.sourceId}:${file.path}`;
+
+function sourceVersion(source: InstructionSource): string {
+  const commit = source.commit ? source.commit.substring(0, 7) : "";
+  return [source.ref, commit].filter(Boolean).join(" @ ");
+}
+
 interface Props {
+  sessionId: string;
   onComplete: (addedInstructions: string[]) => void;
   disabled?: boolean;
 }
 
-export default function InstructionSelector({ onComplete, disabled }: Props) {
+export default function InstructionSelector({ sessionId, onComplete, disabled }: Props) {
   const [instructions, setInstructions] = useState<SharedInstructionFile[]>([]);
+  const [sources, setSources] = useState<InstructionSource[]>([]);
   const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [copying, setCopying] = useState(false);
   const [error, setError] = useState("");
   const [notConfigured, setNotConfigured] = useState(false);
-  const [copyResult, setCopyResult] = useState<{ copied: string[]; skipped: string[] } | null>(null);
+  const [copyResult, setCopyResult] = useState<CopyResult | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [previewFile, setPreviewFile] = useState<SharedInstructionFile | null>(null);
+  const [preview, setPreview] = useState<InstructionPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState("");
 
   useEffect(() => {
     fetchInstructions();
@@ -32,7 +93,7 @@ export default function InstructionSelector({ onComplete, disabled }: Props) {
     setNotConfigured(false);
 
     try {
-      const response = await fetch("/api/ticket/shared-instructions");
+      const response = await fetch(`/api/ticket/${sessionId}/shared-instructions`);
       const data = await response.json();
 
       if (!response.ok) {
@@ -45,6 +106,7 @@ export default function InstructionSelector({ onComplete, disabled }: Props) {
       }
 
       setInstructions(data.instructions || []);
+      setSources(data.sources || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load instructions");
     } finally {
@@ -52,14 +114,57 @@ export default function InstructionSelector({ onComplete, disabled }: Props) {
     }
   };
 
-  const toggleSelection = (filename: string) => {
+  const openPreview = async (file: SharedInstructionFile) => {
+    setPreviewFile(file);
+    setPreview(null);
+    setPreviewError("");
+    setPreviewLoading(true);
+
+    try {
+      const params = new URLSearchParams({ sourceId: file.sourceId, path: file.path });
+      const response = await fetch(`/api/ticket/${sessionId}/shared-instructions/preview?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load instruction file");
+      }
+
+      setPreview(data);
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : "Failed to load instruction file");
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const setSelected = (file: SharedInstructionFile, selected: boolean, resolution?: ConflictResolution) => {
+    const key = fileKey(file);
     const newSelected = new Set(selectedFiles);
-    if (newSelected.has(filename)) {
-      newSelected.delete(filename);
+    if (selected) {
+      newSelected.add(key);
     } else {
-      newSelected.add(filename);
+      newSelected.delete(key);
     }
     setSelectedFiles(newSelected);
+
+    if (file.existsInWorkspace) {
+      const newResolutions = { ...resolutions };
+      if (selected) {
+        newResolutions[key] = resolution ?? resolutions[key] ?? "merge";
+      } else {
+        delete newResolutions[key];
+      }
+      setResolutions(newResolutions);
+    }
+  };
+
+  const toggleSelection = (file: SharedInstructionFile) => {
+    const selecting = !selectedFiles.has(fileKey(file));
+    setSelected(file, selecting);
+    // A name clash needs a decision: show what differs
+    if (selecting && file.existsInWorkspace && previewFile !== file) {
+      openPreview(file);
+    }
   };
 
   const handleCopyAndContinue = async () => {
@@ -72,14 +177,18 @@ export default function InstructionSelector({ onComplete, disabled }: Props) {
     setError("");
 
     try {
-      const filesToCopy = instructions.filter(
-        (f) => selectedFiles.has(f.filename) && !f.existsInWorkspace
-      );
+      const filesToCopy = instructions.filter((f) => selectedFiles.has(fileKey(f)));
 
-      const response = await fetch("/api/ticket/copy-instructions", {
+      const response = await fetch(`/api/ticket/${sessionId}/copy-instructions`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ files: filesToCopy }),
+        body: JSON.stringify({
+          files: filesToCopy.map((f) => ({
+            sourceId: f.sourceId,
+            path: f.path,
+            resolution: resolutions[fileKey(f)],
+          })),
+        }),
       });
 
       const data = await response.json();
@@ -88,10 +197,11 @@ export default function InstructionSelector({ onComplete, disabled }: Props) {
         throw new Error(data.error || "Failed to copy instructions");
       }
 
-      setCopyResult(data);
+      const result = data as CopyResult;
+      setCopyResult(result);
       // Pass display names of copied files
       const addedDisplayNames = filesToCopy
-        .filter((f) => data.copied.includes(f.filename))
+        .filter((f) => result.added.some((added) => added.sourceId === f.sourceId && added.path === f.path))
         .map((f) => f.displayName);
       onComplete(addedDisplayNames);
     } catch (err) {
@@ -114,7 +224,7 @@ export default function InstructionSelector({ onComplete, disabled }: Props) {
           <span className="instruction-hint">Not configured</span>
         </div>
         <div className="instruction-not-configured">
-          No shared instructions repository configured. Set SHARED_INSTRUCTIONS_REPO in your environment.
+          No instruction sources configured. Add an instruction-sources.json or set SHARED_INSTRUCTIONS_REPO in your environment.
         </div>
         <button className="secondary small" onClick={() => onComplete([])} disabled={disabled}>
           Continue
@@ -155,13 +265,23 @@ export default function InstructionSelector({ onComplete, disabled }: Props) {
     );
   }
 
+  const failedSources = sources.filter((source) => source.error);
+  const sourceErrors = failedSources.length > 0 && (
+    <div className="instruction-source-errors">
+      {failedSources.map((source) => (
+        <p key={source.id}>{source.error}</p>
+      ))}
+    </div>
+  );
+
   if (instructions.length === 0) {
     return (
       <div className="instruction-selector">
         <div className="instruction-header">
           <h4>Shared Instructions</h4>
         </div>
-        <div className="instruction-empty">No instruction files found in shared repository.</div>
+        {sourceErrors}
+        <div className="instruction-empty">No instruction files found in the configured sources.</div>
         <button className="secondary small" onClick={() => onComplete([])} disabled={disabled}>
           Continue
         </button>
@@ -171,11 +291,16 @@ export default function InstructionSelector({ onComplete, disabled }: Props) {
 
   const selectedCount = selectedFiles.size;
 
+  const query = searchQuery.toLowerCase();
   const filteredInstructions = instructions.filter(
     (file) =>
-      file.displayName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      file.filename.toLowerCase().includes(searchQuery.toLowerCase())
+      file.displayName.toLowerCase().includes(query) ||
+      file.path.toLowerCase().includes(query) ||
+      file.sourceName.toLowerCase().includes(query)
   );
+  const sourceGroups = sources
+    .map((source) => ({ source, files: filteredInstructions.filter((file) => file.sourceId === source.id) }))
+    .filter((group) => group.files.length > 0);
 
   return (
     <div className="instruction-selector">
@@ -196,36 +321,147 @@ export default function InstructionSelector({ onComplete, disabled }: Props) {
         />
       </div>
 
+      {sourceErrors}
+
       <div className="instruction-list">
-        {filteredInstructions.map((file) => (
-          <label
-            key={file.filename}
-            className={`instruction-option ${file.existsInWorkspace ? "disabled" : ""} ${
-              selectedFiles.has(file.filename) ? "selected" : ""
-            }`}
-          >
-            <input
-              type="checkbox"
-              checked={selectedFiles.has(file.filename) || file.existsInWorkspace}
-              onChange={() => toggleSelection(file.filename)}
-              disabled={file.existsInWorkspace || disabled || copying}
-            />
-            <div className="instruction-info">
-              <span className="instruction-name">{file.displayName}</span>
-              <span className="instruction-filename">{file.filename}</span>
+        {sourceGroups.map(({ source, files }) => (
+          <div key={source.id} className="instruction-source-group">
+            <div className="instruction-source-header">
+              <span className="instruction-source-name">{source.name}</span>
+              <span className="instruction-source-kind">{SOURCE_KIND_LABELS[source.kind]}</span>
+              {sourceVersion(source) && (
+                <span className="instruction-source-version" title={source.commit ?? undefined}>
+                  {sourceVersion(source)}
+                </span>
+              )}
             </div>
-            {file.existsInWorkspace && (
-              <span className="instruction-badge">Already in workspace</span>
-            )}
-          </label>
+            {files.map((file) => (
+              <label
+                key={fileKey(file)}
+                className={`instruction-option ${selectedFiles.has(fileKey(file)) ? "selected" : ""} ${
+                  previewFile === file ? "previewing" : ""
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedFiles.has(fileKey(file))}
+                  onChange={() => toggleSelection(file)}
+                  disabled={disabled || copying}
+                />
+                <div className="instruction-info">
+                  <span className="instruction-name">{file.displayName}</span>
+                  <span className="instruction-filename" title={`${file.sourceName}: ${file.path}`}>
+                    {file.path}
+                  </span>
+                </div>
+                {file.existsInWorkspace && (
+                  <span className="instruction-badge">
+                    {resolutions[fileKey(file)] ? RESOLUTION_LABELS[resolutions[fileKey(file)]] : "In workspace"}
+                  </span>
+                )}
+                <button
+                  className="instruction-link"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    openPreview(file);
+                  }}
+                >
+                  Preview
+                </button>
+              </label>
+            ))}
+          </div>
         ))}
       </div>
 
+      {previewFile && (
+        <div className="instruction-preview">
+          <div className="instruction-preview-header">
+            <span className="instruction-name">{previewFile.displayName}</span>
+            <span className="instruction-filename">
+              {previewFile.sourceName}: {previewFile.path}
+            </span>
+            <button className="instruction-link" onClick={() => setPreviewFile(null)}>
+              Close
+            </button>
+          </div>
+
+          {previewLoading && <div className="instruction-loading">Loading preview...</div>}
+          {previewError && <div className="instruction-source-errors"><p>{previewError}</p></div>}
+
+          {preview && (
+            <>
+              {Object.keys(preview.attributes).length > 0 && (
+                <dl className="instruction-front-matter">
+                  {Object.entries(preview.attributes).map(([key, value]) => (
+                    <div key={key}>
+                      <dt>{key}</dt>
+                      <dd>{Array.isArray(value) ? value.join(", ") : value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+
+              {preview.diff !== null && (
+                <div className="instruction-conflict">
+                  <p>
+                    The workspace already has <code>{previewFile.filename}</code>.{" "}
+                    {preview.diff ? "Changes from the workspace copy:" : "Both copies are the same."}
+                  </p>
+                  {preview.diff && (
+                    <pre className="diff-output colored">
+                      {preview.diff.split("\n").map((line, i) => {
+                        let className = "diff-line";
+                        if (line.startsWith("+")) className += " added";
+                        else if (line.startsWith("-")) className += " removed";
+                        else if (line.startsWith("@@")) className += " hunk";
+                        return (
+                          <div key={i} className={className}>
+                            {line}
+                          </div>
+                        );
+                      })}
+                    </pre>
+                  )}
+                  <div className="instruction-conflict-actions">
+                    <button
+                      className={`secondary small ${!selectedFiles.has(fileKey(previewFile)) ? "active" : ""}`}
+                      onClick={() => setSelected(previewFile, false)}
+                      disabled={disabled || copying}
+                    >
+                      Keep workspace version
+                    </button>
+                    {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map((resolution) => (
+                      <button
+                        key={resolution}
+                        className={`secondary small ${resolutions[fileKey(previewFile)] === resolution ? "active" : ""}`}
+                        onClick={() => setSelected(previewFile, true, resolution)}
+                        disabled={disabled || copying}
+                      >
+                        {RESOLUTION_LABELS[resolution]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div
+                className="plan-content review-content instruction-preview-body"
+                dangerouslySetInnerHTML={{ __html: md.render(preview.body) }}
+              />
+            </>
+          )}
+        </div>
+      )}
+
       {copyResult && (
         <div className="instruction-result">
           {copyResult.copied.length > 0 && (
             <span className="copied-count">{copyResult.copied.length} file(s) added</span>
           )}
+          {copyResult.replaced.length > 0 && (
+            <span className="copied-count">{copyResult.replaced.length} replaced for this session</span>
+          )}
           {copyResult.skipped.length > 0 && (
             <span className="skipped-count">{copyResult.skipped.length} skipped</span>
           )}
@@ -0,0 +1,106 @@
+import { useState, useEffect } from "react";
+
+// An MCP server from the server's registry, as it applies to one session
+interface McpServerStatus {
+  id: string;
+  name: string;
+  description: string;
+  type: "local" | "http" | "sse";
+  enabled: boolean;
+  defaultEnabled: boolean;
+  reason: string;
+  overridden: boolean;
+}
+
+interface Props {
+  /** The session's API path, e.g. /api/ticket/<id> or /api/review/<id> */
+  sessionPath: string;
+  disabled?: boolean;
+}
+
+const TYPE_LABELS: Record<McpServerStatus["type"], string> = {
+  local: "Local",
+  http: "HTTP",
+  sse: "SSE",
+};
+
+/**
+ * Which MCP servers the session's Copilot sessions get. Servers start on or
+ * off by their triggers; a switch here is remembered for the session.
+ */
+export default function McpServerSelector({ sessionPath, disabled }: Props) {
+  const [servers, setServers] = useState<McpServerStatus[]>([]);
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`${sessionPath}/mcp-servers`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load MCP servers");
+        }
+        setServers(data.servers || []);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load MCP servers"));
+  }, [sessionPath]);
+
+  const toggle = async (server: McpServerStatus) => {
+    setSaving(server.id);
+    setError("");
+    try {
+      const response = await fetch(`${sessionPath}/mcp-servers/${encodeURIComponent(server.id)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !server.enabled }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update MCP servers");
+      }
+      setServers(data.servers || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update MCP servers");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (servers.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="mcp-server-selector">
+      <h4>MCP Servers</h4>
+      {error && <div className="error">{error}</div>}
+      <div className="mcp-server-list">
+        {servers.map((server) => (
+          <label
+            key={server.id}
+            className={`mcp-server-option ${server.enabled ? "selected" : ""}`}
+            title={server.description || undefined}
+          >
+            <input
+              type="checkbox"
+              checked={server.enabled}
+              onChange={() => toggle(server)}
+              disabled={disabled || saving !== null}
+            />
+            <div className="mcp-server-info">
+              <span className="mcp-server-name">
+                {server.name}
+                <span className="mcp-server-type">{TYPE_LABELS[server.type]}</span>
+              </span>
+              <span className="mcp-server-reason">
+                {server.overridden
+                  ? `Turned ${server.enabled ? "on" : "off"} for this session (${server.reason})`
+                  : server.reason}
+              </span>
+            </div>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
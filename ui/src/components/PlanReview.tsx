@@ -1,4 +1,6 @@
 import { useState } from "react";
+import AppliedInstructions, { type AppliedInstruction } from "./AppliedInstructions";
+import McpServerSelector from "./McpServerSelector";
 
 interface Ticket {
   id: number;
@@ -10,9 +12,18 @@ interface Ticket {
   url: string;
 }
 
-interface Plan {
+export interface PlanStep {
+  id: string;
+  title: string;
+  description: string;
+  files: string[];
+  acceptance: string;
+  enabled: boolean;
+}
+
+export interface Plan {
   summary: string;
-  implementationPlan: string;
+  steps: PlanStep[];
 }
 
 interface DiscussionMessage {
@@ -40,24 +51,46 @@ export interface PostTask {
   command: string;
 }
 
+// Fix-until-green feeds failing post-task output back to the model and re-runs it
+export interface RunOptions {
+  fixUntilGreen: boolean;
+  maxFixAttempts: number;
+  pauseBetweenSteps: boolean;
+}
+
+interface StepDraft {
+  title: string;
+  description: string;
+  files: string;
+  acceptance: string;
+}
+
 interface Props {
+  sessionId: string;
   ticket: Ticket;
   plan: Plan;
-  onApprove: (model: string, postTasks: PostTask[]) => void;
+  /** The repository instructions the plan was generated or last refined with */
+  instructions: AppliedInstruction[];
+  onApprove: (model: string, postTasks: PostTask[], runOptions: RunOptions) => void;
   onCancel: () => void;
-  onPlanUpdate: (plan: Plan) => void;
+  onPlanUpdate: (plan: Plan, instructions?: AppliedInstruction[]) => void;
+  initialDiscussion?: DiscussionMessage[];
 }
 
-export default function PlanReview({ ticket, plan, onApprove, onCancel, onPlanUpdate }: Props) {
-  const [isEditing, setIsEditing] = useState(false);
-  const [editedPlan, setEditedPlan] = useState(plan.implementationPlan);
+export default function PlanReview({ sessionId, ticket, plan, instructions, onApprove, onCancel, onPlanUpdate, initialDiscussion = [] }: Props) {
+  const [editingStepId, setEditingStepId] = useState<string | null>(null);
+  const [stepDraft, setStepDraft] = useState<StepDraft>({ title: "", description: "", files: "", acceptance: "" });
+  const [isSavingSteps, setIsSavingSteps] = useState(false);
   const [feedback, setFeedback] = useState("");
   const [isRefining, setIsRefining] = useState(false);
   const [error, setError] = useState("");
   const [selectedModel, setSelectedModel] = useState("claude-sonnet-4.5");
   const [selectedTasks, setSelectedTasks] = useState<Set<string>>(new Set());
   const [customCommand, setCustomCommand] = useState("");
-  const [discussionMessages, setDiscussionMessages] = useState<DiscussionMessage[]>([]);
+  const [fixUntilGreen, setFixUntilGreen] = useState(false);
+  const [maxFixAttempts, setMaxFixAttempts] = useState(3);
+  const [pauseBetweenSteps, setPauseBetweenSteps] = useState(false);
+  const [discussionMessages, setDiscussionMessages] = useState<DiscussionMessage[]>(initialDiscussion);
   const [discussionQuestion, setDiscussionQuestion] = useState("");
   const [isDiscussing, setIsDiscussing] = useState(false);
   const [showDiscussion, setShowDiscussion] = useState(false);
@@ -85,12 +118,13 @@ export default function PlanReview({ ticket, plan, onApprove, onCancel, onPlanUp
     return tasks;
   };
 
-  const handleSaveEdit = async () => {
+  const saveSteps = async (steps: PlanStep[]) => {
+    setIsSavingSteps(true);
     try {
-      const response = await fetch("/api/ticket/update-plan", {
+      const response = await fetch(`/api/ticket/${sessionId}/update-plan`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ implementationPlan: editedPlan }),
+        body: JSON.stringify({ steps }),
       });
 
       const data = await response.json();
@@ -100,16 +134,52 @@ export default function PlanReview({ ticket, plan, onApprove, onCancel, onPlanUp
       }
 
       onPlanUpdate(data.plan);
-      setIsEditing(false);
       setError("");
+      return true;
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to update plan");
+      return false;
+    } finally {
+      setIsSavingSteps(false);
     }
   };
 
-  const handleCancelEdit = () => {
-    setEditedPlan(plan.implementationPlan);
-    setIsEditing(false);
+  const handleToggleStep = (stepId: string) => {
+    saveSteps(plan.steps.map((step) => (step.id === stepId ? { ...step, enabled: !step.enabled } : step)));
+  };
+
+  const handleMoveStep = (index: number, offset: number) => {
+    const steps = [...plan.steps];
+    const [moved] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, moved);
+    saveSteps(steps);
+  };
+
+  const handleEditStep = (step: PlanStep) => {
+    setEditingStepId(step.id);
+    setStepDraft({
+      title: step.title,
+      description: step.description,
+      files: step.files.join("\n"),
+      acceptance: step.acceptance,
+    });
+  };
+
+  const handleSaveStep = async () => {
+    const steps = plan.steps.map((step) =>
+      step.id === editingStepId
+        ? {
+            ...step,
+            title: stepDraft.title,
+            description: stepDraft.description,
+            files: stepDraft.files.split(/[\n,]/).map((file) => file.trim()).filter(Boolean),
+            acceptance: stepDraft.acceptance,
+          }
+        : step
+    );
+    if (await saveSteps(steps)) {
+      setEditingStepId(null);
+    }
   };
 
   const handleRefine = async () => {
@@ -122,7 +192,7 @@ export default function PlanReview({ ticket, plan, onApprove, onCancel, onPlanUp
     setError("");
 
     try {
-      const response = await fetch("/api/ticket/refine", {
+      const response = await fetch(`/api/ticket/${sessionId}/refine`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ feedback }),
@@ -134,8 +204,8 @@ export default function PlanReview({ ticket, plan, onApprove, onCancel, onPlanUp
         throw new Error(data.error || "Failed to refine plan");
       }
 
-      onPlanUpdate(data.plan);
-      setEditedPlan(data.plan.implementationPlan);
+      onPlanUpdate(data.plan, data.instructions);
+      setEditingStepId(null);
       setFeedback("");
       // Clear discussion when plan changes
       setDiscussionMessages([]);
@@ -155,7 +225,7 @@ export default function PlanReview({ ticket, plan, onApprove, onCancel, onPlanUp
     setError("");
 
     try {
-      const response = await fetch("/api/ticket/discuss", {
+      const response = await fetch(`/api/ticket/${sessionId}/discuss`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ question: discussionQuestion }),
@@ -178,7 +248,7 @@ export default function PlanReview({ ticket, plan, onApprove, onCancel, onPlanUp
 
   const handleClearDiscussion = async () => {
     try {
-      await fetch("/api/ticket/clear-discussion", { method: "POST" });
+      await fetch(`/api/ticket/${sessionId}/clear-discussion`, { method: "POST" });
       setDiscussionMessages([]);
     } catch {
       // Ignore errors
@@ -193,6 +263,7 @@ export default function PlanReview({ ticket, plan, onApprove, onCancel, onPlanUp
           <span>{ticket.type}</span>
           <span>{ticket.state}</span>
         </div>
+        <AppliedInstructions instructions={instructions} />
       </div>
 
       <div className="plan-section">
@@ -203,37 +274,103 @@ export default function PlanReview({ ticket, plan, onApprove, onCancel, onPlanUp
       <div className="plan-section">
         <div className="plan-header">
           <h4>Implementation Plan</h4>
-          {!isEditing && (
-            <button
-              className="edit-toggle"
-              onClick={() => setIsEditing(true)}
-              title="Edit plan directly"
-            >
-              ✏️ Edit
-            </button>
-          )}
+          <span className="plan-hint">Steps run one at a time, top to bottom. Unchecked steps are skipped.</span>
         </div>
 
-        {isEditing ? (
-          <div className="plan-edit-container">
-            <textarea
-              className="plan-textarea"
-              value={editedPlan}
-              onChange={(e) => setEditedPlan(e.target.value)}
-              rows={12}
-            />
-            <div className="edit-actions">
-              <button className="primary small" onClick={handleSaveEdit}>
-                Save Changes
-              </button>
-              <button className="secondary small" onClick={handleCancelEdit}>
-                Cancel
-              </button>
-            </div>
-          </div>
-        ) : (
-          <div className="plan-content">{plan.implementationPlan}</div>
-        )}
+        <ol className="plan-steps">
+          {plan.steps.map((step, index) => (
+            <li key={step.id} className={`plan-step ${step.enabled ? "" : "disabled"}`}>
+              {editingStepId === step.id ? (
+                <div className="plan-edit-container">
+                  <input
+                    type="text"
+                    value={stepDraft.title}
+                    onChange={(e) => setStepDraft({ ...stepDraft, title: e.target.value })}
+                    placeholder="Title"
+                  />
+                  <textarea
+                    className="plan-textarea"
+                    value={stepDraft.description}
+                    onChange={(e) => setStepDraft({ ...stepDraft, description: e.target.value })}
+                    placeholder="What to change and how"
+                    rows={5}
+                  />
+                  <textarea
+                    className="plan-textarea"
+                    value={stepDraft.files}
+                    onChange={(e) => setStepDraft({ ...stepDraft, files: e.target.value })}
+                    placeholder="Files, one per line"
+                    rows={2}
+                  />
+                  <input
+                    type="text"
+                    value={stepDraft.acceptance}
+                    onChange={(e) => setStepDraft({ ...stepDraft, acceptance: e.target.value })}
+                    placeholder="Done when..."
+                  />
+                  <div className="edit-actions">
+                    <button className="primary small" onClick={handleSaveStep} disabled={isSavingSteps}>
+                      Save Step
+                    </button>
+                    <button className="secondary small" onClick={() => setEditingStepId(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="plan-step-header">
+                    <input
+                      type="checkbox"
+                      checked={step.enabled}
+                      onChange={() => handleToggleStep(step.id)}
+                      disabled={isSavingSteps}
+                      title={step.enabled ? "Skip this step" : "Include this step"}
+                    />
+                    <span className="plan-step-title">{index + 1}. {step.title}</span>
+                    <div className="plan-step-actions">
+                      <button
+                        className="edit-toggle"
+                        onClick={() => handleMoveStep(index, -1)}
+                        disabled={isSavingSteps || index === 0}
+                        title="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        className="edit-toggle"
+                        onClick={() => handleMoveStep(index, 1)}
+                        disabled={isSavingSteps || index === plan.steps.length - 1}
+                        title="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        className="edit-toggle"
+                        onClick={() => handleEditStep(step)}
+                        disabled={isSavingSteps}
+                        title="Edit step"
+                      >
+                        ✏️ Edit
+                      </button>
+                    </div>
+                  </div>
+                  {step.description && <div className="plan-content">{step.description}</div>}
+                  {step.files.length > 0 && (
+                    <div className="plan-step-files">
+                      {step.files.map((file) => (
+                        <code key={file}>{file}</code>
+                      ))}
+                    </div>
+                  )}
+                  {step.acceptance && (
+                    <div className="plan-step-acceptance">Done when: {step.acceptance}</div>
+                  )}
+                </>
+              )}
+            </li>
+          ))}
+        </ol>
       </div>
 
       <div className="discuss-section">
@@ -378,10 +515,46 @@ export default function PlanReview({ ticket, plan, onApprove, onCancel, onPlanUp
             placeholder="e.g., npm run e2e, ./scripts/validate.sh"
           />
         </div>
+        <div className="fix-until-green">
+          <label className="fix-until-green-toggle">
+            <input
+              type="checkbox"
+              checked={fixUntilGreen}
+              onChange={(e) => setFixUntilGreen(e.target.checked)}
+            />
+            Fix until green
+          </label>
+          <span className="post-tasks-hint">
+            When a task fails, send its output back to the model to fix and re-run it, up to
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={maxFixAttempts}
+            onChange={(e) => setMaxFixAttempts(Number(e.target.value) || 1)}
+            disabled={!fixUntilGreen}
+          />
+          <span className="post-tasks-hint">times.</span>
+        </div>
+        <label className="fix-until-green-toggle pause-between-steps">
+          <input
+            type="checkbox"
+            checked={pauseBetweenSteps}
+            onChange={(e) => setPauseBetweenSteps(e.target.checked)}
+          />
+          Pause between steps
+        </label>
       </div>
 
+      <McpServerSelector sessionPath={`/api/ticket/${sessionId}`} />
+
       <div className="button-group">
-        <button className="primary" onClick={() => onApprove(selectedModel, getSelectedPostTasks())}>
+        <button
+          className="primary"
+          onClick={() => onApprove(selectedModel, getSelectedPostTasks(), { fixUntilGreen, maxFixAttempts, pauseBetweenSteps })}
+          disabled={!plan.steps.some((step) => step.enabled)}
+        >
           Approve & Implement
         </button>
         <button className="secondary" onClick={onCancel}>
@@ -0,0 +1,58 @@
+export interface SessionSummary {
+  id: string;
+  ticketId: number | null;
+  title: string | null;
+  branchName: string | null;
+  hasPlan: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface Props {
+  sessions: SessionSummary[];
+  activeSessionId: string | null;
+  onSwitch: (sessionId: string) => void;
+  onClose: (sessionId: string) => void;
+  onNew: () => void;
+  disabled?: boolean;
+}
+
+function getSessionLabel(session: SessionSummary): string {
+  if (session.ticketId !== null && session.title) {
+    return `#${session.ticketId} ${session.title}`;
+  }
+  return "New ticket";
+}
+
+export default function SessionBar({ sessions, activeSessionId, onSwitch, onClose, onNew, disabled }: Props) {
+  return (
+    <div className="session-bar">
+      {sessions.map((session) => (
+        <div
+          key={session.id}
+          className={`session-tab ${session.id === activeSessionId ? "active" : ""}`}
+          title={session.branchName || undefined}
+        >
+          <button
+            className="session-tab-label"
+            onClick={() => onSwitch(session.id)}
+            disabled={disabled || session.id === activeSessionId}
+          >
+            {getSessionLabel(session)}
+          </button>
+          <button
+            className="session-tab-close"
+            onClick={() => onClose(session.id)}
+            disabled={disabled}
+            title="Close session"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button className="session-new" onClick={onNew} disabled={disabled}>
+        + New
+      </button>
+    </div>
+  );
+}
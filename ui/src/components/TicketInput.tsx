@@ -1,5 +1,9 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import InstructionSelector from "./InstructionSelector";
+import McpServerSelector from "./McpServerSelector";
+import type { Plan } from "./PlanReview";
+import type { AppliedInstruction } from "./AppliedInstructions";
+import { startJob, followJob, latestJob } from "../jobs";
 
 const PLAN_MODELS = [
   { id: "gpt-4.1", name: "GPT-4.1", description: "Fast, good for most tasks" },
@@ -19,11 +23,6 @@ interface Ticket {
   figmaUrl?: string;
 }
 
-interface Plan {
-  summary: string;
-  implementationPlan: string;
-}
-
 export interface RepoInfo {
   localPath: string;
   branchName: string;
@@ -33,28 +32,36 @@ export interface RepoInfo {
 }
 
 interface Props {
+  sessionId: string;
   onTicketFetched: (ticket: Ticket) => void;
-  onPlanGenerated: (plan: Plan) => void;
+  onPlanGenerated: (plan: Plan, instructions: AppliedInstruction[]) => void;
   onRepoReady: (info: RepoInfo) => void;
   ticket: Ticket | null;
+  repoInfo: RepoInfo | null;
 }
 
-export default function TicketInput({ onTicketFetched, onPlanGenerated, onRepoReady, ticket }: Props) {
-  const [ticketUrl, setTicketUrl] = useState("");
-  const [repoUrl, setRepoUrl] = useState("");
-  const [localPath, setLocalPath] = useState("");
-  const [sourceMode, setSourceMode] = useState<"remote" | "local">("remote");
+export default function TicketInput({ sessionId, onTicketFetched, onPlanGenerated, onRepoReady, ticket, repoInfo: initialRepoInfo }: Props) {
+  const [ticketUrl, setTicketUrl] = useState(ticket?.url ?? "");
+  const [repoUrl, setRepoUrl] = useState(
+    initialRepoInfo?.sourceType === "remote" ? initialRepoInfo.remoteUrl ?? "" : ""
+  );
+  const [localPath, setLocalPath] = useState(
+    initialRepoInfo?.sourceType === "local" ? initialRepoInfo.localPath : ""
+  );
+  const [sourceMode, setSourceMode] = useState<"remote" | "local">(initialRepoInfo?.sourceType ?? "remote");
   const [loading, setLoading] = useState(false);
   const [cloningRepo, setCloningRepo] = useState(false);
   const [settingUpLocal, setSettingUpLocal] = useState(false);
   const [generatingPlan, setGeneratingPlan] = useState(false);
   const [error, setError] = useState("");
-  const [repoInfo, setRepoInfo] = useState<RepoInfo | null>(null);
+  const [repoInfo, setRepoInfo] = useState<RepoInfo | null>(initialRepoInfo);
   const [instructionsReady, setInstructionsReady] = useState(false);
   const [addedInstructions, setAddedInstructions] = useState<string[]>([]);
   const [explorationProgress, setExplorationProgress] = useState<string[]>([]);
   const [planModel, setPlanModel] = useState("gpt-4.1");
-  const [figmaUrl, setFigmaUrl] = useState("");
+  const [figmaUrl, setFigmaUrl] = useState(ticket?.figmaUrl ?? "");
+  // Aborted when the component goes away, to stop following jobs
+  const following = useRef<AbortController | null>(null);
 
   const handleFetch = async () => {
     if (!ticketUrl.trim()) {
@@ -66,7 +73,7 @@ export default function TicketInput({ onTicketFetched, onPlanGenerated, onRepoRe
     setError("");
 
     try {
-      const response = await fetch("/api/ticket/fetch", {
+      const response = await fetch(`/api/ticket/${sessionId}/fetch`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ url: ticketUrl }),
@@ -101,7 +108,7 @@ export default function TicketInput({ onTicketFetched, onPlanGenerated, onRepoRe
     setError("");
 
     try {
-      const response = await fetch("/api/ticket/clone", {
+      const response = await fetch(`/api/ticket/${sessionId}/clone`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ repoUrl }),
@@ -132,7 +139,7 @@ export default function TicketInput({ onTicketFetched, onPlanGenerated, onRepoRe
     setError("");
 
     try {
-      const response = await fetch("/api/ticket/use-local", {
+      const response = await fetch(`/api/ticket/${sessionId}/use-local`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ localPath }),
@@ -169,46 +176,12 @@ export default function TicketInput({ onTicketFetched, onPlanGenerated, onRepoRe
     setExplorationProgress([]);
 
     try {
-      const response = await fetch("/api/ticket/plan", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ stream: true, model: planModel, figmaUrl: figmaUrl || undefined }),
+      const job = await startJob(`/api/ticket/${sessionId}/plan`, {
+        stream: true,
+        model: planModel,
+        figmaUrl: figmaUrl || undefined,
       });
-
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error("Failed to read response");
-      }
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const text = decoder.decode(value);
-        const lines = text.split("\n");
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.slice(6));
-
-              if (data.type === "progress") {
-                setExplorationProgress((prev) => [...prev.slice(-4), data.content]);
-              } else if (data.type === "complete") {
-                onPlanGenerated(data.plan);
-              } else if (data.type === "error") {
-                throw new Error(data.content);
-              }
-            } catch (parseErr) {
-              // Ignore parse errors for incomplete chunks
-              if (parseErr instanceof SyntaxError) continue;
-              throw parseErr;
-            }
-          }
-        }
-      }
+      await followPlanJob(job.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to generate plan");
     } finally {
@@ -217,12 +190,61 @@ export default function TicketInput({ onTicketFetched, onPlanGenerated, onRepoRe
     }
   };
 
+  // Show a plan generation's progress; throws the error it ended with, if any
+  const followPlanJob = async (jobId: string) => {
+    let failure: string | null = null;
+    await followJob<{ type: string; content: string; plan: Plan; instructions?: AppliedInstruction[] }>(
+      jobId,
+      (data) => {
+        if (data.type === "progress") {
+          setExplorationProgress((prev) => [...prev.slice(-4), data.content]);
+        } else if (data.type === "complete") {
+          onPlanGenerated(data.plan, data.instructions ?? []);
+        } else if (data.type === "error") {
+          failure = data.content;
+        }
+      },
+      following.current?.signal
+    );
+    if (failure) {
+      throw new Error(failure);
+    }
+  };
+
+  // Pick up a plan that is still being generated, e.g. after a page reload
+  useEffect(() => {
+    const controller = new AbortController();
+    following.current = controller;
+
+    latestJob(sessionId).then((job) => {
+      if (controller.signal.aborted || job?.kind !== "plan" || job.status !== "running") return;
+
+      setGeneratingPlan(true);
+      followPlanJob(job.id)
+        .catch((err) => setError(err instanceof Error ? err.message : "Failed to generate plan"))
+        .finally(() => {
+          setGeneratingPlan(false);
+          setExplorationProgress([]);
+        });
+    });
+
+    return () => controller.abort();
+  }, []);
+
+  const handleStopPlan = async () => {
+    try {
+      await fetch(`/api/ticket/${sessionId}/cancel`, { method: "POST" });
+    } catch {
+      // The stream ends on its own once the server has stopped
+    }
+  };
+
   const isProcessing = loading || cloningRepo || settingUpLocal || generatingPlan;
 
   return (
     <div className="card">
       <div className="form-group">
-        <label htmlFor="ticket-url">Azure DevOps Ticket URL</label>
+        <label htmlFor="ticket-url">Ticket URL (Azure DevOps, GitHub, Jira or Linear)</label>
         <input
           id="ticket-url"
           type="text"
@@ -326,7 +348,7 @@ export default function TicketInput({ onTicketFetched, onPlanGenerated, onRepoRe
                 type="text"
                 value={repoUrl}
                 onChange={(e) => setRepoUrl(e.target.value)}
-                placeholder="https://dev.azure.com/org/_git/repo-name"
+                placeholder="https://dev.azure.com/org/_git/repo-name or https://github.com/org/repo-name"
                 disabled={isProcessing || !!repoInfo}
               />
             </div>
@@ -351,6 +373,9 @@ export default function TicketInput({ onTicketFetched, onPlanGenerated, onRepoRe
                       const data = await response.json();
                       if (response.ok && data.path) {
                         setLocalPath(data.path);
+                      } else if (response.status === 403) {
+                        // Off while sign-in is on: say so rather than do nothing
+                        setError(data.error);
                       }
                     } catch {
                       // User cancelled or error occurred
@@ -402,13 +427,14 @@ export default function TicketInput({ onTicketFetched, onPlanGenerated, onRepoRe
                   <strong>{repoInfo.sourceType === "local" ? "Local folder ready" : "Repository cloned"}</strong>
                   <div className="branch-name">{repoInfo.branchName}</div>
                   {repoInfo.sourceType === "local" && !repoInfo.canCreatePr && (
-                    <div className="warning-text">PR creation not available (non-Azure DevOps remote)</div>
+                    <div className="warning-text">PR creation not available (remote is not on Azure DevOps or GitHub)</div>
                   )}
                 </div>
               </div>
 
               {!instructionsReady && (
                 <InstructionSelector
+                  sessionId={sessionId}
                   onComplete={handleInstructionsComplete}
                   disabled={generatingPlan}
                 />
@@ -441,6 +467,8 @@ export default function TicketInput({ onTicketFetched, onPlanGenerated, onRepoRe
                     </div>
                   </div>
 
+                  <McpServerSelector sessionPath={`/api/ticket/${sessionId}`} disabled={generatingPlan} />
+
                   <button
                     className="primary"
                     onClick={handleGeneratePlan}
@@ -449,6 +477,14 @@ export default function TicketInput({ onTicketFetched, onPlanGenerated, onRepoRe
                     {generatingPlan ? "Analyzing Codebase..." : "Generate Implementation Plan"}
                   </button>
 
+                  {generatingPlan && (
+                    <div className="stop-bar">
+                      <button className="stop-button" onClick={handleStopPlan}>
+                        Stop
+                      </button>
+                    </div>
+                  )}
+
                   {generatingPlan && explorationProgress.length > 0 && (
                     <div className="exploration-progress">
                       {explorationProgress.map((msg, i) => (
@@ -1,5 +1,5 @@
 interface ToolSelectorProps {
-  onSelectTool: (tool: "ticket" | "review") => void;
+  onSelectTool: (tool: "ticket" | "review" | "batch") => void;
 }
 
 export default function ToolSelector({ onSelectTool }: ToolSelectorProps) {
@@ -12,7 +12,7 @@ export default function ToolSelector({ onSelectTool }: ToolSelectorProps) {
         <div className="tool-card-icon">T</div>
         <h3>Ticket Implementer</h3>
         <p>
-          Paste an Azure DevOps ticket URL to generate an implementation plan
+          Paste an Azure DevOps, GitHub, Jira or Linear ticket URL to generate an implementation plan
           and have AI write the code for you.
         </p>
         <button className="primary">Get Started</button>
@@ -25,11 +25,24 @@ export default function ToolSelector({ onSelectTool }: ToolSelectorProps) {
         <div className="tool-card-icon">R</div>
         <h3>Code Reviewer</h3>
         <p>
-          Paste an Azure DevOps PR link to get AI-powered code review feedback
+          Paste an Azure DevOps or GitHub PR link to get AI-powered code review feedback
           with configurable review categories.
         </p>
         <button className="primary">Get Started</button>
       </div>
+
+      <div
+        className="tool-card"
+        onClick={() => onSelectTool("batch")}
+      >
+        <div className="tool-card-icon">B</div>
+        <h3>Batch Runner</h3>
+        <p>
+          Run an Azure DevOps query or sprint to plan every work item at once, approve the plans
+          and get a pull request for each one.
+        </p>
+        <button className="primary">Get Started</button>
+      </div>
     </div>
   );
 }
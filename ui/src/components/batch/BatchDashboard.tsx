@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+
+export type BatchItemStatus =
+  | "queued"
+  | "planning"
+  | "awaiting_approval"
+  | "implementing"
+  | "pr_opened"
+  | "failed"
+  | "cancelled";
+
+export interface BatchItem {
+  workItemId: number;
+  title: string;
+  type: string;
+  url: string;
+  sessionId: string | null;
+  status: BatchItemStatus;
+  message: string;
+  pullRequest: { id: number; url: string } | null;
+  updatedAt: string;
+}
+
+export interface Batch {
+  id: string;
+  createdAt: string;
+  query: { kind: "wiql" | "saved" | "iteration"; value: string };
+  repoUrl: string;
+  options: { autoApprove: boolean };
+  items: BatchItem[];
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: "Queued",
+  planning: "Planning",
+  awaiting_approval: "Awaiting approval",
+  implementing: "Implementing",
+  pr_opened: "PR opened",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const ACTIVE_STATUSES: BatchItemStatus[] = ["queued", "planning", "implementing"];
+
+// How often the dashboard refreshes while items are queued or running
+const POLL_INTERVAL_MS = 3000;
+
+interface Props {
+  batch: Batch;
+  onChange: (batch: Batch) => void;
+  onDelete: () => void;
+  /** Open an item's ticket session, e.g. to look at or edit its plan */
+  onOpenSession: (sessionId: string) => void;
+}
+
+/**
+ * Per-work-item status of a batch, with approval of plans and retries.
+ */
+export default function BatchDashboard({ batch, onChange, onDelete, onOpenSession }: Props) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const active = batch.items.some((item) => ACTIVE_STATUSES.includes(item.status));
+  const awaiting = batch.items.filter((item) => item.status === "awaiting_approval").length;
+  const cancellable = batch.items.some((item) => [...ACTIVE_STATUSES, "awaiting_approval"].includes(item.status));
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/batch/${batch.id}`);
+        const data = await response.json();
+        if (response.ok) onChange(data.batch);
+      } catch {
+        // Try again on the next tick
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [batch.id, active]);
+
+  const post = async (path: string, method = "POST") => {
+    setBusy(true);
+    setError("");
+    try {
+      const response = await fetch(`/api/batch/${batch.id}${path}`, { method });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const act = async (path: string) => {
+    const data = await post(path);
+    if (data?.batch) onChange(data.batch);
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm("Delete this batch? Running items are cancelled and their workspaces deleted. Opened pull requests stay.")) {
+      return;
+    }
+    if (await post("", "DELETE")) onDelete();
+  };
+
+  return (
+    <div className="card batch-dashboard">
+      <div className="batch-header">
+        <div>
+          <div className="batch-query">{batch.query.value}</div>
+          <div className="batch-meta">
+            {batch.items.length} work items → {batch.repoUrl}
+            {batch.options.autoApprove && " · plans are implemented without approval"}
+          </div>
+        </div>
+        <div className="button-group">
+          {awaiting > 0 && (
+            <button className="primary small" onClick={() => act("/approve")} disabled={busy}>
+              Approve All ({awaiting})
+            </button>
+          )}
+          {cancellable && (
+            <button className="secondary small" onClick={() => act("/cancel")} disabled={busy}>
+              Cancel Batch
+            </button>
+          )}
+          <button className="secondary small" onClick={handleDelete} disabled={busy}>
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="error">{error}</p>}
+
+      <table className="batch-items">
+        <thead>
+          <tr>
+            <th>Work item</th>
+            <th>Status</th>
+            <th>Progress</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {batch.items.map((item) => (
+            <tr key={item.workItemId}>
+              <td>
+                <a href={item.url} target="_blank" rel="noopener noreferrer">#{item.workItemId}</a>{" "}
+                {item.title}
+                {item.type && <span className="batch-item-type">{item.type}</span>}
+              </td>
+              <td>
+                <span className={`batch-status ${item.status}`}>{STATUS_LABELS[item.status]}</span>
+              </td>
+              <td className="batch-item-message">
+                {item.pullRequest ? (
+                  <a href={item.pullRequest.url} target="_blank" rel="noopener noreferrer">{item.message}</a>
+                ) : (
+                  item.message
+                )}
+              </td>
+              <td className="batch-item-actions">
+                {item.status === "awaiting_approval" && (
+                  <button
+                    className="primary small"
+                    onClick={() => act(`/items/${item.workItemId}/approve`)}
+                    disabled={busy}
+                  >
+                    Approve
+                  </button>
+                )}
+                {(item.status === "failed" || item.status === "cancelled") && (
+                  <button
+                    className="secondary small"
+                    onClick={() => act(`/items/${item.workItemId}/retry`)}
+                    disabled={busy}
+                  >
+                    Retry
+                  </button>
+                )}
+                {item.sessionId && !ACTIVE_STATUSES.includes(item.status) && (
+                  <button className="secondary small" onClick={() => onOpenSession(item.sessionId!)}>
+                    Open
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import type { Batch } from "./BatchDashboard";
+
+type QueryKind = "wiql" | "saved" | "iteration";
+
+const QUERY_KINDS: { id: QueryKind; label: string; placeholder: string }[] = [
+  {
+    id: "wiql",
+    label: "WIQL query",
+    placeholder: "SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project AND [System.Tags] CONTAINS 'copilot'",
+  },
+  { id: "saved", label: "Saved query", placeholder: "Shared Queries/Ready for Copilot, or the query's id" },
+  { id: "iteration", label: "Sprint", placeholder: "Project\\Sprint 42" },
+];
+
+const MODELS = [
+  { id: "claude-sonnet-4.5", name: "Claude 4.5 Sonnet" },
+  { id: "claude-opus-4.5", name: "Claude 4.5 Opus" },
+  { id: "gpt-4.1", name: "GPT-4.1" },
+  { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro" },
+];
+
+interface Props {
+  onCreated: (batch: Batch) => void;
+}
+
+/**
+ * Start a batch: which work items, which repository, and how each one is
+ * implemented and opened as a PR.
+ */
+export default function BatchForm({ onCreated }: Props) {
+  const [projectUrl, setProjectUrl] = useState("");
+  const [queryKind, setQueryKind] = useState<QueryKind>("saved");
+  const [queryValue, setQueryValue] = useState("");
+  const [repoUrl, setRepoUrl] = useState("");
+  const [model, setModel] = useState(MODELS[0].id);
+  const [checks, setChecks] = useState("");
+  const [fixUntilGreen, setFixUntilGreen] = useState(false);
+  const [autoApprove, setAutoApprove] = useState(false);
+  const [isDraft, setIsDraft] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState("");
+
+  const kind = QUERY_KINDS.find((candidate) => candidate.id === queryKind)!;
+
+  const handleStart = async () => {
+    setStarting(true);
+    setError("");
+
+    const postTasks = checks
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((command, index) => ({ id: `check-${index + 1}`, name: command, command }));
+
+    try {
+      const response = await fetch("/api/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          projectUrl: projectUrl.trim(),
+          query: { kind: queryKind, value: queryValue.trim() },
+          repoUrl: repoUrl.trim(),
+          model,
+          autoApprove,
+          postTasks,
+          fixUntilGreen,
+          isDraft,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start the batch");
+      }
+      onCreated(data.batch);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start the batch");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="form-group">
+        <label>Azure DevOps project</label>
+        <input
+          type="text"
+          value={projectUrl}
+          onChange={(e) => setProjectUrl(e.target.value)}
+          placeholder="https://dev.azure.com/{org}/{project}"
+          disabled={starting}
+        />
+      </div>
+
+      <div className="form-group">
+        <label>Work items</label>
+        <div className="source-toggle">
+          {QUERY_KINDS.map((candidate) => (
+            <label key={candidate.id} className="toggle-option">
+              <input
+                type="radio"
+                name="batch-query-kind"
+                checked={queryKind === candidate.id}
+                onChange={() => setQueryKind(candidate.id)}
+                disabled={starting}
+              />
+              {candidate.label}
+            </label>
+          ))}
+        </div>
+        {queryKind === "wiql" ? (
+          <textarea
+            className="refine-textarea"
+            rows={4}
+            value={queryValue}
+            onChange={(e) => setQueryValue(e.target.value)}
+            placeholder={kind.placeholder}
+            disabled={starting}
+          />
+        ) : (
+          <input
+            type="text"
+            value={queryValue}
+            onChange={(e) => setQueryValue(e.target.value)}
+            placeholder={kind.placeholder}
+            disabled={starting}
+          />
+        )}
+        {queryKind === "iteration" && (
+          <p className="batch-hint">Work items in the sprint that are not Closed, Done or Removed.</p>
+        )}
+      </div>
+
+      <div className="form-group">
+        <label>Repository (Azure DevOps or GitHub)</label>
+        <input
+          type="text"
+          value={repoUrl}
+          onChange={(e) => setRepoUrl(e.target.value)}
+          placeholder="https://dev.azure.com/{org}/{project}/_git/{repo}"
+          disabled={starting}
+        />
+        <p className="batch-hint">Every work item gets its own clone, branch and pull request.</p>
+      </div>
+
+      <div className="form-group">
+        <label>Checks to run after implementing, one command per line</label>
+        <textarea
+          className="refine-textarea"
+          rows={2}
+          value={checks}
+          onChange={(e) => setChecks(e.target.value)}
+          placeholder="npm test"
+          disabled={starting}
+        />
+      </div>
+
+      <div className="form-group batch-options">
+        <label className="fix-until-green-toggle">
+          Implementation model
+          <select value={model} onChange={(e) => setModel(e.target.value)} disabled={starting}>
+            {MODELS.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="fix-until-green-toggle">
+          <input
+            type="checkbox"
+            checked={fixUntilGreen}
+            onChange={(e) => setFixUntilGreen(e.target.checked)}
+            disabled={starting}
+          />
+          Let Copilot fix failing checks
+        </label>
+        <label className="fix-until-green-toggle">
+          <input
+            type="checkbox"
+            checked={autoApprove}
+            onChange={(e) => setAutoApprove(e.target.checked)}
+            disabled={starting}
+          />
+          Implement plans without waiting for approval
+        </label>
+        <label className="fix-until-green-toggle">
+          <input
+            type="checkbox"
+            checked={isDraft}
+            onChange={(e) => setIsDraft(e.target.checked)}
+            disabled={starting}
+          />
+          Open pull requests as drafts
+        </label>
+      </div>
+
+      {error && <p className="error">{error}</p>}
+
+      <button
+        className="primary"
+        onClick={handleStart}
+        disabled={starting || !projectUrl.trim() || !queryValue.trim() || !repoUrl.trim()}
+      >
+        {starting ? "Running query..." : "Start Batch"}
+      </button>
+    </div>
+  );
+}
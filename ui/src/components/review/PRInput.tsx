@@ -25,6 +25,7 @@ interface AssignedPRItem extends PRMetadata {
 }
 
 interface PRInputProps {
+  sessionId: string;
   onPRFetched: (pr: PRMetadata) => void;
   onCloneComplete: (diffPreview: string) => void;
   pr: PRMetadata | null;
@@ -62,6 +63,7 @@ function getVoteLabel(vote: number): string {
 }
 
 export default function PRInput({
+  sessionId,
   onPRFetched,
   onCloneComplete,
   pr,
@@ -104,7 +106,7 @@ export default function PRInput({
     setError("");
 
     try {
-      const res = await fetch("/api/review/select-pr", {
+      const res = await fetch(`/api/review/${sessionId}/select-pr`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ pr: selectedPR }),
@@ -126,7 +128,7 @@ export default function PRInput({
     setError("");
 
     try {
-      const res = await fetch("/api/review/fetch-pr", {
+      const res = await fetch(`/api/review/${sessionId}/fetch-pr`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ url: url.trim() }),
@@ -147,7 +149,7 @@ export default function PRInput({
     setError("");
 
     try {
-      const res = await fetch("/api/review/clone-for-review", {
+      const res = await fetch(`/api/review/${sessionId}/clone-for-review`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
       });
@@ -190,7 +192,7 @@ export default function PRInput({
       {mode === "url" && !pr && (
         <>
           <div className="form-group">
-            <label>Azure DevOps Pull Request URL</label>
+            <label>Pull Request URL (Azure DevOps or GitHub)</label>
             <input
               type="text"
               value={url}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import McpServerSelector from "../McpServerSelector";
 
 interface ReviewCategory {
   id: string;
@@ -7,11 +8,24 @@ interface ReviewCategory {
   defaultEnabled: boolean;
 }
 
+export type ReviewMode = "full" | "incremental";
+
+interface LastReviewInfo {
+  lastReview: {
+    iterationId: number | null;
+    commitSha: string;
+    reviewedAt: string;
+  } | null;
+  hasNewChanges: boolean;
+}
+
 interface ReviewConfigProps {
+  sessionId: string;
   onStartReview: (config: {
     categories: string[];
     customFocusAreas: string[];
     model: string;
+    mode: ReviewMode;
   }) => void;
   onBack: () => void;
 }
@@ -39,7 +53,7 @@ const MODELS = [
   },
 ];
 
-export default function ReviewConfig({ onStartReview, onBack }: ReviewConfigProps) {
+export default function ReviewConfig({ sessionId, onStartReview, onBack }: ReviewConfigProps) {
   const [categories, setCategories] = useState<ReviewCategory[]>([]);
   const [enabledCategories, setEnabledCategories] = useState<Set<string>>(
     new Set()
@@ -48,6 +62,8 @@ export default function ReviewConfig({ onStartReview, onBack }: ReviewConfigProp
   const [newFocusArea, setNewFocusArea] = useState("");
   const [selectedModel, setSelectedModel] = useState("claude-sonnet-4.5");
   const [loading, setLoading] = useState(true);
+  const [lastReviewInfo, setLastReviewInfo] = useState<LastReviewInfo | null>(null);
+  const [mode, setMode] = useState<ReviewMode>("full");
 
   useEffect(() => {
     fetch("/api/review/categories")
@@ -65,6 +81,17 @@ export default function ReviewConfig({ onStartReview, onBack }: ReviewConfigProp
       .finally(() => setLoading(false));
   }, []);
 
+  // Offer an incremental review when this PR was reviewed before and has new commits
+  useEffect(() => {
+    fetch(`/api/review/${sessionId}/last-review`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: LastReviewInfo | null) => {
+        setLastReviewInfo(data);
+        if (data?.hasNewChanges) setMode("incremental");
+      })
+      .catch(() => {});
+  }, [sessionId]);
+
   const toggleCategory = (id: string) => {
     setEnabledCategories((prev) => {
       const next = new Set(prev);
@@ -101,6 +128,7 @@ export default function ReviewConfig({ onStartReview, onBack }: ReviewConfigProp
       categories: Array.from(enabledCategories),
       customFocusAreas,
       model: selectedModel,
+      mode,
     });
   };
 
@@ -112,6 +140,38 @@ export default function ReviewConfig({ onStartReview, onBack }: ReviewConfigProp
     <div className="card">
       <h3 style={{ marginBottom: "1.5rem" }}>Configure Review</h3>
 
+      {/* Review Mode */}
+      {lastReviewInfo?.lastReview && (
+        <div className="review-mode">
+          <h4 style={{ marginBottom: "0.5rem" }}>Review Scope</h4>
+          <p className="refine-hint">
+            Last reviewed {new Date(lastReviewInfo.lastReview.reviewedAt).toLocaleString()} at commit{" "}
+            <code>{lastReviewInfo.lastReview.commitSha.slice(0, 8)}</code>
+            {lastReviewInfo.lastReview.iterationId !== null && ` (iteration ${lastReviewInfo.lastReview.iterationId})`}
+            {!lastReviewInfo.hasNewChanges && " — no new commits since"}
+          </p>
+          <label className="fix-until-green-toggle">
+            <input
+              type="radio"
+              name="review-mode"
+              checked={mode === "incremental"}
+              onChange={() => setMode("incremental")}
+              disabled={!lastReviewInfo.hasNewChanges}
+            />
+            Review changes since last review, and check which findings were fixed
+          </label>
+          <label className="fix-until-green-toggle">
+            <input
+              type="radio"
+              name="review-mode"
+              checked={mode === "full"}
+              onChange={() => setMode("full")}
+            />
+            Review the whole PR again
+          </label>
+        </div>
+      )}
+
       {/* Review Categories */}
       <div className="review-categories">
         <h4 style={{ marginBottom: "0.5rem" }}>Review Categories</h4>
@@ -209,6 +269,8 @@ export default function ReviewConfig({ onStartReview, onBack }: ReviewConfigProp
         </div>
       </div>
 
+      <McpServerSelector sessionPath={`/api/review/${sessionId}`} />
+
       {/* Actions */}
       <div className="button-group">
         <button className="secondary" onClick={onBack}>
@@ -1,14 +1,32 @@
 import { useState, useEffect, useRef, useMemo } from "react";
 import MarkdownIt from "markdown-it";
+import AppliedInstructions, {
+  mergeInstructions,
+  type AppliedInstruction,
+} from "../AppliedInstructions";
+import { startJob, followJob, type Job } from "../../jobs";
 
 const md = new MarkdownIt({ html: false, linkify: true, breaks: true });
 
 interface ReviewOutputProps {
+  sessionId: string;
   categories: string[];
   customFocusAreas: string[];
+  mode: "full" | "incremental";
   model: string;
   onComplete: () => void;
   onBack: () => void;
+  /** Show this review job instead of starting a new review */
+  resumeJob?: Job | null;
+}
+
+// An event of the review job; which fields are set depends on its type
+interface ReviewEvent {
+  type: string;
+  content: string;
+  review?: StructuredReview;
+  instructions?: AppliedInstruction[];
+  chunk?: ChunkProgress;
 }
 
 interface DiscussionMessage {
@@ -16,109 +34,72 @@ interface DiscussionMessage {
   content: string;
 }
 
-interface Finding {
-  id: number;
+// A finding as the server validated it (see server/services/review-findings.ts)
+interface ReviewFinding {
+  id: string;
+  category: string;
+  severity: "Critical" | "High" | "Medium" | "Low";
+  file: string | null;
+  startLine: number | null;
+  endLine: number | null;
   title: string;
-  content: string;
-  severity: string;
-  selected: boolean;
-  filePath: string | null;
-  oldCode: string | null;
-  newCode: string | null;
-  fixApplied: boolean;
-  fixError: string | null;
+  explanation: string;
+  originalCode: string | null;
+  suggestedReplacement: string | null;
+  status?: "new" | "still-open";
 }
 
-interface ParsedReview {
-  summaryText: string;
-  findings: Finding[];
-  verdictText: string;
+interface StructuredReview {
+  summary: string;
+  findings: ReviewFinding[];
+  fixed: string[];
+  verdict: "APPROVE" | "REQUEST_CHANGES" | "NEEDS_DISCUSSION";
+  verdictRationale: string;
 }
 
-function parseFindings(text: string): ParsedReview {
-  // Split off the Overall Verdict section
-  const verdictMatch = text.match(/\n## Overall Verdict[\s\S]*$/);
-  const verdictText = verdictMatch ? verdictMatch[0] : "";
-  const withoutVerdict = verdictMatch
-    ? text.slice(0, verdictMatch.index!)
-    : text;
-
-  // Split on ### headings to find individual findings
-  const parts = withoutVerdict.split(/(?=^### )/m);
-
-  // Everything before the first ### is the summary/preamble
-  let summaryText = "";
-  const findings: Finding[] = [];
-  let id = 0;
-
-  for (const part of parts) {
-    if (part.startsWith("### ")) {
-      const firstLine = part.split("\n")[0];
-      const title = firstLine.replace(/^### /, "").trim();
-
-      // Extract severity from patterns like "[Severity: Critical]" or "Severity: High -"
-      let severity = "Medium";
-      const sevMatch = title.match(
-        /\bSeverity:\s*(Critical|High|Medium|Low)\b/i
-      );
-      if (sevMatch) {
-        severity = sevMatch[1];
-      } else if (/\bCritical\b/i.test(title)) {
-        severity = "Critical";
-      } else if (/\bHigh\b/i.test(title)) {
-        severity = "High";
-      } else if (/\bLow\b/i.test(title)) {
-        severity = "Low";
-      }
-
-      // Extract file path from **File**: `path/to/file`
-      const fileMatch = part.match(/\*\*File\*\*:\s*`([^`]+)`/);
-      const filePath = fileMatch ? fileMatch[1].replace(/\s*\(line.*$/, "") : null;
-
-      // Extract old/new code from diff blocks
-      let oldCode: string | null = null;
-      let newCode: string | null = null;
-      const diffBlockMatch = part.match(/```diff\n([\s\S]*?)```/);
-      if (diffBlockMatch) {
-        const diffLines = diffBlockMatch[1].split("\n");
-        const oldLines: string[] = [];
-        const newLines: string[] = [];
-        for (const line of diffLines) {
-          if (line.startsWith("- ") || line.startsWith("-\t")) {
-            oldLines.push(line.slice(2));
-          } else if (line.startsWith("-") && line.length > 1 && line[1] !== "-") {
-            oldLines.push(line.slice(1));
-          } else if (line.startsWith("+ ") || line.startsWith("+\t")) {
-            newLines.push(line.slice(2));
-          } else if (line.startsWith("+") && line.length > 1 && line[1] !== "+") {
-            newLines.push(line.slice(1));
-          }
-        }
-        if (oldLines.length > 0) oldCode = oldLines.join("\n");
-        if (newLines.length > 0) newCode = newLines.join("\n");
-      }
-
-      // Clean trailing --- separators from the content
-      const content = part.replace(/\n---\s*$/, "").trim();
-
-      findings.push({
-        id: id++,
-        title,
-        content,
-        severity,
-        selected: true,
-        filePath,
-        oldCode,
-        newCode,
-        fixApplied: false,
-        fixError: null,
-      });
-    } else {
-      summaryText += part;
-    }
-  }
+// A large diff is reviewed in parts; this is where one of them has got to
+interface ChunkProgress {
+  index: number;
+  total: number;
+  files: string[];
+  status: "queued" | "running" | "done" | "failed";
+  findings?: number;
+  error?: string;
+}
 
-  return { summaryText: summaryText.trim(), findings, verdictText: verdictText.trim() };
+interface Finding extends ReviewFinding {
+  selected: boolean;
+  fixApplied: boolean;
+  fixError: string | null;
+}
+
+const VERDICT_LABELS: Record<StructuredReview["verdict"], string> = {
+  APPROVE: "Approve",
+  REQUEST_CHANGES: "Request changes",
+  NEEDS_DISCUSSION: "Needs discussion",
+};
+
+// Location, explanation and the proposed change, for a finding card
+function findingMarkdown(finding: ReviewFinding): string {
+  const lines =
+    finding.startLine === finding.endLine
+      ? `line ${finding.startLine}`
+      : `lines ${finding.startLine}-${finding.endLine}`;
+  const change = finding.originalCode
+    ? [
+        "```diff",
+        ...finding.originalCode.split("\n").map((line) => `- ${line}`),
+        ...(finding.suggestedReplacement?.split("\n").map((line) => `+ ${line}`) ?? []),
+        "```",
+      ].join("\n")
+    : "";
+  return [
+    finding.file && `**File**: \`${finding.file}\` (${lines})`,
+    finding.explanation,
+    change,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
 }
 
 function getSeverityClass(severity: string): string {
@@ -137,18 +118,22 @@ function getSeverityClass(severity: string): string {
 }
 
 export default function ReviewOutput({
+  sessionId,
   categories,
   customFocusAreas,
   model,
+  mode,
   onComplete,
   onBack,
+  resumeJob,
 }: ReviewOutputProps) {
   const [terminalLines, setTerminalLines] = useState<
     { type: string; content: string }[]
   >([]);
-  const [reviewText, setReviewText] = useState("");
   const [isRunning, setIsRunning] = useState(true);
   const [hasCompleted, setHasCompleted] = useState(false);
+  const [wasCancelled, setWasCancelled] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
   const [showDiscussion, setShowDiscussion] = useState(false);
   const [discussionHistory, setDiscussionHistory] = useState<
     DiscussionMessage[]
@@ -158,83 +143,82 @@ export default function ReviewOutput({
   const [isPosting, setIsPosting] = useState(false);
   const [postResult, setPostResult] = useState<{
     success?: boolean;
+    posted?: number;
+    anchored?: number;
     error?: string;
   } | null>(null);
+  const [review, setReview] = useState<StructuredReview | null>(null);
   const [findings, setFindings] = useState<Finding[]>([]);
-  const [summaryText, setSummaryText] = useState("");
-  const [verdictText, setVerdictText] = useState("");
-  const [applyingFixId, setApplyingFixId] = useState<number | null>(null);
+  const [chunks, setChunks] = useState<ChunkProgress[]>([]);
+  const [instructions, setInstructions] = useState<AppliedInstruction[]>([]);
+  const [applyingFixId, setApplyingFixId] = useState<string | null>(null);
   const outputRef = useRef<HTMLDivElement>(null);
   const discussionRef = useRef<HTMLDivElement>(null);
+  const started = useRef<Promise<Job> | null>(null);
+
+  const handleEvent = (data: ReviewEvent) => {
+    if (data.type === "complete") {
+      // The server sends the validated findings alongside the
+      // markdown; the stream deltas are only progress (and get
+      // garbled by tool calls).
+      const completed = data.review!;
+      setHasCompleted(true);
+      setReview(completed);
+      setFindings(
+        completed.findings.map((f) => ({
+          ...f,
+          selected: true,
+          fixApplied: false,
+          fixError: null,
+        }))
+      );
+    } else if (data.type === "instructions") {
+      // Each part of a large review reports its own
+      setInstructions((prev) => mergeInstructions(prev, data.instructions ?? []));
+    } else if (data.type === "chunk") {
+      const chunk = data.chunk!;
+      setChunks((prev) => {
+        const updated = [...prev];
+        updated[chunk.index - 1] = chunk;
+        return updated;
+      });
+    } else if (data.type === "cancelled") {
+      setWasCancelled(true);
+    }
 
-  useEffect(() => {
-    const startReview = async () => {
-      try {
-        const res = await fetch("/api/review/start", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ categories, customFocusAreas, model }),
-        });
-
-        const reader = res.body?.getReader();
-        const decoder = new TextDecoder();
-
-        if (!reader) return;
-
-        let buffer = "";
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              try {
-                const data = JSON.parse(line.slice(6));
-
-                if (data.type === "complete") {
-                  // The server sends the clean, complete review text from
-                  // sendAndWait() — use it directly instead of accumulating
-                  // from stream deltas (which get garbled by tool calls).
-                  const finalText = data.content || "";
-                  setHasCompleted(true);
-                  setReviewText(finalText);
-                  const parsed = parseFindings(finalText);
-                  setSummaryText(parsed.summaryText);
-                  setFindings(parsed.findings);
-                  setVerdictText(parsed.verdictText);
-                }
-
-                // Feed terminal display for progress
-                if (data.type === "message" || data.type === "tool_start" || data.type === "tool_end" || data.type === "error") {
-                  setTerminalLines((prev) => {
-                    if (
-                      data.type === "message" &&
-                      prev.length > 0 &&
-                      prev[prev.length - 1].type === "message"
-                    ) {
-                      const updated = [...prev];
-                      updated[updated.length - 1] = {
-                        ...updated[updated.length - 1],
-                        content:
-                          updated[updated.length - 1].content + data.content,
-                      };
-                      return updated;
-                    }
-                    return [...prev, data];
-                  });
-                }
-              } catch {
-                // skip invalid JSON
-              }
-            }
-          }
+    // Feed terminal display for progress
+    if (data.type === "message" || data.type === "tool_start" || data.type === "tool_end" || data.type === "error" || data.type === "cancelled") {
+      setTerminalLines((prev) => {
+        if (
+          data.type === "message" &&
+          prev.length > 0 &&
+          prev[prev.length - 1].type === "message"
+        ) {
+          const updated = [...prev];
+          updated[updated.length - 1] = {
+            ...updated[updated.length - 1],
+            content:
+              updated[updated.length - 1].content + data.content,
+          };
+          return updated;
         }
-      } catch (err) {
+        return [...prev, data];
+      });
+    }
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    // Start the review only once; following it again is harmless, as every event is replayed
+    started.current ??= resumeJob
+      ? Promise.resolve(resumeJob)
+      : startJob(`/api/review/${sessionId}/start`, { categories, customFocusAreas, model, mode });
+
+    started.current
+      .then((job) => followJob(job.id, handleEvent, controller.signal))
+      .catch((err) => {
+        if (controller.signal.aborted) return;
         setTerminalLines((prev) => [
           ...prev,
           {
@@ -243,13 +227,13 @@ export default function ReviewOutput({
               err instanceof Error ? err.message : "Review failed",
           },
         ]);
-      } finally {
-        setIsRunning(false);
-      }
-    };
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsRunning(false);
+      });
 
-    startReview();
-  }, [categories, customFocusAreas, model]);
+    return () => controller.abort();
+  }, [sessionId, categories, customFocusAreas, model, mode]);
 
   useEffect(() => {
     if (outputRef.current) {
@@ -263,12 +247,21 @@ export default function ReviewOutput({
     }
   }, [discussionHistory]);
 
+  const handleStop = async () => {
+    setIsStopping(true);
+    try {
+      await fetch(`/api/review/${sessionId}/cancel`, { method: "POST" });
+    } catch {
+      setIsStopping(false);
+    }
+  };
+
   const handleAskQuestion = async () => {
     if (!question.trim() || isAsking) return;
     setIsAsking(true);
 
     try {
-      const res = await fetch("/api/review/discuss", {
+      const res = await fetch(`/api/review/${sessionId}/discuss`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ question: question.trim() }),
@@ -295,7 +288,7 @@ export default function ReviewOutput({
   };
 
   const clearDiscussion = async () => {
-    await fetch("/api/review/clear-discussion", { method: "POST" });
+    await fetch(`/api/review/${sessionId}/clear-discussion`, { method: "POST" });
     setDiscussionHistory([]);
   };
 
@@ -303,22 +296,23 @@ export default function ReviewOutput({
     setIsPosting(true);
     setPostResult(null);
 
-    // Compose markdown from selected findings only — no summary/verdict fluff
+    // Selected findings only, one thread each — no summary/verdict fluff
     const selectedFindings = findings.filter((f) => f.selected);
-    const content = selectedFindings
-      .map((f) => f.content)
-      .join("\n\n---\n\n");
 
     try {
-      const res = await fetch("/api/review/post-comment", {
+      const res = await fetch(`/api/review/${sessionId}/post-findings`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ content }),
+        body: JSON.stringify({
+          findings: selectedFindings.map(
+            ({ selected: _selected, fixApplied: _fixApplied, fixError: _fixError, ...finding }) => finding
+          ),
+        }),
       });
 
       const data = await res.json();
       if (!res.ok) throw new Error(data.error);
-      setPostResult({ success: true });
+      setPostResult({ success: true, posted: data.threadIds.length, anchored: data.anchored });
     } catch (err) {
       setPostResult({
         error:
@@ -330,17 +324,17 @@ export default function ReviewOutput({
   };
 
   const handleApplyFix = async (finding: Finding) => {
-    if (!finding.filePath || !finding.oldCode || !finding.newCode) return;
+    if (!finding.file || !finding.originalCode || !finding.suggestedReplacement) return;
     setApplyingFixId(finding.id);
 
     try {
-      const res = await fetch("/api/review/apply-fix", {
+      const res = await fetch(`/api/review/${sessionId}/apply-fix`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          filePath: finding.filePath,
-          oldContent: finding.oldCode,
-          newContent: finding.newCode,
+          filePath: finding.file,
+          oldContent: finding.originalCode,
+          newContent: finding.suggestedReplacement,
           findingTitle: finding.title,
         }),
       });
@@ -378,7 +372,7 @@ export default function ReviewOutput({
     }
   };
 
-  const toggleFinding = (id: number) => {
+  const toggleFinding = (id: string) => {
     setFindings((prev) =>
       prev.map((f) => (f.id === id ? { ...f, selected: !f.selected } : f))
     );
@@ -398,23 +392,25 @@ export default function ReviewOutput({
 
   const selectedCount = findings.filter((f) => f.selected).length;
 
-  const summaryHtml = useMemo(
-    () => (summaryText ? md.render(summaryText) : ""),
-    [summaryText]
-  );
+  const summaryHtml = useMemo(() => {
+    if (!review) return "";
+    const fixed =
+      review.fixed.length > 0
+        ? `\n\n**Fixed since the previous review**:\n${review.fixed.map((title) => `- ${title}`).join("\n")}`
+        : "";
+    return md.render(review.summary + fixed);
+  }, [review]);
 
   const verdictHtml = useMemo(
-    () => (verdictText ? md.render(verdictText) : ""),
-    [verdictText]
-  );
-
-  // Fallback: if no findings were parsed, render the whole review as one block
-  const fallbackHtml = useMemo(
     () =>
-      hasCompleted && reviewText && findings.length === 0
-        ? md.render(reviewText)
+      review
+        ? md.render(
+            `**Overall verdict: ${VERDICT_LABELS[review.verdict]}**${
+              review.verdictRationale ? ` - ${review.verdictRationale}` : ""
+            }`
+          )
         : "",
-    [reviewText, hasCompleted, findings.length]
+    [review]
   );
 
   return (
@@ -431,6 +427,8 @@ export default function ReviewOutput({
                 ? "error"
                 : item.type === "complete"
                 ? "complete"
+                : item.type === "cancelled"
+                ? "cancelled"
                 : ""
             }`}
           >
@@ -438,13 +436,43 @@ export default function ReviewOutput({
             {item.type === "message" && item.content}
             {item.type === "error" && `Error: ${item.content}`}
             {item.type === "complete" && item.content}
+            {item.type === "cancelled" && item.content}
           </div>
         ))}
         {isRunning && <div className="progress-line">Reviewing...</div>}
       </div>
 
+      <AppliedInstructions instructions={instructions} />
+
+      {/* Per-part progress, when a large diff is reviewed in parts */}
+      {chunks.length > 0 && (
+        <ul className="review-chunks">
+          {chunks.map((chunk) => (
+            <li key={chunk.index} className={`review-chunk ${chunk.status}`}>
+              <span className="review-chunk-status">
+                {chunk.status === "done"
+                  ? `${chunk.findings ?? 0} finding${chunk.findings !== 1 ? "s" : ""}`
+                  : chunk.status}
+              </span>
+              <span className="review-chunk-files" title={chunk.files.join("\n")}>
+                Part {chunk.index}/{chunk.total}: {chunk.files.join(", ")}
+              </span>
+              {chunk.error && <span className="review-chunk-error">{chunk.error}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isRunning && (
+        <div className="stop-bar">
+          <button className="stop-button" onClick={handleStop} disabled={isStopping}>
+            {isStopping ? "Stopping..." : "Stop"}
+          </button>
+        </div>
+      )}
+
       {/* Structured review display with selectable findings */}
-      {hasCompleted && findings.length > 0 && (
+      {hasCompleted && review && (
         <div className="review-findings" style={{ marginTop: "1.5rem" }}>
           {/* Summary (always included) */}
           {summaryHtml && (
@@ -454,30 +482,36 @@ export default function ReviewOutput({
             />
           )}
 
+          {findings.length === 0 && (
+            <p className="findings-count">No findings.</p>
+          )}
+
           {/* Findings toolbar */}
-          <div className="findings-toolbar">
-            <span className="findings-count">
-              {selectedCount} of {findings.length} findings selected
-            </span>
-            <div className="findings-actions">
-              <button
-                className="secondary"
-                onClick={selectAll}
-                disabled={selectedCount === findings.length}
-                style={{ padding: "0.25rem 0.625rem", fontSize: "0.75rem" }}
-              >
-                Select All
-              </button>
-              <button
-                className="secondary"
-                onClick={deselectAll}
-                disabled={selectedCount === 0}
-                style={{ padding: "0.25rem 0.625rem", fontSize: "0.75rem" }}
-              >
-                Deselect All
-              </button>
+          {findings.length > 0 && (
+            <div className="findings-toolbar">
+              <span className="findings-count">
+                {selectedCount} of {findings.length} findings selected
+              </span>
+              <div className="findings-actions">
+                <button
+                  className="secondary"
+                  onClick={selectAll}
+                  disabled={selectedCount === findings.length}
+                  style={{ padding: "0.25rem 0.625rem", fontSize: "0.75rem" }}
+                >
+                  Select All
+                </button>
+                <button
+                  className="secondary"
+                  onClick={deselectAll}
+                  disabled={selectedCount === 0}
+                  style={{ padding: "0.25rem 0.625rem", fontSize: "0.75rem" }}
+                >
+                  Deselect All
+                </button>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Individual finding cards */}
           {findings.map((finding) => (
@@ -498,18 +532,20 @@ export default function ReviewOutput({
                 >
                   {finding.severity}
                 </span>
-                <span className="finding-title">{finding.title}</span>
+                <span className="finding-title">
+                  {finding.status === "still-open" && "[Still open] "}
+                  {finding.status === "new" && "[New] "}
+                  {finding.title}
+                </span>
               </div>
               <div
                 className="finding-content review-content"
                 dangerouslySetInnerHTML={{
-                  __html: md.render(
-                    finding.content.replace(/^### .*\n?/, "")
-                  ),
+                  __html: md.render(findingMarkdown(finding)),
                 }}
               />
               {/* Apply Fix button — only when finding has actionable diff */}
-              {finding.filePath && finding.oldCode && finding.newCode && (
+              {finding.file && finding.originalCode && finding.suggestedReplacement && (
                 <div
                   className="finding-fix-actions"
                   onClick={(e) => e.stopPropagation()}
@@ -554,17 +590,6 @@ export default function ReviewOutput({
         </div>
       )}
 
-      {/* Fallback: if parser found no findings, show whole review */}
-      {hasCompleted && fallbackHtml && (
-        <div className="review-findings" style={{ marginTop: "1.5rem" }}>
-          <h4 style={{ marginBottom: "0.75rem" }}>Review Findings</h4>
-          <div
-            className="plan-content review-content"
-            dangerouslySetInnerHTML={{ __html: fallbackHtml }}
-          />
-        </div>
-      )}
-
       {/* Discussion panel */}
       {hasCompleted && (
         <div className="discuss-section">
@@ -645,7 +670,8 @@ export default function ReviewOutput({
           <div>
             <strong>Review posted to PR</strong>
             <div className="branch-name">
-              Comment thread created on Azure DevOps
+              {postResult.posted} comment thread{postResult.posted !== 1 ? "s" : ""} added
+              {postResult.anchored ? `, ${postResult.anchored} on the lines they are about` : ""}
             </div>
           </div>
         </div>
@@ -683,6 +709,11 @@ export default function ReviewOutput({
             </button>
           </>
         )}
+        {wasCancelled && (
+          <button className="secondary" onClick={onComplete}>
+            New Review
+          </button>
+        )}
       </div>
     </div>
   );
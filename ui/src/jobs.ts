@@ -0,0 +1,73 @@
+/**
+ * Plans, implementations, code changes and reviews run as jobs on the
+ * server. The request that starts one returns straight away; its progress
+ * is read from /api/jobs/:jobId/events, which can be reconnected to at any
+ * time without losing events.
+ */
+export interface Job {
+  id: string;
+  kind: "plan" | "implement" | "refine-code" | "review";
+  sessionId: string;
+  status: "running" | "completed" | "failed" | "cancelled";
+  createdAt: string;
+  updatedAt: string;
+  lastEventId: number;
+}
+
+// POST a request that starts a job; throws the request's error if it is rejected
+export async function startJob(url: string, body: unknown): Promise<Job> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || "Request failed");
+  }
+  return data.job;
+}
+
+/**
+ * Pass every event of a job to onEvent, from the first, until the job ends.
+ * When the connection drops (sleep, network change) the browser reconnects
+ * and the server sends only the events after the last one received.
+ * Resolves with the finished job; aborting the signal stops following.
+ */
+export function followJob<T>(jobId: string, onEvent: (data: T) => void, signal?: AbortSignal): Promise<Job> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return;
+
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    signal?.addEventListener("abort", () => source.close(), { once: true });
+
+    source.onmessage = (message) => {
+      try {
+        onEvent(JSON.parse(message.data) as T);
+      } catch {
+        // Ignore events that are not JSON
+      }
+    };
+    source.addEventListener("end", (message) => {
+      source.close();
+      resolve(JSON.parse((message as MessageEvent).data).job);
+    });
+    source.onerror = () => {
+      // While CONNECTING the browser is retrying; CLOSED means it gave up
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error("Lost the connection to the job"));
+      }
+    };
+  });
+}
+
+// The session's most recent job, if it has one
+export async function latestJob(sessionId: string): Promise<Job | null> {
+  try {
+    const response = await fetch(`/api/jobs?sessionId=${encodeURIComponent(sessionId)}`);
+    const data = await response.json();
+    return data.jobs?.[0] ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import BatchForm from "../components/batch/BatchForm";
+import BatchDashboard, { type Batch } from "../components/batch/BatchDashboard";
+
+interface BatchSummary {
+  id: string;
+  createdAt: string;
+  query: { kind: string; value: string };
+  total: number;
+  counts: Record<string, number | undefined>;
+}
+
+interface BatchAppProps {
+  onBackToSelector: () => void;
+  /** Switch to the Ticket Implementer with one of a batch's sessions */
+  onOpenSession: (sessionId: string) => void;
+}
+
+function getBatchLabel(summary: BatchSummary): string {
+  const value = summary.query.value.length > 32 ? `${summary.query.value.slice(0, 32)}…` : summary.query.value;
+  return `${value} (${summary.counts.pr_opened ?? 0}/${summary.total})`;
+}
+
+export default function BatchApp({ onBackToSelector, onOpenSession }: BatchAppProps) {
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refreshBatches = async (): Promise<BatchSummary[]> => {
+    try {
+      const res = await fetch("/api/batch");
+      const data = await res.json();
+      setBatches(data.batches || []);
+      return data.batches || [];
+    } catch {
+      return [];
+    }
+  };
+
+  const openBatch = async (id: string) => {
+    const res = await fetch(`/api/batch/${id}`);
+    if (!res.ok) {
+      await refreshBatches();
+      return;
+    }
+    const data = await res.json();
+    setBatch(data.batch);
+  };
+
+  // Show the most recent batch, or the form when there is none
+  useEffect(() => {
+    refreshBatches()
+      .then((existing) => (existing.length > 0 ? openBatch(existing[0].id) : undefined))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleCreated = (created: Batch) => {
+    setBatch(created);
+    refreshBatches();
+  };
+
+  const handleChange = (updated: Batch) => {
+    setBatch(updated);
+    refreshBatches();
+  };
+
+  const handleDelete = async () => {
+    setBatch(null);
+    await refreshBatches();
+  };
+
+  return (
+    <>
+      <button
+        className="back-to-selector"
+        onClick={onBackToSelector}
+      >
+        Back to Tools
+      </button>
+
+      <h1>Batch Runner</h1>
+      <p>Plan every work item of a query or sprint and open a pull request for each one</p>
+
+      <div className="session-bar">
+        {batches.map((summary) => (
+          <div
+            key={summary.id}
+            className={`session-tab ${summary.id === batch?.id ? "active" : ""}`}
+            title={summary.query.value}
+          >
+            <button
+              className="session-tab-label"
+              onClick={() => openBatch(summary.id)}
+              disabled={summary.id === batch?.id}
+            >
+              {getBatchLabel(summary)}
+            </button>
+          </div>
+        ))}
+        <button className="session-new" onClick={() => setBatch(null)} disabled={!batch}>
+          + New
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="loading-text">Loading batches...</p>
+      ) : batch ? (
+        <BatchDashboard
+          key={batch.id}
+          batch={batch}
+          onChange={handleChange}
+          onDelete={handleDelete}
+          onOpenSession={onOpenSession}
+        />
+      ) : (
+        <BatchForm onCreated={handleCreated} />
+      )}
+    </>
+  );
+}
@@ -1,7 +1,8 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import PRInput, { type PRMetadata } from "../components/review/PRInput";
-import ReviewConfig from "../components/review/ReviewConfig";
+import ReviewConfig, { type ReviewMode } from "../components/review/ReviewConfig";
 import ReviewOutput from "../components/review/ReviewOutput";
+import { latestJob, type Job } from "../jobs";
 
 type ReviewStep = "input" | "config" | "review";
 
@@ -9,19 +10,60 @@ interface ReviewSettings {
   categories: string[];
   customFocusAreas: string[];
   model: string;
+  mode: ReviewMode;
 }
 
+// A resumed review runs with the settings it was started with; these are unused
+const RESUMED_REVIEW: ReviewSettings = { categories: [], customFocusAreas: [], model: "", mode: "full" };
+
 interface CodeReviewAppProps {
   onBackToSelector: () => void;
 }
 
 export default function CodeReviewApp({ onBackToSelector }: CodeReviewAppProps) {
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [step, setStep] = useState<ReviewStep>("input");
   const [pr, setPR] = useState<PRMetadata | null>(null);
   const [isCloned, setIsCloned] = useState(false);
   const [reviewSettings, setReviewSettings] = useState<ReviewSettings | null>(
     null
   );
+  const [resumeJob, setResumeJob] = useState<Job | null>(null);
+
+  const startNewSession = async () => {
+    const res = await fetch("/api/review/sessions", { method: "POST" });
+    const data = await res.json();
+    setSessionId(data.id);
+  };
+
+  // Resume the most recent review session, or start a new one
+  useEffect(() => {
+    const resumeOrStart = async () => {
+      try {
+        const res = await fetch("/api/review/sessions");
+        const data = await res.json();
+        const latest = data.sessions?.[0];
+        if (latest) {
+          setSessionId(latest.id);
+          setPR(latest.pr);
+          setIsCloned(latest.isCloned);
+          if (latest.isCloned) setStep("config");
+          // A review still running, e.g. when the page was reloaded, is shown again
+          const job = await latestJob(latest.id);
+          if (job?.kind === "review" && job.status === "running") {
+            setResumeJob(job);
+            setStep("review");
+          }
+          return;
+        }
+      } catch {
+        // Fall through and start a new session
+      }
+      await startNewSession();
+    };
+
+    resumeOrStart();
+  }, []);
 
   const handlePRFetched = (fetchedPR: PRMetadata) => {
     setPR(fetchedPR);
@@ -34,14 +76,19 @@ export default function CodeReviewApp({ onBackToSelector }: CodeReviewAppProps)
 
   const handleStartReview = (config: ReviewSettings) => {
     setReviewSettings(config);
+    setResumeJob(null);
     setStep("review");
   };
 
   const handleComplete = async () => {
-    await fetch("/api/review/reset", { method: "POST" }).catch(() => {});
+    if (sessionId) {
+      await fetch(`/api/review/${sessionId}`, { method: "DELETE" }).catch(() => {});
+    }
+    await startNewSession();
     setPR(null);
     setIsCloned(false);
     setReviewSettings(null);
+    setResumeJob(null);
     setStep("input");
   };
 
@@ -55,7 +102,7 @@ export default function CodeReviewApp({ onBackToSelector }: CodeReviewAppProps)
       </button>
 
       <h1>Code Reviewer</h1>
-      <p>Paste an Azure DevOps PR URL to get AI-powered code review feedback</p>
+      <p>Paste an Azure DevOps or GitHub PR URL to get AI-powered code review feedback</p>
 
       <div className="steps">
         <div
@@ -84,8 +131,9 @@ export default function CodeReviewApp({ onBackToSelector }: CodeReviewAppProps)
         </div>
       </div>
 
-      {step === "input" && (
+      {step === "input" && sessionId && (
         <PRInput
+          sessionId={sessionId}
           onPRFetched={handlePRFetched}
           onCloneComplete={handleCloneComplete}
           pr={pr}
@@ -93,20 +141,24 @@ export default function CodeReviewApp({ onBackToSelector }: CodeReviewAppProps)
         />
       )}
 
-      {step === "config" && (
+      {step === "config" && sessionId && (
         <ReviewConfig
+          sessionId={sessionId}
           onStartReview={handleStartReview}
           onBack={() => setStep("input")}
         />
       )}
 
-      {step === "review" && reviewSettings && (
+      {step === "review" && sessionId && (reviewSettings || resumeJob) && (
         <ReviewOutput
-          categories={reviewSettings.categories}
-          customFocusAreas={reviewSettings.customFocusAreas}
-          model={reviewSettings.model}
+          sessionId={sessionId}
+          categories={(reviewSettings ?? RESUMED_REVIEW).categories}
+          customFocusAreas={(reviewSettings ?? RESUMED_REVIEW).customFocusAreas}
+          model={(reviewSettings ?? RESUMED_REVIEW).model}
+          mode={(reviewSettings ?? RESUMED_REVIEW).mode}
           onComplete={handleComplete}
           onBack={onBackToSelector}
+          resumeJob={resumeJob}
         />
       )}
     </>
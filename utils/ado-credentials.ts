@@ -0,0 +1,31 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * The Azure DevOps token of whoever the current work is done for. The web
+ * server runs each signed-in user's requests, and the jobs they start, with
+ * that user's token; everything else (the CLI, service hooks, a server
+ * without sign-in) uses ADO_PAT.
+ */
+const userCredentials = new AsyncLocalStorage<{ pat: string | null }>();
+
+// Run fn, and whatever it starts, with a user's token (null: the user has none)
+export function runWithAdoPat<T>(pat: string | null, fn: () => T): T {
+  return userCredentials.run({ pat }, fn);
+}
+
+export function getAdoPat(): string {
+  const user = userCredentials.getStore();
+  if (user) {
+    if (!user.pat) {
+      // Falling back to ADO_PAT would put the changes in someone else's name
+      throw new Error("No Azure DevOps token: add yours under Account");
+    }
+    return user.pat;
+  }
+
+  const pat = process.env.ADO_PAT;
+  if (!pat) {
+    throw new Error("ADO_PAT environment variable is not set");
+  }
+  return pat;
+}
@@ -1,6 +1,8 @@
-import { execSync } from "child_process";
-import { mkdirSync, existsSync, rmSync, writeFileSync, unlinkSync } from "fs";
-import { join, basename } from "path";
+import { execFileSync, execSync } from "child_process";
+import { mkdirSync, existsSync, rmSync } from "fs";
+import { join, resolve } from "path";
+import type { GitHostingProvider } from "./git-hosting.js";
+import { getAdoPat } from "./ado-credentials.js";
 
 export interface RepoConfig {
   organization: string;
@@ -23,10 +25,10 @@ function sanitizeBranchName(name: string): string {
     .substring(0, 50);
 }
 
-function generateUniqueBranchName(ticketId: number, ticketTitle: string): string {
+function generateUniqueBranchName(ticketId: number | string, ticketTitle: string): string {
   const timestamp = Date.now().toString(36); // Short base36 timestamp
-  const sanitized = sanitizeBranchName(ticketTitle);
-  return `feature/${ticketId}-${sanitized}-${timestamp}`;
+  // Jira and Linear ids come from their APIs, so they are sanitized like the title
+  return `feature/${sanitizeBranchName(String(ticketId))}-${sanitizeBranchName(ticketTitle)}-${timestamp}`;
 }
 
 export function parseAzureDevOpsRepoUrl(url: string): Omit<RepoConfig, "pat"> {
@@ -61,25 +63,38 @@ export function parseAzureDevOpsRepoUrl(url: string): Omit<RepoConfig, "pat"> {
   throw new Error(`Invalid Azure DevOps repo URL: ${url}`);
 }
 
-export function buildCloneUrl(config: RepoConfig): string {
-  // Use PAT in URL for authentication
-  const encodedPat = encodeURIComponent(config.pat);
-  return `https://${encodedPat}@dev.azure.com/${config.organization}/${encodeURIComponent(config.project)}/_git/${encodeURIComponent(config.repoName)}`;
+// No credentials: git commands that reach the server get them from gitAuthEnv
+export function buildCloneUrl(config: Omit<RepoConfig, "pat">): string {
+  return `https://dev.azure.com/${config.organization}/${encodeURIComponent(config.project)}/_git/${encodeURIComponent(config.repoName)}`;
+}
+
+/**
+ * Environment for one git command that reaches the host, sending the given
+ * Authorization header. Passed as config through the environment, the token
+ * is neither written to the clone's remote nor shown in the process list.
+ */
+export function gitAuthEnv(authorization: string): NodeJS.ProcessEnv {
+  return {
+    ...process.env,
+    GIT_CONFIG_COUNT: "1",
+    GIT_CONFIG_KEY_0: "http.extraHeader",
+    GIT_CONFIG_VALUE_0: `Authorization: ${authorization}`,
+  };
+}
+
+export function getAdoGitEnv(): NodeJS.ProcessEnv {
+  return gitAuthEnv(`Basic ${Buffer.from(`:${getAdoPat()}`).toString("base64")}`);
 }
 
 export async function cloneAndBranch(
+  hosting: GitHostingProvider,
   repoUrl: string,
-  ticketId: number,
+  ticketId: number | string,
   ticketTitle: string,
   basePath?: string
 ): Promise<CloneResult> {
-  const pat = process.env.ADO_PAT;
-  if (!pat) {
-    throw new Error("ADO_PAT environment variable is not set");
-  }
-
-  const { organization, project, repoName } = parseAzureDevOpsRepoUrl(repoUrl);
-  const config: RepoConfig = { organization, project, repoName, pat };
+  const repoName = hosting.getRepoName(repoUrl);
+  const cloneUrl = hosting.getCloneUrl(repoUrl);
 
   // Create workspace directory
   const workspacePath = basePath || join(process.cwd(), ".workspaces");
@@ -94,17 +109,16 @@ export async function cloneAndBranch(
   // Generate unique branch name from ticket
   const branchName = generateUniqueBranchName(ticketId, ticketTitle);
 
-  const cloneUrl = buildCloneUrl(config);
-
   try {
     console.log(`Cloning ${repoName}...`);
-    execSync(`git clone "${cloneUrl}" "${localPath}"`, {
+    execFileSync("git", ["clone", cloneUrl, localPath], {
+      env: hosting.getGitEnv(),
       stdio: "pipe",
       encoding: "utf-8",
     });
 
     console.log(`Creating branch ${branchName}...`);
-    execSync(`git checkout -b "${branchName}"`, {
+    execFileSync("git", ["checkout", "-b", branchName], {
       cwd: localPath,
       stdio: "pipe",
       encoding: "utf-8",
@@ -122,7 +136,13 @@ export async function cloneAndBranch(
   }
 }
 
+/**
+ * Commit everything and push the branch. Pushes to a repository cloned
+ * from a host are made with the current user's token for that host; for the
+ * user's own folder (hosting null), git's own credentials are used.
+ */
 export async function commitAndPush(
+  hosting: GitHostingProvider | null,
   localPath: string,
   branchName: string,
   commitMessage: string
@@ -156,15 +176,16 @@ export async function commitAndPush(
     }
 
     // Commit
-    execSync(`git commit -m "${commitMessage.replace(/"/g, '\\"')}"`, {
+    execFileSync("git", ["commit", "-m", commitMessage], {
       cwd: localPath,
       stdio: "pipe",
     });
 
     // Push
     console.log(`Pushing branch ${branchName}...`);
-    execSync(`git push -u origin "${branchName}"`, {
+    execFileSync("git", ["push", "-u", "origin", branchName], {
       cwd: localPath,
+      env: hosting?.getGitEnv(),
       stdio: "pipe",
     });
 
@@ -182,13 +203,170 @@ export function cleanupWorkspace(localPath: string): void {
   }
 }
 
-export function getDiff(localPath: string): string {
-  // Exclude temporary instruction files from diff
-  const excludePattern = "-- ':!.github/instructions/*.instructions.md'";
+/**
+ * Check that a workspace left by a previous server run is still usable and
+ * that its branch is checked out. Returns false if the workspace is gone.
+ */
+export function reattachWorkspace(localPath: string, branchName: string): boolean {
+  if (!existsSync(localPath)) {
+    return false;
+  }
+
+  try {
+    const currentBranch = execSync("git rev-parse --abbrev-ref HEAD", {
+      cwd: localPath,
+      encoding: "utf-8",
+      stdio: "pipe",
+    }).trim();
+
+    if (currentBranch !== branchName) {
+      execFileSync("git", ["checkout", branchName], {
+        cwd: localPath,
+        stdio: "pipe",
+      });
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Record the current working tree (tracked and untracked files) as a dangling
+ * commit without touching the index, the branch or the files on disk.
+ * Returns the commit SHA to hand to restoreWorkingTreeSnapshot.
+ */
+export function snapshotWorkingTree(localPath: string): string {
+  const indexFile = execSync("git rev-parse --git-path ticket-implementer-snapshot-index", {
+    cwd: localPath,
+    encoding: "utf-8",
+  }).trim();
+
+  // A throwaway index, so the user's staged changes stay as they are
+  const env = {
+    ...process.env,
+    GIT_INDEX_FILE: resolve(localPath, indexFile),
+    GIT_AUTHOR_NAME: "Ticket Implementer",
+    GIT_AUTHOR_EMAIL: "ticket-implementer@localhost",
+    GIT_COMMITTER_NAME: "Ticket Implementer",
+    GIT_COMMITTER_EMAIL: "ticket-implementer@localhost",
+  };
+
+  try {
+    execSync("git read-tree HEAD", { cwd: localPath, env, stdio: "pipe" });
+    execSync("git add -A", { cwd: localPath, env, stdio: "pipe" });
+    const tree = execSync("git write-tree", { cwd: localPath, env, encoding: "utf-8" }).trim();
+    return execSync(`git commit-tree ${tree} -p HEAD -m "Working tree snapshot"`, {
+      cwd: localPath,
+      env,
+      encoding: "utf-8",
+    }).trim();
+  } finally {
+    rmSync(resolve(localPath, indexFile), { force: true });
+  }
+}
+
+/**
+ * Put the working tree back exactly as it was when the snapshot was taken:
+ * undo any commits made since, drop new untracked files and restore the
+ * snapshotted content. The index ends up matching HEAD, so files that were
+ * untracked before are untracked again. Ignored files are left alone.
+ */
+export function restoreWorkingTreeSnapshot(localPath: string, snapshot: string): void {
+  try {
+    execSync(`git reset --hard ${snapshot}`, { cwd: localPath, stdio: "pipe" });
+    execSync("git clean -fd", { cwd: localPath, stdio: "pipe" });
+    // Move the branch back to where it was; the files keep the snapshot content
+    execSync(`git reset -q ${snapshot}^`, { cwd: localPath, stdio: "pipe" });
+  } catch (error) {
+    throw new Error(
+      `Failed to restore workspace: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+// Checkpoints live under their own ref namespace so they survive git gc
+// but never show up as branches or tags
+const CHECKPOINT_REF_PREFIX = "refs/ticket-implementer/checkpoints";
+
+// Temporary instruction files never belong in a diff
+const DIFF_EXCLUDE_PATTERN = "-- ':!.github/instructions/*.instructions.md'";
+
+/**
+ * Snapshot the working tree and keep the snapshot reachable from
+ * refs/ticket-implementer/checkpoints/<group>/<name>. Returns the commit SHA.
+ */
+export function createCheckpoint(localPath: string, group: string, name: string): string {
+  const sha = snapshotWorkingTree(localPath);
+  execSync(`git update-ref ${CHECKPOINT_REF_PREFIX}/${group}/${name} ${sha}`, {
+    cwd: localPath,
+    stdio: "pipe",
+  });
+  return sha;
+}
+
+/**
+ * Remove the refs of every checkpoint in a group. The snapshot commits are
+ * left for git gc to collect.
+ */
+export function deleteCheckpoints(localPath: string, group: string): void {
+  try {
+    const refs = execSync(`git for-each-ref --format="%(refname)" ${CHECKPOINT_REF_PREFIX}/${group}/`, {
+      cwd: localPath,
+      encoding: "utf-8",
+    });
+    for (const ref of refs.split("\n").filter(Boolean)) {
+      execSync(`git update-ref -d ${ref}`, { cwd: localPath, stdio: "pipe" });
+    }
+  } catch (error) {
+    console.warn(`Failed to delete checkpoints in ${localPath}:`, error);
+  }
+}
+
+/**
+ * Whether the branch is still where it was when the checkpoint was taken,
+ * i.e. nothing has been committed since and rolling back loses no commits.
+ */
+export function isCheckpointOnHead(localPath: string, checkpoint: string): boolean {
+  try {
+    const parent = execSync(`git rev-parse ${checkpoint}^`, { cwd: localPath, encoding: "utf-8" }).trim();
+    const head = execSync("git rev-parse HEAD", { cwd: localPath, encoding: "utf-8" }).trim();
+    return parent === head;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Diff between two commits or checkpoints, e.g. what one plan step changed.
+ */
+export function diffCheckpoints(localPath: string, from: string, to: string): string {
+  try {
+    return execSync(`git diff ${from} ${to} ${DIFF_EXCLUDE_PATTERN}`, {
+      cwd: localPath,
+      encoding: "utf-8",
+      maxBuffer: 10 * 1024 * 1024,
+    });
+  } catch (error) {
+    throw new Error(
+      `Failed to get git diff: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+/**
+ * Diff of the uncommitted changes, or of the branch if everything is
+ * committed. With a checkpoint, diff the working tree (including untracked
+ * files) against that checkpoint instead.
+ */
+export function getDiff(localPath: string, checkpoint?: string): string {
+  if (checkpoint) {
+    return diffCheckpoints(localPath, checkpoint, snapshotWorkingTree(localPath));
+  }
 
   try {
     // First check for uncommitted changes
-    let diff = execSync(`git diff HEAD ${excludePattern}`, {
+    let diff = execSync(`git diff HEAD ${DIFF_EXCLUDE_PATTERN}`, {
       cwd: localPath,
       encoding: "utf-8",
       maxBuffer: 10 * 1024 * 1024, // 10MB buffer for large diffs
@@ -222,14 +400,14 @@ export function getDiff(localPath: string): string {
           encoding: "utf-8",
         }).trim();
 
-        diff = execSync(`git diff ${mergeBase}..HEAD ${excludePattern}`, {
+        diff = execSync(`git diff ${mergeBase}..HEAD ${DIFF_EXCLUDE_PATTERN}`, {
           cwd: localPath,
           encoding: "utf-8",
           maxBuffer: 10 * 1024 * 1024,
         });
       } catch {
         // If merge-base fails, just show recent commits diff
-        diff = execSync(`git diff HEAD~1..HEAD ${excludePattern} 2>/dev/null || echo ""`, {
+        diff = execSync(`git diff HEAD~1..HEAD ${DIFF_EXCLUDE_PATTERN} 2>/dev/null || echo ""`, {
           cwd: localPath,
           encoding: "utf-8",
           maxBuffer: 10 * 1024 * 1024,
@@ -263,9 +441,9 @@ export function isAzureDevOpsUrl(url: string): boolean {
 
 export async function useLocalFolder(
   localPath: string,
-  ticketId: number,
+  ticketId: number | string,
   ticketTitle: string
-): Promise<CloneResult & { remoteUrl: string | null; isAzureDevOps: boolean }> {
+): Promise<CloneResult & { remoteUrl: string | null }> {
   // Validate the path exists
   if (!existsSync(localPath)) {
     throw new Error(`Path does not exist: ${localPath}`);
@@ -283,7 +461,6 @@ export async function useLocalFolder(
 
   // Get the remote URL
   const remoteUrl = getRemoteUrl(localPath);
-  const isAzureDevOps = remoteUrl ? isAzureDevOpsUrl(remoteUrl) : false;
 
   // Generate unique branch name from ticket
   const branchName = generateUniqueBranchName(ticketId, ticketTitle);
@@ -291,12 +468,12 @@ export async function useLocalFolder(
   try {
     // Always create a new branch with unique name
     console.log(`Creating branch ${branchName}...`);
-    execSync(`git checkout -b "${branchName}"`, {
+    execFileSync("git", ["checkout", "-b", branchName], {
       cwd: localPath,
       stdio: "pipe",
     });
 
-    return { localPath, branchName, remoteUrl, isAzureDevOps };
+    return { localPath, branchName, remoteUrl };
   } catch (error) {
     throw new Error(
       `Failed to set up branch: ${error instanceof Error ? error.message : "Unknown error"}`
@@ -308,221 +485,180 @@ export interface PullRequestResult {
   id: number;
   url: string;
   title: string;
+  /** vstfs:/// artifact URIs for linking work items to the PR and its branch (Azure DevOps only) */
+  artifactUrls?: {
+    pullRequest: string;
+    branch: string;
+  };
+}
+
+export type MergeStrategy = "squash" | "noFastForward" | "rebase" | "rebaseMerge";
+
+export interface PullRequestReviewer {
+  /** Email or unique name in Azure DevOps, login on GitHub */
+  name: string;
+  /** Azure DevOps only; GitHub has no per-PR required reviewers */
+  required?: boolean;
 }
 
-export interface SharedInstructionFile {
-  filename: string;        // "playwright-dotnet.instructions.md"
-  displayName: string;     // "Playwright Dotnet"
-  path: string;            // "/instructions/playwright-dotnet.instructions.md"
-  existsInWorkspace: boolean;
+/**
+ * Everything about a new pull request beyond its branches, title and description.
+ */
+export interface PullRequestOptions {
+  isDraft?: boolean;
+  reviewers?: PullRequestReviewer[];
+  labels?: string[];
+  /** Azure DevOps work items to link (workItemRefs); ignored on GitHub */
+  workItemIds?: (number | string)[];
+  /** Complete (merge) the PR by itself once policies and reviews pass */
+  autoComplete?: {
+    mergeStrategy: MergeStrategy;
+    deleteSourceBranch?: boolean;
+  };
 }
 
-export async function createPullRequest(
-  repoUrl: string,
-  sourceBranch: string,
-  title: string,
-  description: string
-): Promise<PullRequestResult> {
-  const pat = process.env.ADO_PAT;
-  if (!pat) {
-    throw new Error("ADO_PAT environment variable is not set");
-  }
+function adoHeaders(pat: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Basic ${Buffer.from(`:${pat}`).toString("base64")}`,
+  };
+}
+
+/**
+ * Get a repository's default branch (e.g. "main", "master" or "develop")
+ * from the repositories API.
+ */
+export async function getDefaultBranch(repoUrl: string): Promise<string> {
+  const pat = getAdoPat();
 
   const { organization, project, repoName } = parseAzureDevOpsRepoUrl(repoUrl);
 
-  // Azure DevOps API endpoint for creating pull requests
-  const apiUrl = `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_apis/git/repositories/${encodeURIComponent(repoName)}/pullrequests?api-version=7.1`;
+  const apiUrl = `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_apis/git/repositories/${encodeURIComponent(repoName)}?api-version=7.1`;
 
   const response = await fetch(apiUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Basic ${Buffer.from(`:${pat}`).toString("base64")}`,
-    },
-    body: JSON.stringify({
-      sourceRefName: `refs/heads/${sourceBranch}`,
-      targetRefName: "refs/heads/main",
-      title,
-      description,
-    }),
+    headers: adoHeaders(pat),
   });
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(`Failed to create pull request: ${response.status} ${errorText}`);
+    throw new Error(`Failed to fetch repository ${repoName}: ${response.status} ${errorText}`);
   }
 
   const data = await response.json();
-
-  // Construct the web URL for the PR
-  const prWebUrl = `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_git/${encodeURIComponent(repoName)}/pullrequest/${data.pullRequestId}`;
-
-  return {
-    id: data.pullRequestId,
-    url: prWebUrl,
-    title: data.title,
-  };
-}
-
-/**
- * Format filename to display name: "playwright-dotnet.instructions.md" → "Playwright Dotnet"
- */
-export function formatInstructionDisplayName(filename: string): string {
-  return filename
-    .replace(/\.instructions\.md$/, "")
-    .replace(/[-_]/g, " ")
-    .replace(/\b\w/g, (char) => char.toUpperCase());
+  if (!data.defaultBranch) {
+    throw new Error(`Repository ${repoName} has no default branch`);
+  }
+  return data.defaultBranch.replace(/^refs\/heads\//, "");
 }
 
 /**
- * List instruction files from shared repo (uses Azure DevOps Items API)
+ * Look up the identity id the pull request API wants for a reviewer, from
+ * an email address or unique name.
  */
-export async function listSharedInstructions(workspacePath?: string): Promise<SharedInstructionFile[]> {
-  const sharedRepoUrl = process.env.SHARED_INSTRUCTIONS_REPO;
-  if (!sharedRepoUrl) {
-    throw new Error("SHARED_INSTRUCTIONS_REPO environment variable is not set");
-  }
-
-  const pat = process.env.ADO_PAT;
-  if (!pat) {
-    throw new Error("ADO_PAT environment variable is not set");
-  }
-
-  const { organization, project, repoName } = parseAzureDevOpsRepoUrl(sharedRepoUrl);
-
-  // List folder contents from Azure DevOps Items API
-  const apiUrl = `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_apis/git/repositories/${encodeURIComponent(repoName)}/items?scopePath=/instructions&recursionLevel=OneLevel&api-version=7.0`;
+async function resolveIdentityId(organization: string, pat: string, name: string): Promise<string> {
+  const apiUrl = `https://vssps.dev.azure.com/${organization}/_apis/identities?searchFilter=General&filterValue=${encodeURIComponent(name)}&queryMembership=None&api-version=7.1`;
 
   const response = await fetch(apiUrl, {
-    method: "GET",
-    headers: {
-      Authorization: `Basic ${Buffer.from(`:${pat}`).toString("base64")}`,
-    },
+    headers: adoHeaders(pat),
   });
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(`Failed to list instructions: ${response.status} ${errorText}`);
+    throw new Error(`Failed to look up reviewer ${name}: ${response.status} ${errorText}`);
   }
 
   const data = await response.json();
-  const items = data.value || [];
-
-  // Filter for .instructions.md files only
-  const instructionFiles: SharedInstructionFile[] = items
-    .filter((item: { path: string; isFolder?: boolean }) =>
-      !item.isFolder && item.path.endsWith(".instructions.md")
-    )
-    .map((item: { path: string }) => {
-      const filename = basename(item.path);
-      const displayName = formatInstructionDisplayName(filename);
-
-      // Check if file already exists in workspace
-      let existsInWorkspace = false;
-      if (workspacePath) {
-        const workspaceFilePath = join(workspacePath, ".github", "instructions", filename);
-        existsInWorkspace = existsSync(workspaceFilePath);
-      }
-
-      return {
-        filename,
-        displayName,
-        path: item.path,
-        existsInWorkspace,
-      };
-    });
-
-  return instructionFiles;
-}
-
-/**
- * Fetch content of a single instruction file
- */
-export async function fetchInstructionFileContent(filePath: string): Promise<string> {
-  const sharedRepoUrl = process.env.SHARED_INSTRUCTIONS_REPO;
-  if (!sharedRepoUrl) {
-    throw new Error("SHARED_INSTRUCTIONS_REPO environment variable is not set");
+  const identity = data.value?.[0];
+  if (!identity?.id) {
+    throw new Error(`No Azure DevOps user or group found for reviewer: ${name}`);
   }
+  return identity.id;
+}
 
-  const pat = process.env.ADO_PAT;
-  if (!pat) {
-    throw new Error("ADO_PAT environment variable is not set");
-  }
+export async function createPullRequest(
+  repoUrl: string,
+  sourceBranch: string,
+  title: string,
+  description: string,
+  targetBranch: string = "main",
+  options: PullRequestOptions = {}
+): Promise<PullRequestResult> {
+  const pat = getAdoPat();
 
-  const { organization, project, repoName } = parseAzureDevOpsRepoUrl(sharedRepoUrl);
+  const { organization, project, repoName } = parseAzureDevOpsRepoUrl(repoUrl);
+  const { isDraft = false, reviewers = [], labels = [], workItemIds = [], autoComplete } = options;
+
+  // Resolve reviewers before creating anything, so a typo doesn't leave a half-configured PR
+  const reviewerRefs = await Promise.all(
+    reviewers.map(async (reviewer) => ({
+      id: await resolveIdentityId(organization, pat, reviewer.name),
+      isRequired: reviewer.required ?? false,
+    }))
+  );
 
-  // Fetch file content from Azure DevOps Items API
-  const apiUrl = `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_apis/git/repositories/${encodeURIComponent(repoName)}/items?path=${encodeURIComponent(filePath)}&api-version=7.0`;
+  // Azure DevOps API endpoint for creating pull requests
+  const pullRequestsUrl = `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_apis/git/repositories/${encodeURIComponent(repoName)}/pullrequests`;
 
-  const response = await fetch(apiUrl, {
-    method: "GET",
-    headers: {
-      Authorization: `Basic ${Buffer.from(`:${pat}`).toString("base64")}`,
-    },
+  const response = await fetch(`${pullRequestsUrl}?api-version=7.1`, {
+    method: "POST",
+    headers: adoHeaders(pat),
+    body: JSON.stringify({
+      sourceRefName: `refs/heads/${sourceBranch}`,
+      targetRefName: `refs/heads/${targetBranch}`,
+      title,
+      description,
+      isDraft,
+      reviewers: reviewerRefs,
+      labels: labels.map((name) => ({ name })),
+      workItemRefs: workItemIds.map((id) => ({ id: String(id) })),
+    }),
   });
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(`Failed to fetch instruction file: ${response.status} ${errorText}`);
-  }
-
-  return await response.text();
-}
-
-/**
- * Copy selected instruction files to workspace, skip existing
- */
-export async function copyInstructionsToWorkspace(
-  workspacePath: string,
-  files: SharedInstructionFile[]
-): Promise<{ copied: string[]; skipped: string[] }> {
-  const instructionsDir = join(workspacePath, ".github", "instructions");
-
-  // Ensure .github/instructions directory exists
-  if (!existsSync(instructionsDir)) {
-    mkdirSync(instructionsDir, { recursive: true });
+    throw new Error(`Failed to create pull request: ${response.status} ${errorText}`);
   }
 
-  const copied: string[] = [];
-  const skipped: string[] = [];
-
-  for (const file of files) {
-    const targetPath = join(instructionsDir, file.filename);
+  const data = await response.json();
 
-    // Skip if file already exists
-    if (existsSync(targetPath)) {
-      skipped.push(file.filename);
-      continue;
-    }
+  // Auto-complete can only be set once the PR exists, on behalf of its creator
+  if (autoComplete) {
+    const autoCompleteResponse = await fetch(`${pullRequestsUrl}/${data.pullRequestId}?api-version=7.1`, {
+      method: "PATCH",
+      headers: adoHeaders(pat),
+      body: JSON.stringify({
+        autoCompleteSetBy: { id: data.createdBy?.id },
+        completionOptions: {
+          mergeStrategy: autoComplete.mergeStrategy,
+          deleteSourceBranch: autoComplete.deleteSourceBranch ?? false,
+          transitionWorkItems: workItemIds.length > 0,
+        },
+      }),
+    });
 
-    try {
-      const content = await fetchInstructionFileContent(file.path);
-      writeFileSync(targetPath, content, "utf-8");
-      copied.push(file.filename);
-    } catch (error) {
-      console.error(`Failed to copy ${file.filename}: ${error instanceof Error ? error.message : "Unknown error"}`);
-      skipped.push(file.filename);
+    if (!autoCompleteResponse.ok) {
+      const errorText = await autoCompleteResponse.text();
+      throw new Error(
+        `Pull request #${data.pullRequestId} was created, but auto-complete could not be set: ${autoCompleteResponse.status} ${errorText}`
+      );
     }
   }
 
-  return { copied, skipped };
-}
+  // Construct the web URL for the PR
+  const prWebUrl = `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_git/${encodeURIComponent(repoName)}/pullrequest/${data.pullRequestId}`;
 
-/**
- * Remove temporary instruction files
- */
-export function cleanupTemporaryInstructions(workspacePath: string, files: string[]): void {
-  const instructionsDir = join(workspacePath, ".github", "instructions");
+  const projectId = data.repository?.project?.id;
+  const repositoryId = data.repository?.id;
 
-  for (const filename of files) {
-    const filePath = join(instructionsDir, filename);
-    try {
-      if (existsSync(filePath)) {
-        unlinkSync(filePath);
-      }
-    } catch (error) {
-      // Silent failure - cleanup errors don't block user
-      console.error(`Failed to cleanup ${filename}: ${error instanceof Error ? error.message : "Unknown error"}`);
-    }
-  }
+  return {
+    id: data.pullRequestId,
+    url: prWebUrl,
+    title: data.title,
+    ...(projectId && repositoryId && {
+      artifactUrls: {
+        pullRequest: `vstfs:///Git/PullRequestId/${projectId}%2F${repositoryId}%2F${data.pullRequestId}`,
+        branch: `vstfs:///Git/Ref/${projectId}%2F${repositoryId}%2FGB${encodeURIComponent(sourceBranch)}`,
+      },
+    }),
+  };
 }
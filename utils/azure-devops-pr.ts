@@ -1,6 +1,8 @@
-import { execSync } from "child_process";
+import { execFileSync, execSync } from "child_process";
 import { mkdirSync, existsSync, rmSync, readFileSync, writeFileSync } from "fs";
 import { join } from "path";
+import type { GitHostingProvider } from "./git-hosting.js";
+import { getAdoPat } from "./ado-credentials.js";
 
 export interface PRInfo {
   prId: number;
@@ -26,6 +28,28 @@ export interface AssignedPR extends PRInfo {
   reviewers: ReviewerInfo[];
 }
 
+/**
+ * One review finding, posted as its own comment thread. Anchored to lines
+ * startLine..endLine of the PR's version of filePath when those are known.
+ */
+export interface ReviewFindingComment {
+  /** Markdown */
+  content: string;
+  filePath: string | null;
+  startLine: number | null;
+  endLine: number | null;
+  /** 1-based column just past the end of endLine, when the file's text is known */
+  endColumn?: number;
+  /** Replacement for the anchored lines, posted as a suggestion */
+  suggestion: string | null;
+}
+
+export interface PostedFinding {
+  threadId: number;
+  /** Whether the comment is attached to lines of a file, not just the PR */
+  anchored: boolean;
+}
+
 export interface CloneForReviewResult {
   localPath: string;
   diff: string;
@@ -63,10 +87,7 @@ export function parsePRUrl(url: string): {
  * Fetch PR metadata from Azure DevOps API.
  */
 export async function getPullRequest(url: string): Promise<PRInfo> {
-  const pat = process.env.ADO_PAT;
-  if (!pat) {
-    throw new Error("ADO_PAT environment variable is not set");
-  }
+  const pat = getAdoPat();
 
   const { organization, project, repoName, prId } = parsePRUrl(url);
 
@@ -120,22 +141,30 @@ export async function getPullRequest(url: string): Promise<PRInfo> {
   };
 }
 
+/**
+ * Branch names come from the PR, so from whoever opened it: refuse any that
+ * git would not take as a branch name (e.g. one starting with "-").
+ */
+function checkBranchName(branch: string): string {
+  try {
+    execFileSync("git", ["check-ref-format", "--branch", branch], { stdio: "pipe" });
+  } catch {
+    throw new Error(`Invalid branch name: ${branch}`);
+  }
+  return branch;
+}
+
 /**
  * Clone repo for review, checkout source branch, compute diff against target.
  */
 export async function cloneForReview(
+  hosting: GitHostingProvider,
   repoUrl: string,
   sourceBranch: string,
   targetBranch: string
 ): Promise<CloneForReviewResult> {
-  const pat = process.env.ADO_PAT;
-  if (!pat) {
-    throw new Error("ADO_PAT environment variable is not set");
-  }
-
-  // Extract repo name from URL for folder naming
-  const repoNameMatch = repoUrl.match(/_git\/([^/\s?]+)/);
-  const repoName = repoNameMatch ? decodeURIComponent(repoNameMatch[1]) : "repo";
+  const repoName = hosting.getRepoName(repoUrl);
+  const cloneUrl = hosting.getCloneUrl(repoUrl);
 
   const workspacePath = join(process.cwd(), ".workspaces");
   if (!existsSync(workspacePath)) {
@@ -145,16 +174,13 @@ export async function cloneForReview(
   const timestamp = Date.now();
   const localPath = join(workspacePath, `review-${repoName}-${timestamp}`);
 
-  // Build authenticated clone URL
-  const encodedPat = encodeURIComponent(pat);
-  const cloneUrl = repoUrl.replace(
-    "https://",
-    `https://${encodedPat}@`
-  );
-
   try {
+    checkBranchName(sourceBranch);
+    checkBranchName(targetBranch);
+
     console.log(`Cloning ${repoName} for review...`);
-    execSync(`git clone "${cloneUrl}" "${localPath}"`, {
+    execFileSync("git", ["clone", cloneUrl, localPath], {
+      env: hosting.getGitEnv(),
       stdio: "pipe",
       encoding: "utf-8",
       timeout: 120000,
@@ -163,6 +189,7 @@ export async function cloneForReview(
     // Fetch all branches
     execSync("git fetch origin", {
       cwd: localPath,
+      env: hosting.getGitEnv(),
       stdio: "pipe",
       encoding: "utf-8",
       timeout: 60000,
@@ -170,7 +197,7 @@ export async function cloneForReview(
 
     // Checkout the source branch
     console.log(`Checking out source branch: ${sourceBranch}...`);
-    execSync(`git checkout "${sourceBranch}"`, {
+    execFileSync("git", ["checkout", sourceBranch], {
       cwd: localPath,
       stdio: "pipe",
       encoding: "utf-8",
@@ -178,8 +205,9 @@ export async function cloneForReview(
 
     // Compute diff between target and source
     console.log(`Computing diff: origin/${targetBranch}...HEAD`);
-    const diff = execSync(
-      `git diff "origin/${targetBranch}"...HEAD`,
+    const diff = execFileSync(
+      "git",
+      ["diff", `origin/${targetBranch}...HEAD`],
       {
         cwd: localPath,
         encoding: "utf-8",
@@ -201,14 +229,131 @@ export async function cloneForReview(
   }
 }
 
+/**
+ * Bring an existing review clone up to date with the PR's branches and
+ * recompute its diff, instead of cloning again.
+ */
+export function refreshReviewClone(
+  hosting: GitHostingProvider,
+  localPath: string,
+  sourceBranch: string,
+  targetBranch: string
+): string {
+  try {
+    checkBranchName(sourceBranch);
+    checkBranchName(targetBranch);
+
+    execSync("git fetch origin", {
+      cwd: localPath,
+      env: hosting.getGitEnv(),
+      stdio: "pipe",
+      encoding: "utf-8",
+      timeout: 60000,
+    });
+    execFileSync("git", ["checkout", "-B", sourceBranch, `origin/${sourceBranch}`], {
+      cwd: localPath,
+      stdio: "pipe",
+      encoding: "utf-8",
+    });
+    // Drop anything left behind by applied fixes
+    execSync("git clean -fd", { cwd: localPath, stdio: "pipe" });
+
+    return execFileSync("git", ["diff", `origin/${targetBranch}...HEAD`], {
+      cwd: localPath,
+      encoding: "utf-8",
+      maxBuffer: 10 * 1024 * 1024,
+    });
+  } catch (error) {
+    throw new Error(
+      `Failed to update the review clone: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+export function getHeadCommit(localPath: string): string {
+  return execSync("git rev-parse HEAD", { cwd: localPath, encoding: "utf-8" }).trim();
+}
+
+/**
+ * Diff from a previously reviewed commit to HEAD. The commit is fetched if
+ * the clone doesn't have it; after a force-push it may be gone entirely.
+ */
+export function diffSinceCommit(hosting: GitHostingProvider, localPath: string, commitSha: string): string {
+  const hasCommit = () => {
+    try {
+      execFileSync("git", ["cat-file", "-e", `${commitSha}^{commit}`], { cwd: localPath, stdio: "pipe" });
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!hasCommit()) {
+    try {
+      execFileSync("git", ["fetch", "origin", commitSha], {
+        cwd: localPath,
+        env: hosting.getGitEnv(),
+        stdio: "pipe",
+        timeout: 60000,
+      });
+    } catch {
+      // Checked below
+    }
+  }
+  if (!hasCommit()) {
+    throw new Error(
+      `The last reviewed commit ${commitSha.slice(0, 8)} is no longer available (was the branch force-pushed?). Run a full review instead.`
+    );
+  }
+
+  return execFileSync("git", ["diff", commitSha, "HEAD"], {
+    cwd: localPath,
+    encoding: "utf-8",
+    maxBuffer: 10 * 1024 * 1024,
+  });
+}
+
+/**
+ * Get the id of a pull request's latest iteration (each push is one).
+ */
+export async function getLatestIterationId(pr: PRInfo): Promise<number> {
+  const pat = getAdoPat();
+
+  const { organization, project, repoName } = parsePRUrl(pr.url);
+
+  const apiUrl = `https://dev.azure.com/${organization}/${encodeURIComponent(
+    project
+  )}/_apis/git/repositories/${encodeURIComponent(
+    repoName
+  )}/pullRequests/${pr.prId}/iterations?api-version=7.1`;
+
+  const response = await fetch(apiUrl, {
+    headers: {
+      Authorization: `Basic ${Buffer.from(`:${pat}`).toString("base64")}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch PR iterations: ${response.status} ${errorText}`);
+  }
+
+  const data = await response.json();
+  const iterationId: number | undefined = data.value?.[data.value.length - 1]?.id;
+  if (!iterationId) {
+    throw new Error(`PR #${pr.prId} has no iterations`);
+  }
+  return iterationId;
+}
+
 /**
  * Get the authenticated user's ID from Azure DevOps connection data.
  */
 export async function getCurrentUserId(): Promise<string> {
-  const pat = process.env.ADO_PAT;
-  if (!pat) {
-    throw new Error("ADO_PAT environment variable is not set");
-  }
+  const pat = getAdoPat();
 
   const org = process.env.ADO_ORG;
   if (!org) {
@@ -237,10 +382,7 @@ export async function getCurrentUserId(): Promise<string> {
  * Get active pull requests assigned to the authenticated user as a reviewer.
  */
 export async function getAssignedPullRequests(): Promise<AssignedPR[]> {
-  const pat = process.env.ADO_PAT;
-  if (!pat) {
-    throw new Error("ADO_PAT environment variable is not set");
-  }
+  const pat = getAdoPat();
 
   const org = process.env.ADO_ORG;
   if (!org) {
@@ -318,10 +460,7 @@ export async function postReviewComment(
   pr: PRInfo,
   content: string
 ): Promise<{ threadId: number }> {
-  const pat = process.env.ADO_PAT;
-  if (!pat) {
-    throw new Error("ADO_PAT environment variable is not set");
-  }
+  const pat = getAdoPat();
 
   // Extract org/project/repo from the PR URL
   const { organization, project, repoName } = parsePRUrl(pr.url);
@@ -361,10 +500,147 @@ export async function postReviewComment(
   return { threadId: data.id };
 }
 
+/**
+ * Find where a snippet of code sits in a file, preferring the occurrence
+ * nearest the line the reviewer gave (which is only approximate).
+ * Whitespace at line ends and indentation is ignored. Returns 1-based lines.
+ */
+export function locateSnippet(
+  fileText: string,
+  snippet: string,
+  approximateLine: number | null
+): { startLine: number; endLine: number; endColumn: number } | null {
+  const rawLines = fileText.split("\n");
+  const fileLines = rawLines.map((line) => line.trim());
+  const snippetLines = snippet.split("\n").map((line) => line.trim());
+  while (snippetLines.length > 0 && !snippetLines[snippetLines.length - 1]) {
+    snippetLines.pop();
+  }
+  if (snippetLines.length === 0) {
+    return null;
+  }
+
+  let best: number | null = null;
+  for (let start = 0; start + snippetLines.length <= fileLines.length; start++) {
+    if (!snippetLines.every((line, offset) => fileLines[start + offset] === line)) {
+      continue;
+    }
+    const distance = Math.abs(start + 1 - (approximateLine ?? 1));
+    if (best === null || distance < Math.abs(best + 1 - (approximateLine ?? 1))) {
+      best = start;
+    }
+  }
+
+  if (best === null) {
+    return null;
+  }
+  const endLine = best + snippetLines.length;
+  return { startLine: best + 1, endLine, endColumn: rawLines[endLine - 1].replace(/\r$/, "").length + 1 };
+}
+
+// Suggestion blocks are applied over the commented lines, on both Azure DevOps and GitHub
+export function formatFindingComment(finding: ReviewFindingComment): string {
+  return finding.suggestion !== null
+    ? `${finding.content}\n\n\`\`\`suggestion\n${finding.suggestion}\n\`\`\``
+    : finding.content;
+}
+
+/**
+ * Post each finding as its own thread on an Azure DevOps pull request,
+ * anchored to its file and lines on the latest iteration.
+ */
+export async function postReviewFindings(
+  pr: PRInfo,
+  findings: ReviewFindingComment[]
+): Promise<PostedFinding[]> {
+  const pat = getAdoPat();
+
+  const { organization, project, repoName } = parsePRUrl(pr.url);
+  const headers = {
+    Authorization: `Basic ${Buffer.from(`:${pat}`).toString("base64")}`,
+    "Content-Type": "application/json",
+  };
+  const pullRequestUrl = `https://dev.azure.com/${organization}/${encodeURIComponent(
+    project
+  )}/_apis/git/repositories/${encodeURIComponent(
+    repoName
+  )}/pullRequests/${pr.prId}`;
+
+  const getJson = async <T>(url: string, what: string): Promise<T> => {
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to fetch ${what}: ${response.status} ${errorText}`);
+    }
+    return (await response.json()) as T;
+  };
+
+  // Comments anchor to an iteration (a push to the PR); use the latest one
+  const iterationId = await getLatestIterationId(pr);
+
+  const changes = await getJson<{ changeEntries?: { item?: { path?: string }; changeTrackingId: number }[] }>(
+    `${pullRequestUrl}/iterations/${iterationId}/changes?$top=2000&api-version=7.1`,
+    "PR changes"
+  );
+  const changeTrackingIds = new Map(
+    (changes.changeEntries ?? []).map((entry) => [entry.item?.path, entry.changeTrackingId])
+  );
+
+  const posted: PostedFinding[] = [];
+  for (const finding of findings) {
+    const filePath = finding.filePath ? `/${finding.filePath.replace(/^\/+/, "")}` : null;
+    const hasLines = finding.startLine !== null;
+    const changeTrackingId = filePath ? changeTrackingIds.get(filePath) : undefined;
+
+    const response = await fetch(`${pullRequestUrl}/threads?api-version=7.1`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        comments: [
+          {
+            parentCommentId: 0,
+            content: formatFindingComment(finding),
+            commentType: 1,
+          },
+        ],
+        status: 1,
+        ...(filePath && {
+          threadContext: {
+            filePath,
+            ...(hasLines && {
+              rightFileStart: { line: finding.startLine, offset: 1 },
+              rightFileEnd: { line: finding.endLine ?? finding.startLine, offset: finding.endColumn ?? 1 },
+            }),
+          },
+        }),
+        ...(changeTrackingId !== undefined && {
+          pullRequestThreadContext: {
+            changeTrackingId,
+            iterationContext: { firstComparingIteration: 1, secondComparingIteration: iterationId },
+          },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Failed to post finding ${posted.length + 1} of ${findings.length} (earlier ones were posted): ${response.status} ${errorText}`
+      );
+    }
+
+    const data = await response.json();
+    posted.push({ threadId: data.id, anchored: !!filePath && hasLines });
+  }
+
+  return posted;
+}
+
 /**
  * Apply a code fix to a file in the cloned repo, commit, and push to the source branch.
  */
 export async function applyFixAndPush(
+  hosting: GitHostingProvider,
   repoPath: string,
   filePath: string,
   oldContent: string,
@@ -390,20 +666,21 @@ export async function applyFixAndPush(
   writeFileSync(fullPath, updatedContent, "utf-8");
 
   try {
-    execSync(`git add "${filePath}"`, {
+    execFileSync("git", ["add", "--", filePath], {
       cwd: repoPath,
       stdio: "pipe",
       encoding: "utf-8",
     });
 
-    execSync(`git commit -m "${commitMessage.replace(/"/g, '\\"')}"`, {
+    execFileSync("git", ["commit", "-m", commitMessage], {
       cwd: repoPath,
       stdio: "pipe",
       encoding: "utf-8",
     });
 
-    execSync(`git push origin "${sourceBranch}"`, {
+    execFileSync("git", ["push", "origin", checkBranchName(sourceBranch)], {
       cwd: repoPath,
+      env: hosting.getGitEnv(),
       stdio: "pipe",
       encoding: "utf-8",
       timeout: 60000,
@@ -1,18 +1,115 @@
+import { getAdoPat } from "./ado-credentials.js";
+
 export interface AzureDevOpsConfig {
   organization: string;
   project: string;
   pat: string; // Personal Access Token
 }
 
+export type TicketSourceId = "azure-devops" | "github" | "jira" | "linear";
+
+/**
+ * A ticket from any of the supported trackers. Azure DevOps and GitHub ids
+ * are numbers; Jira and Linear use keys such as "PROJ-123".
+ */
 export interface WorkItem {
-  id: number;
+  id: number | string;
+  source: TicketSourceId;
   title: string;
+  /** HTML */
   description: string;
   state: string;
   type: string;
   assignedTo?: string;
+  labels?: string[];
   url: string;
   figmaUrl?: string;
+  /** HTML */
+  acceptanceCriteria?: string;
+  /** HTML */
+  reproSteps?: string;
+  areaPath?: string;
+  iterationPath?: string;
+  comments?: WorkItemComment[];
+  attachments?: WorkItemAttachment[];
+  links?: WorkItemLink[];
+}
+
+export interface WorkItemComment {
+  author: string;
+  createdAt: string;
+  /** HTML */
+  text: string;
+}
+
+export interface WorkItemAttachment {
+  name: string;
+  url: string;
+  comment?: string;
+}
+
+export interface WorkItemLink {
+  relation: "parent" | "child" | "related";
+  id: number;
+  title?: string;
+  type?: string;
+  state?: string;
+  /** HTML; only fetched for the parent */
+  description?: string;
+  url: string;
+}
+
+// Relation types we follow, from work item relations returned by $expand=all
+const LINK_RELATIONS: Record<string, WorkItemLink["relation"]> = {
+  "System.LinkTypes.Hierarchy-Reverse": "parent",
+  "System.LinkTypes.Hierarchy-Forward": "child",
+  "System.LinkTypes.Related": "related",
+};
+
+// The parts of the work item tracking API's responses read here
+interface WorkItemFields {
+  "System.Title"?: string;
+  "System.Description"?: string;
+  "System.State"?: string;
+  "System.WorkItemType"?: string;
+  "System.Tags"?: string;
+  "System.AssignedTo"?: { displayName?: string };
+  "System.AreaPath"?: string;
+  "System.IterationPath"?: string;
+  "Microsoft.VSTS.Common.AcceptanceCriteria"?: string;
+  "Microsoft.VSTS.TCM.ReproSteps"?: string;
+}
+
+interface WorkItemRelationResponse {
+  rel: string;
+  url: string;
+  attributes?: { name?: string; comment?: string };
+}
+
+interface WorkItemResponse {
+  id: number;
+  fields?: WorkItemFields;
+  relations?: WorkItemRelationResponse[];
+  _links?: { html?: { href?: string } };
+}
+
+interface WorkItemCommentResponse {
+  createdBy?: { displayName?: string };
+  createdDate?: string;
+  text?: string;
+}
+
+// Items the batch endpoint could not return (errorPolicy=omit) come back as null
+interface WorkItemBatchResponse {
+  value?: (WorkItemResponse | null)[];
+}
+
+function fieldsById(batch: WorkItemBatchResponse): Map<number, WorkItemFields> {
+  return new Map(
+    (batch.value ?? [])
+      .filter((item): item is WorkItemResponse => !!item)
+      .map((item) => [item.id, item.fields ?? {}])
+  );
 }
 
 /**
@@ -34,19 +131,44 @@ export function extractFigmaUrl(text: string): string | undefined {
   return matches?.[0];
 }
 
+export function isAzureDevOpsWorkItemUrl(url: string): boolean {
+  return /dev\.azure\.com\/[^/]+\/[^/]+\/_workitems\/edit\/\d+/.test(url);
+}
+
+/**
+ * Format: https://dev.azure.com/{org}/{project}/_workitems/edit/{id}
+ */
+export function parseWorkItemUrl(url: string): { organization: string; project: string; workItemId: number } {
+  const match = url.match(
+    /dev\.azure\.com\/([^/]+)\/([^/]+)\/_workitems\/edit\/(\d+)/
+  );
+  if (!match) {
+    throw new Error(`Invalid Azure DevOps URL: ${url}`);
+  }
+  return {
+    organization: match[1],
+    project: decodeURIComponent(match[2]),
+    workItemId: parseInt(match[3], 10),
+  };
+}
+
+function authHeaders(pat: string): Record<string, string> {
+  return {
+    Authorization: `Basic ${Buffer.from(`:${pat}`).toString("base64")}`,
+    "Content-Type": "application/json",
+  };
+}
+
 export async function getWorkItem(
   config: AzureDevOpsConfig,
   workItemId: number
 ): Promise<WorkItem> {
   const { organization, project, pat } = config;
 
-  const url = `https://dev.azure.com/${organization}/${project}/_apis/wit/workitems/${workItemId}?api-version=7.0`;
+  const url = `https://dev.azure.com/${organization}/${project}/_apis/wit/workitems/${workItemId}?$expand=all&api-version=7.0`;
 
   const response = await fetch(url, {
-    headers: {
-      Authorization: `Basic ${Buffer.from(`:${pat}`).toString("base64")}`,
-      "Content-Type": "application/json",
-    },
+    headers: authHeaders(pat),
   });
 
   if (!response.ok) {
@@ -55,21 +177,398 @@ export async function getWorkItem(
     );
   }
 
-  const data = await response.json();
-  const fields = data.fields;
+  const data = (await response.json()) as WorkItemResponse;
+  const fields = data.fields ?? {};
   const description = fields["System.Description"] ?? "";
+  const acceptanceCriteria = fields["Microsoft.VSTS.Common.AcceptanceCriteria"] || undefined;
+  const reproSteps = fields["Microsoft.VSTS.TCM.ReproSteps"] || undefined;
 
   // Extract Figma URL from description if present
-  const figmaUrl = extractFigmaUrl(description);
+  const figmaUrl = extractFigmaUrl(description)
+    ?? extractFigmaUrl(acceptanceCriteria ?? "")
+    ?? extractFigmaUrl(reproSteps ?? "");
+
+  const tags: string = fields["System.Tags"] ?? "";
+  const relations = data.relations ?? [];
+
+  const attachments: WorkItemAttachment[] = relations
+    .filter((relation) => relation.rel === "AttachedFile")
+    .map((relation) => ({
+      name: relation.attributes?.name ?? relation.url.split("/").pop() ?? "",
+      url: relation.url,
+      comment: relation.attributes?.comment || undefined,
+    }));
+
+  // Comments and linked items are extra context; a failure here shouldn't lose the ticket
+  const [comments, links] = await Promise.all([
+    getWorkItemComments(config, workItemId).catch(() => []),
+    getLinkedWorkItems(config, relations).catch(() => []),
+  ]);
 
   return {
     id: data.id,
+    source: "azure-devops",
     title: fields["System.Title"] ?? "",
     description,
     state: fields["System.State"] ?? "",
     type: fields["System.WorkItemType"] ?? "",
     assignedTo: fields["System.AssignedTo"]?.displayName,
+    labels: tags.split(";").map((tag) => tag.trim()).filter(Boolean),
     url: data._links?.html?.href ?? "",
     figmaUrl,
+    acceptanceCriteria,
+    reproSteps,
+    areaPath: fields["System.AreaPath"],
+    iterationPath: fields["System.IterationPath"],
+    comments,
+    attachments,
+    links,
   };
 }
+
+/**
+ * A relation to add to a work item: an ArtifactLink for Azure DevOps PRs and
+ * branches (shown in the Development section), a Hyperlink for anything else.
+ */
+export interface WorkItemArtifactLink {
+  kind: "artifact" | "hyperlink";
+  url: string;
+  /** Link type name, e.g. "Pull Request" or "Branch"; used as the comment for hyperlinks */
+  name: string;
+}
+
+async function patchWorkItem(
+  config: AzureDevOpsConfig,
+  workItemId: number,
+  operations: object[]
+): Promise<void> {
+  const { organization, project, pat } = config;
+
+  const url = `https://dev.azure.com/${organization}/${project}/_apis/wit/workitems/${workItemId}?api-version=7.0`;
+
+  const response = await fetch(url, {
+    method: "PATCH",
+    headers: { ...authHeaders(pat), "Content-Type": "application/json-patch+json" },
+    body: JSON.stringify(operations),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to update work item ${workItemId}: ${response.status} ${errorText}`);
+  }
+}
+
+/**
+ * Move a work item to another state, e.g. "Active" or "Resolved". The state
+ * must exist in the work item type's workflow.
+ */
+export async function updateWorkItemState(
+  config: AzureDevOpsConfig,
+  workItemId: number,
+  state: string
+): Promise<void> {
+  await patchWorkItem(config, workItemId, [
+    { op: "add", path: "/fields/System.State", value: state },
+  ]);
+}
+
+export async function addWorkItemLinks(
+  config: AzureDevOpsConfig,
+  workItemId: number,
+  links: WorkItemArtifactLink[]
+): Promise<void> {
+  if (links.length === 0) {
+    return;
+  }
+
+  await patchWorkItem(config, workItemId, links.map((link) => ({
+    op: "add",
+    path: "/relations/-",
+    value: link.kind === "artifact"
+      ? { rel: "ArtifactLink", url: link.url, attributes: { name: link.name } }
+      : { rel: "Hyperlink", url: link.url, attributes: { comment: link.name } },
+  })));
+}
+
+/**
+ * Add a discussion comment to a work item. The text is HTML.
+ */
+export async function addWorkItemComment(
+  config: AzureDevOpsConfig,
+  workItemId: number,
+  html: string
+): Promise<void> {
+  const { organization, project, pat } = config;
+
+  const url = `https://dev.azure.com/${organization}/${project}/_apis/wit/workItems/${workItemId}/comments?api-version=7.0-preview.3`;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: authHeaders(pat),
+    body: JSON.stringify({ text: html }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to comment on work item ${workItemId}: ${response.status} ${errorText}`);
+  }
+}
+
+export interface WorkItemWriteBack {
+  state?: string;
+  /** HTML */
+  comment?: string;
+  links?: WorkItemArtifactLink[];
+}
+
+export interface WriteBackResult {
+  action: "state" | "comment" | "links";
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * Write results back to the Azure DevOps work item a ticket came from. Each
+ * action is applied on its own, so one failing (say, a state the workflow
+ * doesn't allow) doesn't stop the others.
+ */
+export async function writeBackToWorkItem(
+  ticket: WorkItem,
+  writeBack: WorkItemWriteBack
+): Promise<WriteBackResult[]> {
+  if (ticket.source !== "azure-devops") {
+    throw new Error("Write-back is only supported for Azure DevOps work items");
+  }
+
+  const { organization, project, workItemId } = parseWorkItemUrl(ticket.url);
+  const config = { organization, project, pat: getAdoPat() };
+  const results: WriteBackResult[] = [];
+
+  const attempt = async (action: WriteBackResult["action"], done: string, run: () => Promise<void>) => {
+    try {
+      await run();
+      results.push({ action, ok: true, message: done });
+    } catch (error) {
+      results.push({ action, ok: false, message: error instanceof Error ? error.message : "Unknown error" });
+    }
+  };
+
+  const { state, comment, links = [] } = writeBack;
+  if (state) {
+    await attempt("state", `Moved #${workItemId} to ${state}`, () => updateWorkItemState(config, workItemId, state));
+  }
+  if (comment) {
+    await attempt("comment", `Commented on #${workItemId}`, () => addWorkItemComment(config, workItemId, comment));
+  }
+  if (links.length > 0) {
+    await attempt(
+      "links",
+      `Linked #${workItemId} to ${links.map((link) => link.name.toLowerCase()).join(" and ")}`,
+      () => addWorkItemLinks(config, workItemId, links)
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Fetch the discussion comments on a work item, oldest first.
+ */
+async function getWorkItemComments(
+  config: AzureDevOpsConfig,
+  workItemId: number
+): Promise<WorkItemComment[]> {
+  const { organization, project, pat } = config;
+
+  const url = `https://dev.azure.com/${organization}/${project}/_apis/wit/workItems/${workItemId}/comments?order=asc&api-version=7.0-preview.3`;
+
+  const response = await fetch(url, {
+    headers: authHeaders(pat),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch comments for work item ${workItemId}: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const data = (await response.json()) as { comments?: WorkItemCommentResponse[] };
+
+  return (data.comments ?? []).map((comment) => ({
+    author: comment.createdBy?.displayName ?? "Unknown",
+    createdAt: comment.createdDate ?? "",
+    text: comment.text ?? "",
+  }));
+}
+
+/**
+ * Resolve parent, child and related links to their title, type and state,
+ * in one batch request. The parent's description is fetched too, since it
+ * usually carries the context of the feature the ticket belongs to.
+ */
+async function getLinkedWorkItems(
+  config: AzureDevOpsConfig,
+  relations: WorkItemRelationResponse[]
+): Promise<WorkItemLink[]> {
+  const { organization, project, pat } = config;
+
+  const links = relations
+    .filter((relation) => relation.rel in LINK_RELATIONS)
+    .map((relation) => ({
+      relation: LINK_RELATIONS[relation.rel],
+      id: parseInt(relation.url.split("/").pop() ?? "", 10),
+    }))
+    .filter((link) => !isNaN(link.id));
+
+  if (links.length === 0) {
+    return [];
+  }
+
+  // The batch endpoint takes at most 200 ids
+  const ids = [...new Set(links.map((link) => link.id))].slice(0, 200);
+  const fieldNames = ["System.Title", "System.WorkItemType", "System.State", "System.Description"];
+  const url = `https://dev.azure.com/${organization}/${project}/_apis/wit/workitems?ids=${ids.join(",")}&fields=${fieldNames.join(",")}&errorPolicy=omit&api-version=7.0`;
+
+  const response = await fetch(url, {
+    headers: authHeaders(pat),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch linked work items: ${response.status} ${response.statusText}`);
+  }
+
+  const fieldsOf = fieldsById((await response.json()) as WorkItemBatchResponse);
+
+  return links.map((link) => {
+    const fields = fieldsOf.get(link.id) ?? {};
+    return {
+      ...link,
+      title: fields["System.Title"],
+      type: fields["System.WorkItemType"],
+      state: fields["System.State"],
+      description: link.relation === "parent" ? fields["System.Description"] || undefined : undefined,
+      url: `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_workitems/edit/${link.id}`,
+    };
+  });
+}
+
+/**
+ * Format: https://dev.azure.com/{org}/{project}, optionally followed by
+ * any page of the project (boards, queries, a work item...).
+ */
+export function parseProjectUrl(url: string): { organization: string; project: string } {
+  const match = url.match(/dev\.azure\.com\/([^/]+)\/([^/_?#][^/?#]*)/);
+  if (!match) {
+    throw new Error(`Invalid Azure DevOps project URL: ${url}`);
+  }
+  return { organization: match[1], project: decodeURIComponent(match[2]) };
+}
+
+/**
+ * Which work items to fetch: a WIQL query, a saved query (its id or its
+ * path, e.g. "Shared Queries/Sprint backlog"), or an iteration path whose
+ * open work items are wanted.
+ */
+export interface WorkItemQuery {
+  kind: "wiql" | "saved" | "iteration";
+  value: string;
+}
+
+export interface WorkItemSummary {
+  id: number;
+  title: string;
+  type: string;
+  state: string;
+  url: string;
+}
+
+function iterationWiql(iterationPath: string): string {
+  const escaped = iterationPath.replace(/'/g, "''");
+  return `SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project AND [System.IterationPath] UNDER '${escaped}' AND [System.State] NOT IN ('Closed', 'Done', 'Removed') ORDER BY [System.Id]`;
+}
+
+async function runQuery(config: AzureDevOpsConfig, query: WorkItemQuery, top: number): Promise<number[]> {
+  const { organization, project, pat } = config;
+  const base = `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_apis/wit`;
+
+  let response: Response;
+  if (query.kind === "saved") {
+    let queryId = query.value.trim();
+    if (!/^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$/i.test(queryId)) {
+      const path = queryId.split("/").map(encodeURIComponent).join("/");
+      const found = await fetch(`${base}/queries/${path}?api-version=7.0`, { headers: authHeaders(pat) });
+      if (!found.ok) {
+        throw new Error(`Saved query not found: ${query.value} (${found.status} ${found.statusText})`);
+      }
+      const saved = (await found.json()) as { id: string; isFolder?: boolean };
+      if (saved.isFolder) {
+        throw new Error(`${query.value} is a query folder, not a query`);
+      }
+      queryId = saved.id;
+    }
+    response = await fetch(`${base}/wiql/${queryId}?$top=${top}&api-version=7.0`, { headers: authHeaders(pat) });
+  } else {
+    response = await fetch(`${base}/wiql?$top=${top}&api-version=7.0`, {
+      method: "POST",
+      headers: authHeaders(pat),
+      body: JSON.stringify({ query: query.kind === "iteration" ? iterationWiql(query.value) : query.value }),
+    });
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to run work item query: ${response.status} ${errorText}`);
+  }
+
+  const data = (await response.json()) as {
+    workItems?: { id: number }[];
+    workItemRelations?: { target?: { id: number } }[];
+  };
+  // Flat queries list work items; tree and direct-link queries list links between them
+  const ids = data.workItems
+    ? data.workItems.map((item) => item.id)
+    : (data.workItemRelations ?? []).map((relation) => relation.target?.id);
+  return [...new Set(ids.filter((id): id is number => Number.isInteger(id)))].slice(0, top);
+}
+
+/**
+ * Run a work item query and return up to `top` matching work items, in the
+ * query's order, with their title, type and state.
+ */
+export async function queryWorkItems(
+  config: AzureDevOpsConfig,
+  query: WorkItemQuery,
+  top: number
+): Promise<WorkItemSummary[]> {
+  const { organization, project, pat } = config;
+  const ids = await runQuery(config, query, top);
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const fieldNames = ["System.Title", "System.WorkItemType", "System.State"];
+  const url = `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_apis/wit/workitems?ids=${ids.join(",")}&fields=${fieldNames.join(",")}&errorPolicy=omit&api-version=7.0`;
+
+  const response = await fetch(url, {
+    headers: authHeaders(pat),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch work items: ${response.status} ${response.statusText}`);
+  }
+
+  const fieldsOf = fieldsById((await response.json()) as WorkItemBatchResponse);
+
+  return ids
+    .filter((id) => fieldsOf.has(id))
+    .map((id) => {
+      const fields = fieldsOf.get(id) ?? {};
+      return {
+        id,
+        title: fields["System.Title"] ?? "",
+        type: fields["System.WorkItemType"] ?? "",
+        state: fields["System.State"] ?? "",
+        url: `https://dev.azure.com/${organization}/${encodeURIComponent(project)}/_workitems/edit/${id}`,
+      };
+    });
+}
@@ -0,0 +1,112 @@
+import {
+  isAzureDevOpsUrl,
+  parseAzureDevOpsRepoUrl,
+  buildCloneUrl,
+  getAdoGitEnv,
+  createPullRequest,
+  getDefaultBranch,
+  type PullRequestOptions,
+  type PullRequestResult,
+} from "./azure-devops-git.js";
+import {
+  getPullRequest,
+  getLatestIterationId,
+  postReviewComment,
+  postReviewFindings,
+  type PostedFinding,
+  type PRInfo,
+  type ReviewFindingComment,
+} from "./azure-devops-pr.js";
+import {
+  isGitHubUrl,
+  parseGitHubRepoUrl,
+  buildGitHubCloneUrl,
+  getGitHubGitEnv,
+  createGitHubPullRequest,
+  getGitHubDefaultBranch,
+  getGitHubPullRequest,
+  postGitHubReviewComment,
+  postGitHubReviewFindings,
+} from "./github.js";
+
+export interface CreatePullRequestOptions extends PullRequestOptions {
+  sourceBranch: string;
+  targetBranch: string;
+  title: string;
+  description: string;
+}
+
+/**
+ * The operations the ticket and review workflows need from wherever a
+ * repository is hosted. Plain git (checkout, commit, push) works the same
+ * everywhere and stays in azure-devops-git.ts.
+ */
+export interface GitHostingProvider {
+  id: "azure-devops" | "github";
+  name: string;
+  /** Whether a repository or pull request URL belongs to this host */
+  matchesUrl(url: string): boolean;
+  getRepoName(repoUrl: string): string;
+  /** Clone URL, without credentials */
+  getCloneUrl(repoUrl: string): string;
+  /** Environment for a git command that reaches the host, with the current user's token */
+  getGitEnv(): NodeJS.ProcessEnv;
+  /** The branch pull requests target unless the user picks another */
+  getDefaultBranch(repoUrl: string): Promise<string>;
+  createPullRequest(repoUrl: string, options: CreatePullRequestOptions): Promise<PullRequestResult>;
+  getPullRequest(prUrl: string): Promise<PRInfo>;
+  /** The PR's latest iteration, on hosts that number pushes to a PR */
+  getLatestIteration(pr: PRInfo): Promise<number | null>;
+  postReviewComment(pr: PRInfo, content: string): Promise<{ threadId: number }>;
+  /** One comment thread per finding, on the lines it is about where possible */
+  postReviewFindings(pr: PRInfo, findings: ReviewFindingComment[]): Promise<PostedFinding[]>;
+}
+
+const azureDevOpsHosting: GitHostingProvider = {
+  id: "azure-devops",
+  name: "Azure DevOps",
+  matchesUrl: isAzureDevOpsUrl,
+  getRepoName: (repoUrl) => parseAzureDevOpsRepoUrl(repoUrl).repoName,
+  getCloneUrl: (repoUrl) => buildCloneUrl(parseAzureDevOpsRepoUrl(repoUrl)),
+  getGitEnv: getAdoGitEnv,
+  getDefaultBranch,
+  createPullRequest: (repoUrl, { sourceBranch, targetBranch, title, description, ...options }) =>
+    createPullRequest(repoUrl, sourceBranch, title, description, targetBranch, options),
+  getPullRequest,
+  getLatestIteration: getLatestIterationId,
+  postReviewComment,
+  postReviewFindings,
+};
+
+const githubHosting: GitHostingProvider = {
+  id: "github",
+  name: "GitHub",
+  matchesUrl: isGitHubUrl,
+  getRepoName: (repoUrl) => parseGitHubRepoUrl(repoUrl).repo,
+  getCloneUrl: buildGitHubCloneUrl,
+  getGitEnv: getGitHubGitEnv,
+  getDefaultBranch: getGitHubDefaultBranch,
+  createPullRequest: (repoUrl, { sourceBranch, targetBranch, title, description, ...options }) =>
+    createGitHubPullRequest(repoUrl, sourceBranch, title, description, targetBranch, options),
+  getPullRequest: getGitHubPullRequest,
+  // GitHub has no iterations; the reviewed commit is enough
+  getLatestIteration: async () => null,
+  postReviewComment: postGitHubReviewComment,
+  postReviewFindings: postGitHubReviewFindings,
+};
+
+const providers: GitHostingProvider[] = [azureDevOpsHosting, githubHosting];
+
+export function findHostingProvider(url: string): GitHostingProvider | null {
+  return providers.find((provider) => provider.matchesUrl(url)) ?? null;
+}
+
+export function getHostingProvider(url: string): GitHostingProvider {
+  const provider = findHostingProvider(url);
+  if (!provider) {
+    throw new Error(
+      `Unsupported repository host: ${url}. Supported hosts: ${providers.map((p) => p.name).join(", ")}`
+    );
+  }
+  return provider;
+}
@@ -0,0 +1,479 @@
+import { extractFigmaUrl, type WorkItem } from "./azure-devops.js";
+import {
+  formatFindingComment,
+  type PostedFinding,
+  type PRInfo,
+  type ReviewFindingComment,
+} from "./azure-devops-pr.js";
+import { gitAuthEnv, type MergeStrategy, type PullRequestOptions, type PullRequestResult } from "./azure-devops-git.js";
+
+export interface GitHubRepo {
+  owner: string;
+  repo: string;
+}
+
+// GitHub Enterprise Server lives on its own host, with the API under /api/v3
+function getGitHubHost(): string {
+  return process.env.GITHUB_HOST || "github.com";
+}
+
+function getGitHubApiUrl(): string {
+  return (process.env.GITHUB_API_URL || "https://api.github.com").replace(/\/$/, "");
+}
+
+function getGitHubToken(): string {
+  const token = process.env.GITHUB_TOKEN;
+  if (!token) {
+    throw new Error("GITHUB_TOKEN environment variable is not set");
+  }
+  return token;
+}
+
+export function isGitHubUrl(url: string): boolean {
+  const host = getGitHubHost();
+  return url.includes(`://${host}/`) || url.includes(`@${host}:`) || url.includes(`@${host}/`);
+}
+
+/**
+ * Parse a GitHub repository URL, in HTTPS or SSH form:
+ * https://github.com/{owner}/{repo}(.git) or git@github.com:{owner}/{repo}.git
+ */
+export function parseGitHubRepoUrl(url: string): GitHubRepo {
+  const host = getGitHubHost().replace(/\./g, "\\.");
+  const match = url.match(new RegExp(`${host}[/:]([^/]+)/([^/\\s?#]+)`));
+
+  if (!match) {
+    throw new Error(`Invalid GitHub repo URL: ${url}`);
+  }
+
+  return {
+    owner: match[1],
+    repo: match[2].replace(/\.git$/, ""),
+  };
+}
+
+/**
+ * Parse a GitHub pull request URL.
+ * Format: https://github.com/{owner}/{repo}/pull/{number}
+ */
+export function parseGitHubPRUrl(url: string): GitHubRepo & { prNumber: number } {
+  const host = getGitHubHost().replace(/\./g, "\\.");
+  const match = url.match(new RegExp(`${host}/([^/]+)/([^/]+)/pull/(\\d+)`));
+
+  if (!match) {
+    throw new Error(
+      `Invalid GitHub PR URL. Expected format: https://${getGitHubHost()}/{owner}/{repo}/pull/{number}`
+    );
+  }
+
+  return {
+    owner: match[1],
+    repo: match[2],
+    prNumber: parseInt(match[3], 10),
+  };
+}
+
+export function isGitHubIssueUrl(url: string): boolean {
+  return isGitHubUrl(url) && /\/issues\/\d+/.test(url);
+}
+
+/**
+ * Parse a GitHub issue URL.
+ * Format: https://github.com/{owner}/{repo}/issues/{number}
+ */
+export function parseGitHubIssueUrl(url: string): GitHubRepo & { issueNumber: number } {
+  const host = getGitHubHost().replace(/\./g, "\\.");
+  const match = url.match(new RegExp(`${host}/([^/]+)/([^/]+)/issues/(\\d+)`));
+
+  if (!match) {
+    throw new Error(
+      `Invalid GitHub issue URL. Expected format: https://${getGitHubHost()}/{owner}/{repo}/issues/{number}`
+    );
+  }
+
+  return {
+    owner: match[1],
+    repo: match[2],
+    issueNumber: parseInt(match[3], 10),
+  };
+}
+
+export function buildGitHubRepoUrl({ owner, repo }: GitHubRepo): string {
+  return `https://${getGitHubHost()}/${owner}/${repo}`;
+}
+
+// No credentials: git commands that reach GitHub get them from getGitHubGitEnv
+export function buildGitHubCloneUrl(repoUrl: string): string {
+  const { owner, repo } = parseGitHubRepoUrl(repoUrl);
+  return `https://${getGitHubHost()}/${owner}/${repo}.git`;
+}
+
+export function getGitHubGitEnv(): NodeJS.ProcessEnv {
+  return gitAuthEnv(`Basic ${Buffer.from(`x-access-token:${getGitHubToken()}`).toString("base64")}`);
+}
+
+// The parts of the REST API's responses read here
+interface GitHubPullRequestResponse {
+  number: number;
+  node_id: string;
+  html_url: string;
+  title: string;
+  body: string | null;
+  user: { login: string } | null;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+  merged: boolean;
+  state: string;
+}
+
+interface GitHubIssueResponse {
+  title: string;
+  body: string | null;
+  /** Only with the application/vnd.github.full+json media type */
+  body_html?: string;
+  state: string;
+  state_reason: string | null;
+  type?: { name: string } | null;
+  assignee: { login: string } | null;
+  labels: (string | { name: string })[];
+  html_url: string;
+}
+
+interface GitHubCommentResponse {
+  id: number;
+}
+
+interface GitHubPullRequestFileResponse {
+  filename: string;
+  /** Absent for binary files and diffs too large to show */
+  patch?: string;
+}
+
+async function githubFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${getGitHubToken()}`,
+      Accept: "application/vnd.github+json",
+      "Content-Type": "application/json",
+      "X-GitHub-Api-Version": "2022-11-28",
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    const path = url.startsWith(getGitHubApiUrl()) ? url.slice(getGitHubApiUrl().length) : url;
+    throw new Error(`GitHub API ${init.method || "GET"} ${path} failed: ${response.status} ${errorText}`);
+  }
+
+  return response;
+}
+
+async function githubRequest<T = unknown>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await githubFetch(`${getGitHubApiUrl()}${path}`, init);
+  return (await response.json()) as T;
+}
+
+// Every page of a list endpoint; GitHub links the next page in the Link header
+async function githubRequestAll<T>(path: string): Promise<T[]> {
+  const items: T[] = [];
+  let url: string | undefined = `${getGitHubApiUrl()}${path}${path.includes("?") ? "&" : "?"}per_page=100`;
+  while (url) {
+    const response = await githubFetch(url);
+    items.push(...((await response.json()) as T[]));
+    url = response.headers.get("Link")?.match(/<([^>]+)>;\s*rel="next"/)?.[1];
+  }
+  return items;
+}
+
+// Auto-merge is only in the GraphQL API; Azure DevOps' semi-linear merge is closest to a rebase
+const AUTO_MERGE_METHODS: Record<MergeStrategy, string> = {
+  squash: "SQUASH",
+  noFastForward: "MERGE",
+  rebase: "REBASE",
+  rebaseMerge: "REBASE",
+};
+
+export async function getGitHubDefaultBranch(repoUrl: string): Promise<string> {
+  const { owner, repo } = parseGitHubRepoUrl(repoUrl);
+
+  try {
+    const data = await githubRequest<{ default_branch: string }>(`/repos/${owner}/${repo}`);
+    return data.default_branch;
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch repository ${owner}/${repo}: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+// GitHub Enterprise Server serves GraphQL at /api/graphql, beside /api/v3
+async function githubGraphQL<T = unknown>(query: string, variables: Record<string, unknown>): Promise<T> {
+  const response = await fetch(`${getGitHubApiUrl().replace(/\/v3$/, "")}/graphql`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${getGitHubToken()}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`GitHub GraphQL request failed: ${response.status} ${errorText}`);
+  }
+
+  const { data, errors } = (await response.json()) as { data: T; errors?: { message: string }[] };
+  if (errors?.length) {
+    throw new Error(`GitHub GraphQL request failed: ${errors[0].message}`);
+  }
+  return data;
+}
+
+/**
+ * Create a pull request, then request reviewers, add labels and enable
+ * auto-merge as asked. Work item links are an Azure DevOps concept and are
+ * ignored here.
+ */
+export async function createGitHubPullRequest(
+  repoUrl: string,
+  sourceBranch: string,
+  title: string,
+  description: string,
+  targetBranch: string = "main",
+  options: PullRequestOptions = {}
+): Promise<PullRequestResult> {
+  const { owner, repo } = parseGitHubRepoUrl(repoUrl);
+  const { isDraft = false, reviewers = [], labels = [], autoComplete } = options;
+
+  let data: GitHubPullRequestResponse;
+  try {
+    data = await githubRequest<GitHubPullRequestResponse>(`/repos/${owner}/${repo}/pulls`, {
+      method: "POST",
+      body: JSON.stringify({
+        head: sourceBranch,
+        base: targetBranch,
+        title,
+        body: description,
+        draft: isDraft,
+      }),
+    });
+  } catch (error) {
+    throw new Error(
+      `Failed to create pull request: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  try {
+    if (reviewers.length > 0) {
+      await githubRequest(`/repos/${owner}/${repo}/pulls/${data.number}/requested_reviewers`, {
+        method: "POST",
+        body: JSON.stringify({ reviewers: reviewers.map((reviewer) => reviewer.name) }),
+      });
+    }
+
+    if (labels.length > 0) {
+      await githubRequest(`/repos/${owner}/${repo}/issues/${data.number}/labels`, {
+        method: "POST",
+        body: JSON.stringify({ labels }),
+      });
+    }
+
+    if (autoComplete) {
+      // Deleting the branch after merge is a repository setting on GitHub, not a per-PR option
+      await githubGraphQL(
+        `mutation($id: ID!, $method: PullRequestMergeMethod!) {
+          enablePullRequestAutoMerge(input: { pullRequestId: $id, mergeMethod: $method }) { clientMutationId }
+        }`,
+        { id: data.node_id, method: AUTO_MERGE_METHODS[autoComplete.mergeStrategy] }
+      );
+    }
+  } catch (error) {
+    throw new Error(
+      `Pull request #${data.number} was created, but could not be fully set up: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  return {
+    id: data.number,
+    url: data.html_url,
+    title: data.title,
+  };
+}
+
+/**
+ * Fetch PR metadata from the GitHub API, in the same shape as Azure DevOps PRs.
+ */
+export async function getGitHubPullRequest(url: string): Promise<PRInfo> {
+  const { owner, repo, prNumber } = parseGitHubPRUrl(url);
+
+  let data: GitHubPullRequestResponse;
+  try {
+    data = await githubRequest<GitHubPullRequestResponse>(`/repos/${owner}/${repo}/pulls/${prNumber}`);
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch PR #${prNumber}: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  return {
+    prId: prNumber,
+    title: data.title || "",
+    description: data.body || "",
+    author: data.user?.login || "Unknown",
+    sourceBranch: data.head?.ref || "",
+    targetBranch: data.base?.ref || "",
+    status: data.merged ? "merged" : data.state || "unknown",
+    repositoryName: repo,
+    repositoryUrl: buildGitHubRepoUrl({ owner, repo }),
+    url: data.html_url || url,
+  };
+}
+
+/**
+ * Fetch a GitHub issue as a ticket. GitHub renders the Markdown body to HTML for us.
+ */
+export async function getGitHubIssue(url: string): Promise<WorkItem> {
+  const { owner, repo, issueNumber } = parseGitHubIssueUrl(url);
+
+  let data: GitHubIssueResponse;
+  try {
+    data = await githubRequest<GitHubIssueResponse>(`/repos/${owner}/${repo}/issues/${issueNumber}`, {
+      headers: { Accept: "application/vnd.github.full+json" },
+    });
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch issue #${issueNumber}: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  return {
+    id: issueNumber,
+    source: "github",
+    title: data.title || "",
+    description: data.body_html || "",
+    state: data.state_reason === "not_planned" ? "closed (not planned)" : data.state || "",
+    type: data.type?.name || "Issue",
+    assignedTo: data.assignee?.login,
+    labels: (data.labels || []).map((label) =>
+      typeof label === "string" ? label : label.name
+    ),
+    url: data.html_url || url,
+    figmaUrl: extractFigmaUrl(data.body || ""),
+  };
+}
+
+/**
+ * Post a review as a comment on the pull request's conversation.
+ */
+export async function postGitHubReviewComment(
+  pr: PRInfo,
+  content: string
+): Promise<{ threadId: number }> {
+  const { owner, repo, prNumber } = parseGitHubPRUrl(pr.url);
+
+  try {
+    const data = await githubRequest<GitHubCommentResponse>(`/repos/${owner}/${repo}/issues/${prNumber}/comments`, {
+      method: "POST",
+      body: JSON.stringify({ body: content }),
+    });
+    return { threadId: data.id };
+  } catch (error) {
+    throw new Error(
+      `Failed to post review comment: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+// The new-side line ranges of a file's diff hunks, from its patch
+function hunkRanges(patch: string): [number, number][] {
+  return [...patch.matchAll(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/gm)]
+    .map((match): [number, number] => {
+      const start = parseInt(match[1], 10);
+      const length = match[2] === undefined ? 1 : parseInt(match[2], 10);
+      return [start, start + length - 1];
+    })
+    .filter(([start, end]) => end >= start);
+}
+
+/**
+ * The lines of each file changed by a pull request that can take a review
+ * comment: those in the diff's hunks, on the new side.
+ */
+async function getGitHubDiffLines(
+  { owner, repo }: GitHubRepo,
+  prNumber: number
+): Promise<Map<string, [number, number][]>> {
+  const files = await githubRequestAll<GitHubPullRequestFileResponse>(`/repos/${owner}/${repo}/pulls/${prNumber}/files`);
+  return new Map(files.map((file) => [file.filename, hunkRanges(file.patch ?? "")]));
+}
+
+/**
+ * Post each finding as its own review comment on the lines it is about.
+ * GitHub only accepts line comments inside the diff's hunks, so a finding
+ * on other lines (or without a file) becomes a conversation comment.
+ */
+export async function postGitHubReviewFindings(
+  pr: PRInfo,
+  findings: ReviewFindingComment[]
+): Promise<PostedFinding[]> {
+  const { owner, repo, prNumber } = parseGitHubPRUrl(pr.url);
+
+  let headSha: string;
+  let diffLines: Map<string, [number, number][]>;
+  try {
+    const [data, lines] = await Promise.all([
+      githubRequest<GitHubPullRequestResponse>(`/repos/${owner}/${repo}/pulls/${prNumber}`),
+      getGitHubDiffLines({ owner, repo }, prNumber),
+    ]);
+    headSha = data.head.sha;
+    diffLines = lines;
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch PR #${prNumber}: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  const posted: PostedFinding[] = [];
+  for (const finding of findings) {
+    const path = finding.filePath?.replace(/^\/+/, "");
+    const startLine = finding.startLine;
+    const endLine = finding.endLine ?? startLine;
+    const inDiff =
+      !!path &&
+      startLine !== null &&
+      endLine !== null &&
+      (diffLines.get(path) ?? []).some(([start, end]) => start <= startLine && endLine <= end);
+
+    try {
+      if (inDiff) {
+        const data = await githubRequest<GitHubCommentResponse>(`/repos/${owner}/${repo}/pulls/${prNumber}/comments`, {
+          method: "POST",
+          body: JSON.stringify({
+            body: formatFindingComment(finding),
+            commit_id: headSha,
+            path,
+            line: endLine,
+            side: "RIGHT",
+            ...(endLine > startLine && { start_line: startLine, start_side: "RIGHT" }),
+          }),
+        });
+        posted.push({ threadId: data.id, anchored: true });
+      } else {
+        const data = await githubRequest<GitHubCommentResponse>(`/repos/${owner}/${repo}/issues/${prNumber}/comments`, {
+          method: "POST",
+          // A suggestion means nothing outside a line comment
+          body: JSON.stringify({ body: formatFindingComment({ ...finding, suggestion: null }) }),
+        });
+        posted.push({ threadId: data.id, anchored: false });
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to post finding ${posted.length + 1} of ${findings.length} (earlier ones were posted): ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  return posted;
+}
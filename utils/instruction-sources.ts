@@ -0,0 +1,523 @@
+import { execFileSync, execSync } from "child_process";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { basename, isAbsolute, join, relative, resolve, sep } from "path";
+import { findHostingProvider } from "./git-hosting.js";
+
+const INSTRUCTION_FILE_SUFFIX = ".instructions.md";
+// How long a branch or tag is trusted to point at the commit it was resolved to
+const REF_RESOLVE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * One entry of the sources file: a repository (`url`) or a folder on this
+ * machine (`directory`), optionally narrowed to a folder inside it.
+ */
+export interface InstructionSourceConfig {
+  name?: string;
+  /** Azure DevOps or GitHub repository URL (cloned with their tokens), or any git URL */
+  url?: string;
+  directory?: string;
+  /** Folder inside the source to look in, subfolders included; default: all of it */
+  path?: string;
+  /** Branch, tag or commit SHA to pin to; default: the default branch */
+  ref?: string;
+}
+
+export type InstructionSourceKind = "azure-devops" | "github" | "git" | "local";
+
+export interface InstructionSource {
+  /** Stable id derived from the name, used by the UI to refer to the source */
+  id: string;
+  name: string;
+  kind: InstructionSourceKind;
+  /** Repository URL, or absolute directory for local sources */
+  location: string;
+  path: string;
+  ref: string | null;
+}
+
+/**
+ * A source as the UI shows it: where it points, which commit was read and
+ * why it could not be read, if it could not.
+ */
+export interface InstructionSourceStatus {
+  id: string;
+  name: string;
+  kind: InstructionSourceKind;
+  ref: string | null;
+  /** null for local directories */
+  commit: string | null;
+  error?: string;
+}
+
+export interface SharedInstructionFile {
+  sourceId: string;
+  sourceName: string;
+  filename: string;        // "playwright-dotnet.instructions.md"
+  displayName: string;     // "Playwright Dotnet"
+  path: string;            // "frontend/playwright-dotnet.instructions.md", relative to the source's path
+  /** The commit the file was read at; null for local directories */
+  commit: string | null;
+  existsInWorkspace: boolean;
+}
+
+/**
+ * What to do with a shared file whose name is already taken in the
+ * workspace: leave the workspace's file alone, swap in the shared one until
+ * the session ends, or add the shared one next to it so both apply.
+ */
+export type InstructionConflictResolution = "keep" | "replace" | "merge";
+
+export interface InstructionToCopy {
+  sourceId: string;
+  path: string;
+  /** Only looked at when the name is taken; default: keep */
+  resolution?: InstructionConflictResolution;
+}
+
+/**
+ * A workspace instruction file swapped out for a shared one, with what it
+ * held before so it can be put back.
+ */
+export interface ReplacedInstructionFile {
+  filename: string;
+  original: string;
+}
+
+export interface CopyInstructionsResult {
+  /** The requested files that made it into the workspace, and the name each was written as */
+  added: (Pick<InstructionToCopy, "sourceId" | "path"> & { filename: string })[];
+  /** Files written that were not there before, to be removed at cleanup */
+  copied: string[];
+  replaced: ReplacedInstructionFile[];
+  skipped: string[];
+}
+
+/**
+ * Format filename to display name: "playwright-dotnet.instructions.md" → "Playwright Dotnet"
+ */
+export function formatInstructionDisplayName(filename: string): string {
+  return filename
+    .replace(/\.instructions\.md$/, "")
+    .replace(/[-_]/g, " ")
+    .replace(/\b\w/g, (char) => char.toUpperCase());
+}
+
+function sourcesFilePath(): string {
+  return resolve(process.env.INSTRUCTION_SOURCES_FILE || "instruction-sources.json");
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "source";
+}
+
+function sourceKind(config: InstructionSourceConfig): InstructionSourceKind {
+  if (config.directory) {
+    return "local";
+  }
+  return findHostingProvider(config.url!)?.id ?? "git";
+}
+
+function defaultSourceName(config: InstructionSourceConfig): string {
+  if (config.directory) {
+    return basename(resolve(config.directory));
+  }
+  return config.url!.replace(/\.git$/, "").replace(/\/+$/, "").split("/").pop() || config.url!;
+}
+
+/**
+ * The configured instruction sources, read from the sources file
+ * (INSTRUCTION_SOURCES_FILE, default: instruction-sources.json). Without
+ * one, SHARED_INSTRUCTIONS_REPO is a single source with its files in
+ * /instructions. Empty when neither is set.
+ */
+export function getInstructionSources(): InstructionSource[] {
+  const file = sourcesFilePath();
+  let configs: InstructionSourceConfig[];
+
+  if (existsSync(file)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(file, "utf-8"));
+    } catch (error) {
+      throw new Error(`Invalid instruction sources file ${file}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { sources?: unknown })?.sources;
+    if (!Array.isArray(list)) {
+      throw new Error(`Invalid instruction sources file ${file}: expected a list of sources`);
+    }
+    configs = list;
+  } else if (process.env.SHARED_INSTRUCTIONS_REPO) {
+    configs = [{ url: process.env.SHARED_INSTRUCTIONS_REPO, path: "instructions" }];
+  } else {
+    return [];
+  }
+
+  const used = new Set<string>();
+  return configs.map((config, i) => {
+    if (!config || Boolean(config.url) === Boolean(config.directory)) {
+      throw new Error(`Instruction source ${i + 1} needs either a url or a directory`);
+    }
+    // The ref ends up in git commands; branch and tag names never need more than this
+    if (config.ref && !/^[\w./-]+$/.test(config.ref)) {
+      throw new Error(`Instruction source ${i + 1} has an invalid ref: ${config.ref}`);
+    }
+
+    const name = config.name?.trim() || defaultSourceName(config);
+    let id = slugify(name);
+    for (let n = 2; used.has(id); n++) {
+      id = `${slugify(name)}-${n}`;
+    }
+    used.add(id);
+
+    return {
+      id,
+      name,
+      kind: sourceKind(config),
+      location: config.directory ? resolve(config.directory) : config.url!,
+      path: (config.path ?? "").replace(/^\/+|\/+$/g, ""),
+      ref: config.ref || null,
+    };
+  });
+}
+
+function cacheRoot(): string {
+  const dataDir = process.env.DATA_DIR || join(process.cwd(), ".data");
+  return join(dataDir, "instruction-cache");
+}
+
+// Where git fetches a source from, with the environment that signs it in to a known host
+function remoteOf(source: InstructionSource): { url: string; env?: NodeJS.ProcessEnv } {
+  const provider = findHostingProvider(source.location);
+  return provider
+    ? { url: provider.getCloneUrl(source.location), env: provider.getGitEnv() }
+    : { url: source.location };
+}
+
+// git's own message, without the command line (a configured URL may carry a token)
+function gitError(source: InstructionSource, action: string, error: unknown): Error {
+  const stderr = (error as { stderr?: Buffer | string })?.stderr?.toString().trim();
+  return new Error(`Failed to ${action} instruction source "${source.name}": ${stderr || "git failed"}`);
+}
+
+const resolvedRefs = new Map<string, { commit: string; at: number }>();
+
+/**
+ * The commit a source's ref points at now. Branches and tags are asked of
+ * the remote at most every few minutes; a full SHA is taken as it is.
+ */
+function resolveCommit(source: InstructionSource, remote: { url: string; env?: NodeJS.ProcessEnv }): string {
+  if (source.ref && /^[0-9a-f]{40}$/i.test(source.ref)) {
+    return source.ref.toLowerCase();
+  }
+
+  const cached = resolvedRefs.get(source.id);
+  if (cached && Date.now() - cached.at < REF_RESOLVE_TTL_MS) {
+    return cached.commit;
+  }
+
+  let output: string;
+  try {
+    output = execFileSync("git", ["ls-remote", "--", remote.url, source.ref ?? "HEAD"], {
+      env: remote.env,
+      stdio: "pipe",
+      encoding: "utf-8",
+    });
+  } catch (error) {
+    throw gitError(source, "reach", error);
+  }
+
+  const refs = new Map(
+    output
+      .split("\n")
+      .map((line) => line.split("\t"))
+      .filter(([sha, ref]) => sha && ref)
+      .map(([sha, ref]) => [ref, sha])
+  );
+  // Tags win over branches as in git itself; an annotated tag's "^{}" entry is its commit
+  const name = source.ref ?? "HEAD";
+  const commit = [`refs/tags/${name}^{}`, `refs/tags/${name}`, `refs/heads/${name}`, name]
+    .map((ref) => refs.get(ref))
+    .find(Boolean);
+  if (!commit) {
+    throw new Error(`Instruction source "${source.name}" has no branch or tag named ${name}`);
+  }
+
+  resolvedRefs.set(source.id, { commit, at: Date.now() });
+  return commit;
+}
+
+/**
+ * A directory holding the source's files at its current commit. Repositories
+ * are fetched once per commit into the cache (DATA_DIR/instruction-cache),
+ * without .git so no credentials are kept; older commits are removed.
+ */
+function checkoutSource(source: InstructionSource): { root: string; commit: string | null } {
+  if (source.kind === "local") {
+    if (!existsSync(source.location)) {
+      throw new Error(`Instruction source "${source.name}": directory not found: ${source.location}`);
+    }
+    return { root: source.location, commit: null };
+  }
+
+  const remote = remoteOf(source);
+  const commit = resolveCommit(source, remote);
+  const sourceCache = join(cacheRoot(), source.id);
+  const root = join(sourceCache, commit);
+  if (existsSync(root)) {
+    return { root, commit };
+  }
+
+  const staging = `${root}.tmp-${process.pid}`;
+  rmSync(staging, { recursive: true, force: true });
+  mkdirSync(staging, { recursive: true });
+  let fetched: string;
+  try {
+    const options = { cwd: staging, env: remote.env, stdio: "pipe" as const, encoding: "utf-8" as const };
+    execSync("git init -q", options);
+    // By SHA gets exactly the resolved commit; servers that refuse that still serve the ref's tip
+    try {
+      execFileSync("git", ["fetch", "-q", "--depth", "1", "--", remote.url, commit], options);
+    } catch {
+      execFileSync("git", ["fetch", "-q", "--depth", "1", "--", remote.url, source.ref ?? "HEAD"], options);
+    }
+    execSync("git checkout -q FETCH_HEAD", options);
+    fetched = execSync("git rev-parse HEAD", options).trim();
+  } catch (error) {
+    rmSync(staging, { recursive: true, force: true });
+    throw gitError(source, "fetch", error);
+  }
+
+  // The ref may have moved between ls-remote and fetch; name the files after what was fetched
+  if (fetched !== commit) {
+    resolvedRefs.set(source.id, { commit: fetched, at: Date.now() });
+  }
+  rmSync(join(staging, ".git"), { recursive: true, force: true });
+  for (const old of readdirSync(sourceCache)) {
+    if (old !== basename(staging)) {
+      rmSync(join(sourceCache, old), { recursive: true, force: true });
+    }
+  }
+  renameSync(staging, join(sourceCache, fetched));
+  return { root: join(sourceCache, fetched), commit: fetched };
+}
+
+function findInstructionFiles(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.name.startsWith(".")) {
+      return [];
+    }
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findInstructionFiles(fullPath);
+    }
+    return entry.isFile() && entry.name.endsWith(INSTRUCTION_FILE_SUFFIX) ? [fullPath] : [];
+  });
+}
+
+/**
+ * Every instruction file of every source, subfolders included. A source
+ * that cannot be read is reported in `sources` with its error and does not
+ * hide the others.
+ */
+export async function listSharedInstructions(
+  workspacePath?: string
+): Promise<{ instructions: SharedInstructionFile[]; sources: InstructionSourceStatus[] }> {
+  const instructions: SharedInstructionFile[] = [];
+  const sources: InstructionSourceStatus[] = [];
+
+  for (const source of getInstructionSources()) {
+    const status: InstructionSourceStatus = {
+      id: source.id,
+      name: source.name,
+      kind: source.kind,
+      ref: source.ref,
+      commit: null,
+    };
+    sources.push(status);
+
+    try {
+      const { root, commit } = checkoutSource(source);
+      status.commit = commit;
+      const base = join(root, source.path);
+      for (const fullPath of findInstructionFiles(base).sort()) {
+        const filename = basename(fullPath);
+        instructions.push({
+          sourceId: source.id,
+          sourceName: source.name,
+          filename,
+          displayName: formatInstructionDisplayName(filename),
+          path: relative(base, fullPath).split(sep).join("/"),
+          commit,
+          existsInWorkspace:
+            !!workspacePath && existsSync(join(workspacePath, ".github", "instructions", filename)),
+        });
+      }
+    } catch (error) {
+      status.error = error instanceof Error ? error.message : "Unknown error";
+    }
+  }
+
+  return { instructions, sources };
+}
+
+/**
+ * Content of one instruction file, from the source's cached checkout.
+ */
+export async function fetchInstructionFileContent(sourceId: string, filePath: string): Promise<string> {
+  const source = getInstructionSources().find((candidate) => candidate.id === sourceId);
+  if (!source) {
+    throw new Error(`Unknown instruction source: ${sourceId}`);
+  }
+
+  const { root } = checkoutSource(source);
+  const base = join(root, source.path);
+  const fullPath = resolve(base, filePath);
+  // Only files inside the source, never ../ out of it
+  if (isAbsolute(relative(base, fullPath)) || relative(base, fullPath).startsWith("..")) {
+    throw new Error(`Invalid instruction file path: ${filePath}`);
+  }
+  if (!fullPath.endsWith(INSTRUCTION_FILE_SUFFIX) || !existsSync(fullPath)) {
+    throw new Error(`Instruction file not found in "${source.name}": ${filePath}`);
+  }
+  return readFileSync(fullPath, "utf-8");
+}
+
+function workspaceInstructionsDir(workspacePath: string): string {
+  return join(workspacePath, ".github", "instructions");
+}
+
+/**
+ * The workspace's own copy of a shared file, by name; null when the name
+ * is free.
+ */
+export function readWorkspaceInstruction(workspacePath: string, filename: string): string | null {
+  const filePath = join(workspaceInstructionsDir(workspacePath), basename(filename));
+  return existsSync(filePath) ? readFileSync(filePath, "utf-8") : null;
+}
+
+/**
+ * A unified diff from the workspace's copy to the shared one, hunks only;
+ * empty when they are the same.
+ */
+export function diffInstructionContent(workspaceContent: string, sharedContent: string): string {
+  const dir = mkdtempSync(join(tmpdir(), "instruction-diff-"));
+  try {
+    writeFileSync(join(dir, "workspace"), workspaceContent, "utf-8");
+    writeFileSync(join(dir, "shared"), sharedContent, "utf-8");
+    let output: string;
+    try {
+      output = execSync("git diff --no-index --no-color workspace shared", {
+        cwd: dir,
+        stdio: "pipe",
+        encoding: "utf-8",
+      });
+    } catch (error) {
+      // Exit code 1 just means the files differ
+      output = (error as { stdout?: string }).stdout ?? "";
+    }
+    const firstHunk = output.search(/^@@ /m);
+    return firstHunk === -1 ? "" : output.substring(firstHunk);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// "typescript.instructions.md" from source "team" → "typescript.team.instructions.md"
+function mergedFilename(filename: string, sourceId: string): string {
+  return `${filename.slice(0, -INSTRUCTION_FILE_SUFFIX.length)}.${sourceId}${INSTRUCTION_FILE_SUFFIX}`;
+}
+
+/**
+ * Copy selected instruction files to the workspace. Files from subfolders
+ * land directly in .github/instructions/. When the name is taken, the
+ * file's resolution decides: skip it (keep), overwrite it and remember the
+ * original (replace), or write it under a name of its own (merge).
+ */
+export async function copyInstructionsToWorkspace(
+  workspacePath: string,
+  files: InstructionToCopy[]
+): Promise<CopyInstructionsResult> {
+  const instructionsDir = workspaceInstructionsDir(workspacePath);
+
+  // Ensure .github/instructions directory exists
+  if (!existsSync(instructionsDir)) {
+    mkdirSync(instructionsDir, { recursive: true });
+  }
+
+  const result: CopyInstructionsResult = { added: [], copied: [], replaced: [], skipped: [] };
+
+  for (const file of files) {
+    const filename = basename(file.path);
+    const original = readWorkspaceInstruction(workspacePath, filename);
+    const resolution = original === null ? null : file.resolution ?? "keep";
+    const targetName = resolution === "merge" ? mergedFilename(filename, file.sourceId) : filename;
+    const targetPath = join(instructionsDir, targetName);
+
+    if (resolution === "keep" || (resolution === "merge" && existsSync(targetPath))) {
+      result.skipped.push(targetName);
+      continue;
+    }
+
+    try {
+      const content = await fetchInstructionFileContent(file.sourceId, file.path);
+      writeFileSync(targetPath, content, "utf-8");
+      result.added.push({ sourceId: file.sourceId, path: file.path, filename: targetName });
+      if (resolution === "replace") {
+        result.replaced.push({ filename, original: original! });
+      } else {
+        result.copied.push(targetName);
+      }
+    } catch (error) {
+      console.error(`Failed to copy ${filename}: ${error instanceof Error ? error.message : "Unknown error"}`);
+      result.skipped.push(targetName);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Remove temporary instruction files and put back the ones that were
+ * replaced
+ */
+export function cleanupTemporaryInstructions(
+  workspacePath: string,
+  files: string[],
+  replaced: ReplacedInstructionFile[] = []
+): void {
+  const instructionsDir = workspaceInstructionsDir(workspacePath);
+
+  for (const filename of files) {
+    const filePath = join(instructionsDir, filename);
+    try {
+      if (existsSync(filePath)) {
+        unlinkSync(filePath);
+      }
+    } catch (error) {
+      // Silent failure - cleanup errors don't block user
+      console.error(`Failed to cleanup ${filename}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  for (const { filename, original } of replaced) {
+    try {
+      writeFileSync(join(instructionsDir, filename), original, "utf-8");
+    } catch (error) {
+      console.error(`Failed to restore ${filename}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+}
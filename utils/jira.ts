@@ -0,0 +1,204 @@
+import { extractFigmaUrl, type WorkItem } from "./azure-devops.js";
+import { escapeHtml, safeHref } from "./markdown.js";
+
+/**
+ * A node of an Atlassian Document Format (ADF) document, the JSON format
+ * Jira Cloud uses for rich text fields.
+ */
+interface AdfNode {
+  type: string;
+  text?: string;
+  content?: AdfNode[];
+  attrs?: Record<string, unknown>;
+  marks?: { type: string; attrs?: Record<string, unknown> }[];
+}
+
+// The parts of the issue response read here
+interface JiraIssueResponse {
+  key?: string;
+  fields?: {
+    summary?: string;
+    description?: AdfNode | null;
+    status?: { name: string } | null;
+    issuetype?: { name: string } | null;
+    assignee?: { displayName: string } | null;
+    labels?: string[];
+  };
+}
+
+// A string attribute of a node or mark; anything else reads as empty
+function textAttr(attrs: Record<string, unknown> | undefined, name: string): string {
+  const value = attrs?.[name];
+  return typeof value === "string" ? value : "";
+}
+
+export function isJiraIssueUrl(url: string): boolean {
+  return /\/browse\/[A-Z][A-Z0-9_]*-\d+/.test(url) || /[?&]selectedIssue=[A-Z][A-Z0-9_]*-\d+/.test(url);
+}
+
+// Where the Jira credentials may be sent: JIRA_BASE_URL, else any Jira Cloud site
+function isJiraSite(origin: string): boolean {
+  const configured = process.env.JIRA_BASE_URL;
+  if (configured) {
+    return origin === new URL(configured).origin;
+  }
+  return /^https:\/\/[a-z0-9-]+\.atlassian\.net$/i.test(origin);
+}
+
+/**
+ * Parse a Jira issue URL into the site and issue key. Only URLs on the
+ * configured Jira site are accepted, since the Jira token is sent to it.
+ * Formats: https://{site}.atlassian.net/browse/{KEY-123}
+ *          https://{site}.atlassian.net/jira/software/projects/{KEY}/boards/1?selectedIssue={KEY-123}
+ */
+export function parseJiraIssueUrl(url: string): { baseUrl: string; issueKey: string } {
+  const match = url.match(/^https?:\/\/[^/]+.*?(?:\/browse\/|[?&]selectedIssue=)([A-Z][A-Z0-9_]*-\d+)/);
+  if (!match) {
+    throw new Error(`Invalid Jira issue URL. Expected format: https://{site}.atlassian.net/browse/{KEY-123}`);
+  }
+
+  const { origin } = new URL(url);
+  if (!isJiraSite(origin)) {
+    throw new Error(
+      `Jira issue URL is not on ${process.env.JIRA_BASE_URL ?? "a Jira Cloud site (https://{site}.atlassian.net)"}: ${url}`
+    );
+  }
+  return { baseUrl: origin, issueKey: match[1] };
+}
+
+function renderMarks(text: string, marks: AdfNode["marks"] = []): string {
+  let html = escapeHtml(text);
+  for (const mark of marks) {
+    switch (mark.type) {
+      case "strong":
+        html = `<strong>${html}</strong>`;
+        break;
+      case "em":
+        html = `<em>${html}</em>`;
+        break;
+      case "strike":
+        html = `<del>${html}</del>`;
+        break;
+      case "code":
+        html = `<code>${html}</code>`;
+        break;
+      case "underline":
+        html = `<u>${html}</u>`;
+        break;
+      case "link": {
+        const href = safeHref(textAttr(mark.attrs, "href"));
+        if (href) {
+          html = `<a href="${escapeHtml(href)}">${html}</a>`;
+        }
+        break;
+      }
+    }
+  }
+  return html;
+}
+
+/**
+ * Render an ADF document to HTML. Unknown node types fall back to their
+ * children, so content is never silently dropped.
+ */
+export function adfToHtml(node: AdfNode | null | undefined): string {
+  if (!node) {
+    return "";
+  }
+
+  const children = (node.content ?? []).map(adfToHtml).join("");
+
+  switch (node.type) {
+    case "doc":
+      return children;
+    case "text":
+      return renderMarks(node.text ?? "", node.marks);
+    case "paragraph":
+      return `<p>${children}</p>`;
+    case "heading": {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      return `<h${level}>${children}</h${level}>`;
+    }
+    case "bulletList":
+      return `<ul>${children}</ul>`;
+    case "orderedList":
+      return `<ol>${children}</ol>`;
+    case "listItem":
+      return `<li>${children}</li>`;
+    case "taskList":
+      return `<ul>${children}</ul>`;
+    case "taskItem":
+      return `<li>${node.attrs?.state === "DONE" ? "☑" : "☐"} ${children}</li>`;
+    case "blockquote":
+      return `<blockquote>${children}</blockquote>`;
+    case "codeBlock":
+      return `<pre><code>${(node.content ?? []).map((child) => escapeHtml(child.text ?? "")).join("")}</code></pre>`;
+    case "rule":
+      return "<hr>";
+    case "hardBreak":
+      return "<br>";
+    case "mention":
+      return escapeHtml(textAttr(node.attrs, "text") || "@someone");
+    case "emoji":
+      return escapeHtml(textAttr(node.attrs, "text") || textAttr(node.attrs, "shortName"));
+    case "inlineCard":
+    case "blockCard": {
+      const href = safeHref(textAttr(node.attrs, "url"));
+      return href ? `<a href="${escapeHtml(href)}">${escapeHtml(href)}</a>` : "";
+    }
+    case "panel":
+      return `<div>${children}</div>`;
+    case "table":
+      return `<table>${children}</table>`;
+    case "tableRow":
+      return `<tr>${children}</tr>`;
+    case "tableHeader":
+      return `<th>${children}</th>`;
+    case "tableCell":
+      return `<td>${children}</td>`;
+    default:
+      return children;
+  }
+}
+
+/**
+ * Fetch a Jira Cloud issue. Authenticates with JIRA_EMAIL and JIRA_API_TOKEN.
+ */
+export async function getJiraIssue(url: string): Promise<WorkItem> {
+  const email = process.env.JIRA_EMAIL;
+  const token = process.env.JIRA_API_TOKEN;
+  if (!email || !token) {
+    throw new Error("JIRA_EMAIL and JIRA_API_TOKEN environment variables must be set");
+  }
+
+  const { baseUrl, issueKey } = parseJiraIssueUrl(url);
+  const apiUrl = `${baseUrl}/rest/api/3/issue/${issueKey}?fields=summary,description,status,issuetype,assignee,labels`;
+
+  const response = await fetch(apiUrl, {
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${email}:${token}`).toString("base64")}`,
+      Accept: "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Jira issue ${issueKey}: ${response.status} ${response.statusText}`);
+  }
+
+  const data = (await response.json()) as JiraIssueResponse;
+  const fields = data.fields ?? {};
+  const description = adfToHtml(fields.description);
+
+  return {
+    id: data.key ?? issueKey,
+    source: "jira",
+    title: fields.summary ?? "",
+    description,
+    state: fields.status?.name ?? "",
+    type: fields.issuetype?.name ?? "",
+    assignedTo: fields.assignee?.displayName,
+    labels: fields.labels ?? [],
+    url: `${baseUrl}/browse/${data.key ?? issueKey}`,
+    figmaUrl: extractFigmaUrl(description),
+  };
+}
@@ -0,0 +1,95 @@
+import { extractFigmaUrl, type WorkItem } from "./azure-devops.js";
+import { markdownToHtml } from "./markdown.js";
+
+const LINEAR_API_URL = "https://api.linear.app/graphql";
+
+const ISSUE_QUERY = `query Issue($id: String!) {
+  issue(id: $id) {
+    identifier
+    title
+    description
+    url
+    state { name }
+    assignee { name }
+    labels { nodes { name } }
+  }
+}`;
+
+// The parts of the GraphQL response read here
+interface LinearIssueResponse {
+  data?: {
+    issue: {
+      identifier: string;
+      title: string | null;
+      description: string | null;
+      url: string | null;
+      state: { name: string } | null;
+      assignee: { name: string } | null;
+      labels: { nodes: { name: string }[] } | null;
+    } | null;
+  } | null;
+  errors?: { message: string }[];
+}
+
+export function isLinearIssueUrl(url: string): boolean {
+  return /linear\.app\/[^/]+\/issue\/[A-Za-z0-9]+-\d+/.test(url);
+}
+
+/**
+ * Format: https://linear.app/{workspace}/issue/{TEAM-123}/{optional-slug}
+ */
+export function parseLinearIssueUrl(url: string): { identifier: string } {
+  const match = url.match(/linear\.app\/[^/]+\/issue\/([A-Za-z0-9]+-\d+)/);
+  if (!match) {
+    throw new Error(`Invalid Linear issue URL. Expected format: https://linear.app/{workspace}/issue/{TEAM-123}`);
+  }
+  return { identifier: match[1].toUpperCase() };
+}
+
+/**
+ * Fetch a Linear issue through the GraphQL API. Authenticates with LINEAR_API_KEY.
+ */
+export async function getLinearIssue(url: string): Promise<WorkItem> {
+  const apiKey = process.env.LINEAR_API_KEY;
+  if (!apiKey) {
+    throw new Error("LINEAR_API_KEY environment variable is not set");
+  }
+
+  const { identifier } = parseLinearIssueUrl(url);
+
+  const response = await fetch(LINEAR_API_URL, {
+    method: "POST",
+    headers: {
+      Authorization: apiKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ query: ISSUE_QUERY, variables: { id: identifier } }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Linear issue ${identifier}: ${response.status} ${response.statusText}`);
+  }
+
+  const { data, errors } = (await response.json()) as LinearIssueResponse;
+  const issue = data?.issue;
+  if (!issue) {
+    const reason = errors?.[0]?.message ?? "not found";
+    throw new Error(`Failed to fetch Linear issue ${identifier}: ${reason}`);
+  }
+
+  const markdown = issue.description ?? "";
+
+  return {
+    id: issue.identifier,
+    source: "linear",
+    title: issue.title ?? "",
+    description: markdownToHtml(markdown),
+    state: issue.state?.name ?? "",
+    // Linear has no issue types
+    type: "Issue",
+    assignedTo: issue.assignee?.name,
+    labels: (issue.labels?.nodes ?? []).map((label) => label.name),
+    url: issue.url ?? url,
+    figmaUrl: extractFigmaUrl(markdown),
+  };
+}
@@ -0,0 +1,51 @@
+import {
+  getWorkItem,
+  isAzureDevOpsWorkItemUrl,
+  parseWorkItemUrl,
+  type TicketSourceId,
+  type WorkItem,
+} from "./azure-devops.js";
+import { getGitHubIssue, isGitHubIssueUrl } from "./github.js";
+import { getJiraIssue, isJiraIssueUrl } from "./jira.js";
+import { getLinearIssue, isLinearIssueUrl } from "./linear.js";
+import { getAdoPat } from "./ado-credentials.js";
+
+/**
+ * A tracker tickets can be fetched from. Every source returns the same
+ * WorkItem shape, with the description as HTML.
+ */
+export interface TicketSource {
+  id: TicketSourceId;
+  name: string;
+  matchesUrl(url: string): boolean;
+  fetchTicket(url: string): Promise<WorkItem>;
+}
+
+const azureDevOpsSource: TicketSource = {
+  id: "azure-devops",
+  name: "Azure DevOps",
+  matchesUrl: isAzureDevOpsWorkItemUrl,
+  fetchTicket: async (url) => {
+    const pat = getAdoPat();
+    const { organization, project, workItemId } = parseWorkItemUrl(url);
+    return getWorkItem({ organization, project, pat }, workItemId);
+  },
+};
+
+const ticketSources: TicketSource[] = [
+  azureDevOpsSource,
+  { id: "github", name: "GitHub Issues", matchesUrl: isGitHubIssueUrl, fetchTicket: getGitHubIssue },
+  { id: "linear", name: "Linear", matchesUrl: isLinearIssueUrl, fetchTicket: getLinearIssue },
+  // Last: Jira sites can live on any host, so its URL check is the loosest
+  { id: "jira", name: "Jira", matchesUrl: isJiraIssueUrl, fetchTicket: getJiraIssue },
+];
+
+export function getTicketSource(url: string): TicketSource {
+  const source = ticketSources.find((candidate) => candidate.matchesUrl(url));
+  if (!source) {
+    throw new Error(
+      `Unsupported ticket URL: ${url}. Supported sources: ${ticketSources.map((s) => s.name).join(", ")}`
+    );
+  }
+  return source;
+}